@@ -0,0 +1,148 @@
+import {
+  buildHistoryJsonDocument,
+  filterAuditEntries,
+  parseAuditLine,
+  parseHistoryTime,
+  parseKillTrigger,
+} from "../audit-log";
+import type { AuditEntry } from "../types";
+
+const entry = (
+  timestamp: string,
+  extra: Partial<AuditEntry> = {}
+): AuditEntry => ({
+  timestamp,
+  port: 5432,
+  protocol: "tcp",
+  pid: 999,
+  processName: "postgres",
+  command: "postgres -D /data",
+  project: "billing-api",
+  user: "alice",
+  processUser: "postgres",
+  signal: "SIGTERM",
+  method: "graceful",
+  success: true,
+  error: null,
+  trigger: "manual",
+  ...extra,
+});
+
+describe("parseKillTrigger", () => {
+  it("accepts known triggers case-insensitively", () => {
+    expect(parseKillTrigger("Auto")).toBe("auto");
+    expect(parseKillTrigger(" range ")).toBe("range");
+  });
+
+  it("rejects anything else", () => {
+    expect(parseKillTrigger("cron")).toBeNull();
+  });
+});
+
+describe("parseHistoryTime", () => {
+  const now = new Date(2026, 2, 14, 15, 30);
+
+  it("spans whole days for today, yesterday and dates", () => {
+    expect(parseHistoryTime("today", now)).toEqual({
+      start: new Date(2026, 2, 14),
+      end: new Date(2026, 2, 15),
+    });
+    expect(parseHistoryTime("Yesterday", now)).toEqual({
+      start: new Date(2026, 2, 13),
+      end: new Date(2026, 2, 14),
+    });
+    expect(parseHistoryTime("2026-03-01", now)).toEqual({
+      start: new Date(2026, 2, 1),
+      end: new Date(2026, 2, 2),
+    });
+  });
+
+  it("treats ages as instants before now", () => {
+    expect(parseHistoryTime("30m", now)?.start).toEqual(new Date(2026, 2, 14, 15, 0));
+    expect(parseHistoryTime("2d", now)?.start).toEqual(new Date(2026, 2, 12, 15, 30));
+    expect(parseHistoryTime("1w", now)?.end).toEqual(new Date(2026, 2, 7, 15, 30));
+  });
+
+  it("accepts ISO date-times", () => {
+    expect(parseHistoryTime("2026-03-01T10:00:00Z", now)?.start).toEqual(
+      new Date("2026-03-01T10:00:00Z")
+    );
+  });
+
+  it("rejects invalid values", () => {
+    expect(parseHistoryTime("last tuesday", now)).toBeNull();
+    expect(parseHistoryTime("2026-02-30", now)).toBeNull();
+    expect(parseHistoryTime("7", now)).toBeNull();
+    expect(parseHistoryTime("", now)).toBeNull();
+  });
+});
+
+describe("parseAuditLine", () => {
+  it("parses an entry", () => {
+    const e = entry("2026-03-14T10:00:00.000Z");
+    expect(parseAuditLine(JSON.stringify(e))).toEqual(e);
+  });
+
+  it("skips blank, truncated and foreign lines", () => {
+    expect(parseAuditLine("")).toBeNull();
+    expect(parseAuditLine('{"timestamp":"2026-03-14T10:00')).toBeNull();
+    expect(parseAuditLine('{"hello":"world"}')).toBeNull();
+    expect(parseAuditLine(JSON.stringify({ ...entry("2026-03-14"), trigger: "cron" }))).toBeNull();
+  });
+});
+
+describe("filterAuditEntries", () => {
+  const entries = [
+    entry("2026-03-10T10:00:00.000Z"),
+    entry("2026-03-12T10:00:00.000Z", { port: 3000, project: "web", trigger: "auto" }),
+    entry("2026-03-14T10:00:00.000Z", { project: null }),
+  ];
+
+  it("returns everything newest first without filters", () => {
+    expect(filterAuditEntries(entries, {}).map((e) => e.timestamp)).toEqual([
+      "2026-03-14T10:00:00.000Z",
+      "2026-03-12T10:00:00.000Z",
+      "2026-03-10T10:00:00.000Z",
+    ]);
+  });
+
+  it("filters by port, project substring and trigger", () => {
+    expect(filterAuditEntries(entries, { port: 3000 })).toHaveLength(1);
+    expect(filterAuditEntries(entries, { project: "BILLING" })).toEqual([entries[0]]);
+    expect(filterAuditEntries(entries, { trigger: "auto" })).toEqual([entries[1]]);
+  });
+
+  it("filters by time, with until exclusive", () => {
+    expect(
+      filterAuditEntries(entries, {
+        since: new Date("2026-03-12T10:00:00.000Z"),
+        until: new Date("2026-03-14T10:00:00.000Z"),
+      })
+    ).toEqual([entries[1]]);
+  });
+});
+
+describe("buildHistoryJsonDocument", () => {
+  it("reports filters, the total and limited entries", () => {
+    const entries = [entry("2026-03-14T10:00:00.000Z"), entry("2026-03-13T10:00:00.000Z")];
+
+    const doc = buildHistoryJsonDocument(
+      entries,
+      { port: 5432, since: new Date("2026-03-01T00:00:00.000Z") },
+      1
+    );
+
+    expect(doc).toEqual({
+      schemaVersion: "1",
+      filters: {
+        port: 5432,
+        project: null,
+        since: "2026-03-01T00:00:00.000Z",
+        until: null,
+        trigger: null,
+      },
+      total: 2,
+      entries: [entries[0]],
+    });
+  });
+});
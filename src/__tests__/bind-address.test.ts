@@ -0,0 +1,99 @@
+import {
+  addBindAddress,
+  formatBindAddress,
+  isExposed,
+  isLoopbackAddress,
+  isWildcardAddress,
+  parseListenAddress,
+} from "../bind-address";
+import type { ProcessInfo } from "../types";
+
+describe("parseListenAddress", () => {
+  it("parses IPv4, bracketed IPv6 and wildcard addresses", () => {
+    expect(parseListenAddress("127.0.0.1:3000")).toEqual({
+      address: "127.0.0.1",
+      family: "ipv4",
+      port: 3000,
+    });
+    expect(parseListenAddress("[::1]:3000")).toEqual({
+      address: "::1",
+      family: "ipv6",
+      port: 3000,
+    });
+    expect(parseListenAddress("*:8080")).toEqual({
+      address: "*",
+      family: "ipv4",
+      port: 8080,
+    });
+    expect(parseListenAddress("*:8080", "ipv6")?.family).toBe("ipv6");
+  });
+
+  it("handles netstat IPv6 forms and interface suffixes", () => {
+    expect(parseListenAddress(":::3000")).toMatchObject({ address: "::", family: "ipv6" });
+    expect(parseListenAddress("::1:3000")).toMatchObject({ address: "::1", port: 3000 });
+    expect(parseListenAddress("127.0.0.53%lo:53")).toMatchObject({
+      address: "127.0.0.53",
+      port: 53,
+    });
+    expect(parseListenAddress("[fe80::1%eth0]:3000")).toMatchObject({
+      address: "fe80::1",
+      family: "ipv6",
+    });
+  });
+
+  it("returns null without a port", () => {
+    expect(parseListenAddress("127.0.0.1")).toBeNull();
+    expect(parseListenAddress(":3000")).toBeNull();
+    expect(parseListenAddress("")).toBeNull();
+  });
+});
+
+describe("address classification", () => {
+  it("recognises wildcard and loopback addresses", () => {
+    expect(["*", "0.0.0.0", "::"].every(isWildcardAddress)).toBe(true);
+    expect(isWildcardAddress("127.0.0.1")).toBe(false);
+    expect(["127.0.0.1", "127.0.0.53", "::1", "::ffff:127.0.0.1"].every(isLoopbackAddress)).toBe(true);
+    expect(isLoopbackAddress("192.168.1.5")).toBe(false);
+  });
+
+  it("treats anything beyond loopback as exposed", () => {
+    const base: ProcessInfo = { pid: 1, port: 3000, processName: "node", command: "node" };
+
+    expect(isExposed(base)).toBe(false);
+    expect(
+      isExposed({ ...base, addresses: [{ address: "127.0.0.1", family: "ipv4" }] })
+    ).toBe(false);
+    expect(
+      isExposed({
+        ...base,
+        addresses: [
+          { address: "127.0.0.1", family: "ipv4" },
+          { address: "::", family: "ipv6" },
+        ],
+      })
+    ).toBe(true);
+    expect(
+      isExposed({ ...base, addresses: [{ address: "192.168.1.5", family: "ipv4" }] })
+    ).toBe(true);
+  });
+});
+
+describe("formatBindAddress / addBindAddress", () => {
+  it("brackets IPv6 addresses except the wildcard", () => {
+    expect(formatBindAddress({ address: "::1", family: "ipv6" })).toBe("[::1]");
+    expect(formatBindAddress({ address: "*", family: "ipv6" })).toBe("*");
+    expect(formatBindAddress({ address: "0.0.0.0", family: "ipv4" })).toBe("0.0.0.0");
+  });
+
+  it("records each address once", () => {
+    const info: ProcessInfo = { pid: 1, port: 3000, processName: "node", command: "node" };
+    addBindAddress(info, { address: "::", family: "ipv6" });
+    addBindAddress(info, { address: "::", family: "ipv6" });
+    addBindAddress(info, { address: "0.0.0.0", family: "ipv4" });
+
+    expect(info.addresses).toEqual([
+      { address: "::", family: "ipv6" },
+      { address: "0.0.0.0", family: "ipv4" },
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import path from "path";
+import {
+  ReadOnlyError,
+  configArgumentsFrom,
+  describeConfigSource,
+  resolveConfigLocation,
+} from "../config-location";
+import { InvalidInputError } from "../exit-codes";
+
+const home = "/home/alice";
+
+const resolve = (
+  env: NodeJS.ProcessEnv = {},
+  extra: {
+    configFlag?: string;
+    readOnlyFlag?: boolean;
+    legacy?: boolean;
+    platform?: NodeJS.Platform;
+  } = {}
+) =>
+  resolveConfigLocation({
+    configFlag: extra.configFlag,
+    readOnlyFlag: extra.readOnlyFlag,
+    env,
+    platform: extra.platform ?? "linux",
+    homeDir: home,
+    exists: () => extra.legacy ?? false,
+  });
+
+describe("resolveConfigLocation", () => {
+  it("uses XDG base directories on Linux", () => {
+    expect(resolve()).toEqual({
+      configPath: "/home/alice/.config/zkill/config.json",
+      source: "XDG",
+      dataDir: "/home/alice/.local/share/zkill",
+      readOnly: false,
+      readOnlySource: null,
+    });
+    expect(
+      resolve({ XDG_CONFIG_HOME: "/xdg/config", XDG_DATA_HOME: "/xdg/data" })
+    ).toMatchObject({ configPath: "/xdg/config/zkill/config.json", dataDir: "/xdg/data/zkill" });
+  });
+
+  it("ignores relative XDG variables", () => {
+    expect(resolve({ XDG_CONFIG_HOME: "config" }).configPath).toBe(
+      "/home/alice/.config/zkill/config.json"
+    );
+  });
+
+  it("keeps an existing ~/.zkill, and uses it off Linux", () => {
+    const legacy = { configPath: "/home/alice/.zkill/config.json", source: "default" };
+
+    expect(resolve({}, { legacy: true })).toMatchObject(legacy);
+    expect(resolve({}, { platform: "darwin" })).toMatchObject({
+      ...legacy,
+      dataDir: "/home/alice/.zkill",
+    });
+  });
+
+  it("puts everything under ZKILL_HOME", () => {
+    expect(resolve({ ZKILL_HOME: "/ci/zkill" })).toMatchObject({
+      configPath: "/ci/zkill/config.json",
+      source: "ZKILL_HOME",
+      dataDir: "/ci/zkill",
+    });
+  });
+
+  it("takes the config file from --config, then ZKILL_CONFIG", () => {
+    const env = { ZKILL_CONFIG: "/etc/zkill.json", ZKILL_HOME: "/ci/zkill" };
+
+    expect(resolve(env)).toMatchObject({
+      configPath: "/etc/zkill.json",
+      source: "ZKILL_CONFIG",
+      dataDir: "/ci/zkill",
+    });
+    expect(resolve(env, { configFlag: "zkill.json" })).toMatchObject({
+      configPath: path.resolve("zkill.json"),
+      source: "--config",
+    });
+  });
+
+  it("turns on read-only mode from the flag or ZKILL_READ_ONLY", () => {
+    expect(resolve({}, { readOnlyFlag: true })).toMatchObject({
+      readOnly: true,
+      readOnlySource: "--read-only",
+    });
+    expect(resolve({ ZKILL_READ_ONLY: "TRUE" }).readOnlySource).toBe("ZKILL_READ_ONLY");
+    expect(resolve({ ZKILL_READ_ONLY: "0" }).readOnly).toBe(false);
+  });
+});
+
+describe("describeConfigSource", () => {
+  it("names environment variables the way they are set", () => {
+    expect(describeConfigSource("ZKILL_HOME")).toBe("$ZKILL_HOME");
+    expect(describeConfigSource("XDG")).toBe("XDG base directory");
+  });
+});
+
+describe("configArgumentsFrom", () => {
+  it("finds --config and --read-only anywhere before --", () => {
+    expect(configArgumentsFrom(["scan", "--config", "a.json", "--read-only"])).toEqual({
+      configFlag: "a.json",
+      readOnlyFlag: true,
+    });
+    expect(configArgumentsFrom(["--config=b.json", "3000"])).toEqual({
+      configFlag: "b.json",
+      readOnlyFlag: false,
+    });
+    expect(configArgumentsFrom(["--", "--read-only"]).readOnlyFlag).toBe(false);
+  });
+});
+
+describe("ReadOnlyError", () => {
+  it("is an input error", () => {
+    expect(new ReadOnlyError("/x/config.json")).toBeInstanceOf(InvalidInputError);
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  CONFIG_MIGRATIONS,
+  CONFIG_SCHEMA_VERSION,
+  emptyRepairReport,
+  migrateAndRepairConfig,
+  needsRepair,
+} from "../config-schema";
+import { DEFAULT_SETTINGS } from "../config-settings";
+
+const now = new Date("2026-03-01T12:00:00.000Z");
+
+const mapping = (extra: Record<string, unknown> = {}) => ({
+  port: 3000,
+  projectName: "shop",
+  projectPath: "/work/shop",
+  firstSeen: "2026-01-01T00:00:00.000Z",
+  lastUsed: "2026-02-01T00:00:00.000Z",
+  useCount: 4,
+  autoKill: true,
+  ...extra,
+});
+
+const current = (extra: Record<string, unknown> = {}) => ({
+  version: CONFIG_SCHEMA_VERSION,
+  portMappings: [],
+  ...DEFAULT_SETTINGS,
+  protections: [],
+  ...extra,
+});
+
+describe("CONFIG_MIGRATIONS", () => {
+  it("runs in order up to the current schema version", () => {
+    const versions = CONFIG_MIGRATIONS.map((m) => m.version);
+
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(versions[versions.length - 1]).toBe(CONFIG_SCHEMA_VERSION);
+  });
+});
+
+describe("migrateAndRepairConfig", () => {
+  it("leaves a current, valid config alone", () => {
+    const { config, report } = migrateAndRepairConfig(
+      current({ portMappings: [mapping()], protections: [{ kind: "port", value: "5432" }] }),
+      now
+    );
+
+    expect(report).toEqual(emptyRepairReport());
+    expect(needsRepair(report)).toBe(false);
+    expect(config.portMappings).toEqual([
+      {
+        ...mapping(),
+        firstSeen: new Date("2026-01-01T00:00:00.000Z"),
+        lastUsed: new Date("2026-02-01T00:00:00.000Z"),
+      },
+    ]);
+  });
+
+  it("migrates an unversioned file through every step", () => {
+    const { config, report } = migrateAndRepairConfig(
+      {
+        autoKillEnabled: true,
+        portMappings: [mapping({ firstSeen: undefined, useCount: undefined })],
+      },
+      now
+    );
+
+    expect(report.fromVersion).toBe(0);
+    expect(report.toVersion).toBe(CONFIG_SCHEMA_VERSION);
+    expect(report.migrations.map((m) => m.version)).toEqual([1, 2]);
+    expect(report.fixes).toEqual([]);
+    expect(config).toMatchObject({ autoKillEnabled: true, confirmKill: true, version: 2 });
+    expect(config.portMappings[0]).toMatchObject({
+      firstSeen: new Date("2026-02-01T00:00:00.000Z"),
+      useCount: 1,
+    });
+  });
+
+  it("reads the version strings older releases wrote", () => {
+    const { report } = migrateAndRepairConfig(current({ version: "1.0.0" }), now);
+
+    expect(report.fromVersion).toBe(1);
+    expect(report.migrations.map((m) => m.version)).toEqual([2]);
+  });
+
+  it("keeps only the newest of repeated v1 mappings", () => {
+    const { config } = migrateAndRepairConfig(
+      current({
+        version: "1.0.0",
+        portMappings: [
+          mapping({ lastUsed: "2026-01-01T00:00:00.000Z" }),
+          mapping({ lastUsed: "2026-02-01T00:00:00.000Z" }),
+        ],
+      }),
+      now
+    );
+
+    expect(config.portMappings).toHaveLength(1);
+    expect(config.portMappings[0].lastUsed).toEqual(new Date("2026-02-01T00:00:00.000Z"));
+  });
+
+  it("repairs mappings it can use and drops the rest", () => {
+    const { config, report } = migrateAndRepairConfig(
+      current({
+        portMappings: [
+          mapping({ port: "3000", autoKill: undefined }),
+          mapping({ port: "web" }),
+          mapping({ port: 4000, projectPath: undefined }),
+          mapping({ port: 5000, projectName: "", lastUsed: "yesterday" }),
+          "3000",
+        ],
+      }),
+      now
+    );
+
+    expect(config.portMappings).toEqual([
+      expect.objectContaining({ port: 3000, autoKill: false }),
+      expect.objectContaining({ port: 5000, projectName: "shop", lastUsed: now }),
+    ]);
+    expect(report.fixes).toEqual([
+      { problem: 'portMappings[0].port is the string "3000"', repair: "converted to 3000" },
+      { problem: "portMappings[0].autoKill is missing", repair: "set to false" },
+      {
+        problem: 'portMappings[1].port must be a number between 1 and 65535 (got "web")',
+        repair: "removed the mapping",
+      },
+      { problem: "portMappings[2] (port 4000) has no projectPath", repair: "removed the mapping" },
+      {
+        problem: "portMappings[3].projectName is missing",
+        repair: 'named it "shop" after its directory',
+      },
+      {
+        problem: 'portMappings[3].lastUsed is not a date (got "yesterday")',
+        repair: "set to now",
+      },
+      { problem: "portMappings[4] is not an object", repair: "removed" },
+    ]);
+  });
+
+  it("keeps the most recent of duplicate mappings", () => {
+    const { config, report } = migrateAndRepairConfig(
+      current({
+        portMappings: [
+          mapping({ lastUsed: "2026-02-01T00:00:00.000Z" }),
+          mapping({ lastUsed: "2026-01-01T00:00:00.000Z" }),
+          mapping({ projectPath: "/work/blog" }),
+        ],
+      }),
+      now
+    );
+
+    expect(config.portMappings.map((m) => m.projectPath)).toEqual(["/work/shop", "/work/blog"]);
+    expect(config.portMappings[0].lastUsed).toEqual(new Date("2026-02-01T00:00:00.000Z"));
+    expect(report.fixes).toHaveLength(1);
+  });
+
+  it("converts settings typed as strings and resets the rest", () => {
+    const { config, report } = migrateAndRepairConfig(
+      current({ killTimeout: "5000", confirmKill: "maybe", killSignal: 9 }),
+      now
+    );
+
+    expect(config).toMatchObject({
+      killTimeout: 5000,
+      confirmKill: DEFAULT_SETTINGS.confirmKill,
+      killSignal: DEFAULT_SETTINGS.killSignal,
+    });
+    expect(report.fixes.map((f) => f.repair)).toEqual([
+      "reset to Enabled",
+      "reset to SIGTERM",
+      "converted to 5000 ms",
+    ]);
+  });
+
+  it("drops invalid and repeated protections", () => {
+    const { config, report } = migrateAndRepairConfig(
+      current({
+        protections: [
+          { kind: "port", value: 5432 },
+          { kind: "PORT", value: "5432" },
+          { kind: "host", value: "db" },
+          { kind: "port", value: "99999" },
+          { kind: "user", value: " postgres " },
+        ],
+      }),
+      now
+    );
+
+    expect(config.protections).toEqual([
+      { kind: "port", value: "5432" },
+      { kind: "user", value: "postgres" },
+    ]);
+    expect(report.fixes).toHaveLength(3);
+  });
+
+  it("replaces lists that are not arrays", () => {
+    const { config, report } = migrateAndRepairConfig(
+      current({ portMappings: {}, protections: "none" }),
+      now
+    );
+
+    expect(config.portMappings).toEqual([]);
+    expect(config.protections).toEqual([]);
+    expect(report.fixes.map((f) => f.problem)).toEqual([
+      "portMappings must be an array",
+      "protections must be an array",
+    ]);
+  });
+
+  it("keeps a newer schema version and fields it does not know", () => {
+    const { config, report } = migrateAndRepairConfig(current({ version: 7, theme: "dark" }), now);
+
+    expect(report).toEqual(emptyRepairReport(7));
+    expect(config).toMatchObject({ version: 7, theme: "dark" });
+  });
+
+  it("treats an unreadable version as current", () => {
+    const { config, report } = migrateAndRepairConfig(current({ version: "latest" }), now);
+
+    expect(config.version).toBe(CONFIG_SCHEMA_VERSION);
+    expect(report.migrations).toEqual([]);
+    expect(report.fixes).toEqual([
+      { problem: 'version "latest" is not a schema version', repair: "treated as version 2" },
+    ]);
+  });
+
+  it("rejects a root that is not an object", () => {
+    expect(() => migrateAndRepairConfig([], now)).toThrow("root must be a JSON object");
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  configValueError,
+  formatConfigValue,
+  parseConfigKey,
+  parseConfigValue,
+} from "../config-settings";
+
+describe("parseConfigKey", () => {
+  it("accepts setting names case-insensitively", () => {
+    expect(parseConfigKey("confirmKill")).toBe("confirmKill");
+    expect(parseConfigKey(" KILLTIMEOUT ")).toBe("killTimeout");
+  });
+
+  it("rejects fields that are not plain settings", () => {
+    expect(parseConfigKey("portMappings")).toBeNull();
+    expect(parseConfigKey("version")).toBeNull();
+  });
+});
+
+describe("parseConfigValue", () => {
+  it("parses booleans from common words", () => {
+    expect(parseConfigValue("confirmKill", "off")).toEqual({ ok: true, value: false });
+    expect(parseConfigValue("escalate", "Yes")).toEqual({ ok: true, value: true });
+    expect(parseConfigValue("autoKillEnabled", "maybe")).toEqual({
+      ok: false,
+      error: 'autoKillEnabled must be true or false (got "maybe")',
+    });
+  });
+
+  it("parses whole milliseconds", () => {
+    expect(parseConfigValue("killTimeout", "5000")).toEqual({ ok: true, value: 5000 });
+    expect(parseConfigValue("respawnWindow", "0")).toEqual({ ok: true, value: 0 });
+    expect(parseConfigValue("killTimeout", "1.5s")).toMatchObject({ ok: false });
+  });
+
+  it("parses signals like --signal", () => {
+    expect(parseConfigValue("killSignal", "int")).toEqual({ ok: true, value: "SIGINT" });
+    expect(parseConfigValue("killSignal", "SIGSTOP")).toEqual({
+      ok: false,
+      error:
+        'killSignal must be one of: SIGHUP, SIGINT, SIGQUIT, SIGKILL, SIGTERM (got "SIGSTOP")',
+    });
+  });
+});
+
+describe("configValueError", () => {
+  it("checks stored values by type", () => {
+    expect(configValueError("confirmKill", false)).toBeNull();
+    expect(configValueError("confirmKill", "false")).toBe("confirmKill must be true or false");
+    expect(configValueError("killTimeout", -1)).toBe(
+      "killTimeout must be a whole number of milliseconds"
+    );
+    expect(configValueError("killSignal", "SIGINT")).toBeNull();
+    expect(configValueError("killSignal", "int")).not.toBeNull();
+  });
+
+  it("does not take Object.prototype names for signals", () => {
+    expect(configValueError("killSignal", "toString")).not.toBeNull();
+    expect(configValueError("killSignal", "constructor")).not.toBeNull();
+    expect(parseConfigValue("killSignal", "toString").ok).toBe(false);
+  });
+});
+
+describe("formatConfigValue", () => {
+  it("reads like the rest of zkill's output", () => {
+    expect(formatConfigValue("confirmKill", true)).toBe("Enabled");
+    expect(formatConfigValue("killTimeout", 3000)).toBe("3000 ms");
+    expect(formatConfigValue("killSignal", "SIGTERM")).toBe("SIGTERM");
+  });
+});
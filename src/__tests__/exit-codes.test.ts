@@ -0,0 +1,52 @@
+import { ExitCode, exitCodeForKillStatuses } from "../exit-codes";
+
+describe("exitCodeForKillStatuses", () => {
+  it("returns SUCCESS when every in-use port was killed", () => {
+    expect(exitCodeForKillStatuses(["killed", "killed"])).toBe(ExitCode.SUCCESS);
+  });
+
+  it("ignores already-free ports when the rest were killed", () => {
+    expect(exitCodeForKillStatuses(["killed", "not-found"])).toBe(
+      ExitCode.SUCCESS
+    );
+  });
+
+  it("returns NOT_FOUND when nothing was listening", () => {
+    expect(exitCodeForKillStatuses(["not-found", "not-found"])).toBe(
+      ExitCode.NOT_FOUND
+    );
+    expect(exitCodeForKillStatuses([])).toBe(ExitCode.NOT_FOUND);
+  });
+
+  it("returns CANCELLED when the user declined", () => {
+    expect(exitCodeForKillStatuses(["cancelled", "not-found"])).toBe(
+      ExitCode.CANCELLED
+    );
+  });
+
+  it("returns PROTECTED when every target is protected", () => {
+    expect(exitCodeForKillStatuses(["protected", "not-found"])).toBe(
+      ExitCode.PROTECTED
+    );
+    expect(exitCodeForKillStatuses(["protected", "cancelled"])).toBe(
+      ExitCode.CANCELLED
+    );
+  });
+
+  it("returns KILL_FAILED when nothing could be killed", () => {
+    expect(exitCodeForKillStatuses(["failed"])).toBe(ExitCode.KILL_FAILED);
+    expect(exitCodeForKillStatuses(["failed", "cancelled"])).toBe(
+      ExitCode.KILL_FAILED
+    );
+  });
+
+  it("returns PARTIAL when some kills failed or were cancelled", () => {
+    expect(exitCodeForKillStatuses(["killed", "failed"])).toBe(ExitCode.PARTIAL);
+    expect(exitCodeForKillStatuses(["cancelled", "killed"])).toBe(
+      ExitCode.PARTIAL
+    );
+    expect(exitCodeForKillStatuses(["killed", "protected"])).toBe(
+      ExitCode.PARTIAL
+    );
+  });
+});
@@ -0,0 +1,324 @@
+import {
+  KILL_JSON_SCHEMA_VERSION,
+  buildKillJsonDocument,
+  isValidKillJsonV1,
+  killJsonV1ValidationErrors,
+} from "../kill-json-schema";
+import type { KillOutcome, ProcessInfo } from "../types";
+
+describe("buildKillJsonDocument", () => {
+  const proc: ProcessInfo = {
+    pid: 100,
+    port: 3000,
+    processName: "node",
+    command: "node app.js",
+    user: "dev",
+  };
+
+  const outcomes: KillOutcome[] = [
+    {
+      port: 3000,
+      status: "killed",
+      process: proc,
+      isSystemProcess: false,
+      result: { success: true, pid: 100, port: 3000, method: "graceful" },
+      error: null,
+    },
+    {
+      port: 8080,
+      status: "failed",
+      process: { ...proc, pid: 200, port: 8080, user: undefined },
+      isSystemProcess: true,
+      result: {
+        success: false,
+        pid: 200,
+        port: 8080,
+        method: "force",
+        error: "denied",
+      },
+      error: "denied",
+    },
+    {
+      port: 5432,
+      status: "not-found",
+      process: null,
+      isSystemProcess: false,
+      result: null,
+      error: null,
+    },
+  ];
+
+  const build = () =>
+    buildKillJsonDocument({
+      outcomes,
+      zkillVersion: "1.2.3",
+      platform: "linux",
+      request: { ports: [3000, 8080, 5432], force: true },
+    });
+
+  it("uses schema version 1 with meta and request", () => {
+    const doc = build();
+    expect(doc.schemaVersion).toBe(KILL_JSON_SCHEMA_VERSION);
+    expect(doc.meta).toEqual({ zkillVersion: "1.2.3", platform: "linux" });
+    expect(doc.request).toEqual({
+      ports: [3000, 8080, 5432],
+      name: null,
+      project: null,
+      force: true,
+    });
+  });
+
+  it("maps outcomes in order with stable keys", () => {
+    const doc = build();
+    expect(doc.count).toBe(3);
+    expect(doc.results[0]).toEqual({
+      port: 3000,
+      status: "killed",
+      process: {
+        pid: 100,
+        processName: "node",
+        command: "node app.js",
+        user: "dev",
+        protocol: "tcp",
+      },
+      isSystemProcess: false,
+      method: "graceful",
+      success: true,
+      error: null,
+      respawn: null,
+      protection: null,
+    });
+    expect(doc.results[1].process?.user).toBeNull();
+    expect(doc.results[1].method).toBe("force");
+    expect(doc.results[1].success).toBe(false);
+    expect(doc.results[2]).toEqual({
+      port: 5432,
+      status: "not-found",
+      process: null,
+      isSystemProcess: false,
+      method: null,
+      success: false,
+      error: null,
+      respawn: null,
+      protection: null,
+    });
+  });
+
+  it("reports a port that was taken again after the kill", () => {
+    const doc = buildKillJsonDocument({
+      outcomes: [
+        {
+          ...outcomes[0],
+          result: {
+            success: true,
+            pid: 100,
+            port: 3000,
+            method: "graceful",
+            respawns: [
+              {
+                port: 3000,
+                pid: 101,
+                processName: "node",
+                supervisor: {
+                  kind: "dev-tool",
+                  name: "nodemon",
+                  pid: 90,
+                  stopCommand: "zkill 3000 --supervisor",
+                },
+              },
+            ],
+          },
+        },
+      ],
+      zkillVersion: "1.2.3",
+      platform: "linux",
+      request: { ports: [3000], force: true },
+    });
+
+    expect(doc.results[0].respawn).toEqual({
+      pid: 101,
+      processName: "node",
+      supervisor: {
+        kind: "dev-tool",
+        name: "nodemon",
+        pid: 90,
+        stopCommand: "zkill 3000 --supervisor",
+      },
+    });
+    expect(isValidKillJsonV1(doc)).toBe(true);
+  });
+
+  it("summarizes outcomes by status", () => {
+    expect(build().summary).toEqual({
+      killed: 1,
+      failed: 1,
+      notFound: 1,
+      cancelled: 0,
+      protected: 0,
+    });
+  });
+
+  it("produces documents that pass the v1 validator, including after a JSON round-trip", () => {
+    const doc = build();
+    expect(killJsonV1ValidationErrors(doc)).toEqual([]);
+    expect(isValidKillJsonV1(JSON.parse(JSON.stringify(doc)))).toBe(true);
+
+    const byName = buildKillJsonDocument({
+      outcomes: [],
+      zkillVersion: "1.2.3",
+      platform: "darwin",
+      request: { name: "node*", force: false },
+    });
+    expect(byName.request.ports).toBeNull();
+    expect(isValidKillJsonV1(byName)).toBe(true);
+
+    const byProject = buildKillJsonDocument({
+      outcomes: [],
+      zkillVersion: "1.2.3",
+      platform: "linux",
+      request: { ports: [3000, 3001], project: "billing-api", force: true },
+    });
+    expect(byProject.request.project).toBe("billing-api");
+    expect(isValidKillJsonV1(byProject)).toBe(true);
+  });
+
+  it("reports protected ports with the matching rule", () => {
+    const doc = buildKillJsonDocument({
+      outcomes: [
+        {
+          ...outcomes[0],
+          status: "protected",
+          result: null,
+          error: "Protected by port 3000",
+          protection: { kind: "port", value: "3000" },
+        },
+      ],
+      zkillVersion: "1.2.3",
+      platform: "linux",
+      request: { ports: [3000], force: true },
+    });
+
+    expect(doc.results[0].protection).toEqual({ kind: "port", value: "3000" });
+    expect(doc.summary).toMatchObject({ cancelled: 0, protected: 1 });
+    expect(killJsonV1ValidationErrors(doc)).toEqual([]);
+
+    const parsed = JSON.parse(JSON.stringify(doc));
+    parsed.results[0].protection = { kind: "host", value: "x" };
+    expect(killJsonV1ValidationErrors(parsed)).toContain(
+      "results[0].protection must be null or { kind, value }"
+    );
+    parsed.results[0].protection = null;
+    expect(killJsonV1ValidationErrors(parsed)).toContain(
+      'results[0].protection must name the rule when status is "protected"'
+    );
+  });
+
+  it("accepts protected ports reported as cancelled by older versions", () => {
+    const doc = JSON.parse(
+      JSON.stringify(
+        buildKillJsonDocument({
+          outcomes: [
+            {
+              ...outcomes[0],
+              status: "cancelled",
+              result: null,
+              error: "Protected by port 3000",
+              protection: { kind: "port", value: "3000" },
+            },
+          ],
+          zkillVersion: "1.1.0",
+          platform: "linux",
+          request: { ports: [3000], force: true },
+        })
+      )
+    );
+    delete doc.summary.protected;
+
+    expect(killJsonV1ValidationErrors(doc)).toEqual([]);
+  });
+});
+
+describe("kill JSON v1 contract (consumer safety)", () => {
+  const valid = () =>
+    JSON.parse(
+      JSON.stringify(
+        buildKillJsonDocument({
+          outcomes: [
+            {
+              port: 3000,
+              status: "cancelled",
+              process: { pid: 1, port: 3000, processName: "x", command: "x" },
+              isSystemProcess: false,
+              result: null,
+              error: null,
+            },
+          ],
+          zkillVersion: "1.0.0",
+          platform: "linux",
+          request: { ports: [3000], force: false },
+        })
+      )
+    );
+
+  it("rejects wrong schemaVersion", () => {
+    expect(killJsonV1ValidationErrors({ ...valid(), schemaVersion: "0" })).not.toEqual([]);
+  });
+
+  it("rejects count mismatch", () => {
+    expect(killJsonV1ValidationErrors({ ...valid(), count: 2 })).toContain(
+      "count must equal results.length"
+    );
+  });
+
+  it("rejects unknown status and inconsistent success", () => {
+    const doc = valid();
+    doc.results[0].status = "exploded";
+    expect(killJsonV1ValidationErrors(doc).join("\n")).toContain(".status must be one of");
+
+    const doc2 = valid();
+    doc2.results[0].success = true;
+    expect(killJsonV1ValidationErrors(doc2).join("\n")).toContain(
+      'success must be true exactly when status is "killed"'
+    );
+  });
+
+  it("rejects summaries that do not add up", () => {
+    const doc = valid();
+    doc.summary.killed = 5;
+    expect(killJsonV1ValidationErrors(doc)).toContain(
+      "summary counts must add up to results.length"
+    );
+  });
+
+  it("accepts results without respawn from older producers, rejects malformed ones", () => {
+    const doc = valid();
+    delete doc.results[0].respawn;
+    expect(killJsonV1ValidationErrors(doc)).toEqual([]);
+
+    doc.results[0].respawn = { pid: "x", processName: "node", supervisor: null };
+    expect(killJsonV1ValidationErrors(doc).join("\n")).toContain(
+      "results[0].respawn.pid"
+    );
+  });
+
+  it("accepts results without protection from older producers", () => {
+    const doc = valid();
+    delete doc.results[0].protection;
+    expect(killJsonV1ValidationErrors(doc)).toEqual([]);
+  });
+
+  it("accepts processes without protocol from older producers, rejects unknown ones", () => {
+    const doc = valid();
+    delete doc.results[0].process.protocol;
+    expect(killJsonV1ValidationErrors(doc)).toEqual([]);
+
+    doc.results[0].process.protocol = "sctp";
+    expect(killJsonV1ValidationErrors(doc)).toContain(
+      'results[0].process.protocol must be "tcp" or "udp"'
+    );
+  });
+
+  it("rejects non-object roots", () => {
+    expect(killJsonV1ValidationErrors([])).toEqual(["root must be a JSON object"]);
+  });
+});
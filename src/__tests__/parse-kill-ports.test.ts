@@ -5,32 +5,95 @@ describe("parseKillPortTokens", () => {
     expect(parseKillPortTokens(["3000", "8000", "3000"])).toEqual({
       ok: true,
       ports: [3000, 8000],
+      hasRange: false,
     });
   });
 
   it("accepts a single port", () => {
-    expect(parseKillPortTokens(["443"])).toEqual({ ok: true, ports: [443] });
+    expect(parseKillPortTokens(["443"])).toEqual({
+      ok: true,
+      ports: [443],
+      hasRange: false,
+    });
   });
 
   it("rejects invalid token", () => {
-    expect(parseKillPortTokens(["3000", "abc"])).toEqual({
-      ok: false,
-      invalidToken: "abc",
-    });
+    const result = parseKillPortTokens(["3000", "abc"]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.map((e) => e.token)).toEqual(["abc"]);
+    }
   });
 
   it("rejects out of range", () => {
-    expect(parseKillPortTokens(["0"])).toEqual({
-      ok: false,
-      invalidToken: "0",
+    for (const token of ["0", "65536"]) {
+      const result = parseKillPortTokens([token]);
+      expect(result).toEqual({
+        ok: false,
+        errors: [{ token, reason: "Port must be between 1 and 65535" }],
+      });
+    }
+  });
+
+  it("accepts empty list as valid with no ports", () => {
+    expect(parseKillPortTokens([])).toEqual({
+      ok: true,
+      ports: [],
+      hasRange: false,
+    });
+  });
+
+  it("expands ranges", () => {
+    expect(parseKillPortTokens(["3000-3003"])).toEqual({
+      ok: true,
+      ports: [3000, 3001, 3002, 3003],
+      hasRange: true,
+    });
+  });
+
+  it("accepts comma lists within one argument", () => {
+    expect(parseKillPortTokens(["3000,3001", "8080"])).toEqual({
+      ok: true,
+      ports: [3000, 3001, 8080],
+      hasRange: false,
+    });
+  });
+
+  it("applies exclusions regardless of position", () => {
+    expect(parseKillPortTokens(["!3002", "3000-3004,!3003-3004"])).toEqual({
+      ok: true,
+      ports: [3000, 3001],
+      hasRange: true,
     });
-    expect(parseKillPortTokens(["65536"])).toEqual({
+  });
+
+  it("reports every invalid entry", () => {
+    const result = parseKillPortTokens(["3000,,x", "3010-3000", "70000-70001"]);
+    expect(result).toEqual({
       ok: false,
-      invalidToken: "65536",
+      errors: [
+        { token: "", reason: "Empty entry (check for stray commas)" },
+        {
+          token: "x",
+          reason: "Expected a port (3000), range (3000-3010) or exclusion (!3005)",
+        },
+        { token: "3010-3000", reason: "Range start must not exceed range end" },
+        { token: "70000-70001", reason: "Port must be between 1 and 65535" },
+      ],
     });
   });
 
-  it("accepts empty list as valid with no ports", () => {
-    expect(parseKillPortTokens([])).toEqual({ ok: true, ports: [] });
+  it("rejects partially numeric tokens", () => {
+    expect(parseKillPortTokens(["3000abc"]).ok).toBe(false);
+  });
+
+  it("rejects expressions whose exclusions remove every port", () => {
+    expect(parseKillPortTokens(["3000", "!3000"])).toEqual({
+      ok: false,
+      errors: [
+        { token: "3000 !3000", reason: "Exclusions leave no ports to kill" },
+      ],
+    });
+    expect(parseKillPortTokens(["!3000"]).ok).toBe(false);
   });
 });
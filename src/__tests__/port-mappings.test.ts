@@ -0,0 +1,69 @@
+import {
+  isWithinProject,
+  rankPortMappings,
+  resolvePortMapping,
+  samePortMapping,
+} from "../port-mappings";
+import type { PortMapping } from "../types";
+
+const mapping = (
+  projectPath: string,
+  lastUsed: string,
+  extra: Partial<PortMapping> = {}
+): PortMapping => ({
+  port: 3000,
+  projectName: projectPath.split("/").pop() as string,
+  projectPath,
+  firstSeen: new Date("2026-01-01T00:00:00Z"),
+  lastUsed: new Date(lastUsed),
+  useCount: 1,
+  autoKill: false,
+  ...extra,
+});
+
+describe("samePortMapping", () => {
+  it("keys on port and project directory", () => {
+    const shop = mapping("/work/shop", "2026-03-01T00:00:00Z");
+
+    expect(samePortMapping(shop, { port: 3000, projectPath: "/work/shop" })).toBe(true);
+    expect(samePortMapping(shop, { port: 3001, projectPath: "/work/shop" })).toBe(false);
+    expect(samePortMapping(shop, { port: 3000, projectPath: "/work/blog" })).toBe(false);
+  });
+});
+
+describe("isWithinProject", () => {
+  it("accepts the project directory and anything below it", () => {
+    expect(isWithinProject("/work/shop", "/work/shop")).toBe(true);
+    expect(isWithinProject("/work/shop/packages/web", "/work/shop")).toBe(true);
+  });
+
+  it("rejects siblings that share a prefix", () => {
+    expect(isWithinProject("/work/shop-admin", "/work/shop")).toBe(false);
+    expect(isWithinProject("/work", "/work/shop")).toBe(false);
+  });
+});
+
+describe("rankPortMappings", () => {
+  const shop = mapping("/work/shop", "2026-03-01T00:00:00Z");
+  const blog = mapping("/work/blog", "2026-03-05T00:00:00Z");
+  const web = mapping("/work/shop/web", "2026-02-01T00:00:00Z");
+  const other = mapping("/work/api", "2026-03-09T00:00:00Z", { port: 8080 });
+
+  it("prefers the deepest project containing the working directory", () => {
+    const all = [shop, blog, web, other];
+
+    expect(rankPortMappings(all, 3000, "/work/shop/web/src")).toEqual([web, shop, blog]);
+    expect(resolvePortMapping(all, 3000, "/work/shop/api")).toBe(shop);
+  });
+
+  it("falls back to the most recently, then most often, used", () => {
+    const busy = mapping("/work/busy", "2026-03-05T00:00:00Z", { useCount: 7 });
+
+    expect(rankPortMappings([shop, blog, busy], 3000)).toEqual([busy, blog, shop]);
+    expect(resolvePortMapping([shop, blog], 3000, "/tmp")).toBe(blog);
+  });
+
+  it("returns nothing for unmapped ports", () => {
+    expect(resolvePortMapping([shop, blog], 5432)).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { describeProcessContext, formatUptime } from "../process-context";
+import type { ProcessInfo } from "../types";
+
+const base: ProcessInfo = {
+  pid: 42,
+  port: 3000,
+  processName: "node",
+  command: "node server.js",
+};
+
+describe("formatUptime", () => {
+  it("uses the two or three largest units", () => {
+    expect(formatUptime(45_000)).toBe("45s");
+    expect(formatUptime(125_000)).toBe("2m 5s");
+    expect(formatUptime(3_725_000)).toBe("1h 2m 5s");
+    expect(formatUptime(90_000_000)).toBe("1d 1h 0m");
+  });
+});
+
+describe("describeProcessContext", () => {
+  it("returns nothing when the adapter reported no context", () => {
+    expect(describeProcessContext(base)).toEqual([]);
+  });
+
+  it("describes parent, working directory and service", () => {
+    expect(
+      describeProcessContext({
+        ...base,
+        uptime: 125_000,
+        parentPid: 7,
+        parentProcessName: "npm",
+        workingDirectory: "/home/dev/shop",
+        serviceManager: "systemd",
+        serviceName: "shop.service",
+      })
+    ).toEqual([
+      "Running for: 2m 5s",
+      "Started by: npm (PID 7)",
+      "Working dir: /home/dev/shop",
+      "Service: shop.service (systemd)",
+    ]);
+  });
+
+  it("flags processes adopted by init that no service manager claims", () => {
+    expect(describeProcessContext({ ...base, parentPid: 1 })).toEqual([
+      "Started by: PID 1",
+      "Service: Not a service",
+    ]);
+  });
+});
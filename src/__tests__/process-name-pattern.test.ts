@@ -0,0 +1,69 @@
+import {
+  compileProcessNamePattern,
+  matchesProcessName,
+} from "../process-name-pattern";
+import type { ProcessInfo } from "../types";
+
+function compile(pattern: string): RegExp {
+  const result = compileProcessNamePattern(pattern);
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.regex;
+}
+
+describe("compileProcessNamePattern", () => {
+  it("treats plain text as a whole-value, case-insensitive glob", () => {
+    const regex = compile("node");
+    expect(regex.test("node")).toBe(true);
+    expect(regex.test("NODE")).toBe(true);
+    expect(regex.test("nodemon")).toBe(false);
+  });
+
+  it("supports * and ? wildcards", () => {
+    expect(compile("node*").test("nodemon")).toBe(true);
+    expect(compile("py?hon3").test("python3")).toBe(true);
+    expect(compile("*webpack*").test("node ./node_modules/.bin/webpack serve")).toBe(true);
+  });
+
+  it("escapes regex metacharacters in globs", () => {
+    expect(compile("node.js").test("nodexjs")).toBe(false);
+    expect(compile("node.js").test("node.js")).toBe(true);
+  });
+
+  it("accepts /regex/flags literals", () => {
+    const regex = compile("/^(node|deno)$/i");
+    expect(regex.test("Deno")).toBe(true);
+    expect(regex.test("nodemon")).toBe(false);
+  });
+
+  it("rejects empty and invalid patterns", () => {
+    expect(compileProcessNamePattern("  ")).toEqual({
+      ok: false,
+      error: "Pattern must not be empty",
+    });
+    const invalid = compileProcessNamePattern("/(/");
+    expect(invalid.ok).toBe(false);
+  });
+});
+
+describe("matchesProcessName", () => {
+  const p: ProcessInfo = {
+    pid: 1,
+    port: 3000,
+    processName: "node",
+    command: "node /srv/app/server.js",
+  };
+
+  it("matches on process name or command", () => {
+    expect(matchesProcessName(compile("node"), p)).toBe(true);
+    expect(matchesProcessName(compile("*server.js"), p)).toBe(true);
+    expect(matchesProcessName(compile("ruby"), p)).toBe(false);
+  });
+
+  it("is stable with global regexes", () => {
+    const regex = compile("/node/g");
+    expect(matchesProcessName(regex, p)).toBe(true);
+    expect(matchesProcessName(regex, p)).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  buildProcessTree,
+  findSupervisor,
+  formatProcessTree,
+  killOrder,
+  supervisorName,
+} from "../process-tree";
+import type { ProcessListEntry } from "../types";
+
+function entry(
+  pid: number,
+  parentPid: number,
+  name: string,
+  command: string = name
+): ProcessListEntry {
+  return { pid, parentPid, name, command };
+}
+
+// login shell → npm run dev → sh -c → nodemon → node server (listening) → esbuild
+const table: ProcessListEntry[] = [
+  entry(1, 0, "systemd", "/sbin/init"),
+  entry(500, 1, "sshd"),
+  entry(600, 500, "bash", "-bash"),
+  entry(700, 600, "npm", "npm run dev"),
+  entry(710, 700, "sh", "sh -c nodemon server.js"),
+  entry(720, 710, "node", "node /usr/lib/node_modules/nodemon/bin/nodemon.js server.js"),
+  entry(730, 720, "node", "node server.js"),
+  entry(740, 730, "esbuild", "esbuild --service=0.19.0"),
+  entry(741, 730, "node", "node worker.js"),
+  entry(900, 600, "vim"),
+];
+
+describe("supervisorName", () => {
+  it("detects supervisors by executable name", () => {
+    expect(supervisorName(entry(1, 0, "npm", "npm run dev"))).toBe("npm");
+    expect(supervisorName(entry(1, 0, "concurrently.cmd"))).toBe("concurrently");
+  });
+
+  it("detects supervisors run through node", () => {
+    expect(supervisorName(table[5])).toBe("nodemon");
+  });
+
+  it("returns null for ordinary processes", () => {
+    expect(supervisorName(table[6])).toBeNull();
+    expect(supervisorName(table[2])).toBeNull();
+  });
+});
+
+describe("findSupervisor", () => {
+  it("returns the outermost supervisor, skipping shells in between", () => {
+    expect(findSupervisor(730, table)?.pid).toBe(700);
+  });
+
+  it("stops at the first ancestor that is neither a supervisor nor a shell", () => {
+    const standalone = [...table, entry(800, 500, "node", "node server.js")];
+    expect(findSupervisor(800, standalone)).toBeNull();
+  });
+
+  it("returns null for unknown PIDs", () => {
+    expect(findSupervisor(4242, table)).toBeNull();
+  });
+});
+
+describe("buildProcessTree", () => {
+  it("includes every descendant of the root", () => {
+    const tree = buildProcessTree(730, table);
+    expect(tree?.pid).toBe(730);
+    expect(tree?.children.map((c) => c.pid)).toEqual([740, 741]);
+  });
+
+  it("returns null when the root is not in the table", () => {
+    expect(buildProcessTree(4242, table)).toBeNull();
+  });
+
+  it("does not loop on cycles in a racy snapshot", () => {
+    const cyclic = [entry(10, 11, "a"), entry(11, 10, "b")];
+    const tree = buildProcessTree(10, cyclic);
+    expect(tree?.children.map((c) => c.pid)).toEqual([11]);
+    expect(tree?.children[0].children).toEqual([]);
+  });
+});
+
+describe("killOrder", () => {
+  it("lists children before their parents and the root last", () => {
+    const tree = buildProcessTree(700, table)!;
+    expect(killOrder(tree).map((n) => n.pid)).toEqual([
+      740, 741, 730, 720, 710, 700,
+    ]);
+  });
+});
+
+describe("formatProcessTree", () => {
+  it("draws the tree and marks the listening process", () => {
+    const tree = buildProcessTree(720, table)!;
+    expect(formatProcessTree(tree, 730)).toEqual([
+      "node (PID 720)",
+      "└─ node (PID 730) ← listening",
+      "   ├─ esbuild (PID 740)",
+      "   └─ node (PID 741)",
+    ]);
+  });
+});
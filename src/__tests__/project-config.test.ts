@@ -0,0 +1,179 @@
+import {
+  mergePortMappings,
+  parseProjectConfig,
+  projectPortMappings,
+  projectProtections,
+} from "../project-config";
+import type { PortMapping, ProjectConfigLocation } from "../types";
+
+const location: ProjectConfigLocation = {
+  path: "/work/billing-api/.zkillrc",
+  projectName: "billing-api",
+  projectPath: "/work/billing-api",
+};
+
+describe("parseProjectConfig", () => {
+  it("accepts ports, protections and kill settings", () => {
+    expect(
+      parseProjectConfig({
+        ports: [
+          { port: 3000, role: " web ", autoKill: true },
+          { port: 5432, role: "db", protected: true },
+        ],
+        protections: [{ kind: "Port", value: 6379 }],
+        autoKillEnabled: false,
+        killSignal: "SIGINT",
+        killTimeout: 5000,
+      })
+    ).toEqual({
+      ok: true,
+      config: {
+        ports: [
+          { port: 3000, role: "web", autoKill: true },
+          { port: 5432, role: "db", protected: true },
+        ],
+        protections: [{ kind: "port", value: "6379" }],
+        autoKillEnabled: false,
+        killSignal: "SIGINT",
+        killTimeout: 5000,
+      },
+    });
+  });
+
+  it("accepts an empty file", () => {
+    expect(parseProjectConfig({})).toEqual({ ok: true, config: {} });
+  });
+
+  it("reports every problem", () => {
+    const result = parseProjectConfig({
+      autokill: true,
+      confirmKill: "no",
+      killSignal: "SIGSTOP",
+      respawnWindow: -1,
+      ports: [{ port: 3000 }, { port: 3000 }, { port: 70000 }, { port: 8080, colour: "red" }],
+      protections: [{ kind: "pid", value: "1" }, { kind: "process", value: "/[/" }],
+    });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual([
+      'unknown setting "autokill"',
+      "confirmKill can only be set in your own config (zkill config set confirmKill)",
+      "killSignal must be one of: SIGHUP, SIGINT, SIGQUIT, SIGKILL, SIGTERM",
+      "respawnWindow must be a whole number of milliseconds",
+      "ports[1].port 3000 is listed twice",
+      "ports[2].port must be a number between 1 and 65535",
+      'ports[3] has unknown key "colour"',
+      'protections[0] must be an object like { "kind": "port", "value": "5432" }',
+      expect.stringContaining("protections[1]: Invalid regular expression"),
+    ]);
+  });
+
+  it("leaves kill confirmation to the user", () => {
+    expect(parseProjectConfig({ confirmKill: false, killTimeout: 5000 })).toEqual({
+      ok: false,
+      errors: ["confirmKill can only be set in your own config (zkill config set confirmKill)"],
+    });
+  });
+
+  it("rejects anything but an object", () => {
+    expect(parseProjectConfig([])).toEqual({
+      ok: false,
+      errors: ["root must be a JSON object"],
+    });
+  });
+});
+
+describe("projectPortMappings", () => {
+  const declaredAt = new Date("2026-03-01T00:00:00Z");
+
+  it("maps declared ports to the project", () => {
+    expect(
+      projectPortMappings({ ports: [{ port: 3000, role: "web" }] }, location, [], declaredAt)
+    ).toEqual([
+      {
+        port: 3000,
+        projectName: "billing-api",
+        projectPath: "/work/billing-api",
+        firstSeen: declaredAt,
+        lastUsed: declaredAt,
+        useCount: 0,
+        autoKill: false,
+        role: "web",
+        configFile: "/work/billing-api/.zkillrc",
+      },
+    ]);
+  });
+
+  it("keeps usage and auto-kill from the project's saved mapping unless the file sets it", () => {
+    const firstSeen = new Date("2026-02-01T00:00:00Z");
+    const lastUsed = new Date("2026-03-10T00:00:00Z");
+    const saved = (port: number, projectPath: string, useCount: number): PortMapping => ({
+      port,
+      projectName: "old",
+      projectPath,
+      firstSeen,
+      lastUsed,
+      useCount,
+      autoKill: true,
+    });
+
+    const [web, api, worker] = projectPortMappings(
+      { ports: [{ port: 3000 }, { port: 4000, autoKill: false }, { port: 5000 }] },
+      location,
+      [
+        saved(3000, "/work/billing-api", 4),
+        saved(4000, "/work/billing-api", 1),
+        saved(5000, "/other", 9),
+      ],
+      declaredAt
+    );
+
+    expect(web).toMatchObject({
+      firstSeen,
+      lastUsed,
+      useCount: 4,
+      autoKill: true,
+      projectName: "billing-api",
+    });
+    expect(api.autoKill).toBe(false);
+    expect(worker).toMatchObject({ lastUsed: declaredAt, useCount: 0, autoKill: false });
+  });
+});
+
+describe("mergePortMappings", () => {
+  it("replaces the project's saved mappings for declared ports only", () => {
+    const lastUsed = new Date();
+    const saved: PortMapping[] = ["old", "other"].map((name) => ({
+      port: 3000,
+      projectName: name,
+      projectPath: `/${name}`,
+      firstSeen: lastUsed,
+      lastUsed,
+      useCount: 1,
+      autoKill: false,
+    }));
+    const declared: PortMapping[] = [
+      { ...saved[0], projectName: "billing-api", configFile: location.path },
+    ];
+
+    expect(mergePortMappings(saved, declared).map((m) => m.projectName)).toEqual([
+      "other",
+      "billing-api",
+    ]);
+  });
+});
+
+describe("projectProtections", () => {
+  it("adds ports marked protected to the rules", () => {
+    expect(
+      projectProtections({
+        ports: [{ port: 3000 }, { port: 5432, protected: true }, { port: 6379, protected: true }],
+        protections: [{ kind: "port", value: "6379" }, { kind: "user", value: "postgres" }],
+      })
+    ).toEqual([
+      { kind: "port", value: "6379" },
+      { kind: "user", value: "postgres" },
+      { kind: "port", value: "5432" },
+    ]);
+  });
+});
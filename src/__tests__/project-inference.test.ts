@@ -0,0 +1,46 @@
+import { candidatePaths } from "../project-inference";
+import type { ProcessInfo } from "../types";
+
+const listener = (command: string, workingDirectory?: string): ProcessInfo => ({
+  pid: 1,
+  port: 3000,
+  processName: "node",
+  command,
+  workingDirectory,
+});
+
+describe("candidatePaths", () => {
+  it("tries the working directory, then arguments", () => {
+    expect(
+      candidatePaths(listener("/usr/bin/node /home/dev/shop/server.js", "/home/dev/shop"))
+    ).toEqual(["/home/dev/shop", "/home/dev/shop/server.js"]);
+  });
+
+  it("never uses the executable's own path", () => {
+    expect(
+      candidatePaths(listener("/home/dev/.nvm/versions/node/v20.11.0/bin/node server.js"))
+    ).toEqual([]);
+    expect(candidatePaths(listener("/opt/homebrew/bin/node /srv/api/index.js"))).toEqual([
+      "/srv/api/index.js",
+    ]);
+  });
+
+  it("reads --flag=/path values and strips quotes", () => {
+    expect(candidatePaths(listener(`ruby --root=/srv/api '/srv/api/config.ru'`))).toEqual([
+      "/srv/api",
+      "/srv/api/config.ru",
+    ]);
+  });
+
+  it("cuts paths back to the project that installed node_modules", () => {
+    expect(
+      candidatePaths(listener("node /home/dev/shop/node_modules/next/dist/bin/next dev"))
+    ).toEqual(["/home/dev/shop"]);
+  });
+
+  it("accepts Windows paths and ignores relative ones", () => {
+    expect(
+      candidatePaths(listener("C:\\node\\node.exe C:\\apps\\api\\server.js ./local --port 80"))
+    ).toEqual(["C:\\apps\\api\\server.js"]);
+  });
+});
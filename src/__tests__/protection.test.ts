@@ -0,0 +1,130 @@
+import {
+  describeProtection,
+  findProtection,
+  normalizeProtectionRule,
+  parseProtectionKind,
+  sameProtectionRule,
+} from "../protection";
+import type { ProcessInfo, ProtectionRule } from "../types";
+
+const postgres: ProcessInfo = {
+  pid: 999,
+  port: 5432,
+  processName: "postgres",
+  command: "/usr/lib/postgresql/16/bin/postgres -D /var/lib/postgresql/16/main",
+  user: "postgres",
+  serviceManager: "systemd",
+  serviceName: "postgresql@16-main.service",
+};
+
+const node: ProcessInfo = {
+  pid: 1234,
+  port: 3000,
+  processName: "node",
+  command: "node server.js",
+  user: "dev",
+};
+
+describe("parseProtectionKind", () => {
+  it("accepts known kinds case-insensitively", () => {
+    expect(parseProtectionKind("Port")).toBe("port");
+    expect(parseProtectionKind(" service ")).toBe("service");
+  });
+
+  it("rejects anything else", () => {
+    expect(parseProtectionKind("pid")).toBeNull();
+  });
+});
+
+describe("normalizeProtectionRule", () => {
+  it("stores ports as plain numbers", () => {
+    expect(normalizeProtectionRule("port", " 05432 ")).toEqual({
+      ok: true,
+      rule: { kind: "port", value: "5432" },
+    });
+  });
+
+  it("rejects invalid ports, patterns and empty values", () => {
+    expect(normalizeProtectionRule("port", "70000")).toMatchObject({ ok: false });
+    expect(normalizeProtectionRule("port", "abc")).toMatchObject({ ok: false });
+    expect(normalizeProtectionRule("process", "/[/")).toMatchObject({
+      ok: false,
+      error: expect.stringContaining("Invalid regular expression"),
+    });
+    expect(normalizeProtectionRule("user", "  ")).toMatchObject({ ok: false });
+  });
+
+  it("keeps process patterns, users and services as given", () => {
+    expect(normalizeProtectionRule("process", "postgres*")).toEqual({
+      ok: true,
+      rule: { kind: "process", value: "postgres*" },
+    });
+    expect(normalizeProtectionRule("user", "postgres")).toMatchObject({ ok: true });
+  });
+});
+
+describe("sameProtectionRule", () => {
+  it("compares values case-insensitively except process patterns", () => {
+    expect(
+      sameProtectionRule({ kind: "user", value: "Admin" }, { kind: "user", value: "admin" })
+    ).toBe(true);
+    expect(
+      sameProtectionRule({ kind: "process", value: "/Node/" }, { kind: "process", value: "/node/" })
+    ).toBe(false);
+    expect(
+      sameProtectionRule({ kind: "port", value: "80" }, { kind: "user", value: "80" })
+    ).toBe(false);
+  });
+});
+
+describe("findProtection", () => {
+  const rule = (kind: ProtectionRule["kind"], value: string): ProtectionRule => ({
+    kind,
+    value,
+  });
+
+  it("matches ports, including every port a process is killed for", () => {
+    expect(findProtection(postgres, [5432], [rule("port", "5432")])).toEqual(
+      rule("port", "5432")
+    );
+    expect(findProtection(node, [3000, 3001], [rule("port", "3001")])).toEqual(
+      rule("port", "3001")
+    );
+    expect(findProtection(node, [3000], [rule("port", "5432")])).toBeNull();
+  });
+
+  it("matches process patterns like --name", () => {
+    expect(findProtection(postgres, [5432], [rule("process", "postgres")])).not.toBeNull();
+    expect(findProtection(postgres, [5432], [rule("process", "/postgresql\\/16/")])).not.toBeNull();
+    expect(findProtection(node, [3000], [rule("process", "post*")])).toBeNull();
+  });
+
+  it("matches the process owner", () => {
+    expect(findProtection(postgres, [5432], [rule("user", "Postgres")])).not.toBeNull();
+    expect(findProtection({ ...node, user: undefined }, [3000], [rule("user", "dev")])).toBeNull();
+  });
+
+  it("matches services with or without the .service suffix", () => {
+    expect(
+      findProtection(postgres, [5432], [rule("service", "postgresql@16-main")])
+    ).not.toBeNull();
+    expect(
+      findProtection(postgres, [5432], [rule("service", "postgresql@16-main.service")])
+    ).not.toBeNull();
+    expect(findProtection(node, [3000], [rule("service", "node")])).toBeNull();
+  });
+
+  it("returns the first matching rule", () => {
+    expect(
+      findProtection(postgres, [5432], [rule("user", "postgres"), rule("port", "5432")])
+    ).toEqual(rule("user", "postgres"));
+  });
+});
+
+describe("describeProtection", () => {
+  it("names the kind and value", () => {
+    expect(describeProtection({ kind: "process", value: "postgres*" })).toBe(
+      "process postgres*"
+    );
+  });
+});
@@ -0,0 +1,34 @@
+import {
+  formatPort,
+  parseProtocolFilter,
+  protocolsFor,
+} from "../protocol";
+
+describe("parseProtocolFilter", () => {
+  it("accepts tcp, udp and all case-insensitively", () => {
+    expect(parseProtocolFilter("tcp")).toBe("tcp");
+    expect(parseProtocolFilter(" UDP ")).toBe("udp");
+    expect(parseProtocolFilter("All")).toBe("all");
+  });
+
+  it("returns null for anything else", () => {
+    expect(parseProtocolFilter("sctp")).toBeNull();
+    expect(parseProtocolFilter("")).toBeNull();
+  });
+});
+
+describe("protocolsFor", () => {
+  it("defaults to tcp and expands all", () => {
+    expect(protocolsFor()).toEqual(["tcp"]);
+    expect(protocolsFor("udp")).toEqual(["udp"]);
+    expect(protocolsFor("all")).toEqual(["tcp", "udp"]);
+  });
+});
+
+describe("formatPort", () => {
+  it("suffixes only UDP ports", () => {
+    expect(formatPort(3000)).toBe("3000");
+    expect(formatPort(3000, "tcp")).toBe("3000");
+    expect(formatPort(5353, "udp")).toBe("5353/udp");
+  });
+});
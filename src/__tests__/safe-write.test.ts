@@ -0,0 +1,127 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  FileLockError,
+  backupCorruptFile,
+  withFileLock,
+  writeFileAtomic,
+} from "../safe-write";
+
+describe("safe-write", () => {
+  let dir: string;
+  let lockPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "zkill-safe-write-"));
+    lockPath = path.join(dir, "config.json.lock");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("writeFileAtomic", () => {
+    it("replaces the file and leaves no temp files behind", () => {
+      const file = path.join(dir, "config.json");
+      fs.writeFileSync(file, "old");
+
+      writeFileAtomic(file, "new");
+
+      expect(fs.readFileSync(file, "utf-8")).toBe("new");
+      expect(fs.readdirSync(dir)).toEqual(["config.json"]);
+    });
+  });
+
+  describe("withFileLock", () => {
+    it("holds the lock only while the function runs", () => {
+      const result = withFileLock(lockPath, () => {
+        expect(fs.readFileSync(lockPath, "utf-8")).toBe(String(process.pid));
+        return 42;
+      });
+
+      expect(result).toBe(42);
+      expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it("releases the lock when the function throws", () => {
+      expect(() =>
+        withFileLock(lockPath, () => {
+          throw new Error("boom");
+        })
+      ).toThrow("boom");
+      expect(fs.existsSync(lockPath)).toBe(false);
+    });
+
+    it("times out while a live process holds the lock", () => {
+      fs.writeFileSync(lockPath, String(process.pid));
+
+      expect(() => withFileLock(lockPath, () => 1, { timeoutMs: 50 })).toThrow(
+        FileLockError
+      );
+      expect(fs.existsSync(lockPath)).toBe(true);
+    });
+
+    it("takes over a lock left behind long ago", () => {
+      fs.writeFileSync(lockPath, String(process.pid));
+      const old = new Date(Date.now() - 60000);
+      fs.utimesSync(lockPath, old, old);
+
+      expect(withFileLock(lockPath, () => "ok", { timeoutMs: 50 })).toBe("ok");
+      expect(fs.readdirSync(dir)).toEqual([]);
+    });
+
+    it("leaves a lock alone that another waiter took over first", () => {
+      fs.writeFileSync(lockPath, String(process.pid));
+      const old = new Date(Date.now() - 60000);
+      fs.utimesSync(lockPath, old, old);
+
+      // Both waiters saw the stale lock; the other one replaces it just
+      // before our rename, so the lock we would move is its fresh one
+      const rename = fs.renameSync;
+      const spy = jest.spyOn(fs, "renameSync").mockImplementation((from, to) => {
+        if (from === lockPath && spy.mock.calls.length === 1) {
+          fs.rmSync(lockPath);
+          fs.writeFileSync(lockPath, "other waiter");
+        }
+        rename(from, to);
+      });
+
+      try {
+        expect(() => withFileLock(lockPath, () => 1, { timeoutMs: 50 })).toThrow(
+          FileLockError
+        );
+      } finally {
+        spy.mockRestore();
+      }
+      expect(fs.readFileSync(lockPath, "utf-8")).toBe("other waiter");
+      expect(fs.readdirSync(dir)).toEqual(["config.json.lock"]);
+    });
+
+    it("does not release a lock that was taken over while it ran", () => {
+      withFileLock(
+        lockPath,
+        () => {
+          fs.rmSync(lockPath);
+          fs.writeFileSync(lockPath, "new holder");
+        },
+        { timeoutMs: 50 }
+      );
+
+      expect(fs.readFileSync(lockPath, "utf-8")).toBe("new holder");
+    });
+  });
+
+  describe("backupCorruptFile", () => {
+    it("moves the file aside with a timestamp", () => {
+      const file = path.join(dir, "config.json");
+      fs.writeFileSync(file, "{{{");
+
+      const backup = backupCorruptFile(file, new Date("2026-03-01T10:20:30.456Z"));
+
+      expect(backup).toBe(`${file}.corrupt-2026-03-01T10-20-30-456Z`);
+      expect(fs.readFileSync(backup, "utf-8")).toBe("{{{");
+      expect(fs.existsSync(file)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { buildScanWatchEvent, diffScans } from "../scan-diff";
+import type { ProcessInfo } from "../types";
+
+const listener = (
+  port: number,
+  pid: number,
+  extra: Partial<ProcessInfo> = {}
+): ProcessInfo => ({
+  pid,
+  port,
+  processName: "node",
+  command: `node server-${port}.js`,
+  ...extra,
+});
+
+describe("diffScans", () => {
+  it("reports everything as appeared against an empty scan", () => {
+    expect(
+      diffScans([], [listener(8080, 2), listener(3000, 1)]).map((c) => [
+        c.type,
+        c.port,
+      ])
+    ).toEqual([
+      ["appeared", 3000],
+      ["appeared", 8080],
+    ]);
+  });
+
+  it("detects appeared, disappeared and PID changes by port", () => {
+    const changes = diffScans(
+      [listener(3000, 1), listener(4000, 2), listener(5000, 3)],
+      [listener(3000, 1), listener(4000, 20), listener(6000, 4)]
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "pid-changed", port: 4000, pid: 20, previousPid: 2 }),
+      expect.objectContaining({ type: "disappeared", port: 5000, pid: 3, previousPid: null }),
+      expect.objectContaining({ type: "appeared", port: 6000, pid: 4 }),
+    ]);
+  });
+
+  it("keeps TCP and UDP on the same port apart", () => {
+    const changes = diffScans(
+      [listener(5353, 1)],
+      [listener(5353, 1), listener(5353, 9, { protocol: "udp" })]
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "appeared", port: 5353, protocol: "udp", pid: 9 }),
+    ]);
+  });
+
+  it("ignores which of several PIDs sharing a port is listed first", () => {
+    expect(
+      diffScans(
+        [listener(3000, 5), listener(3000, 7)],
+        [listener(3000, 7), listener(3000, 5)]
+      )
+    ).toEqual([]);
+  });
+});
+
+describe("buildScanWatchEvent", () => {
+  it("stamps the change with a schema version and timestamp", () => {
+    const [change] = diffScans([], [listener(3000, 1)]);
+
+    expect(buildScanWatchEvent(change, new Date("2026-01-01T00:00:00.000Z"))).toEqual({
+      schemaVersion: "1",
+      event: "appeared",
+      timestamp: "2026-01-01T00:00:00.000Z",
+      port: 3000,
+      protocol: "tcp",
+      pid: 1,
+      previousPid: null,
+      processName: "node",
+      command: "node server-3000.js",
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  ScanRow,
+  columnValue,
+  parseScanColumns,
+  parseScanFormat,
+  parseScanSortKey,
+  renderScanCsv,
+  renderScanMarkdown,
+  renderScanTable,
+  renderScanTemplate,
+  renderScanTsv,
+  sortScanRows,
+  unknownTemplateFields,
+} from "../scan-format";
+import type { ProcessInfo } from "../types";
+
+const row = (
+  port: number,
+  pid: number,
+  extra: Partial<ProcessInfo> = {},
+  projectName: string | null = null
+): ScanRow => ({
+  process: {
+    pid,
+    port,
+    processName: "node",
+    command: `node server-${port}.js`,
+    ...extra,
+  },
+  projectName,
+  projectSource: projectName ? "mapped" : null,
+  isSystemProcess: false,
+});
+
+describe("option parsing", () => {
+  it("parses formats and sort keys case-insensitively", () => {
+    expect(parseScanFormat("CSV")).toBe("csv");
+    expect(parseScanFormat("yaml")).toBeNull();
+    expect(parseScanSortKey(" Uptime ")).toBe("uptime");
+    expect(parseScanSortKey("size")).toBeNull();
+  });
+
+  it("collects unknown column names", () => {
+    expect(parseScanColumns("port, PID,,nope,command")).toEqual({
+      columns: ["port", "pid", "command"],
+      invalid: ["nope"],
+    });
+  });
+
+  it("reports unknown template placeholders", () => {
+    expect(unknownTemplateFields("{{port}} {{ pid }} {{colour}}")).toEqual(["colour"]);
+  });
+});
+
+describe("columnValue", () => {
+  it("renders addresses, flags and uptime as text", () => {
+    const r = row(5353, 7, {
+      protocol: "udp",
+      uptime: 125_000,
+      addresses: [
+        { address: "0.0.0.0", family: "ipv4" },
+        { address: "::", family: "ipv6" },
+      ],
+    });
+
+    expect(columnValue(r, "port")).toBe("5353");
+    expect(columnValue(r, "protocol")).toBe("udp");
+    expect(columnValue(r, "address")).toBe("0.0.0.0, [::]");
+    expect(columnValue(r, "exposed")).toBe("yes");
+    expect(columnValue(r, "uptime")).toBe("2m 5s");
+    expect(columnValue(r, "project")).toBe("");
+  });
+});
+
+describe("sortScanRows", () => {
+  const rows = [
+    row(8080, 3, { processName: "nginx", uptime: 5_000 }, "api"),
+    row(3000, 9, { uptime: 60_000 }),
+    row(5432, 1, { processName: "postgres" }, "db"),
+  ];
+  const ports = (sorted: ScanRow[]) => sorted.map((r) => r.process.port);
+
+  it("sorts by port by default", () => {
+    expect(ports(sortScanRows(rows))).toEqual([3000, 5432, 8080]);
+  });
+
+  it("sorts by pid and name", () => {
+    expect(ports(sortScanRows(rows, "pid"))).toEqual([5432, 8080, 3000]);
+    expect(ports(sortScanRows(rows, "name"))).toEqual([8080, 3000, 5432]);
+  });
+
+  it("puts the longest-running first and unknown uptimes last", () => {
+    expect(ports(sortScanRows(rows, "uptime"))).toEqual([3000, 8080, 5432]);
+  });
+
+  it("sorts by project with unmapped ports last", () => {
+    expect(ports(sortScanRows(rows, "project"))).toEqual([8080, 5432, 3000]);
+  });
+});
+
+describe("renderScanTable", () => {
+  const rows = [
+    row(3000, 12, { command: "node " + "x".repeat(80) }),
+    row(8080, 3456, { processName: "nginx", command: "nginx" }),
+  ];
+
+  it("aligns columns under upper-case headers", () => {
+    expect(renderScanTable(rows, ["port", "pid", "name"])).toEqual([
+      "PORT  PID   NAME",
+      "3000  12    node",
+      "8080  3456  nginx",
+    ]);
+  });
+
+  it("shrinks the command column to fit the width", () => {
+    const lines = renderScanTable(rows, ["port", "pid", "command"], 40);
+
+    expect(Math.max(...lines.map((l) => l.length))).toBe(40);
+    expect(lines[1].endsWith("…")).toBe(true);
+    expect(lines[2]).toBe("8080  3456  nginx");
+  });
+
+  it("does not truncate without a width", () => {
+    const lines = renderScanTable(rows, ["command"]);
+
+    expect(lines[1]).toBe(rows[0].process.command);
+  });
+});
+
+describe("delimited formats", () => {
+  const rows = [row(3000, 1, { command: 'node -e "a, b"' }, "shop|web")];
+
+  it("quotes CSV fields with commas and quotes", () => {
+    expect(renderScanCsv(rows, ["port", "command"])).toEqual([
+      "port,command",
+      '3000,"node -e ""a, b"""',
+    ]);
+  });
+
+  it("keeps TSV rows on one line", () => {
+    const tabbed = [row(3000, 1, { command: "a\tb\nc" })];
+
+    expect(renderScanTsv(tabbed, ["port", "command"])).toEqual(["port\tcommand", "3000\ta b c"]);
+  });
+
+  it("escapes pipes in Markdown cells", () => {
+    expect(renderScanMarkdown(rows, ["port", "project"])).toEqual([
+      "| port | project |",
+      "| --- | --- |",
+      "| 3000 | shop\\|web |",
+    ]);
+  });
+});
+
+describe("renderScanTemplate", () => {
+  it("fills placeholders and unescapes tabs", () => {
+    const rows = [row(3000, 1, {}, "shop"), row(8080, 2)];
+
+    expect(renderScanTemplate(rows, "{{port}}\\t{{ PID }}\\t{{project}}")).toEqual([
+      "3000\t1\tshop",
+      "8080\t2\t",
+    ]);
+  });
+});
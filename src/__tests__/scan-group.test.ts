@@ -0,0 +1,62 @@
+import {
+  groupName,
+  groupPidCount,
+  groupPorts,
+  groupScanRows,
+  parseScanGroupKey,
+} from "../scan-group";
+import type { ScanRow } from "../scan-format";
+import type { ProcessInfo } from "../types";
+
+const row = (
+  port: number,
+  pid: number,
+  extra: Partial<ProcessInfo> = {},
+  projectName: string | null = null
+): ScanRow => ({
+  process: { pid, port, processName: "node", command: "node", ...extra },
+  projectName,
+  projectSource: projectName ? "mapped" : null,
+  isSystemProcess: false,
+});
+
+describe("parseScanGroupKey", () => {
+  it("accepts the group keys case-insensitively", () => {
+    expect(parseScanGroupKey("Project")).toBe("project");
+    expect(parseScanGroupKey("host")).toBeNull();
+  });
+});
+
+describe("groupName", () => {
+  it("prefers the service name over the service manager", () => {
+    expect(groupName(row(80, 1, { serviceManager: "systemd", serviceName: "nginx.service" }), "service")).toBe(
+      "nginx.service"
+    );
+    expect(groupName(row(80, 1, { serviceManager: "launchd" }), "service")).toBe("launchd");
+    expect(groupName(row(80, 1), "service")).toBeNull();
+  });
+});
+
+describe("groupScanRows", () => {
+  const rows = [
+    row(3000, 1, {}, "web"),
+    row(5432, 2, { processName: "postgres" }),
+    row(4000, 3, {}, "api"),
+    row(4001, 3, {}, "api"),
+  ];
+
+  it("orders groups by name with the unnamed group last", () => {
+    const groups = groupScanRows(rows, "project");
+
+    expect(groups.map((g) => g.name)).toEqual(["api", "web", null]);
+    expect(groupPorts(groups[0])).toEqual([4000, 4001]);
+    expect(groupPidCount(groups[0])).toBe(1);
+  });
+
+  it("keeps row order inside a group", () => {
+    const groups = groupScanRows(rows, "process");
+
+    expect(groups.map((g) => g.name)).toEqual(["node", "postgres"]);
+    expect(groups[0].rows.map((r) => r.process.port)).toEqual([3000, 4000, 4001]);
+  });
+});
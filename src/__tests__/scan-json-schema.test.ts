@@ -48,6 +48,8 @@ describe("buildScanJsonDocument", () => {
       process: "node",
       project: "my-app",
       hideSystemProcesses: true,
+      protocol: "tcp",
+      exposed: false,
     });
     expect(doc.count).toBe(0);
     expect(doc.processes).toEqual([]);
@@ -79,6 +81,48 @@ describe("buildScanJsonDocument", () => {
     expect(doc.processes[1].user).toBe("dev");
   });
 
+  it("labels each process with its protocol, defaulting to tcp", () => {
+    const doc = buildScanJsonDocument({
+      processes: [baseProcess, { ...baseProcess, port: 5353, protocol: "udp" }],
+      verbose: false,
+      zkillVersion: "1.0.0",
+      platform: "linux",
+      filters: { hideSystemProcesses: false, protocol: "all" },
+      isCriticalProcess: () => false,
+      getPortMapping: () => null,
+    });
+    expect(doc.filters.protocol).toBe("all");
+    expect(doc.processes.map((p) => p.protocol)).toEqual(["tcp", "udp"]);
+  });
+
+  it("reports bind addresses and exposure when known", () => {
+    const doc = buildScanJsonDocument({
+      processes: [
+        baseProcess,
+        {
+          ...baseProcess,
+          port: 5173,
+          addresses: [{ address: "127.0.0.1", family: "ipv4" }],
+        },
+        {
+          ...baseProcess,
+          port: 8080,
+          addresses: [{ address: "::", family: "ipv6" }],
+        },
+      ],
+      verbose: false,
+      zkillVersion: "1.0.0",
+      platform: "linux",
+      filters: { hideSystemProcesses: false, exposed: true },
+      isCriticalProcess: () => false,
+      getPortMapping: () => null,
+    });
+    expect(doc.filters.exposed).toBe(true);
+    expect(doc.processes.map((p) => p.exposed)).toEqual([null, false, true]);
+    expect(doc.processes[0].addresses).toBeNull();
+    expect(doc.processes[2].addresses).toEqual([{ address: "::", family: "ipv6" }]);
+  });
+
   it("omits verbose context when verbose is false", () => {
     const p: ProcessInfo = {
       ...baseProcess,
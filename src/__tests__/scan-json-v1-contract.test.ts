@@ -164,6 +164,73 @@ describe("scan JSON v1 contract (consumer safety)", () => {
     }
   });
 
+  it("accepts documents without protocol fields from older producers", () => {
+    const doc = JSON.parse(
+      JSON.stringify(
+        buildScanJsonDocument({
+          ...minimalInput,
+          processes: [{ pid: 1, port: 53, processName: "dns", command: "dns" }],
+        })
+      )
+    );
+    delete doc.filters.protocol;
+    delete doc.filters.exposed;
+    delete doc.processes[0].protocol;
+    delete doc.processes[0].addresses;
+    delete doc.processes[0].exposed;
+    delete doc.groupBy;
+    delete doc.groups;
+    delete doc.processes[0].projectSource;
+    expect(scanJsonV1ValidationErrors(doc)).toEqual([]);
+
+    doc.filters.protocol = "icmp";
+    doc.processes[0].protocol = "all";
+    expect(scanJsonV1ValidationErrors(doc)).toEqual([
+      "filters.protocol must be one of tcp, udp, all",
+      'processes[0].protocol must be "tcp" or "udp"',
+    ]);
+  });
+
+  it("rejects malformed bind addresses and project sources", () => {
+    const doc = JSON.parse(
+      JSON.stringify(
+        buildScanJsonDocument({
+          ...minimalInput,
+          processes: [{ pid: 1, port: 80, processName: "web", command: "web" }],
+        })
+      )
+    );
+    doc.processes[0].addresses = [{ address: "0.0.0.0", family: "ip4" }];
+    doc.processes[0].exposed = "yes";
+    doc.processes[0].projectSource = "guessed";
+    expect(scanJsonV1ValidationErrors(doc)).toEqual([
+      'processes[0].addresses[0] must have a string address and family "ipv4" or "ipv6"',
+      "processes[0].exposed must be null or boolean",
+      'processes[0].projectSource must be null, "mapped" or "inferred"',
+    ]);
+  });
+
+  it("validates --group-by groups", () => {
+    const doc = JSON.parse(
+      JSON.stringify(
+        buildScanJsonDocument({
+          ...minimalInput,
+          processes: [{ pid: 1, port: 80, processName: "web", command: "web" }],
+          groupBy: "process",
+        })
+      )
+    );
+    expect(doc.groups).toEqual([{ name: "web", count: 1, ports: [80], pids: [1] }]);
+    expect(scanJsonV1ValidationErrors(doc)).toEqual([]);
+
+    doc.groupBy = "host";
+    doc.groups[0].ports = "80";
+    expect(scanJsonV1ValidationErrors(doc)).toEqual([
+      "groupBy must be null or one of project, process, user, service",
+      "groups[0].ports must be an array of numbers",
+    ]);
+  });
+
   it("survives JSON.parse(JSON.stringify()) round-trip for consumers", () => {
     const doc = buildScanJsonDocument({
       ...minimalInput,
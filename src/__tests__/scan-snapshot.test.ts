@@ -0,0 +1,118 @@
+import {
+  buildScanDiffDocument,
+  buildScanSnapshot,
+  isValidSnapshotName,
+  scanSnapshotValidationErrors,
+  snapshotListeners,
+} from "../scan-snapshot";
+import { ScanJsonDocument, buildScanJsonDocument } from "../scan-json-schema";
+import type { ProcessInfo } from "../types";
+
+const listener = (port: number, pid: number): ProcessInfo => ({
+  pid,
+  port,
+  processName: "node",
+  command: `node server-${port}.js`,
+  user: "dev",
+});
+
+const scanOf = (processes: ProcessInfo[]): ScanJsonDocument =>
+  buildScanJsonDocument({
+    processes,
+    verbose: false,
+    zkillVersion: "9.9.9",
+    platform: "linux",
+    filters: { hideSystemProcesses: false },
+    isCriticalProcess: () => false,
+    getPortMapping: () => null,
+  });
+
+describe("isValidSnapshotName", () => {
+  it("accepts file-safe names", () => {
+    expect(isValidSnapshotName("before")).toBe(true);
+    expect(isValidSnapshotName("pre-test_2.1")).toBe(true);
+  });
+
+  it("rejects paths, dotfiles, spaces and long names", () => {
+    expect(isValidSnapshotName("")).toBe(false);
+    expect(isValidSnapshotName("../config")).toBe(false);
+    expect(isValidSnapshotName("a/b")).toBe(false);
+    expect(isValidSnapshotName(".hidden")).toBe(false);
+    expect(isValidSnapshotName("two words")).toBe(false);
+    expect(isValidSnapshotName("x".repeat(65))).toBe(false);
+  });
+});
+
+describe("scanSnapshotValidationErrors", () => {
+  it("accepts a built snapshot", () => {
+    const snapshot = buildScanSnapshot(
+      "before",
+      scanOf([listener(3000, 1)]),
+      new Date("2026-01-02T03:04:05Z")
+    );
+
+    expect(snapshot.savedAt).toBe("2026-01-02T03:04:05.000Z");
+    expect(scanSnapshotValidationErrors(snapshot)).toEqual([]);
+  });
+
+  it("reports the wrapper and the wrapped scan", () => {
+    const errors = scanSnapshotValidationErrors({
+      schemaVersion: "2",
+      name: "../x",
+      savedAt: "yesterday",
+      scan: { schemaVersion: "1" },
+    });
+
+    expect(errors).toContain('schemaVersion must be "1"');
+    expect(errors).toContain("name must be a valid snapshot name");
+    expect(errors).toContain("savedAt must be an ISO date string");
+    expect(errors.some((e) => e.startsWith("scan."))).toBe(true);
+  });
+
+  it("rejects non-objects", () => {
+    expect(scanSnapshotValidationErrors([])).toEqual([
+      "root must be a JSON object",
+    ]);
+  });
+});
+
+describe("snapshotListeners", () => {
+  it("restores the fields a diff compares", () => {
+    expect(snapshotListeners(scanOf([listener(3000, 1)]))).toEqual([
+      {
+        pid: 1,
+        port: 3000,
+        protocol: "tcp",
+        processName: "node",
+        command: "node server-3000.js",
+        user: "dev",
+      },
+    ]);
+  });
+});
+
+describe("buildScanDiffDocument", () => {
+  it("summarizes new, removed and changed listeners", () => {
+    const doc = buildScanDiffDocument(
+      {
+        name: "before",
+        at: "2026-01-01T00:00:00.000Z",
+        scan: scanOf([listener(3000, 1), listener(4000, 2), listener(5000, 3)]),
+      },
+      {
+        name: null,
+        at: "2026-01-01T01:00:00.000Z",
+        scan: scanOf([listener(3000, 1), listener(4000, 20), listener(6000, 4)]),
+      }
+    );
+
+    expect(doc.from).toEqual({ name: "before", at: "2026-01-01T00:00:00.000Z" });
+    expect(doc.to.name).toBeNull();
+    expect(doc.summary).toEqual({ appeared: 1, disappeared: 1, pidChanged: 1 });
+    expect(doc.changes.map((c) => [c.type, c.port])).toEqual([
+      ["pid-changed", 4000],
+      ["disappeared", 5000],
+      ["appeared", 6000],
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { detectSupervisor } from "../supervisor";
+import type { ProcessInfo, ProcessListEntry } from "../types";
+
+const node: ProcessInfo = {
+  pid: 4321,
+  port: 3000,
+  processName: "node",
+  command: "node server.js",
+};
+
+function entry(pid: number, name: string, command: string = name): ProcessListEntry {
+  return { pid, parentPid: 1, name, command };
+}
+
+describe("detectSupervisor", () => {
+  it("detects pm2 from the God Daemon ancestor", () => {
+    const result = detectSupervisor(node, [
+      entry(90, "PM2", "PM2 v5.3.0: God Daemon (/root/.pm2)"),
+    ]);
+    expect(result).toMatchObject({ kind: "pm2", pid: 90 });
+    expect(result?.stopCommand).toContain("pm2 stop");
+  });
+
+  it("detects forever and suggests stopping the script", () => {
+    const result = detectSupervisor(node, [
+      entry(80, "node", "node /usr/lib/node_modules/forever/bin/monitor server.js"),
+    ]);
+    expect(result).toMatchObject({
+      kind: "forever",
+      stopCommand: "forever stop server.js",
+    });
+  });
+
+  it("detects docker from docker-proxy or a containerd shim", () => {
+    const proxy = detectSupervisor(
+      { ...node, processName: "docker-proxy" },
+      []
+    );
+    expect(proxy?.kind).toBe("docker");
+    expect(proxy?.stopCommand).toContain("--filter publish=3000");
+
+    const shim = detectSupervisor(node, [
+      entry(70, "containerd-shim-runc-v2"),
+    ]);
+    expect(shim?.kind).toBe("docker");
+  });
+
+  it("reports the outermost dev-tool wrapper", () => {
+    const result = detectSupervisor(node, [
+      entry(720, "node", "node /usr/lib/node_modules/nodemon/bin/nodemon.js"),
+      entry(710, "sh", "sh -c nodemon server.js"),
+      entry(700, "npm", "npm run dev"),
+      entry(600, "bash"),
+    ]);
+    expect(result).toEqual({
+      kind: "dev-tool",
+      name: "npm",
+      pid: 700,
+      stopCommand: "zkill 3000 --supervisor",
+    });
+  });
+
+  it("falls back to the service manager fields", () => {
+    expect(
+      detectSupervisor(
+        { ...node, serviceManager: "systemd", serviceName: "api.service" },
+        []
+      )
+    ).toEqual({
+      kind: "systemd",
+      name: "api.service",
+      pid: null,
+      stopCommand: "sudo systemctl stop api.service",
+    });
+    expect(
+      detectSupervisor(
+        { ...node, serviceManager: "launchd", serviceName: "com.example.api" },
+        []
+      )?.stopCommand
+    ).toBe("launchctl bootout gui/$(id -u)/com.example.api");
+    expect(
+      detectSupervisor({ ...node, serviceManager: "windows-service" }, [])
+        ?.stopCommand
+    ).toBe('sc stop "node"');
+  });
+
+  it("prefers the ancestor chain over service fields", () => {
+    const result = detectSupervisor(
+      { ...node, serviceManager: "systemd", serviceName: "pm2-root.service" },
+      [entry(90, "PM2", "PM2 v5.3.0: God Daemon (/root/.pm2)")]
+    );
+    expect(result?.kind).toBe("pm2");
+  });
+
+  it("returns null when nothing is recognised", () => {
+    expect(detectSupervisor(node, [entry(600, "bash")])).toBeNull();
+  });
+});
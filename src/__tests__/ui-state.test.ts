@@ -0,0 +1,106 @@
+import {
+  UiRow,
+  actionTargets,
+  createUiState,
+  currentRow,
+  fuzzyMatch,
+  moveCursor,
+  replaceRows,
+  setQuery,
+  toggleAll,
+  toggleSelection,
+  visibleRows,
+} from "../ui-state";
+
+const row = (
+  port: number,
+  pid: number,
+  processName = "node",
+  projectName: string | null = null
+): UiRow => ({
+  process: { pid, port, processName, command: `${processName} ${port}` },
+  projectName,
+  isSystemProcess: false,
+});
+
+const rows = [
+  row(3000, 1, "node", "shop-frontend"),
+  row(5432, 2, "postgres"),
+  row(8080, 3, "nginx"),
+];
+
+describe("fuzzyMatch", () => {
+  it("matches case-insensitive subsequences", () => {
+    expect(fuzzyMatch("nxd", "Next dev")).toBe(true);
+    expect(fuzzyMatch("shop fe", "shop-frontend")).toBe(true);
+    expect(fuzzyMatch("dxn", "next dev")).toBe(false);
+  });
+
+  it("matches everything with an empty query", () => {
+    expect(fuzzyMatch("", "anything")).toBe(true);
+  });
+});
+
+describe("ui state", () => {
+  it("filters on port, process, project and command", () => {
+    const state = createUiState(rows);
+
+    expect(visibleRows(setQuery(state, "pg")).map((r) => r.process.port)).toEqual([5432]);
+    expect(visibleRows(setQuery(state, "shop")).map((r) => r.process.port)).toEqual([3000]);
+    expect(visibleRows(setQuery(state, "808")).map((r) => r.process.port)).toEqual([8080]);
+  });
+
+  it("clamps the cursor to the visible rows", () => {
+    let state = createUiState(rows);
+    state = moveCursor(state, 10);
+    expect(currentRow(state)?.process.port).toBe(8080);
+
+    state = moveCursor(state, -10);
+    expect(currentRow(state)?.process.port).toBe(3000);
+
+    expect(currentRow(setQuery(state, "zzz"))).toBeNull();
+  });
+
+  it("acts on the cursor row when nothing is selected", () => {
+    const state = moveCursor(createUiState(rows), 1);
+
+    expect(actionTargets(state).map((r) => r.process.pid)).toEqual([2]);
+  });
+
+  it("acts on the visible selection only", () => {
+    let state = toggleSelection(createUiState(rows));
+    state = toggleSelection(moveCursor(state, 2));
+    expect(actionTargets(state).map((r) => r.process.pid)).toEqual([1, 3]);
+
+    // Filtering hides pid 1: it stays selected but is not a target
+    state = setQuery(state, "nginx");
+    expect(state.selected.size).toBe(2);
+    expect(actionTargets(state).map((r) => r.process.pid)).toEqual([3]);
+  });
+
+  it("toggles every visible row, then clears", () => {
+    let state = toggleAll(createUiState(rows));
+    expect(state.selected.size).toBe(3);
+
+    state = toggleAll(state);
+    expect(state.selected.size).toBe(0);
+  });
+
+  it("keeps the cursor and selection across a rescan", () => {
+    let state = toggleSelection(moveCursor(createUiState(rows), 2));
+
+    // pid 1 went away; 8080 is still listening
+    state = replaceRows(state, [rows[1], rows[2], row(9000, 4)]);
+
+    expect(currentRow(state)?.process.port).toBe(8080);
+    expect([...state.selected]).toEqual(["3:8080/tcp"]);
+  });
+
+  it("drops selections for listeners that disappeared", () => {
+    let state = toggleSelection(createUiState(rows));
+    state = replaceRows(state, [rows[1]]);
+
+    expect(state.selected.size).toBe(0);
+    expect(currentRow(state)?.process.port).toBe(5432);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Kill history for `zkill history`: parsing the audit log, filtering it and
+ * the versioned JSON output. Reading and writing the log is AuditService's job.
+ */
+
+import type { AuditEntry, KillTrigger } from "./types";
+
+export const AUDIT_TRIGGERS: readonly KillTrigger[] = [
+  "manual",
+  "range",
+  "name",
+  "project",
+  "ui",
+  "auto",
+];
+
+export interface HistoryFilter {
+  port?: number;
+  project?: string; // case-insensitive substring, like scan --project
+  since?: Date;
+  until?: Date;
+  trigger?: KillTrigger;
+}
+
+/** `zkill history --json` */
+export interface HistoryJsonDocument {
+  schemaVersion: "1";
+  filters: {
+    port: number | null;
+    project: string | null;
+    since: string | null;
+    until: string | null;
+    trigger: KillTrigger | null;
+  };
+  /** Matching entries before --limit */
+  total: number;
+  /** Newest first */
+  entries: AuditEntry[];
+}
+
+/** A --since / --until value: the instant it starts and the instant it ends */
+export interface HistoryTime {
+  start: Date;
+  end: Date;
+}
+
+const DURATION_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Parse a --trigger value (case-insensitive); null when invalid
+ */
+export function parseKillTrigger(value: string): KillTrigger | null {
+  const normalized = value.trim().toLowerCase();
+  return AUDIT_TRIGGERS.includes(normalized as KillTrigger)
+    ? (normalized as KillTrigger)
+    : null;
+}
+
+/**
+ * Parse "today", "yesterday", an age ("30m", "12h", "7d", "2w"), a local
+ * date ("2026-03-14") or an ISO date-time; null when invalid. Whole days
+ * span midnight to midnight, so `--until 2026-03-14` includes that day.
+ */
+export function parseHistoryTime(
+  value: string,
+  now: Date = new Date()
+): HistoryTime | null {
+  const trimmed = value.trim().toLowerCase();
+  const day = (date: Date): HistoryTime => {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+    return { start, end };
+  };
+
+  if (trimmed === "today") {
+    return day(now);
+  }
+  if (trimmed === "yesterday") {
+    return day(new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1));
+  }
+
+  const age = /^(\d+)([mhdw])$/.exec(trimmed);
+  if (age) {
+    const at = new Date(now.getTime() - parseInt(age[1], 10) * DURATION_MS[age[2]]);
+    return { start: at, end: at };
+  }
+
+  const date = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed);
+  if (date) {
+    const [year, month, dayOfMonth] = date.slice(1).map((n) => parseInt(n, 10));
+    const parsed = new Date(year, month - 1, dayOfMonth);
+    if (parsed.getMonth() !== month - 1 || parsed.getDate() !== dayOfMonth) {
+      return null;
+    }
+    return day(parsed);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}t/.test(trimmed) && !isNaN(Date.parse(value.trim()))) {
+    const at = new Date(value.trim());
+    return { start: at, end: at };
+  }
+
+  return null;
+}
+
+/**
+ * One line of the audit log; null for blank, truncated or foreign lines
+ */
+export function parseAuditLine(line: string): AuditEntry | null {
+  if (line.trim() === "") {
+    return null;
+  }
+  try {
+    const entry = JSON.parse(line);
+    if (
+      !entry ||
+      typeof entry !== "object" ||
+      typeof entry.timestamp !== "string" ||
+      isNaN(Date.parse(entry.timestamp)) ||
+      typeof entry.port !== "number" ||
+      typeof entry.pid !== "number" ||
+      typeof entry.success !== "boolean" ||
+      !AUDIT_TRIGGERS.includes(entry.trigger)
+    ) {
+      return null;
+    }
+    return entry as AuditEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Entries matching every given filter, newest first
+ */
+export function filterAuditEntries(
+  entries: AuditEntry[],
+  filter: HistoryFilter
+): AuditEntry[] {
+  const project = filter.project?.toLowerCase();
+  return entries
+    .filter((entry) => {
+      const at = Date.parse(entry.timestamp);
+      return (
+        (filter.port === undefined || entry.port === filter.port) &&
+        (project === undefined ||
+          (entry.project ?? "").toLowerCase().includes(project)) &&
+        (filter.since === undefined || at >= filter.since.getTime()) &&
+        (filter.until === undefined || at < filter.until.getTime()) &&
+        (filter.trigger === undefined || entry.trigger === filter.trigger)
+      );
+    })
+    .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+}
+
+export function buildHistoryJsonDocument(
+  entries: AuditEntry[],
+  filter: HistoryFilter,
+  limit?: number
+): HistoryJsonDocument {
+  return {
+    schemaVersion: "1",
+    filters: {
+      port: filter.port ?? null,
+      project: filter.project ?? null,
+      since: filter.since?.toISOString() ?? null,
+      until: filter.until?.toISOString() ?? null,
+      trigger: filter.trigger ?? null,
+    },
+    total: entries.length,
+    entries: limit === undefined ? entries : entries.slice(0, limit),
+  };
+}
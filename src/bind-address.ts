@@ -0,0 +1,90 @@
+/**
+ * Local bind addresses of listening sockets: parse the "address:port" text
+ * that ss, netstat and lsof print, and tell loopback-only listeners apart
+ * from ones reachable from other machines.
+ */
+
+import type { BindAddress, IpFamily, ProcessInfo } from "./types";
+
+export interface ListenAddress extends BindAddress {
+  port: number;
+}
+
+/** Addresses meaning "every interface" */
+const WILDCARD_ADDRESSES: readonly string[] = ["*", "0.0.0.0", "::"];
+
+/**
+ * Parse "127.0.0.1:3000", "[::1]:3000", "*:3000", ":::3000" (netstat) or
+ * "127.0.0.53%lo:53" (ss). Interface suffixes are dropped. `family` is used
+ * where the text alone cannot tell, i.e. for "*".
+ */
+export function parseListenAddress(
+  text: string,
+  family?: IpFamily
+): ListenAddress | null {
+  const match = text.trim().match(/^(.*):(\d+)$/);
+  if (!match) {
+    return null;
+  }
+
+  const port = parseInt(match[2]);
+  let address = match[1].replace(/^\[(.*)\]$/, "$1").replace(/%.*$/, "");
+  if (address === "" || isNaN(port)) {
+    return null;
+  }
+  // netstat prints the IPv6 wildcard as ":::3000"
+  if (address === ":") {
+    address = "::";
+  }
+
+  return {
+    address,
+    family: address.includes(":") ? "ipv6" : family ?? "ipv4",
+    port,
+  };
+}
+
+export function isWildcardAddress(address: string): boolean {
+  return WILDCARD_ADDRESSES.includes(address);
+}
+
+export function isLoopbackAddress(address: string): boolean {
+  return (
+    /^127\./.test(address) ||
+    /^::ffff:127\./i.test(address) ||
+    address === "::1" ||
+    address === "localhost"
+  );
+}
+
+/**
+ * True when a listener is reachable from other machines: bound to all
+ * interfaces or to a non-loopback address. Unknown addresses are not exposed.
+ */
+export function isExposed(process: ProcessInfo): boolean {
+  return (process.addresses ?? []).some((a) => !isLoopbackAddress(a.address));
+}
+
+/**
+ * "127.0.0.1", "[::1]", "*"
+ */
+export function formatBindAddress(bind: BindAddress): string {
+  return bind.family === "ipv6" && bind.address !== "*"
+    ? `[${bind.address}]`
+    : bind.address;
+}
+
+/**
+ * Record another socket's address on a listener, once per address and family
+ */
+export function addBindAddress(process: ProcessInfo, bind: BindAddress): void {
+  const addresses = process.addresses ?? [];
+  if (
+    !addresses.some(
+      (a) => a.address === bind.address && a.family === bind.family
+    )
+  ) {
+    addresses.push({ address: bind.address, family: bind.family });
+  }
+  process.addresses = addresses;
+}
@@ -5,33 +5,119 @@
  * Main entry point for the zkill command
  */
 
+import os from "os";
+import path from "path";
 import { Command } from "commander";
 import chalk from "chalk";
-import { KillCommand } from "./commands/kill.command";
-import { ScanCommand } from "./commands/scan.command";
+import { KillCommand, KillOptions } from "./commands/kill.command";
+import {
+  DEFAULT_WATCH_INTERVAL_MS,
+  MIN_WATCH_INTERVAL_MS,
+  ScanCommand,
+  ScanOptions,
+} from "./commands/scan.command";
 import { AutoCommand } from "./commands/auto.command";
+import { UiCommand } from "./commands/ui.command";
+import { DiffCommand } from "./commands/diff.command";
+import { HistoryCommand, HistoryOptions } from "./commands/history.command";
+import { ProtectCommand } from "./commands/protect.command";
+import { ConfigCommand } from "./commands/config.command";
+import { MapCommand } from "./commands/map.command";
 import { ProcessService } from "./services/process.service";
 import { StorageService } from "./services/storage.service";
 import { ProjectService } from "./services/project.service";
+import { SnapshotService } from "./services/snapshot.service";
+import {
+  AUDIT_LOG_MAX_BYTES,
+  AUDIT_LOG_ROTATIONS,
+  AuditService,
+} from "./services/audit.service";
 import { parseKillPortTokens } from "./parse-kill-ports";
+import { buildKillJsonDocument } from "./kill-json-schema";
+import {
+  KillOutcome,
+  KillSignal,
+  ProtectionKind,
+  ProtocolFilter,
+} from "./types";
+import { KILL_SIGNALS, parseKillSignal } from "./platform/kill-signals";
+import { PROTOCOL_FILTERS, parseProtocolFilter } from "./protocol";
+import {
+  SCAN_COLUMNS,
+  SCAN_FORMATS,
+  SCAN_SORT_KEYS,
+  parseScanColumns,
+  parseScanFormat,
+  parseScanSortKey,
+  unknownTemplateFields,
+} from "./scan-format";
+import { SCAN_GROUP_KEYS, parseScanGroupKey } from "./scan-group";
+import { AUDIT_TRIGGERS, parseHistoryTime, parseKillTrigger } from "./audit-log";
+import { CONFIG_KEYS, ConfigKey, parseConfigKey } from "./config-settings";
+import {
+  configArgumentsFrom,
+  describeConfigSource,
+  resolveConfigLocation,
+} from "./config-location";
+import {
+  PROTECTION_KINDS,
+  describeProtection,
+  parseProtectionKind,
+} from "./protection";
+import {
+  ExitCode,
+  InvalidInputError,
+  exitCodeForKillStatuses,
+} from "./exit-codes";
+
+// Where config, history and snapshots live; needed before commander parses argv
+const configLocation = resolveConfigLocation(
+  configArgumentsFrom(process.argv.slice(2))
+);
 
 // Initialize services
 const processService = new ProcessService();
-const storageService = new StorageService();
 const projectService = new ProjectService();
+const storageService = new StorageService(projectService.findProjectConfig(), {
+  configPath: configLocation.configPath,
+  readOnly: configLocation.readOnly,
+});
+const snapshotService = new SnapshotService(
+  path.join(configLocation.dataDir, "snapshots"),
+  configLocation.readOnly
+);
+const auditService = new AuditService(
+  path.join(configLocation.dataDir, "history.jsonl"),
+  AUDIT_LOG_MAX_BYTES,
+  AUDIT_LOG_ROTATIONS,
+  configLocation.readOnly
+);
 
 // Initialize commands
 const killCommand = new KillCommand(
   processService,
   storageService,
-  projectService
+  projectService,
+  auditService
+);
+const scanCommand = new ScanCommand(
+  processService,
+  storageService,
+  projectService,
+  snapshotService
 );
-const scanCommand = new ScanCommand(processService, storageService);
 const autoCommand = new AutoCommand(
   processService,
   storageService,
-  projectService
+  projectService,
+  killCommand
 );
+const uiCommand = new UiCommand(processService, storageService, killCommand);
+const diffCommand = new DiffCommand(snapshotService, scanCommand);
+const historyCommand = new HistoryCommand(auditService);
+const protectCommand = new ProtectCommand(storageService);
+const configCommand = new ConfigCommand(storageService);
+const mapCommand = new MapCommand(storageService, projectService);
 
 // Create CLI program
 const program = new Command();
@@ -42,19 +128,123 @@ import packageJson from "../package.json";
 program
   .name("zkill")
   .description("Kill zombie processes blocking your ports")
-  .version(packageJson.version);
+  .version(packageJson.version)
+  // Root options like --json must not swallow the same flag on subcommands
+  .enablePositionalOptions();
 
 // Main command: zkill <ports...>
 program
   .argument(
     "[ports...]",
-    "One or more port numbers to check and kill (e.g. 3000 or 3000 8000 5432)"
+    "Ports to check and kill: 3000, 3000 8000, 3000-3010 or 3000,3001,!3005"
   )
   .option("-f, --force", "Force kill without confirmation")
+  .option(
+    "-n, --name <pattern>",
+    "Kill every listening process whose name or command matches a glob (node*) or /regex/"
+  )
+  .option(
+    "--include-system",
+    "With --name, also kill matching system processes"
+  )
+  .option(
+    "--json",
+    "Print kill results as JSON (stable schema for scripts and CI; combine with --force)"
+  )
+  .option(
+    "-s, --signal <name>",
+    "Signal to send first: SIGTERM (default), SIGINT, SIGHUP, SIGQUIT or SIGKILL"
+  )
+  .option(
+    "-t, --timeout <ms>",
+    "How long to wait for the process to exit before escalating (default 3000)"
+  )
+  .option("--no-escalate", "Never fall back to SIGKILL when the timeout expires")
+  .option(
+    "--respawn-window <ms>",
+    "Watch freed ports this long for a restarted process (default 1000, 0 = off)"
+  )
+  .option("--tree", "Also kill every child process, bottom-up")
+  .option(
+    "--supervisor",
+    "Kill the whole tree of the owning dev-tool supervisor (npm, nodemon, concurrently, ...); implies --tree"
+  )
+  .option(
+    "--project <name>",
+    "Kill every port mapped to a project (see zkill list)"
+  )
+  .option("--udp", "Match UDP sockets instead of TCP listeners (same as --protocol udp)")
+  .option("--protocol <protocol>", "Which sockets to match: tcp (default), udp or all")
+  .option(
+    "--ignore-protection",
+    "Also kill ports and processes protected with zkill protect"
+  )
   .action(async (ports: string[] | string | undefined, options) => {
     try {
       const raw =
         ports == null ? [] : Array.isArray(ports) ? ports : [ports];
+      const killOptions: KillOptions = {
+        force: options.force,
+        includeSystem: options.includeSystem,
+        json: options.json,
+        signal: parseSignalOption(options.signal),
+        timeoutMs: parseMillisecondsOption("Timeout", options.timeout),
+        // Commander defaults --no-escalate to true; only pass an explicit opt-out
+        escalate: options.escalate === false ? false : undefined,
+        respawnWindowMs: parseMillisecondsOption(
+          "Respawn window",
+          options.respawnWindow
+        ),
+        tree: options.tree || options.supervisor,
+        supervisor: options.supervisor,
+        protocol: parseProtocolOption(options.protocol, options.udp),
+        ignoreProtection: options.ignoreProtection,
+      };
+
+      const selectors = [
+        raw.length > 0 ? "port numbers" : null,
+        options.name !== undefined ? "--name" : null,
+        options.project !== undefined ? "--project" : null,
+      ].filter((s): s is string => s !== null);
+      if (selectors.length > 1) {
+        console.error(
+          chalk.red(`❌ Error: Use only one of ${selectors.join(", ")}`)
+        );
+        process.exit(ExitCode.INVALID_INPUT);
+      }
+
+      if (options.project !== undefined) {
+        const outcomes = await killCommand.executeByProject(
+          options.project,
+          killOptions
+        );
+        if (options.json) {
+          printKillJson(outcomes, {
+            ports: [...new Set(outcomes.map((o) => o.port))],
+            project: options.project,
+            force: !!options.force,
+          });
+        }
+        process.exitCode = exitCodeForKillStatuses(
+          outcomes.map((o) => o.status)
+        );
+        return;
+      }
+
+      if (options.name !== undefined) {
+        const outcomes = await killCommand.executeByName(
+          options.name,
+          killOptions
+        );
+        if (options.json) {
+          printKillJson(outcomes, { name: options.name, force: !!options.force });
+        }
+        process.exitCode = exitCodeForKillStatuses(
+          outcomes.map((o) => o.status)
+        );
+        return;
+      }
+
       if (raw.length === 0) {
         program.help();
         return;
@@ -62,22 +252,33 @@ program
 
       const parsed = parseKillPortTokens(raw);
       if (!parsed.ok) {
-        console.error(chalk.red("❌ Error: Invalid port number"));
-        console.error(
-          chalk.gray(
-            `Port must be a number between 1 and 65535 (got "${parsed.invalidToken}")`
-          )
-        );
-        process.exit(1);
+        console.error(chalk.red("❌ Error: Invalid port expression"));
+        for (const { token, reason } of parsed.errors) {
+          console.error(chalk.gray(`  "${token}": ${reason}`));
+        }
+        process.exit(ExitCode.INVALID_INPUT);
       }
 
       const portNums = parsed.ports;
-      for (let i = 0; i < portNums.length; i++) {
-        if (portNums.length > 1 && i > 0) {
-          console.log(chalk.gray("\n" + "—".repeat(48) + "\n"));
-        }
-        await killCommand.execute(portNums[i], options.force);
+      const outcomes: KillOutcome[] = [];
+
+      // Ranges and lists are resolved against a single scan instead of one
+      // lookup per port; only a single port is looked up on its own
+      if (parsed.hasRange || portNums.length > 1) {
+        outcomes.push(
+          ...(await killCommand.executeForPorts(portNums, {
+            ...killOptions,
+            trigger: parsed.hasRange ? "range" : "manual",
+          }))
+        );
+      } else if (portNums.length === 1) {
+        outcomes.push(...(await killCommand.execute(portNums[0], killOptions)));
+      }
+
+      if (options.json) {
+        printKillJson(outcomes, { ports: portNums, force: !!options.force });
       }
+      process.exitCode = exitCodeForKillStatuses(outcomes.map((o) => o.status));
     } catch (error) {
       handleError(error);
     }
@@ -96,9 +297,99 @@ program
     "--json",
     "Print scan results as JSON (stable schema for scripts and CI; use with jq)"
   )
+  .option("--udp", "List UDP sockets instead of TCP listeners (same as --protocol udp)")
+  .option("--protocol <protocol>", "Which sockets to list: tcp (default), udp or all")
+  .option("--exposed", "Only show listeners reachable from other machines (not bound to loopback)")
+  .option(
+    "-w, --watch",
+    "Keep scanning and highlight ports that appear, disappear or change PID (with --json: stream change events)"
+  )
+  .option(
+    "--interval <ms>",
+    `How often --watch re-scans (default ${DEFAULT_WATCH_INTERVAL_MS})`
+  )
+  .option(
+    "--format <format>",
+    `One row per listener: ${SCAN_FORMATS.join(", ")} (table fits the terminal width)`
+  )
+  .option(
+    "--columns <list>",
+    `Comma-separated columns for --format (default table): ${SCAN_COLUMNS.join(", ")}`
+  )
+  .option(
+    "--template <template>",
+    'One line per listener from {{column}} placeholders, e.g. "{{port}}\\t{{pid}}\\t{{project}}"'
+  )
+  .option("--sort <key>", `Sort by ${SCAN_SORT_KEYS.join(", ")} (default port)`)
+  .option(
+    "--group-by <key>",
+    `Cluster listeners by ${SCAN_GROUP_KEYS.join(", ")} with per-group counts`
+  )
+  .option(
+    "--save <name>",
+    "Also save this scan as a named snapshot (compare later with zkill diff)"
+  )
   .action(async (options) => {
     try {
-      await scanCommand.execute(options);
+      if (options.save !== undefined && options.watch) {
+        throw new InvalidInputError("--save cannot be combined with --watch");
+      }
+      const scanOptions: ScanOptions = {
+        ...options,
+        protocol: parseProtocolOption(options.protocol, options.udp),
+        ...parseScanOutputOptions(options),
+      };
+      if (options.watch) {
+        const intervalMs =
+          parseMillisecondsOption("Interval", options.interval) ??
+          DEFAULT_WATCH_INTERVAL_MS;
+        if (intervalMs < MIN_WATCH_INTERVAL_MS) {
+          throw new InvalidInputError(
+            `Interval must be at least ${MIN_WATCH_INTERVAL_MS}ms (got ${intervalMs})`
+          );
+        }
+        // `zkill scan --watch --json | head` closes the pipe: stop quietly
+        process.stdout.on("error", (error: NodeJS.ErrnoException) => {
+          if (error.code === "EPIPE") {
+            process.exit(ExitCode.SUCCESS);
+          }
+          throw error;
+        });
+        await scanCommand.watch(scanOptions, { intervalMs });
+        return;
+      }
+      await scanCommand.execute(scanOptions);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// UI command: zkill ui
+program
+  .command("ui")
+  .description("Browse, filter and kill listeners in a full-screen terminal interface")
+  .option("--udp", "List UDP sockets instead of TCP listeners (same as --protocol udp)")
+  .option("--protocol <protocol>", "Which sockets to list: tcp (default), udp or all")
+  .action(async (options) => {
+    try {
+      await uiCommand.execute({
+        protocol: parseProtocolOption(options.protocol, options.udp),
+      });
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Diff command: zkill diff <from> [to]
+program
+  .command("diff <from> [to]")
+  .description(
+    "Show listeners that appeared, disappeared or changed PID since a saved snapshot (against another snapshot or the live system)"
+  )
+  .option("--json", "Print the differences as JSON")
+  .action(async (from: string, to: string | undefined, options) => {
+    try {
+      await diffCommand.execute(from, to, { json: options.json });
     } catch (error) {
       handleError(error);
     }
@@ -116,6 +407,195 @@ program
     }
   });
 
+// Map command: zkill map <action> [args...]
+program
+  .command("map <action> [args...]")
+  .description(
+    "Manage port-to-project mappings (actions: add, remove, edit, toggle, rename, list)"
+  )
+  .option(
+    "--project <name>",
+    "Project name (remove: only this project's mappings, or all of them without ports)"
+  )
+  .option("--path <dir>", "Project directory (default: the current project)")
+  .option("--auto-kill", "Let zkill auto check kill the port from other projects")
+  .option("--no-auto-kill", "Never auto-kill the port")
+  .option("--common", "With add, also map the common ports for the project type")
+  .action(
+    async (
+      action: string,
+      args: string[],
+      options: { project?: string; path?: string; autoKill?: boolean; common?: boolean }
+    ) => {
+      try {
+        switch (action.toLowerCase()) {
+          case "add":
+            process.exitCode = mapCommand.add(parseMapPorts(args), options);
+            break;
+
+          case "remove":
+            process.exitCode = mapCommand.remove(parseMapPorts(args), {
+              project: options.project,
+            });
+            break;
+
+          case "edit":
+            process.exitCode = mapCommand.edit(parseMapPort(args), options);
+            break;
+
+          case "toggle":
+            process.exitCode = await autoCommand.togglePort(parseMapPort(args));
+            break;
+
+          case "rename":
+            if (args.length !== 2) {
+              throw new InvalidInputError("Usage: zkill map rename <from> <to>");
+            }
+            process.exitCode = mapCommand.rename(args[0], args[1]);
+            break;
+
+          case "list":
+            scanCommand.listMappings();
+            break;
+
+          default:
+            console.error(chalk.red(`❌ Error: Invalid action "${action}"`));
+            console.error(
+              chalk.gray("Valid actions: add, remove, edit, toggle, rename, list")
+            );
+            process.exit(ExitCode.INVALID_INPUT);
+        }
+      } catch (error) {
+        handleError(error);
+      }
+    }
+  );
+
+// Protect command: zkill protect <action> [kind] [value]
+program
+  .command("protect <action> [kind] [value]")
+  .description(
+    `Manage targets zkill refuses to kill (actions: add, remove, list; kinds: ${PROTECTION_KINDS.join(", ")})`
+  )
+  .action((action: string, kind: string | undefined, value: string | undefined) => {
+    try {
+      switch (action.toLowerCase()) {
+        case "add": {
+          const target = parseProtectTarget(kind, value);
+          process.exitCode = protectCommand.add(target.kind, target.value);
+          break;
+        }
+
+        case "remove": {
+          const target = parseProtectTarget(kind, value);
+          process.exitCode = protectCommand.remove(target.kind, target.value);
+          break;
+        }
+
+        case "list":
+          protectCommand.list();
+          break;
+
+        default:
+          console.error(chalk.red(`❌ Error: Invalid action "${action}"`));
+          console.error(chalk.gray("Valid actions: add, remove, list"));
+          process.exit(ExitCode.INVALID_INPUT);
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Config command: zkill config <action> [key] [value]
+program
+  .command("config <action> [key] [value]")
+  .description(
+    "Read and change settings (actions: get, set, unset, list, reset, path, edit, doctor)"
+  )
+  .option("--json", "With get, list or doctor, print JSON (stable schema)")
+  .option("-f, --force", "With reset, skip the confirmation")
+  .action(
+    async (
+      action: string,
+      key: string | undefined,
+      value: string | undefined,
+      options: { json?: boolean; force?: boolean }
+    ) => {
+      try {
+        switch (action.toLowerCase()) {
+          case "get":
+            configCommand.get(parseConfigKeyArgument(key), { json: options.json });
+            break;
+
+          case "set":
+            if (value === undefined) {
+              throw new InvalidInputError("Usage: zkill config set <key> <value>");
+            }
+            configCommand.set(parseConfigKeyArgument(key), value);
+            break;
+
+          case "unset":
+            configCommand.unset(parseConfigKeyArgument(key));
+            break;
+
+          case "list":
+            configCommand.list({ json: options.json });
+            break;
+
+          case "reset":
+            process.exitCode = await configCommand.reset({ force: options.force });
+            break;
+
+          case "path":
+            configCommand.path();
+            break;
+
+          case "edit":
+            process.exitCode = configCommand.edit();
+            break;
+
+          case "doctor":
+            configCommand.doctor({ json: options.json });
+            break;
+
+          default:
+            console.error(chalk.red(`❌ Error: Invalid action "${action}"`));
+            console.error(
+              chalk.gray("Valid actions: get, set, unset, list, reset, path, edit, doctor")
+            );
+            process.exit(ExitCode.INVALID_INPUT);
+        }
+      } catch (error) {
+        handleError(error);
+      }
+    }
+  );
+
+// History command: zkill history
+program
+  .command("history")
+  .description("Show what zkill killed, when, and who ran it")
+  .option("--port <port>", "Only kills on this port")
+  .option("--project <name>", "Only kills of ports belonging to a project")
+  .option(
+    "--since <when>",
+    "Only kills at or after: today, yesterday, an age (30m, 12h, 7d, 2w) or a date (2026-03-14)"
+  )
+  .option("--until <when>", "Only kills before this time (a date includes the whole day)")
+  .option("--trigger <trigger>", `Only kills started by: ${AUDIT_TRIGGERS.join(", ")}`)
+  .option("-n, --limit <count>", "Show at most this many of the most recent kills")
+  .option("--json", "Print the history as JSON")
+  .action((options) => {
+    try {
+      historyCommand.execute({
+        ...parseHistoryOptions(options),
+        json: options.json,
+      });
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
 // Auto command: zkill auto <action>
 program
   .command("auto <action>")
@@ -134,7 +614,7 @@ program
           break;
 
         case "check":
-          await autoCommand.checkAndKill();
+          process.exitCode = await autoCommand.checkAndKill();
           break;
 
         case "status":
@@ -146,7 +626,7 @@ program
           console.error(
             chalk.gray("Valid actions: enable, disable, check, status")
           );
-          process.exit(1);
+          process.exit(ExitCode.INVALID_INPUT);
       }
     } catch (error) {
       handleError(error);
@@ -165,6 +645,277 @@ program
     }
   });
 
+// Validate --signal
+function parseSignalOption(value: string | undefined): KillSignal | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const signal = parseKillSignal(value);
+  if (!signal) {
+    throw new InvalidInputError(
+      `Unknown signal "${value}". Use one of: ${Object.keys(KILL_SIGNALS).join(", ")}`
+    );
+  }
+  return signal;
+}
+
+// Validate --timeout / --respawn-window / --interval
+function parseMillisecondsOption(
+  label: string,
+  value: string | undefined
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value.trim())) {
+    throw new InvalidInputError(
+      `${label} must be a whole number of milliseconds (got "${value}")`
+    );
+  }
+  return parseInt(value, 10);
+}
+
+// Validate --protocol / --udp
+function parseProtocolOption(
+  value: string | undefined,
+  udp: boolean | undefined
+): ProtocolFilter | undefined {
+  if (value === undefined) {
+    return udp ? "udp" : undefined;
+  }
+  const protocol = parseProtocolFilter(value);
+  if (!protocol) {
+    throw new InvalidInputError(
+      `Unknown protocol "${value}". Use one of: ${PROTOCOL_FILTERS.join(", ")}`
+    );
+  }
+  if (udp && protocol !== "udp") {
+    throw new InvalidInputError(`--udp conflicts with --protocol ${protocol}`);
+  }
+  return protocol;
+}
+
+// Validate --format, --columns, --template, --sort and --group-by and how they combine
+function parseScanOutputOptions(options: {
+  format?: string;
+  columns?: string;
+  template?: string;
+  sort?: string;
+  json?: boolean;
+  watch?: boolean;
+  groupBy?: string;
+}): Pick<ScanOptions, "format" | "columns" | "template" | "sort" | "groupBy"> {
+  const given = (["format", "columns", "template", "sort", "groupBy"] as const).filter(
+    (name) => options[name] !== undefined
+  );
+  const layout = given.filter((name) => name !== "sort" && name !== "groupBy");
+  if (options.json && layout.length > 0) {
+    throw new InvalidInputError(`--${layout[0]} cannot be combined with --json`);
+  }
+  if (options.watch && given.length > 0) {
+    const flag = given[0] === "groupBy" ? "group-by" : given[0];
+    throw new InvalidInputError(`--${flag} cannot be combined with --watch`);
+  }
+  if (options.template !== undefined && layout.length > 1) {
+    throw new InvalidInputError(
+      `--template cannot be combined with --${layout.find((n) => n !== "template")}`
+    );
+  }
+
+  let format: ScanOptions["format"];
+  if (options.format !== undefined) {
+    const parsed = parseScanFormat(options.format);
+    if (!parsed) {
+      throw new InvalidInputError(
+        `Unknown format "${options.format}". Use one of: ${SCAN_FORMATS.join(", ")}`
+      );
+    }
+    format = parsed;
+  }
+
+  let columns: ScanOptions["columns"];
+  if (options.columns !== undefined) {
+    const parsed = parseScanColumns(options.columns);
+    if (parsed.invalid.length > 0 || parsed.columns.length === 0) {
+      throw new InvalidInputError(
+        (parsed.invalid.length > 0
+          ? `Unknown column(s): ${parsed.invalid.join(", ")}. `
+          : "No columns given. ") + `Use any of: ${SCAN_COLUMNS.join(", ")}`
+      );
+    }
+    columns = parsed.columns;
+    format = format ?? "table";
+  }
+
+  if (options.template !== undefined) {
+    const unknown = unknownTemplateFields(options.template);
+    if (unknown.length > 0) {
+      throw new InvalidInputError(
+        `Unknown template field(s): ${unknown.map((f) => `{{${f}}}`).join(", ")}. ` +
+          `Use any of: ${SCAN_COLUMNS.join(", ")}`
+      );
+    }
+  }
+
+  let sort: ScanOptions["sort"];
+  if (options.sort !== undefined) {
+    const parsed = parseScanSortKey(options.sort);
+    if (!parsed) {
+      throw new InvalidInputError(
+        `Unknown sort key "${options.sort}". Use one of: ${SCAN_SORT_KEYS.join(", ")}`
+      );
+    }
+    sort = parsed;
+  }
+
+  let groupBy: ScanOptions["groupBy"];
+  if (options.groupBy !== undefined) {
+    const parsed = parseScanGroupKey(options.groupBy);
+    if (!parsed) {
+      throw new InvalidInputError(
+        `Unknown group "${options.groupBy}". Use one of: ${SCAN_GROUP_KEYS.join(", ")}`
+      );
+    }
+    groupBy = parsed;
+  }
+
+  return { format, columns, template: options.template, sort, groupBy };
+}
+
+// Validate zkill protect add/remove arguments; a lone number is a port
+function parseProtectTarget(
+  kind: string | undefined,
+  value: string | undefined
+): { kind: ProtectionKind; value: string } {
+  if (kind !== undefined && value === undefined && /^\d+$/.test(kind.trim())) {
+    return { kind: "port", value: kind };
+  }
+  if (kind === undefined || value === undefined) {
+    throw new InvalidInputError(
+      `Usage: zkill protect add|remove <${PROTECTION_KINDS.join("|")}> <value>`
+    );
+  }
+  const parsed = parseProtectionKind(kind);
+  if (!parsed) {
+    throw new InvalidInputError(
+      `Unknown kind "${kind}". Use one of: ${PROTECTION_KINDS.join(", ")}`
+    );
+  }
+  return { kind: parsed, value };
+}
+
+// Validate zkill map ports (same grammar as zkill <ports...>)
+function parseMapPorts(args: string[]): number[] {
+  if (args.length === 0) {
+    return [];
+  }
+  const parsed = parseKillPortTokens(args);
+  if (!parsed.ok) {
+    throw new InvalidInputError(
+      `Invalid port expression: ${parsed.errors
+        .map(({ token, reason }) => `"${token}": ${reason}`)
+        .join("; ")}`
+    );
+  }
+  return parsed.ports;
+}
+
+// Validate the single <port> of zkill map edit|toggle
+function parseMapPort(args: string[]): number {
+  const ports = parseMapPorts(args);
+  if (ports.length !== 1) {
+    throw new InvalidInputError("Give exactly one port");
+  }
+  return ports[0];
+}
+
+// Validate the <key> of zkill config get|set|unset
+function parseConfigKeyArgument(key: string | undefined): ConfigKey {
+  if (key === undefined) {
+    throw new InvalidInputError(
+      `Missing setting name. Use one of: ${CONFIG_KEYS.join(", ")}`
+    );
+  }
+  const parsed = parseConfigKey(key);
+  if (!parsed) {
+    throw new InvalidInputError(
+      `Unknown setting "${key}". Use one of: ${CONFIG_KEYS.join(", ")}`
+    );
+  }
+  return parsed;
+}
+
+// Validate zkill history filters
+function parseHistoryOptions(options: {
+  port?: string;
+  project?: string;
+  since?: string;
+  until?: string;
+  trigger?: string;
+  limit?: string;
+}): HistoryOptions {
+  const parsed: HistoryOptions = { project: options.project };
+
+  if (options.port !== undefined) {
+    const port = /^\d+$/.test(options.port.trim()) ? parseInt(options.port, 10) : NaN;
+    if (!(port >= 1 && port <= 65535)) {
+      throw new InvalidInputError(
+        `Port must be a number between 1 and 65535 (got "${options.port}")`
+      );
+    }
+    parsed.port = port;
+  }
+
+  for (const key of ["since", "until"] as const) {
+    const value = options[key];
+    if (value === undefined) {
+      continue;
+    }
+    const time = parseHistoryTime(value);
+    if (!time) {
+      throw new InvalidInputError(
+        `Invalid --${key} "${value}". Use today, yesterday, an age like 7d or 12h, or a date like 2026-03-14`
+      );
+    }
+    parsed[key] = key === "since" ? time.start : time.end;
+  }
+
+  if (options.trigger !== undefined) {
+    const trigger = parseKillTrigger(options.trigger);
+    if (!trigger) {
+      throw new InvalidInputError(
+        `Unknown trigger "${options.trigger}". Use one of: ${AUDIT_TRIGGERS.join(", ")}`
+      );
+    }
+    parsed.trigger = trigger;
+  }
+
+  if (options.limit !== undefined) {
+    if (!/^\d+$/.test(options.limit.trim()) || parseInt(options.limit, 10) < 1) {
+      throw new InvalidInputError(
+        `Limit must be a positive whole number (got "${options.limit}")`
+      );
+    }
+    parsed.limit = parseInt(options.limit, 10);
+  }
+
+  return parsed;
+}
+
+// Print the versioned kill JSON document
+function printKillJson(
+  outcomes: KillOutcome[],
+  request: { ports?: number[]; name?: string; project?: string; force: boolean }
+): void {
+  const doc = buildKillJsonDocument({
+    outcomes,
+    zkillVersion: packageJson.version,
+    platform: os.platform(),
+    request,
+  });
+  console.log(JSON.stringify(doc));
+}
+
 // Handle errors
 function handleError(error: unknown): void {
   if (error instanceof Error) {
@@ -179,7 +930,9 @@ function handleError(error: unknown): void {
     console.error(chalk.red("❌ An unknown error occurred"));
   }
 
-  process.exit(1);
+  process.exit(
+    error instanceof InvalidInputError ? ExitCode.INVALID_INPUT : ExitCode.ERROR
+  );
 }
 
 // Show system and project info
@@ -192,10 +945,23 @@ function showInfo(): void {
   const commonPorts = projectService.getCommonPortsForProjectType();
   const autoKillEnabled = storageService.isAutoKillEnabled();
   const configPath = storageService.getConfigPath();
+  const projectConfigPath = storageService.getProjectConfigPath();
 
   console.log(chalk.bold("\n⚙️  System Information:\n"));
   console.log(chalk.cyan("Platform:    ") + chalk.white(platform));
-  console.log(chalk.cyan("Config file: ") + chalk.gray(configPath));
+  console.log(
+    chalk.cyan("Config file: ") +
+      chalk.gray(`${configPath} (${describeConfigSource(configLocation.source)})`)
+  );
+  if (configLocation.readOnlySource) {
+    console.log(
+      chalk.cyan("Read-only:   ") +
+        chalk.yellow(`Enabled (${configLocation.readOnlySource})`)
+    );
+  }
+  if (projectConfigPath) {
+    console.log(chalk.cyan("Project rc:  ") + chalk.gray(projectConfigPath));
+  }
   console.log(
     chalk.cyan("Auto-kill:   ") +
       (autoKillEnabled ? chalk.green("Enabled") : chalk.red("Disabled"))
@@ -215,6 +981,8 @@ function showInfo(): void {
     console.log(chalk.yellow("\n⚠️  Not in a project directory"));
   }
 
+  showEffectiveSettings();
+
   const mappings = storageService.getAllMappings();
   if (mappings.length > 0) {
     console.log(
@@ -228,6 +996,64 @@ function showInfo(): void {
   console.log("");
 }
 
+// Show each effective setting and the file it comes from
+function showEffectiveSettings(): void {
+  const settings = storageService.getKillSettings();
+  const onOff = (value: boolean) => (value ? "Enabled" : "Disabled");
+  const rows: Array<[string, string, string | null]> = [
+    [
+      "Auto-kill:",
+      onOff(storageService.isAutoKillEnabled()),
+      storageService.getSettingSource("autoKillEnabled"),
+    ],
+    [
+      "Confirm kills:",
+      onOff(storageService.isConfirmKillEnabled()),
+      storageService.getSettingSource("confirmKill"),
+    ],
+    ["Signal:", settings.signal, storageService.getSettingSource("killSignal")],
+    [
+      "Timeout:",
+      `${settings.timeoutMs} ms`,
+      storageService.getSettingSource("killTimeout"),
+    ],
+    [
+      "Escalate:",
+      onOff(settings.escalate),
+      storageService.getSettingSource("escalate"),
+    ],
+    [
+      "Respawn window:",
+      `${settings.respawnWindowMs} ms`,
+      storageService.getSettingSource("respawnWindow"),
+    ],
+  ];
+
+  for (const rule of storageService.getProtections()) {
+    rows.push([
+      "Protected:",
+      describeProtection(rule),
+      storageService.getProtectionSource(rule),
+    ]);
+  }
+  for (const mapping of storageService.getAllMappings()) {
+    if (mapping.configFile) {
+      const role = mapping.role ? ` (${mapping.role})` : "";
+      const autoKill = mapping.autoKill ? " [auto-kill]" : "";
+      rows.push(["Port:", `${mapping.port}${role}${autoKill}`, mapping.configFile]);
+    }
+  }
+
+  console.log(chalk.bold("\n🔧 Effective Settings:\n"));
+  for (const [label, value, source] of rows) {
+    console.log(
+      chalk.cyan(label.padEnd(16)) +
+        chalk.white(value.padEnd(20)) +
+        chalk.gray(`← ${source}`)
+    );
+  }
+}
+
 // Add custom help
 program.on("--help", () => {
   console.log("");
@@ -239,9 +1065,30 @@ program.on("--help", () => {
   console.log(chalk.gray("  # Kill processes on several ports"));
   console.log("  $ zkill 3000 8000 5432");
   console.log("");
+  console.log(chalk.gray("  # Kill whatever listens in a range, except one port"));
+  console.log("  $ zkill 3000-3010,!3005");
+  console.log("");
+  console.log(chalk.gray("  # Kill every process named node (glob or /regex/)"));
+  console.log('  $ zkill --name node');
+  console.log("");
   console.log(chalk.gray("  # Kill without confirmation"));
   console.log("  $ zkill 3000 --force");
   console.log("");
+  console.log(chalk.gray("  # Give a dev server 10s to shut down on SIGINT, never SIGKILL"));
+  console.log("  $ zkill 3000 --signal SIGINT --timeout 10000 --no-escalate");
+  console.log("");
+  console.log(chalk.gray("  # Stop `npm run dev` and everything it spawned"));
+  console.log("  $ zkill 3000 --supervisor");
+  console.log("");
+  console.log(chalk.gray("  # Free a UDP port (DNS stub, StatsD, QUIC dev server)"));
+  console.log("  $ zkill 8125 --udp");
+  console.log("");
+  console.log(chalk.gray("  # Stop every port a project uses"));
+  console.log("  $ zkill --project billing-api");
+  console.log("");
+  console.log(chalk.gray("  # Machine-readable kill results (scripts / CI)"));
+  console.log("  $ zkill 3000 8080 --force --json");
+  console.log("");
   console.log(chalk.gray("  # List all active ports"));
   console.log("  $ zkill scan");
   console.log("");
@@ -254,12 +1101,51 @@ program.on("--help", () => {
   console.log(chalk.gray("  # Hide system processes"));
   console.log("  $ zkill scan --no-system");
   console.log("");
+  console.log(chalk.gray("  # List TCP and UDP ports together"));
+  console.log("  $ zkill scan --protocol all");
+  console.log("");
+  console.log(chalk.gray("  # Dev servers reachable from the LAN"));
+  console.log("  $ zkill scan --exposed");
+  console.log("");
+  console.log(chalk.gray("  # Live dashboard of ports appearing and disappearing"));
+  console.log("  $ zkill scan --watch");
+  console.log("");
   console.log(chalk.gray("  # Show detailed process context"));
   console.log("  $ zkill scan --verbose");
   console.log("");
+  console.log(chalk.gray("  # One row per listener, newest processes last"));
+  console.log("  $ zkill scan --format table --sort uptime");
+  console.log("");
+  console.log(chalk.gray("  # Listeners clustered by project"));
+  console.log("  $ zkill scan --group-by project");
+  console.log("");
+  console.log(chalk.gray("  # Custom columns for spreadsheets or awk"));
+  console.log("  $ zkill scan --format csv --columns port,pid,project,command");
+  console.log("");
   console.log(chalk.gray("  # Machine-readable scan (scripts / jq)"));
   console.log("  $ zkill scan --json");
   console.log("");
+  console.log(chalk.gray("  # What started listening since the snapshot?"));
+  console.log("  $ zkill scan --save before && npm test && zkill diff before");
+  console.log("");
+  console.log(chalk.gray("  # Pick listeners to kill from a full-screen list"));
+  console.log("  $ zkill ui");
+  console.log("");
+  console.log(chalk.gray("  # Never kill the database, even with --force"));
+  console.log("  $ zkill protect add port 5432");
+  console.log("");
+  console.log(chalk.gray("  # Map this project's usual ports so zkill knows who owns them"));
+  console.log("  $ zkill map add 3000 5432 --common");
+  console.log("");
+  console.log(chalk.gray("  # Stop asking before every kill"));
+  console.log("  $ zkill config set confirmKill false");
+  console.log("");
+  console.log(chalk.gray("  # Upgrade and repair a hand-edited config.json"));
+  console.log("  $ zkill config doctor");
+  console.log("");
+  console.log(chalk.gray("  # Who killed the database last week?"));
+  console.log("  $ zkill history --port 5432 --since 7d");
+  console.log("");
   console.log(chalk.gray("  # List port mappings"));
   console.log("  $ zkill list");
   console.log("");
@@ -269,7 +1155,31 @@ program.on("--help", () => {
   console.log(chalk.gray("  # Show system info"));
   console.log("  $ zkill info");
   console.log("");
+  console.log(chalk.gray("  # Scan in a container with an immutable home"));
+  console.log("  $ ZKILL_HOME=/tmp/zkill zkill scan");
+  console.log("  $ zkill scan --read-only");
+  console.log("");
+  console.log(chalk.bold("Exit codes:"));
+  console.log("");
+  console.log("  0 success   1 error      2 invalid input   3 nothing listening");
+  console.log("  4 cancelled 5 kill failed (permissions)    6 partial success");
+  console.log("  7 protected (skipped by zkill protect)");
+  console.log("");
 });
 
+// --config and --read-only were read before the services started; every
+// command accepts them so they can go anywhere on the command line
+for (const command of [program, ...program.commands]) {
+  command
+    .option(
+      "--config <path>",
+      "Config file to use instead of $ZKILL_CONFIG, $ZKILL_HOME/config.json or the default"
+    )
+    .option(
+      "--read-only",
+      "Never write config, history or snapshots (same as ZKILL_READ_ONLY=1)"
+    );
+}
+
 // Parse arguments
 program.parse();
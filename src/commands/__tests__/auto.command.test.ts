@@ -3,16 +3,20 @@
  */
 
 import { AutoCommand } from '../auto.command';
+import { KillCommand } from '../kill.command';
 import { ProcessService } from '../../services/process.service';
 import { StorageService } from '../../services/storage.service';
 import { ProjectService } from '../../services/project.service';
+import { AuditService } from '../../services/audit.service';
 import { ProcessInfo } from '../../types';
 import inquirer from 'inquirer';
+import { ExitCode } from '../../exit-codes';
 
 // Mock dependencies
 jest.mock('../../services/process.service');
 jest.mock('../../services/storage.service');
 jest.mock('../../services/project.service');
+jest.mock('../../services/audit.service');
 jest.mock('inquirer');
 
 describe('AutoCommand', () => {
@@ -20,6 +24,7 @@ describe('AutoCommand', () => {
   let mockProcessService: jest.Mocked<ProcessService>;
   let mockStorageService: jest.Mocked<StorageService>;
   let mockProjectService: jest.Mocked<ProjectService>;
+  let mockAuditService: jest.Mocked<AuditService>;
 
   beforeEach(() => {
     // Clear all mocks
@@ -29,13 +34,28 @@ describe('AutoCommand', () => {
     mockProcessService = new ProcessService() as jest.Mocked<ProcessService>;
     mockStorageService = new StorageService() as jest.Mocked<StorageService>;
     mockProjectService = new ProjectService() as jest.Mocked<ProjectService>;
+    mockAuditService = new AuditService() as jest.Mocked<AuditService>;
 
-    // Create command instance
+    // Create command instance; kills go through a real KillCommand
     autoCommand = new AutoCommand(
       mockProcessService,
       mockStorageService,
-      mockProjectService
+      mockProjectService,
+      new KillCommand(
+        mockProcessService,
+        mockStorageService,
+        mockProjectService,
+        mockAuditService
+      )
     );
+    mockStorageService.getProtections.mockReturnValue([]);
+    mockStorageService.getKillSettings.mockReturnValue({
+      signal: 'SIGTERM',
+      timeoutMs: 3000,
+      escalate: true,
+      respawnWindowMs: 1000,
+    });
+    mockProcessService.signalAccess.mockReturnValue('allowed');
 
     // Mock console methods to avoid test output clutter
     jest.spyOn(console, 'log').mockImplementation();
@@ -59,6 +79,20 @@ describe('AutoCommand', () => {
     });
   });
 
+  describe('project override', () => {
+    it('should say when a .zkillrc keeps auto-kill off in this project', async () => {
+      mockStorageService.getConfigPath.mockReturnValue('/home/u/.zkill/config.json');
+      mockStorageService.getSettingSource.mockReturnValue('/work/app/.zkillrc');
+      mockStorageService.isAutoKillEnabled.mockReturnValue(false);
+
+      await autoCommand.enable();
+
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('/work/app/.zkillrc turns auto-kill off')
+      );
+    });
+  });
+
   describe('disable', () => {
     it('should disable auto-kill and show confirmation', async () => {
       await autoCommand.disable();
@@ -101,21 +135,27 @@ describe('AutoCommand', () => {
           projectName: 'project-1',
           projectPath: '/path/1',
           autoKill: true,
+          firstSeen: new Date(),
           lastUsed: new Date(),
+          useCount: 1,
         },
         {
           port: 4000,
           projectName: 'project-2',
           projectPath: '/path/2',
           autoKill: true,
+          firstSeen: new Date(),
           lastUsed: new Date(),
+          useCount: 1,
         },
         {
           port: 5000,
           projectName: 'project-3',
           projectPath: '/path/3',
           autoKill: false,
+          firstSeen: new Date(),
           lastUsed: new Date(),
+          useCount: 1,
         },
       ]);
 
@@ -131,7 +171,7 @@ describe('AutoCommand', () => {
     it('should exit silently when auto-kill is disabled', async () => {
       mockStorageService.isAutoKillEnabled.mockReturnValue(false);
 
-      await autoCommand.checkAndKill();
+      await expect(autoCommand.checkAndKill()).resolves.toBe(ExitCode.SUCCESS);
 
       expect(mockStorageService.getAllMappings).not.toHaveBeenCalled();
       expect(console.log).not.toHaveBeenCalled();
@@ -146,7 +186,9 @@ describe('AutoCommand', () => {
           projectName: 'current-project',
           projectPath: '/current/path',
           autoKill: true,
+          firstSeen: new Date(),
           lastUsed: new Date(),
+          useCount: 1,
         },
       ]);
 
@@ -165,7 +207,9 @@ describe('AutoCommand', () => {
           projectName: 'other-project',
           projectPath: '/other/path',
           autoKill: true,
+          firstSeen: new Date(),
           lastUsed: new Date(),
+          useCount: 1,
         },
       ]);
       mockProcessService.findByPort.mockResolvedValue(null);
@@ -176,6 +220,37 @@ describe('AutoCommand', () => {
       expect(console.log).not.toHaveBeenCalled();
     });
 
+    it('should leave a shared port alone while the current project serves it', async () => {
+      const mapping = (projectName: string, projectPath: string) => ({
+        port: 3000,
+        projectName,
+        projectPath,
+        autoKill: true,
+        firstSeen: new Date(),
+        lastUsed: new Date(),
+        useCount: 1,
+      });
+      mockStorageService.isAutoKillEnabled.mockReturnValue(true);
+      mockProjectService.getCurrentProjectPath.mockReturnValue('/current/path');
+      mockStorageService.getAllMappings.mockReturnValue([
+        mapping('other-project', '/other/path'),
+        mapping('current-project', '/current/path'),
+      ]);
+      mockProcessService.findByPort.mockResolvedValue({
+        pid: 1234,
+        port: 3000,
+        processName: 'node',
+        command: 'node server.js',
+        workingDirectory: '/current/path/web',
+      });
+
+      await expect(autoCommand.checkAndKill()).resolves.toBe(ExitCode.SUCCESS);
+
+      expect(mockProcessService.findByPort).toHaveBeenCalledTimes(1);
+      expect(inquirer.prompt).not.toHaveBeenCalled();
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+    });
+
     it('should prompt to kill processes from other projects', async () => {
       const mockProcess: ProcessInfo = {
         pid: 1234,
@@ -195,7 +270,9 @@ describe('AutoCommand', () => {
           projectName: 'other-project',
           projectPath: '/other/path',
           autoKill: true,
+          firstSeen: new Date(),
           lastUsed: new Date(),
+          useCount: 1,
         },
       ]);
       mockProcessService.findByPort.mockResolvedValue(mockProcess);
@@ -212,6 +289,73 @@ describe('AutoCommand', () => {
       expect(inquirer.prompt).toHaveBeenCalled();
     });
 
+    it('should never auto-kill protected ports', async () => {
+      mockStorageService.isAutoKillEnabled.mockReturnValue(true);
+      mockProjectService.getCurrentProjectPath.mockReturnValue('/current/path');
+      mockStorageService.getAllMappings.mockReturnValue([
+        {
+          port: 5432,
+          projectName: 'other-project',
+          projectPath: '/other/path',
+          autoKill: true,
+          firstSeen: new Date(),
+          lastUsed: new Date(),
+          useCount: 1,
+        },
+      ]);
+      mockStorageService.getProtections.mockReturnValue([
+        { kind: 'user', value: 'postgres' },
+      ]);
+      mockProcessService.findByPort.mockResolvedValue({
+        pid: 999,
+        port: 5432,
+        processName: 'postgres',
+        command: 'postgres -D /data',
+        user: 'postgres',
+      });
+
+      await expect(autoCommand.checkAndKill()).resolves.toBe(ExitCode.PROTECTED);
+
+      expect(inquirer.prompt).not.toHaveBeenCalled();
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Not auto-killing port 5432')
+      );
+    });
+
+    it('should report partial success when protected ports were left running', async () => {
+      mockStorageService.isAutoKillEnabled.mockReturnValue(true);
+      mockProjectService.getCurrentProjectPath.mockReturnValue('/current/path');
+      mockStorageService.getAllMappings.mockReturnValue(
+        [3000, 5432].map((port) => ({
+          port,
+          projectName: 'other-project',
+          projectPath: '/other/path',
+          autoKill: true,
+          firstSeen: new Date(),
+          lastUsed: new Date(),
+          useCount: 1,
+        }))
+      );
+      mockStorageService.getProtections.mockReturnValue([
+        { kind: 'user', value: 'postgres' },
+      ]);
+      mockProcessService.findByPort
+        .mockResolvedValueOnce({ pid: 1, port: 3000, processName: 'node', command: 'node' })
+        .mockResolvedValueOnce({
+          pid: 999,
+          port: 5432,
+          processName: 'postgres',
+          command: 'postgres -D /data',
+          user: 'postgres',
+        });
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: true });
+      mockProcessService.killProcess.mockResolvedValue(true);
+
+      await expect(autoCommand.checkAndKill()).resolves.toBe(ExitCode.PARTIAL);
+      expect(mockProcessService.killProcess).toHaveBeenCalledTimes(1);
+    });
+
     it('should skip auto-kill when user declines', async () => {
       const mockProcess: ProcessInfo = {
         pid: 1234,
@@ -228,13 +372,15 @@ describe('AutoCommand', () => {
           projectName: 'other-project',
           projectPath: '/other/path',
           autoKill: true,
+          firstSeen: new Date(),
           lastUsed: new Date(),
+          useCount: 1,
         },
       ]);
       mockProcessService.findByPort.mockResolvedValue(mockProcess);
       (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: false });
 
-      await autoCommand.checkAndKill();
+      await expect(autoCommand.checkAndKill()).resolves.toBe(ExitCode.CANCELLED);
 
       expect(mockProcessService.killProcess).not.toHaveBeenCalled();
       expect(console.log).toHaveBeenCalledWith(
@@ -258,7 +404,9 @@ describe('AutoCommand', () => {
           projectName: 'other-project',
           projectPath: '/other/path',
           autoKill: true,
+          firstSeen: new Date(),
           lastUsed: new Date(),
+          useCount: 1,
         },
       ]);
       mockProcessService.findByPort.mockResolvedValue(mockProcess);
@@ -267,10 +415,107 @@ describe('AutoCommand', () => {
 
       await autoCommand.checkAndKill();
 
-      expect(mockProcessService.killProcess).toHaveBeenCalledWith(1234, false);
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(1234, false, {
+        signal: 'SIGTERM',
+        timeoutMs: 3000,
+      });
       expect(console.log).toHaveBeenCalledWith(
         expect.stringContaining('Killed 1 process')
       );
+      // The shell hook does not wait out the respawn window
+      expect(mockProcessService.findByPort).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the configured signal, timeout and escalation', async () => {
+      mockStorageService.getKillSettings.mockReturnValue({
+        signal: 'SIGINT',
+        timeoutMs: 500,
+        escalate: true,
+        respawnWindowMs: 0,
+      });
+      mockStorageService.isAutoKillEnabled.mockReturnValue(true);
+      mockProjectService.getCurrentProjectPath.mockReturnValue('/current/path');
+      mockStorageService.getAllMappings.mockReturnValue([
+        {
+          port: 3000,
+          projectName: 'other-project',
+          projectPath: '/other/path',
+          autoKill: true,
+          firstSeen: new Date(),
+          lastUsed: new Date(),
+          useCount: 1,
+        },
+      ]);
+      mockProcessService.findByPort.mockResolvedValue({
+        pid: 1234,
+        port: 3000,
+        processName: 'node',
+        command: 'node server.js',
+      });
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: true });
+      mockProcessService.killProcess
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(true);
+
+      await expect(autoCommand.checkAndKill()).resolves.toBe(ExitCode.SUCCESS);
+
+      expect(mockProcessService.killProcess).toHaveBeenNthCalledWith(1, 1234, false, {
+        signal: 'SIGINT',
+        timeoutMs: 500,
+      });
+      expect(mockProcessService.killProcess).toHaveBeenNthCalledWith(2, 1234, true, {
+        timeoutMs: 500,
+      });
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ signal: 'SIGINT', method: 'force', success: true })
+      );
+    });
+
+    it('should record auto kills in the history', async () => {
+      mockStorageService.isAutoKillEnabled.mockReturnValue(true);
+      mockProjectService.getCurrentProjectPath.mockReturnValue('/current/path');
+      mockStorageService.getAllMappings.mockReturnValue([
+        {
+          port: 3000,
+          projectName: 'other-project',
+          projectPath: '/other/path',
+          autoKill: true,
+          firstSeen: new Date(),
+          lastUsed: new Date(),
+          useCount: 1,
+        },
+      ]);
+      mockProcessService.findByPort.mockResolvedValue({
+        pid: 1234,
+        port: 3000,
+        processName: 'node',
+        command: 'node server.js',
+        user: 'dev',
+      });
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: true });
+      mockProcessService.killProcess.mockResolvedValue(false);
+      mockProcessService.signalAccess.mockReturnValue('denied');
+      mockStorageService.getPortMapping.mockImplementation(
+        () => mockStorageService.getAllMappings()[0]
+      );
+
+      await autoCommand.checkAndKill();
+
+      expect(mockProcessService.killProcess).toHaveBeenCalledTimes(1);
+      expect(mockAuditService.record).toHaveBeenCalledWith({
+        port: 3000,
+        protocol: 'tcp',
+        pid: 1234,
+        processName: 'node',
+        command: 'node server.js',
+        project: 'other-project',
+        processUser: 'dev',
+        signal: 'SIGTERM',
+        method: 'graceful',
+        success: false,
+        error: 'Failed to terminate process (elevated privileges may be required)',
+        trigger: 'auto',
+      });
     });
 
     it('should handle multiple ports from other projects', async () => {
@@ -295,14 +540,18 @@ describe('AutoCommand', () => {
           projectName: 'project-1',
           projectPath: '/path/1',
           autoKill: true,
+          firstSeen: new Date(),
           lastUsed: new Date(),
+          useCount: 1,
         },
         {
           port: 4000,
           projectName: 'project-2',
           projectPath: '/path/2',
           autoKill: true,
+          firstSeen: new Date(),
           lastUsed: new Date(),
+          useCount: 1,
         },
       ]);
       mockProcessService.findByPort
@@ -311,44 +560,125 @@ describe('AutoCommand', () => {
       (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: true });
       mockProcessService.killProcess.mockResolvedValue(true);
 
-      await autoCommand.checkAndKill();
+      await expect(autoCommand.checkAndKill()).resolves.toBe(ExitCode.SUCCESS);
 
       expect(mockProcessService.killProcess).toHaveBeenCalledTimes(2);
       expect(console.log).toHaveBeenCalledWith(
         expect.stringContaining('Killed 2 process')
       );
     });
+
+    it('should report partial success and failed ports', async () => {
+      mockStorageService.isAutoKillEnabled.mockReturnValue(true);
+      mockProjectService.getCurrentProjectPath.mockReturnValue('/current/path');
+      mockStorageService.getAllMappings.mockReturnValue([
+        {
+          port: 3000,
+          projectName: 'a',
+          projectPath: '/a',
+          autoKill: true,
+          firstSeen: new Date(),
+          lastUsed: new Date(),
+          useCount: 1,
+        },
+        {
+          port: 4000,
+          projectName: 'b',
+          projectPath: '/b',
+          autoKill: true,
+          firstSeen: new Date(),
+          lastUsed: new Date(),
+          useCount: 1,
+        },
+      ]);
+      mockProcessService.findByPort
+        .mockResolvedValueOnce({ pid: 1, port: 3000, processName: 'node', command: 'node' })
+        .mockResolvedValueOnce({ pid: 2, port: 4000, processName: 'node', command: 'node' });
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: true });
+      mockProcessService.killProcess
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+
+      await expect(autoCommand.checkAndKill()).resolves.toBe(ExitCode.PARTIAL);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Failed to kill processes on ports 4000')
+      );
+    });
+
+    it('should report kill failure when nothing could be killed', async () => {
+      mockStorageService.isAutoKillEnabled.mockReturnValue(true);
+      mockProjectService.getCurrentProjectPath.mockReturnValue('/current/path');
+      mockStorageService.getAllMappings.mockReturnValue([
+        {
+          port: 3000,
+          projectName: 'a',
+          projectPath: '/a',
+          autoKill: true,
+          firstSeen: new Date(),
+          lastUsed: new Date(),
+          useCount: 1,
+        },
+      ]);
+      mockProcessService.findByPort.mockResolvedValue({
+        pid: 1,
+        port: 3000,
+        processName: 'node',
+        command: 'node',
+      });
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: true });
+      mockProcessService.killProcess.mockResolvedValue(false);
+
+      await expect(autoCommand.checkAndKill()).resolves.toBe(ExitCode.KILL_FAILED);
+    });
   });
 
   describe('togglePort', () => {
     it('should show error when no mapping exists', async () => {
       mockStorageService.getPortMapping.mockReturnValue(null);
 
-      await autoCommand.togglePort(3000);
+      await expect(autoCommand.togglePort(3000)).resolves.toBe(ExitCode.NOT_FOUND);
 
       expect(console.log).toHaveBeenCalledWith(
         expect.stringContaining('No mapping found')
       );
-      expect(mockStorageService.addPortMapping).not.toHaveBeenCalled();
+      expect(mockStorageService.updatePortMapping).not.toHaveBeenCalled();
     });
 
-    it('should enable auto-kill when currently disabled', async () => {
+    it('should leave ports declared in a .zkillrc alone', async () => {
       mockStorageService.getPortMapping.mockReturnValue({
         port: 3000,
         projectName: 'test-project',
         projectPath: '/test/path',
         autoKill: false,
+        firstSeen: new Date(),
         lastUsed: new Date(),
+        useCount: 1,
+        configFile: '/test/path/.zkillrc',
       });
 
       await autoCommand.togglePort(3000);
 
-      expect(mockStorageService.addPortMapping).toHaveBeenCalledWith({
+      expect(mockStorageService.updatePortMapping).not.toHaveBeenCalled();
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('declared in /test/path/.zkillrc')
+      );
+    });
+
+    it('should enable auto-kill when currently disabled', async () => {
+      mockStorageService.getPortMapping.mockReturnValue({
         port: 3000,
         projectName: 'test-project',
         projectPath: '/test/path',
+        autoKill: false,
+        firstSeen: new Date(),
+        lastUsed: new Date(),
+        useCount: 1,
+      });
+
+      await autoCommand.togglePort(3000);
+
+      expect(mockStorageService.updatePortMapping).toHaveBeenCalledWith(3000, '/test/path', {
         autoKill: true,
-        lastUsed: expect.any(Date),
       });
       expect(console.log).toHaveBeenCalledWith(
         expect.stringContaining('Auto-kill enabled for port 3000')
@@ -361,17 +691,15 @@ describe('AutoCommand', () => {
         projectName: 'test-project',
         projectPath: '/test/path',
         autoKill: true,
+        firstSeen: new Date(),
         lastUsed: new Date(),
+        useCount: 1,
       });
 
       await autoCommand.togglePort(3000);
 
-      expect(mockStorageService.addPortMapping).toHaveBeenCalledWith({
-        port: 3000,
-        projectName: 'test-project',
-        projectPath: '/test/path',
+      expect(mockStorageService.updatePortMapping).toHaveBeenCalledWith(3000, '/test/path', {
         autoKill: false,
-        lastUsed: expect.any(Date),
       });
       expect(console.log).toHaveBeenCalledWith(
         expect.stringContaining('Auto-kill disabled for port 3000')
@@ -0,0 +1,330 @@
+/**
+ * Unit tests for ConfigCommand
+ */
+
+import fs from 'fs';
+import { spawnSync } from 'child_process';
+import inquirer from 'inquirer';
+import { ConfigCommand } from '../config.command';
+import { StorageService } from '../../services/storage.service';
+import { ExitCode, InvalidInputError } from '../../exit-codes';
+import { ConfigKey, DEFAULT_SETTINGS } from '../../config-settings';
+import { ReadOnlyError } from '../../config-location';
+import { Config } from '../../types';
+
+jest.mock('child_process');
+jest.mock('inquirer');
+jest.mock('../../services/storage.service');
+
+describe('ConfigCommand', () => {
+  const configPath = '/home/alice/.zkill/config.json';
+  let configCommand: ConfigCommand;
+  let mockStorageService: jest.Mocked<StorageService>;
+  let settings: Pick<Config, ConfigKey>;
+
+  const output = () =>
+    (console.log as jest.Mock).mock.calls.map((call) => String(call[0]));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    settings = { ...DEFAULT_SETTINGS, killSignal: 'SIGINT' };
+    mockStorageService = new StorageService() as jest.Mocked<StorageService>;
+    mockStorageService.getConfigPath.mockReturnValue(configPath);
+    mockStorageService.getProjectConfigPath.mockReturnValue(null);
+    mockStorageService.getSetting.mockImplementation((key: ConfigKey) => settings[key]);
+    mockStorageService.getSettingSource.mockReturnValue(configPath);
+    mockStorageService.getAllMappings.mockReturnValue([]);
+    mockStorageService.getProtections.mockReturnValue([]);
+    configCommand = new ConfigCommand(mockStorageService);
+
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('get', () => {
+    it('should print the bare value', () => {
+      configCommand.get('killSignal');
+
+      expect(output()).toEqual(['SIGINT']);
+    });
+
+    it('should print the value, default and source as JSON', () => {
+      configCommand.get('killTimeout', { json: true });
+
+      expect(JSON.parse(output()[0])).toEqual({
+        key: 'killTimeout',
+        value: 3000,
+        default: 3000,
+        source: configPath,
+      });
+    });
+  });
+
+  describe('set', () => {
+    it('should save the parsed value', () => {
+      configCommand.set('confirmKill', 'off');
+
+      expect(mockStorageService.setSetting).toHaveBeenCalledWith('confirmKill', false);
+      expect(output()).toContainEqual(expect.stringContaining('confirmKill set to Disabled'));
+    });
+
+    it('should reject values of the wrong type', () => {
+      expect(() => configCommand.set('killTimeout', 'soon')).toThrow(InvalidInputError);
+      expect(mockStorageService.setSetting).not.toHaveBeenCalled();
+    });
+
+    it('should say when a .zkillrc still overrides the setting', () => {
+      mockStorageService.getSettingSource.mockReturnValue('/work/app/.zkillrc');
+
+      configCommand.set('killSignal', 'SIGTERM');
+
+      expect(output()).toContainEqual(
+        expect.stringContaining('/work/app/.zkillrc sets killSignal to SIGINT')
+      );
+    });
+  });
+
+  describe('unset', () => {
+    it('should restore the default', () => {
+      configCommand.unset('respawnWindow');
+
+      expect(mockStorageService.unsetSetting).toHaveBeenCalledWith('respawnWindow');
+      expect(output()).toContainEqual(expect.stringContaining('default (1000 ms)'));
+    });
+  });
+
+  describe('list', () => {
+    it('should show every setting and mark changed ones', () => {
+      configCommand.list();
+
+      const lines = output();
+      const signal = lines.find((l) => l.includes('killSignal'));
+      expect(signal).toContain('SIGINT');
+      expect(signal).toContain('*');
+      expect(lines.find((l) => l.includes('killTimeout'))).not.toContain('*');
+      expect(lines).toContainEqual(expect.stringContaining(`Config file: ${configPath}`));
+    });
+
+    it('should print a versioned JSON document', () => {
+      mockStorageService.getProjectConfigPath.mockReturnValue('/work/app/.zkillrc');
+
+      configCommand.list({ json: true });
+
+      const doc = JSON.parse(output()[0]);
+      expect(doc.schemaVersion).toBe('1');
+      expect(doc.projectConfigPath).toBe('/work/app/.zkillrc');
+      expect(doc.settings).toHaveLength(6);
+      expect(doc.settings[0]).toEqual({
+        key: 'autoKillEnabled',
+        value: false,
+        default: false,
+        source: configPath,
+      });
+    });
+  });
+
+  describe('reset', () => {
+    it('should clear the config once confirmed', async () => {
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: true });
+
+      await expect(configCommand.reset()).resolves.toBe(ExitCode.SUCCESS);
+
+      expect(mockStorageService.clearConfig).toHaveBeenCalled();
+    });
+
+    it('should keep the config when declined', async () => {
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: false });
+
+      await expect(configCommand.reset()).resolves.toBe(ExitCode.CANCELLED);
+
+      expect(mockStorageService.clearConfig).not.toHaveBeenCalled();
+    });
+
+    it('should not ask with force', async () => {
+      await expect(configCommand.reset({ force: true })).resolves.toBe(ExitCode.SUCCESS);
+
+      expect(inquirer.prompt).not.toHaveBeenCalled();
+      expect(mockStorageService.clearConfig).toHaveBeenCalled();
+    });
+  });
+
+  describe('doctor', () => {
+    it('should list migrations and repairs', () => {
+      mockStorageService.repairConfig.mockReturnValue({
+        fromVersion: 1,
+        toVersion: 2,
+        migrations: [{ version: 2, description: 'Key port mappings on project and port' }],
+        fixes: [{ problem: 'portMappings[0].autoKill is missing', repair: 'set to false' }],
+      });
+
+      configCommand.doctor();
+
+      expect(output()).toContainEqual(expect.stringContaining('1 → 2'));
+      expect(output()).toContainEqual(
+        expect.stringContaining('2. Key port mappings on project and port')
+      );
+      expect(output()).toContainEqual(
+        expect.stringContaining('portMappings[0].autoKill is missing')
+      );
+      expect(output()).toContainEqual(expect.stringContaining(`Saved ${configPath}`));
+    });
+
+    it('should say when there is nothing to fix', () => {
+      mockStorageService.repairConfig.mockReturnValue({
+        fromVersion: 2,
+        toVersion: 2,
+        migrations: [],
+        fixes: [],
+      });
+
+      configCommand.doctor();
+
+      expect(output()).toContainEqual(expect.stringContaining('nothing to fix'));
+    });
+
+    it('should print a versioned JSON document', () => {
+      const report = {
+        fromVersion: 2,
+        toVersion: 2,
+        migrations: [],
+        fixes: [
+          { problem: 'portMappings[1].port is the string "3000"', repair: 'converted to 3000' },
+        ],
+      };
+      mockStorageService.repairConfig.mockReturnValue(report);
+
+      configCommand.doctor({ json: true });
+
+      expect(JSON.parse(output()[0])).toEqual({
+        schemaVersion: '1',
+        configPath,
+        ...report,
+        saved: true,
+      });
+    });
+
+    it('should only report when read-only', () => {
+      mockStorageService.isReadOnly.mockReturnValue(true);
+      mockStorageService.getRepairReport.mockReturnValue({
+        fromVersion: 1,
+        toVersion: 2,
+        migrations: [{ version: 2, description: 'Key port mappings on project and port' }],
+        fixes: [],
+      });
+
+      configCommand.doctor();
+
+      expect(mockStorageService.repairConfig).not.toHaveBeenCalled();
+      expect(output()).toContainEqual(expect.stringContaining('was not changed'));
+    });
+  });
+
+  describe('path', () => {
+    it('should print the config path', () => {
+      configCommand.path();
+
+      expect(output()).toEqual([configPath]);
+    });
+  });
+
+  describe('edit', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv, EDITOR: 'nano' };
+      delete process.env.VISUAL;
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should open the editor and accept a valid file', () => {
+      (spawnSync as jest.Mock).mockReturnValue({ status: 0 });
+      mockStorageService.repairConfig.mockReturnValue({
+        fromVersion: 2,
+        toVersion: 2,
+        migrations: [],
+        fixes: [],
+      });
+      jest.spyOn(fs, 'readFileSync').mockReturnValue('{"confirmKill": false}');
+
+      expect(configCommand.edit()).toBe(ExitCode.SUCCESS);
+
+      expect(spawnSync).toHaveBeenCalledWith(
+        'sh',
+        ['-c', 'nano "$1"', 'sh', configPath],
+        { shell: false, stdio: 'inherit' }
+      );
+    });
+
+    it('should pass the path to the editor without the shell reading it', () => {
+      const oddPath = '/tmp/a "b" $HOME `id`/config.json';
+      process.env.EDITOR = 'code --wait';
+      mockStorageService.getConfigPath.mockReturnValue(oddPath);
+      (spawnSync as jest.Mock).mockReturnValue({ status: 127 });
+
+      configCommand.edit();
+
+      expect(spawnSync).toHaveBeenCalledWith(
+        'sh',
+        ['-c', 'code --wait "$1"', 'sh', oddPath],
+        expect.objectContaining({ shell: false })
+      );
+    });
+
+    it('should migrate and repair the edited file like the doctor', () => {
+      (spawnSync as jest.Mock).mockReturnValue({ status: 0 });
+      jest
+        .spyOn(fs, 'readFileSync')
+        .mockReturnValue('{"version": "1.0.0", "portMappings": [{"port": "3000"}]}');
+      mockStorageService.repairConfig.mockReturnValue({
+        fromVersion: 1,
+        toVersion: 2,
+        migrations: [{ version: 2, description: 'Key port mappings on project and port' }],
+        fixes: [
+          { problem: 'portMappings[0].port is the string "3000"', repair: 'converted to 3000' },
+        ],
+      });
+
+      expect(configCommand.edit()).toBe(ExitCode.SUCCESS);
+
+      expect(mockStorageService.repairConfig).toHaveBeenCalled();
+      expect(output()).toContainEqual(
+        expect.stringContaining('2. Key port mappings on project and port')
+      );
+      expect(output()).toContainEqual(
+        expect.stringContaining('portMappings[0].port is the string "3000"')
+      );
+      expect(output()).toContainEqual(expect.stringContaining(`Saved ${configPath}`));
+    });
+
+    it('should refuse a file that is not JSON', () => {
+      (spawnSync as jest.Mock).mockReturnValue({ status: 0 });
+      jest.spyOn(fs, 'readFileSync').mockReturnValue('{"killTimeout": 3000');
+
+      expect(configCommand.edit()).toBe(ExitCode.INVALID_INPUT);
+
+      expect(mockStorageService.repairConfig).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining("can't be read"));
+    });
+
+    it('should not open the editor when read-only', () => {
+      mockStorageService.isReadOnly.mockReturnValue(true);
+
+      expect(() => configCommand.edit()).toThrow(ReadOnlyError);
+      expect(spawnSync).not.toHaveBeenCalled();
+    });
+
+    it('should fail when the editor does', () => {
+      (spawnSync as jest.Mock).mockReturnValue({ status: 127 });
+
+      expect(configCommand.edit()).toBe(ExitCode.ERROR);
+    });
+  });
+});
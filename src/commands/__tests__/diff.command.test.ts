@@ -0,0 +1,142 @@
+/**
+ * Unit tests for DiffCommand
+ */
+
+import { DiffCommand } from '../diff.command';
+import { ScanCommand } from '../scan.command';
+import { SnapshotService } from '../../services/snapshot.service';
+import { ProcessInfo } from '../../types';
+import { ScanJsonDocument, buildScanJsonDocument } from '../../scan-json-schema';
+import { buildScanSnapshot } from '../../scan-snapshot';
+
+jest.mock('../scan.command');
+jest.mock('../../services/snapshot.service');
+
+describe('DiffCommand', () => {
+  let diffCommand: DiffCommand;
+  let mockSnapshotService: jest.Mocked<SnapshotService>;
+  let mockScanCommand: jest.Mocked<ScanCommand>;
+
+  const listener = (port: number, pid: number): ProcessInfo => ({
+    pid,
+    port,
+    processName: 'node',
+    command: `node server-${port}.js`,
+  });
+
+  const scanOf = (
+    processes: ProcessInfo[],
+    filters: { process?: string; hideSystemProcesses: boolean } = { hideSystemProcesses: false }
+  ): ScanJsonDocument =>
+    buildScanJsonDocument({
+      processes,
+      verbose: false,
+      zkillVersion: '9.9.9',
+      platform: 'linux',
+      filters,
+      isCriticalProcess: () => false,
+      getPortMapping: () => null,
+    });
+
+  const output = () =>
+    (console.log as jest.Mock).mock.calls.map((call) => String(call[0]));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockSnapshotService = new SnapshotService() as jest.Mocked<SnapshotService>;
+    mockScanCommand = new ScanCommand(
+      null as never,
+      null as never,
+      null as never,
+      null as never
+    ) as jest.Mocked<ScanCommand>;
+    diffCommand = new DiffCommand(mockSnapshotService, mockScanCommand);
+
+    mockSnapshotService.load.mockImplementation((name: string) =>
+      name === 'before'
+        ? buildScanSnapshot(
+            'before',
+            scanOf([listener(3000, 1), listener(4000, 2)], {
+              process: 'node',
+              hideSystemProcesses: true,
+            }),
+            new Date('2026-01-01T00:00:00Z')
+          )
+        : buildScanSnapshot(
+            name,
+            scanOf([listener(3000, 1), listener(4000, 20), listener(5000, 3)]),
+            new Date('2026-01-01T01:00:00Z')
+          )
+    );
+
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should compare two snapshots without scanning', async () => {
+    const doc = await diffCommand.execute('before', 'after');
+
+    expect(mockScanCommand.scanDocument).not.toHaveBeenCalled();
+    expect(doc.to).toEqual({ name: 'after', at: '2026-01-01T01:00:00.000Z' });
+    expect(doc.summary).toEqual({ appeared: 1, disappeared: 0, pidChanged: 1 });
+
+    const lines = output();
+    expect(lines).toContainEqual(expect.stringContaining('~ 4000'));
+    expect(lines).toContainEqual(expect.stringContaining('2→20'));
+    expect(lines).toContainEqual(expect.stringContaining('+ 5000'));
+    expect(lines).toContainEqual(expect.stringContaining('1 new · 0 removed · 1 changed'));
+  });
+
+  it('should compare with a live scan using the snapshot filters', async () => {
+    mockScanCommand.scanDocument.mockResolvedValue(scanOf([listener(3000, 1)]));
+
+    const doc = await diffCommand.execute('before');
+
+    expect(mockScanCommand.scanDocument).toHaveBeenCalledWith({
+      range: undefined,
+      process: 'node',
+      project: undefined,
+      system: false,
+      protocol: 'tcp',
+      exposed: undefined,
+    });
+    expect(doc.to.name).toBeNull();
+    expect(doc.changes).toEqual([
+      expect.objectContaining({ type: 'disappeared', port: 4000, pid: 2 }),
+    ]);
+    expect(output()).toContainEqual(expect.stringContaining('with the live system'));
+  });
+
+  it('should say so when nothing changed', async () => {
+    mockScanCommand.scanDocument.mockResolvedValue(
+      scanOf([listener(3000, 1), listener(4000, 2)])
+    );
+
+    await diffCommand.execute('before');
+
+    expect(output()).toContainEqual(expect.stringContaining('No differences'));
+  });
+
+  it('should print only JSON with --json', async () => {
+    await diffCommand.execute('before', 'after', { json: true });
+
+    const lines = output();
+    expect(lines).toHaveLength(1);
+    const doc = JSON.parse(lines[0]);
+    expect(doc.schemaVersion).toBe('1');
+    expect(doc.from.name).toBe('before');
+    expect(doc.changes).toHaveLength(2);
+  });
+
+  it('should propagate a missing snapshot', async () => {
+    mockSnapshotService.load.mockImplementation(() => {
+      throw new Error('No snapshot named "nope"');
+    });
+
+    await expect(diffCommand.execute('nope')).rejects.toThrow('No snapshot named');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for HistoryCommand
+ */
+
+import { HistoryCommand } from '../history.command';
+import { AuditService } from '../../services/audit.service';
+import { AuditEntry } from '../../types';
+
+jest.mock('../../services/audit.service');
+
+describe('HistoryCommand', () => {
+  let historyCommand: HistoryCommand;
+  let mockAuditService: jest.Mocked<AuditService>;
+
+  const entry = (
+    timestamp: string,
+    extra: Partial<AuditEntry> = {}
+  ): AuditEntry => ({
+    timestamp,
+    port: 5432,
+    protocol: 'tcp',
+    pid: 999,
+    processName: 'postgres',
+    command: 'postgres -D /data',
+    project: 'billing-api',
+    user: 'alice',
+    processUser: 'postgres',
+    signal: 'SIGTERM',
+    method: 'graceful',
+    success: true,
+    error: null,
+    trigger: 'manual',
+    ...extra,
+  });
+
+  const output = () =>
+    (console.log as jest.Mock).mock.calls.map((call) => String(call[0]));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockAuditService = new AuditService() as jest.Mocked<AuditService>;
+    mockAuditService.getLogPath.mockReturnValue('/home/alice/.zkill/history.jsonl');
+    mockAuditService.read.mockReturnValue([
+      entry('2026-03-10T10:00:00.000Z'),
+      entry('2026-03-12T10:00:00.000Z', {
+        port: 3000,
+        processName: 'node',
+        project: null,
+        success: false,
+        method: 'force',
+        error: 'Failed to terminate process',
+        trigger: 'auto',
+      }),
+    ]);
+    historyCommand = new HistoryCommand(mockAuditService);
+
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should list kills newest first', () => {
+    historyCommand.execute();
+
+    const lines = output();
+    expect(lines[0]).toContain('Kill History (2 entries)');
+    const node = lines.findIndex((l) => l.includes('Port 3000'));
+    const postgres = lines.findIndex((l) => l.includes('Port 5432'));
+    expect(node).toBeGreaterThan(0);
+    expect(postgres).toBeGreaterThan(node);
+    expect(lines[node + 1]).toContain('failed: Failed to terminate process');
+    expect(lines[node + 1]).toContain('auto · by alice');
+    expect(lines[postgres]).toContain('(billing-api)');
+    expect(lines[postgres + 1]).toContain('graceful (SIGTERM)');
+  });
+
+  it('should apply filters', () => {
+    historyCommand.execute({ project: 'billing' });
+
+    const lines = output();
+    expect(lines[0]).toContain('Kill History (1 entry)');
+    expect(lines).not.toContainEqual(expect.stringContaining('Port 3000'));
+  });
+
+  it('should show only the most recent entries up to the limit', () => {
+    historyCommand.execute({ limit: 1 });
+
+    const lines = output();
+    expect(lines[0]).toContain('Kill History (1 of 2 entries)');
+    expect(lines).toContainEqual(expect.stringContaining('1 older entry hidden'));
+  });
+
+  it('should explain an empty history', () => {
+    historyCommand.execute({ port: 8080 });
+
+    expect(output()).toContainEqual(expect.stringContaining('No kills recorded'));
+    expect(output()).toContainEqual(
+      expect.stringContaining('/home/alice/.zkill/history.jsonl')
+    );
+  });
+
+  it('should print every match as JSON', () => {
+    historyCommand.execute({ json: true, trigger: 'auto' });
+
+    const lines = output();
+    expect(lines).toHaveLength(1);
+    const doc = JSON.parse(lines[0]);
+    expect(doc.schemaVersion).toBe('1');
+    expect(doc.filters.trigger).toBe('auto');
+    expect(doc.total).toBe(1);
+    expect(doc.entries[0].port).toBe(3000);
+  });
+});
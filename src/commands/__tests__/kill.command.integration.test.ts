@@ -5,6 +5,8 @@
 
 import { execSync, spawnSync } from "child_process";
 import { ProcessService } from "../../services/process.service";
+import { isValidKillJsonV1 } from "../../kill-json-schema";
+import { ExitCode } from "../../exit-codes";
 import { StorageService } from "../../services/storage.service";
 import path from "path";
 import fs from "fs";
@@ -85,7 +87,7 @@ describe("Kill Command Integration", () => {
         execSync(`node "${cliPath}" 99999`, { stdio: "pipe" });
         fail("Should have thrown an error");
       } catch (error: any) {
-        expect(error.status).toBe(1);
+        expect(error.status).toBe(ExitCode.INVALID_INPUT);
       }
     });
 
@@ -96,11 +98,11 @@ describe("Kill Command Integration", () => {
         execSync(`node "${cliPath}" 3000 not-a-port`, { stdio: "pipe" });
         fail("Should have thrown an error");
       } catch (error: any) {
-        expect(error.status).toBe(1);
+        expect(error.status).toBe(ExitCode.INVALID_INPUT);
       }
     });
 
-    it("should run kill flow for each port when multiple unused ports are given", async () => {
+    it("should check multiple unused ports in one scan", async () => {
       const cliPath = path.join(__dirname, "../../../dist/cli.js");
       let portA = await findAvailablePort();
       let portB = await findAvailablePort();
@@ -116,9 +118,25 @@ describe("Kill Command Integration", () => {
       );
       const output = `${r.stdout ?? ""}${r.stderr ?? ""}`;
 
-      expect(r.status).toBe(0);
-      const matches = output.match(/not in use|not found/gi) ?? [];
-      expect(matches.length).toBeGreaterThanOrEqual(2);
+      expect(r.status).toBe(ExitCode.NOT_FOUND);
+      expect(output).toContain("None of the 2 requested port(s) are in use");
+    });
+
+    it("should print a valid kill JSON document with --json", async () => {
+      const cliPath = path.join(__dirname, "../../../dist/cli.js");
+      const unusedPort = await findAvailablePort();
+
+      const r = spawnSync(
+        process.execPath,
+        [cliPath, String(unusedPort), "--force", "--json"],
+        { encoding: "utf-8" }
+      );
+      const doc = JSON.parse(r.stdout);
+
+      expect(isValidKillJsonV1(doc)).toBe(true);
+      expect(doc.results).toHaveLength(1);
+      expect(doc.results[0].port).toBe(unusedPort);
+      expect(doc.results[0].status).toBe("not-found");
     });
 
     it("should handle non-existent ports gracefully", async () => {
@@ -6,13 +6,15 @@ import { KillCommand } from '../kill.command';
 import { ProcessService } from '../../services/process.service';
 import { StorageService } from '../../services/storage.service';
 import { ProjectService } from '../../services/project.service';
-import { ProcessInfo } from '../../types';
+import { AuditService } from '../../services/audit.service';
+import { ProcessInfo, ProcessListEntry } from '../../types';
 import inquirer from 'inquirer';
 
 // Mock dependencies
 jest.mock('../../services/process.service');
 jest.mock('../../services/storage.service');
 jest.mock('../../services/project.service');
+jest.mock('../../services/audit.service');
 jest.mock('inquirer');
 jest.mock('ora', () => {
   return jest.fn(() => ({
@@ -28,6 +30,7 @@ describe('KillCommand', () => {
   let mockProcessService: jest.Mocked<ProcessService>;
   let mockStorageService: jest.Mocked<StorageService>;
   let mockProjectService: jest.Mocked<ProjectService>;
+  let mockAuditService: jest.Mocked<AuditService>;
 
   const mockProcess: ProcessInfo = {
     pid: 1234,
@@ -45,14 +48,27 @@ describe('KillCommand', () => {
     mockProcessService = new ProcessService() as jest.Mocked<ProcessService>;
     mockStorageService = new StorageService() as jest.Mocked<StorageService>;
     mockProjectService = new ProjectService() as jest.Mocked<ProjectService>;
+    mockAuditService = new AuditService() as jest.Mocked<AuditService>;
 
     // Create command instance
     killCommand = new KillCommand(
       mockProcessService,
       mockStorageService,
-      mockProjectService
+      mockProjectService,
+      mockAuditService
     );
 
+    mockStorageService.getKillSettings.mockReturnValue({
+      signal: 'SIGTERM',
+      timeoutMs: 3000,
+      escalate: true,
+      respawnWindowMs: 0,
+    });
+    mockStorageService.getProtections.mockReturnValue([]);
+    mockStorageService.getProjectConfigPath.mockReturnValue(null);
+    mockStorageService.getPortMappings.mockReturnValue([]);
+    mockProcessService.signalAccess.mockReturnValue('allowed');
+
     // Mock console methods to avoid test output clutter
     jest.spyOn(console, 'log').mockImplementation();
   });
@@ -67,7 +83,7 @@ describe('KillCommand', () => {
 
       await killCommand.execute(3000);
 
-      expect(mockProcessService.findByPort).toHaveBeenCalledWith(3000);
+      expect(mockProcessService.findByPort).toHaveBeenCalledWith(3000, 'tcp');
       expect(console.log).not.toHaveBeenCalled();
     });
 
@@ -79,9 +95,9 @@ describe('KillCommand', () => {
       mockProcessService.killProcess.mockResolvedValue(true);
       mockProjectService.isProjectDirectory.mockReturnValue(false);
 
-      await killCommand.execute(3000, true);
+      await killCommand.execute(3000, { force: true });
 
-      expect(mockProcessService.findByPort).toHaveBeenCalledWith(3000);
+      expect(mockProcessService.findByPort).toHaveBeenCalledWith(3000, 'tcp');
       expect(console.log).toHaveBeenCalledWith(
         expect.stringContaining('Process Details:')
       );
@@ -90,22 +106,55 @@ describe('KillCommand', () => {
     it('should show port mapping if exists', async () => {
       mockProcessService.findByPort.mockResolvedValue(mockProcess);
       mockProcessService.isCriticalProcess.mockReturnValue(false);
-      mockStorageService.getPortMapping.mockReturnValue({
+      mockStorageService.getPortMappings.mockReturnValue([
+        {
+          port: 3000,
+          projectName: 'test-project',
+          projectPath: '/test/path',
+          autoKill: false,
+          firstSeen: new Date(),
+          lastUsed: new Date(),
+          useCount: 1,
+        },
+      ]);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockProcessService.killProcess.mockResolvedValue(true);
+      mockProjectService.isProjectDirectory.mockReturnValue(false);
+
+      await killCommand.execute(3000, { force: true });
+
+      expect(mockStorageService.getPortMappings).toHaveBeenCalledWith(3000, undefined);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Last used by project')
+      );
+    });
+
+    it('should prefer the project the process runs in when several use the port', async () => {
+      const mapping = (projectName: string) => ({
         port: 3000,
-        projectName: 'test-project',
-        projectPath: '/test/path',
+        projectName,
+        projectPath: `/work/${projectName}`,
         autoKill: false,
+        firstSeen: new Date(),
         lastUsed: new Date(),
+        useCount: 1,
+      });
+      mockProcessService.findByPort.mockResolvedValue({
+        ...mockProcess,
+        workingDirectory: '/work/shop/web',
       });
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.getPortMappings.mockReturnValue([mapping('shop'), mapping('blog')]);
       mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
       mockProcessService.killProcess.mockResolvedValue(true);
       mockProjectService.isProjectDirectory.mockReturnValue(false);
 
-      await killCommand.execute(3000, true);
+      await killCommand.execute(3000, { force: true });
 
-      expect(mockStorageService.getPortMapping).toHaveBeenCalledWith(3000);
+      expect(mockStorageService.getPortMappings).toHaveBeenCalledWith(3000, '/work/shop/web');
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('shop'));
       expect(console.log).toHaveBeenCalledWith(
-        expect.stringContaining('Last used by project')
+        expect.stringContaining('Also used by: blog')
       );
     });
 
@@ -117,7 +166,7 @@ describe('KillCommand', () => {
       mockProcessService.killProcess.mockResolvedValue(true);
       mockProjectService.isProjectDirectory.mockReturnValue(false);
 
-      await killCommand.execute(3000, true);
+      await killCommand.execute(3000, { force: true });
 
       expect(mockProcessService.isCriticalProcess).toHaveBeenCalledWith(
         mockProcess
@@ -136,7 +185,7 @@ describe('KillCommand', () => {
       mockProcessService.killProcess.mockResolvedValue(true);
       mockProjectService.isProjectDirectory.mockReturnValue(false);
 
-      await killCommand.execute(3000, false);
+      await killCommand.execute(3000, { force: false });
 
       expect(inquirer.prompt).toHaveBeenCalled();
       expect(mockProcessService.killProcess).toHaveBeenCalled();
@@ -149,7 +198,7 @@ describe('KillCommand', () => {
       mockStorageService.isConfirmKillEnabled.mockReturnValue(true);
       (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: false });
 
-      await killCommand.execute(3000, false);
+      await killCommand.execute(3000, { force: false });
 
       expect(inquirer.prompt).toHaveBeenCalled();
       expect(mockProcessService.killProcess).not.toHaveBeenCalled();
@@ -166,7 +215,7 @@ describe('KillCommand', () => {
       mockProcessService.killProcess.mockResolvedValue(true);
       mockProjectService.isProjectDirectory.mockReturnValue(false);
 
-      await killCommand.execute(3000, true);
+      await killCommand.execute(3000, { force: true });
 
       expect(inquirer.prompt).not.toHaveBeenCalled();
       expect(mockProcessService.killProcess).toHaveBeenCalled();
@@ -180,9 +229,9 @@ describe('KillCommand', () => {
       mockProcessService.killProcess.mockResolvedValue(true);
       mockProjectService.isProjectDirectory.mockReturnValue(false);
 
-      await killCommand.execute(3000, true);
+      await killCommand.execute(3000, { force: true });
 
-      expect(mockProcessService.killProcess).toHaveBeenCalledWith(1234, false);
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(1234, false, expect.anything());
       expect(console.log).toHaveBeenCalledWith(
         expect.stringContaining('now available')
       );
@@ -198,18 +247,20 @@ describe('KillCommand', () => {
         .mockResolvedValueOnce(true);
       mockProjectService.isProjectDirectory.mockReturnValue(false);
 
-      await killCommand.execute(3000, true);
+      await killCommand.execute(3000, { force: true });
 
       expect(mockProcessService.killProcess).toHaveBeenCalledTimes(2);
       expect(mockProcessService.killProcess).toHaveBeenNthCalledWith(
         1,
         1234,
-        false
+        false,
+        { signal: 'SIGTERM', timeoutMs: 3000 }
       );
       expect(mockProcessService.killProcess).toHaveBeenNthCalledWith(
         2,
         1234,
-        true
+        true,
+        { timeoutMs: 3000 }
       );
     });
 
@@ -219,9 +270,10 @@ describe('KillCommand', () => {
       mockStorageService.getPortMapping.mockReturnValue(null);
       mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
       mockProcessService.killProcess.mockResolvedValue(false);
+      mockProcessService.signalAccess.mockReturnValue('denied');
       mockProjectService.isProjectDirectory.mockReturnValue(false);
 
-      await killCommand.execute(3000, true);
+      await killCommand.execute(3000, { force: true });
 
       expect(console.log).toHaveBeenCalledWith(
         expect.stringContaining('elevated privileges')
@@ -238,7 +290,7 @@ describe('KillCommand', () => {
       mockProjectService.getCurrentProjectName.mockReturnValue('my-project');
       mockProjectService.getCurrentProjectPath.mockReturnValue('/my/path');
 
-      await killCommand.execute(3000, true);
+      await killCommand.execute(3000, { force: true });
 
       expect(mockStorageService.addPortMapping).toHaveBeenCalledWith({
         port: 3000,
@@ -259,9 +311,945 @@ describe('KillCommand', () => {
       mockProcessService.killProcess.mockResolvedValue(true);
       mockProjectService.isProjectDirectory.mockReturnValue(false);
 
-      await killCommand.execute(3000, true);
+      await killCommand.execute(3000, { force: true });
+
+      expect(mockStorageService.addPortMapping).not.toHaveBeenCalled();
+    });
+
+    it('should not update port mapping when read-only', async () => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockStorageService.isReadOnly.mockReturnValue(true);
+      mockProcessService.killProcess.mockResolvedValue(true);
+      mockProjectService.isProjectDirectory.mockReturnValue(true);
+
+      await killCommand.execute(3000, { force: true });
 
+      expect(mockProcessService.killProcess).toHaveBeenCalled();
       expect(mockStorageService.addPortMapping).not.toHaveBeenCalled();
     });
   });
+
+  describe('signal and escalation', () => {
+    beforeEach(() => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockProjectService.isProjectDirectory.mockReturnValue(false);
+    });
+
+    it('should use the configured signal and timeout', async () => {
+      mockStorageService.getKillSettings.mockReturnValue({
+        signal: 'SIGINT',
+        timeoutMs: 10000,
+        escalate: true,
+        respawnWindowMs: 0,
+      });
+      mockProcessService.killProcess.mockResolvedValue(true);
+
+      await killCommand.execute(3000, { force: true });
+
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(1234, false, {
+        signal: 'SIGINT',
+        timeoutMs: 10000,
+      });
+    });
+
+    it('should let command options override the config', async () => {
+      mockProcessService.killProcess.mockResolvedValue(true);
+
+      await killCommand.execute(3000, {
+        force: true,
+        signal: 'SIGHUP',
+        timeoutMs: 500,
+      });
+
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(1234, false, {
+        signal: 'SIGHUP',
+        timeoutMs: 500,
+      });
+    });
+
+    it('should not escalate when escalation is disabled', async () => {
+      mockProcessService.killProcess.mockResolvedValue(false);
+
+      const outcomes = await killCommand.execute(3000, {
+        force: true,
+        escalate: false,
+      });
+
+      expect(mockProcessService.killProcess).toHaveBeenCalledTimes(1);
+      expect(outcomes[0].status).toBe('failed');
+      expect(outcomes[0].error).toContain('did not exit within 3000ms');
+    });
+
+    it('should not call a permission error a timeout', async () => {
+      mockProcessService.killProcess.mockResolvedValue(false);
+      mockProcessService.signalAccess.mockReturnValue('denied');
+
+      const [outcome] = await killCommand.execute(3000, {
+        force: true,
+        escalate: false,
+      });
+
+      expect(mockProcessService.signalAccess).toHaveBeenCalledWith(1234);
+      expect(outcome.status).toBe('failed');
+      expect(outcome.error).toContain('elevated privileges may be required');
+      expect(console.log).not.toHaveBeenCalledWith(
+        expect.stringContaining('Escalation is disabled')
+      );
+    });
+
+    it('should not escalate when permission is denied', async () => {
+      mockProcessService.killProcess.mockResolvedValue(false);
+      mockProcessService.signalAccess.mockReturnValue('denied');
+
+      const [outcome] = await killCommand.execute(3000, { force: true });
+
+      expect(mockProcessService.killProcess).toHaveBeenCalledTimes(1);
+      expect(outcome.result?.method).toBe('graceful');
+    });
+
+    it('should count a process that is already gone as killed', async () => {
+      mockProcessService.killProcess.mockResolvedValue(false);
+      mockProcessService.signalAccess.mockReturnValue('gone');
+
+      const [outcome] = await killCommand.execute(3000, {
+        force: true,
+        escalate: false,
+      });
+
+      expect(outcome.status).toBe('killed');
+      expect(outcome.error).toBeNull();
+    });
+
+    it('should report a timeout after SIGKILL without the escalation hint', async () => {
+      mockProcessService.killProcess.mockResolvedValue(false);
+
+      const [outcome] = await killCommand.execute(3000, { force: true });
+
+      expect(mockProcessService.killProcess).toHaveBeenCalledTimes(2);
+      expect(outcome.error).toBe('Process did not exit within 3000ms after SIGKILL');
+      expect(console.log).not.toHaveBeenCalledWith(
+        expect.stringContaining('Escalation is disabled')
+      );
+    });
+
+    it('should send SIGKILL once when it is the first signal', async () => {
+      mockProcessService.killProcess.mockResolvedValue(false);
+
+      const outcomes = await killCommand.execute(3000, {
+        force: true,
+        signal: 'SIGKILL',
+      });
+
+      expect(mockProcessService.killProcess).toHaveBeenCalledTimes(1);
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(1234, true, {
+        signal: 'SIGKILL',
+        timeoutMs: 3000,
+      });
+      expect(outcomes[0].result?.method).toBe('force');
+    });
+  });
+
+  describe('tree mode', () => {
+    // npm (700) → sh (710) → node server (1234, listening) → esbuild (1300)
+    const table: ProcessListEntry[] = [
+      { pid: 600, parentPid: 1, name: 'bash', command: '-bash' },
+      { pid: 700, parentPid: 600, name: 'npm', command: 'npm run dev' },
+      { pid: 710, parentPid: 700, name: 'sh', command: 'sh -c node server.js' },
+      { pid: 1234, parentPid: 710, name: 'node', command: 'node server.js' },
+      { pid: 1300, parentPid: 1234, name: 'esbuild', command: 'esbuild --service' },
+    ];
+
+    beforeEach(() => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockProjectService.isProjectDirectory.mockReturnValue(false);
+      mockProcessService.killProcess.mockResolvedValue(true);
+      mockProcessService.getAllPorts.mockResolvedValue([mockProcess]);
+    });
+
+    it('should kill descendants before the listening process', async () => {
+      mockProcessService.listProcesses
+        .mockResolvedValueOnce(table)
+        .mockResolvedValueOnce(table.filter((p) => p.pid < 1000));
+
+      const outcomes = await killCommand.execute(3000, { force: true, tree: true });
+
+      const killed = mockProcessService.killProcess.mock.calls.map((c) => c[0]);
+      expect(killed).toEqual([1300, 1234]);
+      expect(outcomes[0].status).toBe('killed');
+    });
+
+    it('should start from the owning supervisor when requested', async () => {
+      mockProcessService.listProcesses
+        .mockResolvedValueOnce(table)
+        .mockResolvedValueOnce(table.filter((p) => p.pid === 600));
+
+      await killCommand.execute(3000, {
+        force: true,
+        tree: true,
+        supervisor: true,
+      });
+
+      const killed = mockProcessService.killProcess.mock.calls.map((c) => c[0]);
+      expect(killed).toEqual([1300, 1234, 710, 700]);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('npm (PID 700) supervises this process')
+      );
+    });
+
+    it('should judge success by what is still running afterwards', async () => {
+      // sh exits by itself once node is gone, so killing it fails
+      mockProcessService.killProcess.mockImplementation(async (pid) => pid !== 710);
+      mockProcessService.listProcesses
+        .mockResolvedValueOnce(table)
+        .mockResolvedValueOnce(table.filter((p) => p.pid === 600));
+
+      const outcomes = await killCommand.execute(3000, {
+        force: true,
+        tree: true,
+        supervisor: true,
+      });
+
+      expect(outcomes[0].status).toBe('killed');
+    });
+
+    it('should report processes that survive', async () => {
+      mockProcessService.listProcesses
+        .mockResolvedValueOnce(table)
+        .mockResolvedValueOnce(table);
+
+      const outcomes = await killCommand.execute(3000, { force: true, tree: true });
+
+      expect(outcomes[0].status).toBe('failed');
+      expect(outcomes[0].error).toContain('2 of 2 processes in the tree');
+    });
+
+    it('should show the tree and count it in the confirmation', async () => {
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(true);
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: false });
+      mockProcessService.listProcesses.mockResolvedValue(table);
+
+      await killCommand.execute(3000, { tree: true });
+
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('└─ esbuild (PID 1300)')
+      );
+      const [[questions]] = (inquirer.prompt as unknown as jest.Mock).mock.calls;
+      expect(questions[0].message).toContain('and 1 related process(es)');
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+    });
+
+    it('should kill nothing when the tree includes a protected child', async () => {
+      mockStorageService.getProtections.mockReturnValue([
+        { kind: 'process', value: 'esbuild' },
+      ]);
+      mockProcessService.listProcesses.mockResolvedValue(table);
+
+      const [outcome] = await killCommand.execute(3000, { force: true, tree: true });
+
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+      expect(outcome).toMatchObject({
+        status: 'protected',
+        protection: { kind: 'process', value: 'esbuild' },
+      });
+      expect(outcome.error).toContain('esbuild (PID 1300)');
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('includes esbuild (PID 1300), which is protected by process esbuild')
+      );
+    });
+
+    it('should check listening nodes by their ports', async () => {
+      mockStorageService.getProtections.mockReturnValue([{ kind: 'port', value: '5432' }]);
+      mockProcessService.getAllPorts.mockResolvedValue([
+        mockProcess,
+        { pid: 1300, port: 5432, processName: 'esbuild', command: 'esbuild --service' },
+      ]);
+      mockProcessService.listProcesses.mockResolvedValue(table);
+
+      const [outcome] = await killCommand.execute(3000, { force: true, tree: true });
+
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+      expect(outcome.protection).toEqual({ kind: 'port', value: '5432' });
+    });
+
+    it('should check the supervisor it climbs to', async () => {
+      mockStorageService.getProtections.mockReturnValue([{ kind: 'process', value: 'npm' }]);
+      mockProcessService.listProcesses.mockResolvedValue(table);
+
+      const [outcome] = await killCommand.execute(3000, {
+        force: true,
+        tree: true,
+        supervisor: true,
+      });
+
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+      expect(outcome.status).toBe('protected');
+    });
+
+    it('should kill nothing when the tree includes a system process', async () => {
+      mockProcessService.isCriticalProcess.mockImplementation(
+        (p: ProcessInfo) => p.processName === 'esbuild'
+      );
+      mockProcessService.listProcesses.mockResolvedValue(table);
+
+      const [outcome] = await killCommand.execute(3000, { force: true, tree: true });
+
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+      expect(outcome.status).toBe('cancelled');
+      expect(outcome.error).toContain('system process esbuild (PID 1300)');
+    });
+
+    it('should kill a protected child with ignoreProtection', async () => {
+      mockStorageService.getProtections.mockReturnValue([
+        { kind: 'process', value: 'esbuild' },
+      ]);
+      mockProcessService.listProcesses
+        .mockResolvedValueOnce(table)
+        .mockResolvedValueOnce(table.filter((p) => p.pid < 1000));
+
+      await killCommand.execute(3000, { force: true, tree: true, ignoreProtection: true });
+
+      const killed = mockProcessService.killProcess.mock.calls.map((c) => c[0]);
+      expect(killed).toEqual([1300, 1234]);
+    });
+
+    it('should skip a name match whose tree includes a protected child', async () => {
+      mockStorageService.getProtections.mockReturnValue([
+        { kind: 'process', value: 'esbuild' },
+      ]);
+      mockProcessService.listProcesses.mockResolvedValue(table);
+
+      const outcomes = await killCommand.executeByName('node', { force: true, tree: true });
+
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+      expect(outcomes).toEqual([
+        expect.objectContaining({ port: 3000, status: 'protected' }),
+      ]);
+    });
+
+    it('should not list processes when tree mode is off', async () => {
+      await killCommand.execute(3000, { force: true });
+
+      expect(mockProcessService.listProcesses).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('respawn detection', () => {
+    beforeEach(() => {
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockProjectService.isProjectDirectory.mockReturnValue(false);
+      mockProcessService.killProcess.mockResolvedValue(true);
+    });
+
+    it('should report the supervisor that restarted the process', async () => {
+      mockProcessService.findByPort
+        .mockResolvedValueOnce(mockProcess)
+        .mockResolvedValue({ ...mockProcess, pid: 4321 });
+      mockProcessService.listProcesses.mockResolvedValue([
+        { pid: 90, parentPid: 1, name: 'PM2', command: 'PM2 v5.3.0: God Daemon (/root/.pm2)' },
+        { pid: 4321, parentPid: 90, name: 'node', command: 'node server.js' },
+      ]);
+
+      const outcomes = await killCommand.execute(3000, {
+        force: true,
+        respawnWindowMs: 50,
+      });
+
+      expect(outcomes[0].status).toBe('killed');
+      expect(outcomes[0].result?.respawns).toEqual([
+        {
+          port: 3000,
+          pid: 4321,
+          processName: 'node',
+          supervisor: expect.objectContaining({ kind: 'pm2', pid: 90 }),
+        },
+      ]);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Port 3000 was taken again by node (PID 4321)')
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('pm2 stop')
+      );
+      expect(console.log).not.toHaveBeenCalledWith(
+        expect.stringContaining('now available')
+      );
+    });
+
+    it('should report the port as available when nothing restarts it', async () => {
+      mockProcessService.findByPort
+        .mockResolvedValueOnce(mockProcess)
+        .mockResolvedValue(null);
+
+      const outcomes = await killCommand.execute(3000, {
+        force: true,
+        respawnWindowMs: 50,
+      });
+
+      expect(outcomes[0].result?.respawns).toEqual([]);
+      expect(mockProcessService.findByPort.mock.calls.length).toBeGreaterThan(1);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('now available')
+      );
+    });
+
+    it('should not watch the port when the window is 0', async () => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+
+      await killCommand.execute(3000, { force: true });
+
+      expect(mockProcessService.findByPort).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('executeByName', () => {
+    const listeners: ProcessInfo[] = [
+      { pid: 1234, port: 3001, processName: 'node', command: 'node server.js' },
+      { pid: 1234, port: 3000, processName: 'node', command: 'node server.js' },
+      { pid: 2222, port: 8080, processName: 'python3', command: 'python3 -m http.server' },
+      { pid: 1, port: 22, processName: 'systemd', command: '/sbin/init' },
+    ];
+
+    beforeEach(() => {
+      mockProcessService.getAllPorts.mockResolvedValue(listeners);
+      mockProcessService.isCriticalProcess.mockImplementation(
+        (p) => p.processName === 'systemd'
+      );
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(true);
+      mockProcessService.killProcess.mockResolvedValue(true);
+    });
+
+    it('should kill each matching PID once with all of its ports', async () => {
+      await killCommand.executeByName('node', { force: true });
+
+      expect(mockProcessService.killProcess).toHaveBeenCalledTimes(1);
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(1234, false, expect.anything());
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Ports 3000, 3001 are now available')
+      );
+    });
+
+    it('should match the command line with a regex pattern', async () => {
+      await killCommand.executeByName('/http\\.server/', { force: true });
+
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(2222, false, expect.anything());
+      expect(mockProcessService.killProcess).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip system processes unless includeSystem is set', async () => {
+      await killCommand.executeByName('*', { force: true });
+
+      expect(mockProcessService.killProcess).not.toHaveBeenCalledWith(1, false, expect.anything());
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Skipped 1 system process')
+      );
+
+      jest.clearAllMocks();
+      await killCommand.executeByName('systemd', {
+        force: true,
+        includeSystem: true,
+      });
+
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(1, false, expect.anything());
+    });
+
+    it('should not kill anything when nothing matches', async () => {
+      await killCommand.executeByName('ruby', { force: true });
+
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+    });
+
+    it('should confirm once for the whole matched set', async () => {
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: false });
+
+      await killCommand.executeByName('node');
+
+      expect(inquirer.prompt).toHaveBeenCalledTimes(1);
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid regex pattern', async () => {
+      await expect(killCommand.executeByName('/(/')).rejects.toThrow(
+        'Invalid regular expression'
+      );
+    });
+  });
+
+  describe('executeForPorts', () => {
+    beforeEach(() => {
+      mockProcessService.getAllPorts.mockResolvedValue([
+        { pid: 1234, port: 3001, processName: 'node', command: 'node a.js' },
+        { pid: 1234, port: 3002, processName: 'node', command: 'node a.js' },
+        { pid: 4321, port: 3005, processName: 'ruby', command: 'rails s' },
+        { pid: 5555, port: 9000, processName: 'php', command: 'php -S' },
+      ]);
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockProcessService.killProcess.mockResolvedValue(true);
+      mockProjectService.isProjectDirectory.mockReturnValue(false);
+    });
+
+    it('should scan once and only kill ports that are in use', async () => {
+      await killCommand.executeForPorts([3000, 3001, 3002, 3003, 3004, 3005]);
+
+      expect(mockProcessService.getAllPorts).toHaveBeenCalledTimes(1);
+      expect(mockProcessService.findByPort).not.toHaveBeenCalled();
+      expect(mockProcessService.killProcess).toHaveBeenCalledTimes(2);
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(1234, false, expect.anything());
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(4321, false, expect.anything());
+      expect(mockProcessService.killProcess).not.toHaveBeenCalledWith(5555, false, expect.anything());
+    });
+
+    it('should not kill anything when no requested port is in use', async () => {
+      await killCommand.executeForPorts([4000, 4001]);
+
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('executeForProcesses', () => {
+    const primary: ProcessInfo = { pid: 1234, port: 3000, processName: 'node', command: 'node a.js' };
+    const worker: ProcessInfo = { pid: 1235, port: 3000, processName: 'node', command: 'node b.js' };
+
+    beforeEach(() => {
+      mockProcessService.getAllPorts.mockResolvedValue([primary, worker]);
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockProcessService.killProcess.mockResolvedValue(true);
+      mockProjectService.isProjectDirectory.mockReturnValue(false);
+    });
+
+    it('should kill only the given PID when another shares the port', async () => {
+      const outcomes = await killCommand.executeForProcesses([worker]);
+
+      expect(mockProcessService.killProcess).toHaveBeenCalledTimes(1);
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(1235, false, expect.anything());
+      expect(mockProcessService.getAllPorts).toHaveBeenCalledWith('all');
+      expect(outcomes).toEqual([expect.objectContaining({ port: 3000, status: 'killed' })]);
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ pid: 1235, trigger: 'ui' })
+      );
+    });
+
+    it('should not signal a PID that no longer holds its port', async () => {
+      mockProcessService.getAllPorts.mockResolvedValue([primary]);
+
+      const outcomes = await killCommand.executeForProcesses([worker]);
+
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+      expect(outcomes).toEqual([
+        expect.objectContaining({
+          status: 'not-found',
+          process: null,
+          error: 'PID 1235 no longer listens on 3000',
+        }),
+      ]);
+    });
+
+    it('should check the protocol too', async () => {
+      const udp: ProcessInfo = { ...worker, protocol: 'udp' };
+
+      await killCommand.executeForProcesses([udp]);
+
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('executeByProject', () => {
+    const mapping = (port: number, projectName: string) => ({
+      port,
+      projectName,
+      projectPath: `/work/${projectName}`,
+      firstSeen: new Date(),
+      lastUsed: new Date(),
+      useCount: 1,
+      autoKill: false,
+    });
+
+    beforeEach(() => {
+      mockProcessService.getAllPorts.mockResolvedValue([
+        { pid: 1234, port: 3001, processName: 'node', command: 'node api.js' },
+        { pid: 4321, port: 3005, processName: 'node', command: 'node worker.js' },
+        { pid: 5555, port: 9000, processName: 'php', command: 'php -S' },
+      ]);
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockProcessService.killProcess.mockResolvedValue(true);
+      mockProjectService.isProjectDirectory.mockReturnValue(false);
+    });
+
+    it('should kill every port mapped to the project', async () => {
+      mockStorageService.getMappingsByProjectName.mockReturnValue([
+        mapping(3005, 'billing-api'),
+        mapping(3001, 'billing-api'),
+        mapping(3002, 'billing-api'),
+      ]);
+
+      const outcomes = await killCommand.executeByProject('billing-api');
+
+      expect(mockStorageService.getMappingsByProjectName).toHaveBeenCalledWith('billing-api');
+      expect(outcomes.map((o) => [o.port, o.status])).toEqual([
+        [3001, 'killed'],
+        [3002, 'not-found'],
+        [3005, 'killed'],
+      ]);
+      expect(mockProcessService.killProcess).not.toHaveBeenCalledWith(5555, false, expect.anything());
+    });
+
+    it('should do nothing when no ports are mapped to the project', async () => {
+      mockStorageService.getMappingsByProjectName.mockReturnValue([]);
+
+      const outcomes = await killCommand.executeByProject('unknown');
+
+      expect(outcomes).toEqual([]);
+      expect(mockProcessService.getAllPorts).not.toHaveBeenCalled();
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('No ports are mapped to a project matching "unknown"')
+      );
+    });
+  });
+
+  describe('history', () => {
+    beforeEach(() => {
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockProjectService.isProjectDirectory.mockReturnValue(false);
+      mockProjectService.inferProject.mockReturnValue(null);
+    });
+
+    it('should record each kill with its project and trigger', async () => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+      mockProcessService.killProcess.mockResolvedValue(true);
+      mockStorageService.getPortMapping.mockReturnValue({
+        port: 3000,
+        projectName: 'billing-api',
+        projectPath: '/work/billing-api',
+        firstSeen: new Date(),
+        lastUsed: new Date(),
+        useCount: 1,
+        autoKill: false,
+      });
+
+      await killCommand.execute(3000);
+
+      expect(mockAuditService.record).toHaveBeenCalledTimes(1);
+      expect(mockAuditService.record).toHaveBeenCalledWith({
+        port: 3000,
+        protocol: 'tcp',
+        pid: 1234,
+        processName: 'node',
+        command: 'node server.js',
+        project: 'billing-api',
+        processUser: 'testuser',
+        signal: 'SIGTERM',
+        method: 'graceful',
+        success: true,
+        error: null,
+        trigger: 'manual',
+      });
+    });
+
+    it('should record failures and fall back to the inferred project', async () => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+      mockProcessService.killProcess.mockResolvedValue(false);
+      mockProcessService.signalAccess.mockReturnValue('denied');
+      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockProjectService.inferProject.mockReturnValue({
+        source: 'inferred',
+        projectName: 'web',
+        projectPath: '/work/web',
+      });
+
+      await killCommand.execute(3000);
+
+      expect(mockAuditService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          project: 'web',
+          method: 'graceful',
+          success: false,
+          error: expect.stringContaining('Failed to terminate'),
+        })
+      );
+    });
+
+    it('should not record cancelled kills', async () => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(true);
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: false });
+
+      await killCommand.execute(3000);
+
+      expect(mockAuditService.record).not.toHaveBeenCalled();
+    });
+
+    it('should name the entry point as the trigger', async () => {
+      mockProcessService.getAllPorts.mockResolvedValue([mockProcess]);
+      mockProcessService.killProcess.mockResolvedValue(true);
+      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockStorageService.getMappingsByProjectName.mockReturnValue([
+        {
+          port: 3000,
+          projectName: 'web',
+          projectPath: '/work/web',
+          firstSeen: new Date(),
+          lastUsed: new Date(),
+          useCount: 1,
+          autoKill: false,
+        },
+      ]);
+
+      await killCommand.executeForPorts([3000, 3001]);
+      await killCommand.executeByName('node');
+      await killCommand.executeByProject('web');
+
+      expect(mockAuditService.record.mock.calls.map((call) => call[0].trigger)).toEqual([
+        'range',
+        'name',
+        'project',
+      ]);
+    });
+  });
+
+  describe('protection', () => {
+    beforeEach(() => {
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockProjectService.isProjectDirectory.mockReturnValue(false);
+      mockProcessService.killProcess.mockResolvedValue(true);
+      mockStorageService.getProtections.mockReturnValue([
+        { kind: 'port', value: '3000' },
+      ]);
+    });
+
+    it('should skip protected ports even with force', async () => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+
+      const [outcome] = await killCommand.execute(3000, { force: true });
+
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+      expect(outcome.status).toBe('protected');
+      expect(outcome.protection).toEqual({ kind: 'port', value: '3000' });
+      expect(outcome.error).toContain('--ignore-protection');
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('protected by port 3000')
+      );
+    });
+
+    it('should point at the .zkillrc that protects a port', async () => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+      mockStorageService.getProjectConfigPath.mockReturnValue('/work/app/.zkillrc');
+      mockStorageService.getProtectionSource.mockReturnValue('/work/app/.zkillrc');
+
+      await killCommand.execute(3000, { force: true });
+
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('remove it from /work/app/.zkillrc')
+      );
+    });
+
+    it('should kill protected ports with ignoreProtection', async () => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+
+      const [outcome] = await killCommand.execute(3000, {
+        force: true,
+        ignoreProtection: true,
+      });
+
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(1234, false, expect.anything());
+      expect(outcome.status).toBe('killed');
+    });
+
+    it('should skip protected processes in bulk kills and kill the rest', async () => {
+      mockStorageService.getProtections.mockReturnValue([
+        { kind: 'process', value: 'postgres' },
+      ]);
+      mockProcessService.getAllPorts.mockResolvedValue([
+        { pid: 1234, port: 3000, processName: 'node', command: 'node server.js' },
+        { pid: 999, port: 5432, processName: 'postgres', command: 'postgres -D /data' },
+      ]);
+
+      const outcomes = await killCommand.executeByName('*', { force: true });
+
+      expect(mockProcessService.killProcess).toHaveBeenCalledTimes(1);
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(1234, false, expect.anything());
+      expect(outcomes).toContainEqual(
+        expect.objectContaining({
+          port: 5432,
+          status: 'protected',
+          protection: { kind: 'process', value: 'postgres' },
+        })
+      );
+    });
+  });
+
+  describe('protocols', () => {
+    const udpProcess: ProcessInfo = {
+      pid: 777,
+      port: 5353,
+      protocol: 'udp',
+      processName: 'dnsmasq',
+      command: 'dnsmasq --port=5353',
+    };
+
+    beforeEach(() => {
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockProcessService.killProcess.mockResolvedValue(true);
+      mockProjectService.isProjectDirectory.mockReturnValue(false);
+    });
+
+    it('should look up UDP sockets when asked for udp', async () => {
+      mockProcessService.findByPort.mockResolvedValue(udpProcess);
+
+      const outcomes = await killCommand.execute(5353, { protocol: 'udp' });
+
+      expect(mockProcessService.findByPort).toHaveBeenCalledTimes(1);
+      expect(mockProcessService.findByPort).toHaveBeenCalledWith(5353, 'udp');
+      expect(mockProcessService.killProcess).toHaveBeenCalledWith(777, false, expect.anything());
+      expect(outcomes).toHaveLength(1);
+      expect(outcomes[0].process?.protocol).toBe('udp');
+    });
+
+    it('should kill TCP and UDP holders of a port with protocol all', async () => {
+      mockProcessService.findByPort.mockImplementation(async (port, protocol) =>
+        protocol === 'udp' ? { ...udpProcess, port } : { ...mockProcess, port }
+      );
+
+      const outcomes = await killCommand.execute(5353, { protocol: 'all' });
+
+      expect(mockProcessService.findByPort).toHaveBeenCalledWith(5353, 'tcp');
+      expect(mockProcessService.findByPort).toHaveBeenCalledWith(5353, 'udp');
+      expect(mockProcessService.killProcess).toHaveBeenCalledTimes(2);
+      expect(outcomes.map((o) => o.process?.pid)).toEqual([1234, 777]);
+    });
+
+    it('should kill a PID once when it holds a port on both protocols', async () => {
+      mockProcessService.getAllPorts.mockResolvedValue([
+        { ...udpProcess, port: 4433, protocol: 'tcp' },
+        { ...udpProcess, port: 4433 },
+      ]);
+
+      const outcomes = await killCommand.executeForPorts([4433, 4434], {
+        protocol: 'all',
+      });
+
+      expect(mockProcessService.getAllPorts).toHaveBeenCalledWith('all');
+      expect(mockProcessService.killProcess).toHaveBeenCalledTimes(1);
+      expect(outcomes.map((o) => [o.port, o.status])).toEqual([
+        [4433, 'killed'],
+        [4434, 'not-found'],
+      ]);
+    });
+  });
+
+  describe('outcomes', () => {
+    beforeEach(() => {
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockProjectService.isProjectDirectory.mockReturnValue(false);
+    });
+
+    it('should report not-found when the port is free', async () => {
+      mockProcessService.findByPort.mockResolvedValue(null);
+
+      const outcomes = await killCommand.execute(3000);
+
+      expect(outcomes).toEqual([
+        {
+          port: 3000,
+          status: 'not-found',
+          process: null,
+          isSystemProcess: false,
+          result: null,
+          error: null,
+        },
+      ]);
+    });
+
+    it('should report the kill result and method', async () => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockProcessService.killProcess
+        .mockResolvedValueOnce(false)
+        .mockResolvedValueOnce(true);
+
+      const [outcome] = await killCommand.execute(3000, { force: true });
+
+      expect(outcome.status).toBe('killed');
+      expect(outcome.result).toEqual({
+        success: true,
+        pid: 1234,
+        port: 3000,
+        method: 'force',
+        error: undefined,
+        respawns: [],
+      });
+    });
+
+    it('should report failed kills with an error', async () => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockProcessService.killProcess.mockResolvedValue(false);
+      mockProcessService.signalAccess.mockReturnValue('denied');
+
+      const [outcome] = await killCommand.execute(3000, { force: true });
+
+      expect(outcome.status).toBe('failed');
+      expect(outcome.error).toContain('elevated privileges');
+    });
+
+    it('should report cancelled when the user declines', async () => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(true);
+      (inquirer.prompt as unknown as jest.Mock).mockResolvedValue({ confirmed: false });
+
+      const [outcome] = await killCommand.execute(3000);
+
+      expect(outcome.status).toBe('cancelled');
+      expect(outcome.process).toBe(mockProcess);
+    });
+
+    it('should stay silent and never prompt in json mode', async () => {
+      mockProcessService.findByPort.mockResolvedValue(mockProcess);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(true);
+
+      const [outcome] = await killCommand.execute(3000, { json: true });
+
+      expect(inquirer.prompt).not.toHaveBeenCalled();
+      expect(mockProcessService.killProcess).not.toHaveBeenCalled();
+      expect(console.log).not.toHaveBeenCalled();
+      expect(outcome.status).toBe('cancelled');
+      expect(outcome.error).toContain('--force');
+    });
+
+    it('should list every requested port for ranges', async () => {
+      mockProcessService.getAllPorts.mockResolvedValue([mockProcess]);
+      mockStorageService.isConfirmKillEnabled.mockReturnValue(false);
+      mockProcessService.killProcess.mockResolvedValue(true);
+
+      const outcomes = await killCommand.executeForPorts([2999, 3000, 3001], {
+        json: true,
+      });
+
+      expect(outcomes.map((o) => [o.port, o.status])).toEqual([
+        [2999, 'not-found'],
+        [3000, 'killed'],
+        [3001, 'not-found'],
+      ]);
+    });
+  });
 });
@@ -0,0 +1,236 @@
+/**
+ * Unit tests for MapCommand
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MapCommand } from '../map.command';
+import { StorageService } from '../../services/storage.service';
+import { ProjectService } from '../../services/project.service';
+import { ExitCode, InvalidInputError } from '../../exit-codes';
+import { PortMapping } from '../../types';
+
+jest.mock('../../services/storage.service');
+jest.mock('../../services/project.service');
+
+describe('MapCommand', () => {
+  let mapCommand: MapCommand;
+  let mockStorageService: jest.Mocked<StorageService>;
+  let mockProjectService: jest.Mocked<ProjectService>;
+
+  const mapping = (port: number, extra: Partial<PortMapping> = {}): PortMapping => ({
+    port,
+    projectName: 'shop',
+    projectPath: '/work/shop',
+    firstSeen: new Date(),
+    lastUsed: new Date(),
+    useCount: 1,
+    autoKill: false,
+    ...extra,
+  });
+
+  const output = () =>
+    (console.log as jest.Mock).mock.calls.map((call) => String(call[0]));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockStorageService = new StorageService() as jest.Mocked<StorageService>;
+    mockProjectService = new ProjectService() as jest.Mocked<ProjectService>;
+    mockProjectService.getCurrentProjectName.mockReturnValue('shop');
+    mockProjectService.getCurrentProjectPath.mockReturnValue('/work/shop');
+    mockProjectService.getCommonPortsForProjectType.mockReturnValue([3000, 3001]);
+    mockStorageService.getPortMapping.mockReturnValue(null);
+    mockStorageService.getPortMappings.mockReturnValue([]);
+    mapCommand = new MapCommand(mockStorageService, mockProjectService);
+
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('add', () => {
+    it('should map ports to the current project', () => {
+      expect(mapCommand.add([4000], { autoKill: true })).toBe(ExitCode.SUCCESS);
+
+      expect(mockStorageService.addPortMapping).toHaveBeenCalledWith({
+        port: 4000,
+        projectName: 'shop',
+        projectPath: '/work/shop',
+        autoKill: true,
+      });
+      expect(output()).toContainEqual(expect.stringContaining('Mapped port 4000 → shop'));
+    });
+
+    it('should add the common ports for the project type once', () => {
+      mapCommand.add([3000, 4000], { common: true });
+
+      expect(mockStorageService.addPortMapping.mock.calls.map(([m]) => m.port)).toEqual([
+        3000, 4000, 3001,
+      ]);
+    });
+
+    it('should map to another directory, named after its project', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'zkill-map-'));
+      mockProjectService.getProjectNameAt.mockReturnValue('billing-api');
+
+      try {
+        mapCommand.add([5432], { path: dir });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+
+      expect(mockProjectService.getProjectNameAt).toHaveBeenCalledWith(dir);
+      expect(mockStorageService.addPortMapping).toHaveBeenCalledWith(
+        expect.objectContaining({ projectName: 'billing-api', projectPath: dir })
+      );
+    });
+
+    it('should reject a path that is not a directory', () => {
+      expect(() => mapCommand.add([3000], { path: '/no/such/dir' })).toThrow(
+        InvalidInputError
+      );
+    });
+
+    it('should keep auto-kill when re-mapping to the same project', () => {
+      mockStorageService.getPortMappings.mockReturnValue([mapping(3000, { autoKill: true })]);
+
+      mapCommand.add([3000]);
+
+      expect(mockStorageService.addPortMapping).toHaveBeenCalledWith(
+        expect.objectContaining({ autoKill: true })
+      );
+    });
+
+    it('should keep other projects using the port and say so', () => {
+      mockStorageService.getPortMappings.mockReturnValue([
+        mapping(3000, { projectName: 'blog', projectPath: '/work/blog', autoKill: true }),
+      ]);
+
+      mapCommand.add([3000]);
+
+      expect(output()).toContainEqual(
+        expect.stringContaining('Port 3000 is also used by: blog')
+      );
+      expect(mockStorageService.addPortMapping).toHaveBeenCalledWith(
+        expect.objectContaining({ projectName: 'shop', autoKill: false })
+      );
+      expect(mockStorageService.removePortMapping).not.toHaveBeenCalled();
+    });
+
+    it('should leave ports declared in a .zkillrc alone', () => {
+      mockStorageService.getPortMappings.mockReturnValue([
+        mapping(3000, { configFile: '/work/shop/.zkillrc' }),
+      ]);
+
+      expect(mapCommand.add([3000])).toBe(ExitCode.INVALID_INPUT);
+      expect(mockStorageService.addPortMapping).not.toHaveBeenCalled();
+    });
+
+    it('should need ports or --common', () => {
+      expect(() => mapCommand.add([])).toThrow(InvalidInputError);
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove mapped ports for every project and report the rest', () => {
+      mockStorageService.getPortMappings.mockImplementation((port) =>
+        port === 3000
+          ? [mapping(3000), mapping(3000, { projectName: 'blog', projectPath: '/work/blog' })]
+          : []
+      );
+
+      expect(mapCommand.remove([3000, 9999])).toBe(ExitCode.PARTIAL);
+
+      expect(mockStorageService.removePortMapping).toHaveBeenCalledWith(3000, '/work/shop');
+      expect(mockStorageService.removePortMapping).toHaveBeenCalledWith(3000, '/work/blog');
+      expect(output()).toContainEqual(
+        expect.stringContaining('Port 3000 no longer mapped to shop, blog')
+      );
+      expect(output()).toContainEqual(expect.stringContaining('Port 9999 is not mapped'));
+    });
+
+    it('should remove a port from one project only', () => {
+      mockStorageService.getPortMappings.mockReturnValue([
+        mapping(3000),
+        mapping(3000, { projectName: 'blog', projectPath: '/work/blog' }),
+      ]);
+
+      expect(mapCommand.remove([3000], { project: 'Blog' })).toBe(ExitCode.SUCCESS);
+
+      expect(mockStorageService.removePortMapping).toHaveBeenCalledTimes(1);
+      expect(mockStorageService.removePortMapping).toHaveBeenCalledWith(3000, '/work/blog');
+    });
+
+    it('should remove every mapping of a project', () => {
+      mockStorageService.removeMappingsForProject.mockReturnValue([
+        mapping(3000),
+        mapping(5432),
+      ]);
+
+      expect(mapCommand.remove([], { project: 'shop' })).toBe(ExitCode.SUCCESS);
+      expect(output()).toContainEqual(expect.stringContaining('ports 3000, 5432'));
+    });
+
+    it('should report an unknown project', () => {
+      mockStorageService.removeMappingsForProject.mockReturnValue([]);
+
+      expect(mapCommand.remove([], { project: 'nope' })).toBe(ExitCode.NOT_FOUND);
+    });
+  });
+
+  describe('edit', () => {
+    it('should change auto-kill and keep the project', () => {
+      mockStorageService.getPortMapping.mockReturnValue(mapping(3000));
+
+      expect(mapCommand.edit(3000, { autoKill: true })).toBe(ExitCode.SUCCESS);
+
+      expect(mockStorageService.getPortMapping).toHaveBeenCalledWith(3000, '/work/shop');
+      expect(mockStorageService.updatePortMapping).toHaveBeenCalledWith(3000, '/work/shop', {
+        projectName: 'shop',
+        projectPath: '/work/shop',
+        autoKill: true,
+      });
+    });
+
+    it('should rename the project of a single port', () => {
+      mockStorageService.getPortMapping.mockReturnValue(mapping(3000, { autoKill: true }));
+
+      mapCommand.edit(3000, { project: 'storefront' });
+
+      expect(mockStorageService.updatePortMapping).toHaveBeenCalledWith(
+        3000,
+        '/work/shop',
+        expect.objectContaining({ projectName: 'storefront', autoKill: true })
+      );
+    });
+
+    it('should report unmapped ports', () => {
+      expect(mapCommand.edit(3000, { autoKill: true })).toBe(ExitCode.NOT_FOUND);
+    });
+
+    it('should need something to change', () => {
+      mockStorageService.getPortMapping.mockReturnValue(mapping(3000));
+
+      expect(() => mapCommand.edit(3000)).toThrow('Nothing to change');
+    });
+  });
+
+  describe('rename', () => {
+    it('should rename a project in every mapping', () => {
+      mockStorageService.renameProject.mockReturnValue(2);
+
+      expect(mapCommand.rename('shop', ' storefront ')).toBe(ExitCode.SUCCESS);
+      expect(mockStorageService.renameProject).toHaveBeenCalledWith('shop', 'storefront');
+    });
+
+    it('should report an unknown project', () => {
+      mockStorageService.renameProject.mockReturnValue(0);
+
+      expect(mapCommand.rename('nope', 'x')).toBe(ExitCode.NOT_FOUND);
+    });
+  });
+});
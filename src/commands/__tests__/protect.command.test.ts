@@ -0,0 +1,133 @@
+/**
+ * Unit tests for ProtectCommand
+ */
+
+import { ProtectCommand } from '../protect.command';
+import { StorageService } from '../../services/storage.service';
+import { ExitCode, InvalidInputError } from '../../exit-codes';
+
+jest.mock('../../services/storage.service');
+
+describe('ProtectCommand', () => {
+  let protectCommand: ProtectCommand;
+  let mockStorageService: jest.Mocked<StorageService>;
+
+  const output = () =>
+    (console.log as jest.Mock).mock.calls.map((call) => String(call[0]));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockStorageService = new StorageService() as jest.Mocked<StorageService>;
+    mockStorageService.getConfigPath.mockReturnValue('/home/alice/.zkill/config.json');
+    mockStorageService.getProjectConfigPath.mockReturnValue(null);
+    protectCommand = new ProtectCommand(mockStorageService);
+
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('add', () => {
+    it('should store the normalized rule', () => {
+      mockStorageService.addProtection.mockReturnValue(true);
+
+      expect(protectCommand.add('port', '05432')).toBe(ExitCode.SUCCESS);
+      expect(mockStorageService.addProtection).toHaveBeenCalledWith({
+        kind: 'port',
+        value: '5432',
+      });
+      expect(output()).toContainEqual(expect.stringContaining('Protected port 5432'));
+    });
+
+    it('should succeed when the rule already exists', () => {
+      mockStorageService.addProtection.mockReturnValue(false);
+
+      expect(protectCommand.add('user', 'postgres')).toBe(ExitCode.SUCCESS);
+      expect(output()).toContainEqual(expect.stringContaining('already protected'));
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => protectCommand.add('port', '99999')).toThrow(InvalidInputError);
+      expect(() => protectCommand.add('process', '/[/')).toThrow(InvalidInputError);
+      expect(mockStorageService.addProtection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove an existing rule', () => {
+      mockStorageService.removeProtection.mockReturnValue(true);
+
+      expect(protectCommand.remove('service', 'postgresql')).toBe(ExitCode.SUCCESS);
+      expect(mockStorageService.removeProtection).toHaveBeenCalledWith({
+        kind: 'service',
+        value: 'postgresql',
+      });
+    });
+
+    it('should report rules that are not protected', () => {
+      mockStorageService.removeProtection.mockReturnValue(false);
+
+      expect(protectCommand.remove('port', '3000')).toBe(ExitCode.NOT_FOUND);
+      expect(output()).toContainEqual(expect.stringContaining('port 3000 is not protected'));
+    });
+
+    it('should point at the .zkillrc for rules declared there', () => {
+      mockStorageService.removeProtection.mockReturnValue(false);
+      mockStorageService.getProtectionSource.mockReturnValue('/work/app/.zkillrc');
+
+      expect(protectCommand.remove('port', '5432')).toBe(ExitCode.NOT_FOUND);
+      expect(output()).toContainEqual(
+        expect.stringContaining('protected by /work/app/.zkillrc')
+      );
+    });
+  });
+
+  describe('list', () => {
+    it('should group rules by kind', () => {
+      mockStorageService.getProtections.mockReturnValue([
+        { kind: 'user', value: 'postgres' },
+        { kind: 'port', value: '5432' },
+        { kind: 'port', value: '6379' },
+      ]);
+
+      protectCommand.list();
+
+      const lines = output();
+      expect(lines).toContainEqual(expect.stringContaining('Protected (3)'));
+      const ports = lines.findIndex((l) => l.includes('5432, 6379'));
+      const users = lines.findIndex((l) => l.includes('postgres'));
+      expect(ports).toBeGreaterThan(0);
+      expect(users).toBeGreaterThan(ports);
+      expect(lines).toContainEqual(
+        expect.stringContaining('/home/alice/.zkill/config.json')
+      );
+    });
+
+    it('should mark rules from the .zkillrc', () => {
+      mockStorageService.getProjectConfigPath.mockReturnValue('/work/app/.zkillrc');
+      mockStorageService.getProtections.mockReturnValue([
+        { kind: 'port', value: '5432' },
+        { kind: 'port', value: '6379' },
+      ]);
+      mockStorageService.getProtectionSource.mockImplementation((rule) =>
+        rule.value === '5432' ? '/work/app/.zkillrc' : '/home/alice/.zkill/config.json'
+      );
+
+      protectCommand.list();
+
+      expect(output()).toContainEqual(expect.stringContaining('5432 (.zkillrc), 6379'));
+      expect(output()).toContainEqual(expect.stringContaining('Project rc:  /work/app/.zkillrc'));
+    });
+
+    it('should explain an empty list', () => {
+      mockStorageService.getProtections.mockReturnValue([]);
+
+      protectCommand.list();
+
+      expect(output()).toContainEqual(expect.stringContaining('Nothing is protected'));
+    });
+  });
+});
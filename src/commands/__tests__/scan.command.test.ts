@@ -5,6 +5,8 @@
 import { ScanCommand, ScanOptions } from '../scan.command';
 import { ProcessService } from '../../services/process.service';
 import { StorageService } from '../../services/storage.service';
+import { ProjectService } from '../../services/project.service';
+import { SnapshotService } from '../../services/snapshot.service';
 import { ProcessInfo } from '../../types';
 import {
   SCAN_JSON_SCHEMA_VERSION,
@@ -15,6 +17,8 @@ import {
 // Mock dependencies
 jest.mock('../../services/process.service');
 jest.mock('../../services/storage.service');
+jest.mock('../../services/project.service');
+jest.mock('../../services/snapshot.service');
 jest.mock('ora', () => {
   return jest.fn(() => ({
     start: jest.fn().mockReturnThis(),
@@ -26,6 +30,8 @@ describe('ScanCommand', () => {
   let scanCommand: ScanCommand;
   let mockProcessService: jest.Mocked<ProcessService>;
   let mockStorageService: jest.Mocked<StorageService>;
+  let mockProjectService: jest.Mocked<ProjectService>;
+  let mockSnapshotService: jest.Mocked<SnapshotService>;
 
   const mockProcesses: ProcessInfo[] = [
     {
@@ -58,9 +64,17 @@ describe('ScanCommand', () => {
     // Create mock instances
     mockProcessService = new ProcessService() as jest.Mocked<ProcessService>;
     mockStorageService = new StorageService() as jest.Mocked<StorageService>;
+    mockProjectService = new ProjectService() as jest.Mocked<ProjectService>;
+    mockProjectService.inferProject.mockReturnValue(null);
+    mockSnapshotService = new SnapshotService() as jest.Mocked<SnapshotService>;
 
     // Create command instance
-    scanCommand = new ScanCommand(mockProcessService, mockStorageService);
+    scanCommand = new ScanCommand(
+      mockProcessService,
+      mockStorageService,
+      mockProjectService,
+      mockSnapshotService
+    );
 
     // Mock console methods to avoid test output clutter
     jest.spyOn(console, 'log').mockImplementation();
@@ -165,27 +179,56 @@ describe('ScanCommand', () => {
 
     it('should filter by project name', async () => {
       mockProcessService.getAllPorts.mockResolvedValue(mockProcesses);
-      mockStorageService.getMappingsByProjectName.mockReturnValue([
-        {
-          port: 3000,
-          projectName: 'my-project',
-          projectPath: '/my/path',
-          autoKill: false,
-          lastUsed: new Date(),
-        },
-      ]);
-      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockStorageService.getPortMapping.mockImplementation((port: number) =>
+        port === 3000
+          ? {
+              port: 3000,
+              projectName: 'my-project',
+              projectPath: '/my/path',
+              autoKill: false,
+              firstSeen: new Date(),
+              lastUsed: new Date(),
+              useCount: 1,
+            }
+          : null
+      );
 
       await scanCommand.execute({ project: 'my-project' });
 
-      expect(mockStorageService.getMappingsByProjectName).toHaveBeenCalledWith(
-        'my-project'
-      );
       expect(console.log).toHaveBeenCalledWith(
         expect.stringContaining('Active Ports (1 found)')
       );
     });
 
+    it("should leave out another project's process on a mapped port", async () => {
+      mockProcessService.getAllPorts.mockResolvedValue([
+        { ...mockProcesses[0], workingDirectory: '/work/blog' },
+      ]);
+      mockStorageService.getPortMapping.mockReturnValue({
+        port: 3000,
+        projectName: 'shop',
+        projectPath: '/work/shop',
+        autoKill: false,
+        firstSeen: new Date(),
+        lastUsed: new Date(),
+        useCount: 1,
+      });
+      mockProjectService.inferProject.mockReturnValue({
+        source: 'inferred',
+        projectName: 'blog',
+        projectPath: '/work/blog',
+      });
+
+      await scanCommand.execute({ project: 'shop', format: 'csv', columns: ['port'] });
+      await scanCommand.execute({ project: 'blog', format: 'csv', columns: ['port', 'source'] });
+
+      expect((console.log as jest.Mock).mock.calls.map((c) => c[0])).toEqual([
+        'port',
+        'port,source',
+        '3000,inferred',
+      ]);
+    });
+
     it('should show project info when mapping exists', async () => {
       mockProcessService.getAllPorts.mockResolvedValue([mockProcesses[0]]);
       mockStorageService.getPortMapping.mockReturnValue({
@@ -193,12 +236,14 @@ describe('ScanCommand', () => {
         projectName: 'test-project',
         projectPath: '/test/path',
         autoKill: false,
+        firstSeen: new Date(),
         lastUsed: new Date(),
+        useCount: 1,
       });
 
       await scanCommand.execute();
 
-      expect(mockStorageService.getPortMapping).toHaveBeenCalledWith(3000);
+      expect(mockStorageService.getPortMapping).toHaveBeenCalledWith(3000, undefined);
       expect(console.log).toHaveBeenCalledWith(
         expect.stringContaining('test-project')
       );
@@ -237,6 +282,49 @@ describe('ScanCommand', () => {
       );
     });
 
+    it('should scan the requested protocol and label UDP ports', async () => {
+      mockProcessService.getAllPorts.mockResolvedValue([
+        { ...mockProcesses[0] },
+        { pid: 777, port: 5353, protocol: 'udp', processName: 'dnsmasq', command: 'dnsmasq' },
+      ]);
+      mockStorageService.getPortMapping.mockReturnValue(null);
+
+      await scanCommand.execute({ protocol: 'all' });
+
+      expect(mockProcessService.getAllPorts).toHaveBeenCalledWith('all');
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('5353/udp')
+      );
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Protocol: all')
+      );
+    });
+
+    it('should show bind addresses and keep only exposed listeners with exposed', async () => {
+      mockProcessService.getAllPorts.mockResolvedValue([
+        { ...mockProcesses[0], addresses: [{ address: '127.0.0.1', family: 'ipv4' }] },
+        {
+          ...mockProcesses[1],
+          addresses: [
+            { address: '0.0.0.0', family: 'ipv4' },
+            { address: '::', family: 'ipv6' },
+          ],
+        },
+        { ...mockProcesses[2] },
+      ]);
+      mockStorageService.getPortMapping.mockReturnValue(null);
+
+      await scanCommand.execute({ exposed: true });
+
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Active Ports (1 found)')
+      );
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('[exposed]'));
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Address: 0.0.0.0, [::] (all interfaces)')
+      );
+    });
+
     it('should display verbose context when verbose option is true', async () => {
       const processWithContext: ProcessInfo = {
         pid: 1234,
@@ -458,6 +546,312 @@ describe('ScanCommand', () => {
     });
   });
 
+  describe('formats', () => {
+    const output = () =>
+      (console.log as jest.Mock).mock.calls.map((call) => String(call[0]));
+
+    beforeEach(() => {
+      mockProcessService.getAllPorts.mockResolvedValue(mockProcesses);
+      mockStorageService.getPortMapping.mockImplementation((port: number) =>
+        port === 8080
+          ? {
+              port,
+              projectName: 'gateway',
+              projectPath: '/srv/gateway',
+              firstSeen: new Date(),
+              lastUsed: new Date(),
+              useCount: 1,
+              autoKill: false,
+            }
+          : null
+      );
+    });
+
+    it('should print one CSV row per listener in sort order', async () => {
+      await scanCommand.execute({
+        format: 'csv',
+        columns: ['port', 'name', 'project'],
+        sort: 'name',
+      });
+
+      expect(output()).toEqual([
+        'port,name,project',
+        '8080,nginx,gateway',
+        '3000,node,',
+        '5432,postgres,',
+      ]);
+    });
+
+    it('should sort by project with unmapped ports last', async () => {
+      await scanCommand.execute({ format: 'tsv', columns: ['port'], sort: 'project' });
+
+      expect(output()).toEqual(['port', '8080', '3000', '5432']);
+    });
+
+    it('should print a table with the default columns', async () => {
+      await scanCommand.execute({ format: 'table' });
+
+      const lines = output();
+      expect(lines[0]).toContain('PORT');
+      expect(lines[0]).toContain('COMMAND');
+      expect(lines).toHaveLength(4);
+      expect(lines[3]).toMatch(/^8080\s+5678\s+nginx\s+gateway/);
+    });
+
+    it('should fill in a template per listener', async () => {
+      await scanCommand.execute({ template: '{{port}}\\t{{pid}}' });
+
+      expect(output()).toEqual(['3000\t1234', '5432\t9999', '8080\t5678']);
+    });
+
+    it('should keep JSON processes in sort order', async () => {
+      await scanCommand.execute({ json: true, sort: 'pid' });
+
+      const doc = JSON.parse(output()[0]);
+      expect(doc.processes.map((p: { pid: number }) => p.pid)).toEqual([
+        1234, 5678, 9999,
+      ]);
+    });
+  });
+
+  describe('inferred projects', () => {
+    beforeEach(() => {
+      mockProcessService.getAllPorts.mockResolvedValue(mockProcesses);
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.getPortMapping.mockImplementation((port: number) =>
+        port === 8080
+          ? {
+              port,
+              projectName: 'gateway',
+              projectPath: '/srv/gateway',
+              firstSeen: new Date(),
+              lastUsed: new Date(),
+              useCount: 1,
+              autoKill: false,
+            }
+          : null
+      );
+      mockProjectService.inferProject.mockImplementation((p: ProcessInfo) =>
+        p.port === 3000
+          ? { source: 'inferred', projectName: 'shop', projectPath: '/home/dev/shop' }
+          : null
+      );
+    });
+
+    it('should label inferred projects differently from mapped ones', async () => {
+      await scanCommand.execute();
+
+      const lines = (console.log as jest.Mock).mock.calls.map((c) => String(c[0]));
+      expect(lines).toContainEqual(expect.stringContaining('node (shop, inferred)'));
+      expect(lines).toContainEqual(expect.stringContaining('nginx (gateway)'));
+    });
+
+    it('should prefer the port mapping over inference', async () => {
+      mockProjectService.inferProject.mockReturnValue({
+        source: 'inferred',
+        projectName: 'elsewhere',
+        projectPath: '/tmp/elsewhere',
+      });
+
+      await scanCommand.execute({ json: true });
+
+      const doc = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      const gateway = doc.processes.find((p: { port: number }) => p.port === 8080);
+      expect(gateway).toMatchObject({ projectName: 'gateway', projectSource: 'mapped' });
+    });
+
+    it('should report the ownership source in JSON', async () => {
+      await scanCommand.execute({ json: true });
+
+      const doc = JSON.parse((console.log as jest.Mock).mock.calls[0][0]);
+      expect(isValidScanJsonV1(doc)).toBe(true);
+      expect(
+        doc.processes.map((p: { projectName: string | null; projectSource: string | null }) => [
+          p.projectName,
+          p.projectSource,
+        ])
+      ).toEqual([
+        ['shop', 'inferred'],
+        [null, null],
+        ['gateway', 'mapped'],
+      ]);
+    });
+
+    it('should match inferred projects with --project', async () => {
+      mockStorageService.getMappingsByProjectName.mockReturnValue([]);
+
+      await scanCommand.execute({ project: 'sho', format: 'csv', columns: ['port', 'source'] });
+
+      expect((console.log as jest.Mock).mock.calls.map((c) => c[0])).toEqual([
+        'port,source',
+        '3000,inferred',
+      ]);
+    });
+  });
+
+  describe('group by', () => {
+    const output = () =>
+      (console.log as jest.Mock).mock.calls.map((call) => String(call[0]));
+
+    beforeEach(() => {
+      mockProcessService.getAllPorts.mockResolvedValue([
+        ...mockProcesses,
+        { pid: 1235, port: 3001, processName: 'node', command: 'node worker.js', user: 'testuser' },
+      ]);
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockStorageService.getPortMapping.mockImplementation((port: number) =>
+        port === 3000 || port === 3001
+          ? {
+              port,
+              projectName: 'billing-api',
+              projectPath: '/srv/billing',
+              firstSeen: new Date(),
+              lastUsed: new Date(),
+              useCount: 1,
+              autoKill: false,
+            }
+          : null
+      );
+    });
+
+    it('should print one heading per group with counts', async () => {
+      await scanCommand.execute({ groupBy: 'project' });
+
+      const lines = output();
+      const billing = lines.findIndex((l) => l.includes('📦 billing-api'));
+      const none = lines.findIndex((l) => l.includes('📦 (no project)'));
+      expect(billing).toBeGreaterThan(-1);
+      expect(none).toBeGreaterThan(billing);
+      expect(lines[billing]).toContain('2 ports, 2 processes');
+      expect(lines).toContainEqual(expect.stringContaining('2 groups by project · 4 ports total'));
+    });
+
+    it('should add the grouping to JSON', async () => {
+      await scanCommand.execute({ json: true, groupBy: 'user' });
+
+      const doc = JSON.parse(output()[0]);
+      expect(isValidScanJsonV1(doc)).toBe(true);
+      expect(doc.groupBy).toBe('user');
+      expect(doc.groups).toEqual([
+        { name: 'postgres', count: 1, ports: [5432], pids: [9999] },
+        { name: 'testuser', count: 2, ports: [3000, 3001], pids: [1234, 1235] },
+        { name: 'www-data', count: 1, ports: [8080], pids: [5678] },
+      ]);
+      // Processes are listed group by group
+      expect(doc.processes.map((p: { port: number }) => p.port)).toEqual([
+        5432, 3000, 3001, 8080,
+      ]);
+    });
+
+    it('should leave groups null when not grouping', async () => {
+      await scanCommand.execute({ json: true });
+
+      const doc = JSON.parse(output()[0]);
+      expect(doc.groupBy).toBeNull();
+      expect(doc.groups).toBeNull();
+    });
+  });
+
+  describe('save', () => {
+    beforeEach(() => {
+      mockProcessService.getAllPorts.mockResolvedValue(mockProcesses);
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+      mockSnapshotService.save.mockReturnValue('/home/me/.zkill/snapshots/before.json');
+    });
+
+    it('should save the scan JSON document under the name', async () => {
+      await scanCommand.execute({ save: 'before', process: 'node' });
+
+      const snapshot = mockSnapshotService.save.mock.calls[0][0];
+      expect(snapshot.name).toBe('before');
+      expect(isValidScanJsonV1(snapshot.scan)).toBe(true);
+      expect(snapshot.scan.filters.process).toBe('node');
+      expect(snapshot.scan.processes.map((p) => p.port)).toEqual([3000]);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Saved snapshot "before" (1 listener)')
+      );
+    });
+
+    it('should keep the confirmation off stdout for JSON', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+
+      await scanCommand.execute({ save: 'before', json: true });
+
+      const stdout = (console.log as jest.Mock).mock.calls.map((call) => String(call[0]));
+      expect(stdout).toHaveLength(1);
+      expect(isValidScanJsonV1(JSON.parse(stdout[0]))).toBe(true);
+      expect(console.error).toHaveBeenCalledWith(
+        expect.stringContaining('Saved snapshot "before" (3 listeners)')
+      );
+    });
+  });
+
+  describe('scanDocument', () => {
+    it('should build the JSON document without printing', async () => {
+      mockProcessService.getAllPorts.mockResolvedValue(mockProcesses);
+      mockProcessService.isCriticalProcess.mockReturnValue(false);
+
+      const doc = await scanCommand.scanDocument({ range: '3000-6000' });
+
+      expect(isValidScanJsonV1(doc)).toBe(true);
+      expect(doc.processes.map((p) => p.port)).toEqual([3000, 5432]);
+      expect(console.log).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('watch', () => {
+    const output = () =>
+      (console.log as jest.Mock).mock.calls.map((call) => String(call[0]));
+
+    beforeEach(() => {
+      mockStorageService.getPortMapping.mockReturnValue(null);
+      mockProcessService.getAllPorts
+        .mockResolvedValueOnce([mockProcesses[0], mockProcesses[1]])
+        .mockResolvedValueOnce([
+          { ...mockProcesses[0], pid: 4321 },
+          mockProcesses[2],
+        ]);
+    });
+
+    it('should redraw and highlight appeared, gone and restarted ports', async () => {
+      await scanCommand.watch({}, { intervalMs: 1, iterations: 2 });
+
+      expect(mockProcessService.getAllPorts).toHaveBeenCalledTimes(2);
+      const frames = output();
+      expect(frames).toHaveLength(2);
+      expect(frames[0]).not.toContain('+ ');
+      expect(frames[1]).toContain('~ 3000');
+      expect(frames[1]).toContain('1234→4321');
+      expect(frames[1]).toContain('+ 5432');
+      expect(frames[1]).toContain('- 8080');
+      expect(frames[1]).toContain('1 new · 1 gone · 1 restarted');
+    });
+
+    it('should stream change events as JSON lines', async () => {
+      await scanCommand.watch({ json: true }, { intervalMs: 1, iterations: 2 });
+
+      const events = output().map((line) => JSON.parse(line));
+      expect(events.map((e) => [e.event, e.port])).toEqual([
+        ['appeared', 3000],
+        ['appeared', 8080],
+        ['pid-changed', 3000],
+        ['appeared', 5432],
+        ['disappeared', 8080],
+      ]);
+      expect(events[2]).toMatchObject({ pid: 4321, previousPid: 1234 });
+    });
+
+    it('should apply scan filters on every poll', async () => {
+      await scanCommand.watch(
+        { json: true, range: '3000-6000' },
+        { intervalMs: 1, iterations: 2 }
+      );
+
+      const ports = output().map((line) => JSON.parse(line).port);
+      expect(ports).not.toContain(8080);
+    });
+  });
+
   describe('listMappings', () => {
     it('should show message when no mappings exist', () => {
       mockStorageService.getAllMappings.mockReturnValue([]);
@@ -477,14 +871,18 @@ describe('ScanCommand', () => {
           projectName: 'project-1',
           projectPath: '/path/1',
           autoKill: false,
+          firstSeen: now,
           lastUsed: now,
+          useCount: 1,
         },
         {
           port: 4000,
           projectName: 'project-2',
           projectPath: '/path/2',
           autoKill: true,
+          firstSeen: now,
           lastUsed: now,
+          useCount: 1,
         },
       ]);
       mockStorageService.getConfigPath.mockReturnValue('/config/path');
@@ -521,7 +919,9 @@ describe('ScanCommand', () => {
           projectName: 'recent',
           projectPath: '/path',
           autoKill: false,
+          firstSeen: oneMinuteAgo,
           lastUsed: oneMinuteAgo,
+          useCount: 1,
         },
       ]);
 
@@ -536,7 +936,9 @@ describe('ScanCommand', () => {
           projectName: 'recent',
           projectPath: '/path',
           autoKill: false,
+          firstSeen: oneHourAgo,
           lastUsed: oneHourAgo,
+          useCount: 1,
         },
       ]);
 
@@ -551,7 +953,9 @@ describe('ScanCommand', () => {
           projectName: 'recent',
           projectPath: '/path',
           autoKill: false,
+          firstSeen: oneDayAgo,
           lastUsed: oneDayAgo,
+          useCount: 1,
         },
       ]);
 
@@ -569,7 +973,9 @@ describe('ScanCommand', () => {
           projectName: 'recent',
           projectPath: '/path',
           autoKill: false,
+          firstSeen: now,
           lastUsed: now,
+          useCount: 1,
         },
       ]);
 
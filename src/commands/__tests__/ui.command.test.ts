@@ -0,0 +1,218 @@
+/**
+ * Unit tests for UiCommand
+ */
+
+import { PassThrough } from 'stream';
+import { UiCommand } from '../ui.command';
+import { KillCommand } from '../kill.command';
+import { ProcessService } from '../../services/process.service';
+import { StorageService } from '../../services/storage.service';
+import { ProjectService } from '../../services/project.service';
+import { AuditService } from '../../services/audit.service';
+import { InvalidInputError } from '../../exit-codes';
+import { ProcessInfo } from '../../types';
+
+jest.mock('../../services/process.service');
+jest.mock('../../services/storage.service');
+jest.mock('../../services/project.service');
+jest.mock('../../services/audit.service');
+jest.mock('../kill.command');
+
+type FakeInput = PassThrough & { isTTY: boolean; setRawMode: jest.Mock };
+type FakeOutput = PassThrough & { isTTY: boolean; columns: number; rows: number };
+
+const DOWN = '\x1b[B';
+
+describe('UiCommand', () => {
+  let mockProcessService: jest.Mocked<ProcessService>;
+  let mockStorageService: jest.Mocked<StorageService>;
+  let mockKillCommand: jest.Mocked<KillCommand>;
+  let input: FakeInput;
+  let output: FakeOutput;
+  let screen: string;
+
+  const processes: ProcessInfo[] = [
+    { pid: 300, port: 8080, processName: 'nginx', command: 'nginx' },
+    { pid: 100, port: 3000, processName: 'node', command: 'node server.js' },
+    { pid: 200, port: 5432, processName: 'postgres', command: 'postgres -D data' },
+  ];
+
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+  const press = async (...keys: string[]) => {
+    for (const key of keys) {
+      input.write(key);
+      await tick();
+    }
+  };
+
+  const createUi = () =>
+    new UiCommand(
+      mockProcessService,
+      mockStorageService,
+      mockKillCommand,
+      input as unknown as NodeJS.ReadStream,
+      output as unknown as NodeJS.WriteStream
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockProcessService = new ProcessService() as jest.Mocked<ProcessService>;
+    mockStorageService = new StorageService() as jest.Mocked<StorageService>;
+    mockKillCommand = new KillCommand(
+      mockProcessService,
+      mockStorageService,
+      new ProjectService(),
+      new AuditService()
+    ) as jest.Mocked<KillCommand>;
+
+    mockProcessService.getAllPorts.mockImplementation(async () => [...processes]);
+    mockProcessService.isCriticalProcess.mockImplementation(
+      (p: ProcessInfo) => p.processName === 'postgres'
+    );
+    mockStorageService.getPortMapping.mockImplementation((port: number) =>
+      port === 3000
+        ? {
+            port,
+            projectName: 'shop',
+            projectPath: '/home/dev/shop',
+            firstSeen: new Date(),
+            lastUsed: new Date(),
+            useCount: 1,
+            autoKill: false,
+          }
+        : null
+    );
+    mockKillCommand.executeForProcesses.mockResolvedValue([]);
+
+    input = Object.assign(new PassThrough(), {
+      isTTY: true,
+      setRawMode: jest.fn(),
+    }) as FakeInput;
+    output = Object.assign(new PassThrough(), {
+      isTTY: true,
+      columns: 100,
+      rows: 30,
+    }) as FakeOutput;
+    screen = '';
+    output.on('data', (chunk: Buffer) => {
+      screen += chunk.toString();
+    });
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses to run without an interactive terminal', async () => {
+    input.isTTY = false;
+
+    await expect(createUi().execute()).rejects.toThrow(InvalidInputError);
+    expect(mockProcessService.getAllPorts).not.toHaveBeenCalled();
+  });
+
+  it('lists listeners by port with projects and system tags, then quits', async () => {
+    const done = createUi().execute({ protocol: 'all' });
+    await tick();
+    await press('q');
+    await done;
+
+    expect(mockProcessService.getAllPorts).toHaveBeenCalledWith('all');
+    const ports = ['3000', '5432', '8080'].map((port) => screen.indexOf(port));
+    expect(ports).toEqual([...ports].sort((a, b) => a - b));
+    expect(screen).toContain('shop');
+    expect(screen).toContain('[system]');
+    expect(screen).toContain('Project: shop (/home/dev/shop)');
+    expect(input.setRawMode).toHaveBeenLastCalledWith(false);
+    expect(screen.endsWith('\x1b[?25h\x1b[?1049l')).toBe(true);
+  });
+
+  it('kills the cursor row through KillCommand', async () => {
+    const done = createUi().execute();
+    await tick();
+    await press(DOWN, 'x');
+
+    expect(mockKillCommand.executeForProcesses).toHaveBeenCalledWith([processes[2]], {
+      signal: undefined,
+      trigger: 'ui',
+    });
+
+    // Any key returns to the list, which is rescanned
+    await press('z');
+    expect(mockProcessService.getAllPorts).toHaveBeenCalledTimes(2);
+    await press('q');
+    await done;
+  });
+
+  it('force-kills every selected row', async () => {
+    const done = createUi().execute();
+    await tick();
+    await press(' ', DOWN, ' ', 'X');
+
+    expect(mockKillCommand.executeForProcesses).toHaveBeenCalledWith(
+      [processes[1], processes[0]],
+      { signal: 'SIGKILL', trigger: 'ui' }
+    );
+
+    await press('z', 'q');
+    await done;
+  });
+
+  it('fuzzy-filters the list before acting', async () => {
+    const done = createUi().execute();
+    await tick();
+    await press('/', 'n', 'g', 'x', '\r', 'x');
+
+    expect(mockKillCommand.executeForProcesses).toHaveBeenCalledWith([processes[0]], {
+      signal: undefined,
+      trigger: 'ui',
+    });
+
+    await press('z', 'q');
+    await done;
+  });
+
+  it('ignores keys while a refresh is running', async () => {
+    const done = createUi().execute();
+    await tick();
+
+    let finishScan: (rows: ProcessInfo[]) => void = () => undefined;
+    mockProcessService.getAllPorts.mockImplementationOnce(
+      () => new Promise((resolve) => (finishScan = resolve))
+    );
+    await press('r', 'x', 'r');
+
+    expect(mockKillCommand.executeForProcesses).not.toHaveBeenCalled();
+    expect(mockProcessService.getAllPorts).toHaveBeenCalledTimes(2);
+
+    finishScan([processes[0]]);
+    await tick();
+    await press('x');
+    expect(mockKillCommand.executeForProcesses).toHaveBeenCalledWith([processes[0]], {
+      signal: undefined,
+      trigger: 'ui',
+    });
+
+    await press('z', 'q');
+    await done;
+  });
+
+  it('kills only the selected one of two listeners on a port', async () => {
+    const worker = { pid: 101, port: 3000, processName: 'node', command: 'node worker.js' };
+    mockProcessService.getAllPorts.mockImplementation(async () => [...processes, worker]);
+
+    const done = createUi().execute();
+    await tick();
+    await press(DOWN, ' ', 'x');
+
+    expect(mockKillCommand.executeForProcesses).toHaveBeenCalledWith([worker], {
+      signal: undefined,
+      trigger: 'ui',
+    });
+    expect(mockKillCommand.executeForPorts).not.toHaveBeenCalled();
+
+    await press('z', 'q');
+    await done;
+  });
+});
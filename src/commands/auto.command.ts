@@ -8,12 +8,18 @@ import inquirer from 'inquirer';
 import { ProcessService } from '../services/process.service';
 import { StorageService } from '../services/storage.service';
 import { ProjectService } from '../services/project.service';
+import { KillCommand } from './kill.command';
+import { ExitCode, exitCodeForKillStatuses } from '../exit-codes';
+import { KillStatus } from '../types';
+import { describeProtection, findProtection } from '../protection';
+import { resolvePortMapping } from '../port-mappings';
 
 export class AutoCommand {
   constructor(
     private processService: ProcessService,
     private storageService: StorageService,
-    private projectService: ProjectService
+    private projectService: ProjectService,
+    private killCommand: KillCommand
   ) {}
 
   /**
@@ -22,6 +28,7 @@ export class AutoCommand {
   async enable(): Promise<void> {
     this.storageService.setAutoKill(true);
     console.log(chalk.green('✅ Auto-kill enabled globally'));
+    this.warnIfProjectOverrides(true);
     console.log(
       chalk.gray(
         '\nZombie processes from other projects will be automatically killed when you switch projects.'
@@ -36,6 +43,7 @@ export class AutoCommand {
   async disable(): Promise<void> {
     this.storageService.setAutoKill(false);
     console.log(chalk.yellow('⚠️  Auto-kill disabled'));
+    this.warnIfProjectOverrides(false);
     console.log(
       chalk.gray('\nYou will need to manually kill processes using zkill <port>')
     );
@@ -43,10 +51,11 @@ export class AutoCommand {
 
   /**
    * Check for zombie processes and kill them
+   * Returns SUCCESS when there is nothing to do, so the shell hook stays quiet
    */
-  async checkAndKill(): Promise<void> {
+  async checkAndKill(): Promise<ExitCode> {
     if (!this.storageService.isAutoKillEnabled()) {
-      return; // Auto-kill not enabled, exit silently
+      return ExitCode.SUCCESS; // Auto-kill not enabled, exit silently
     }
 
     const currentProject = this.projectService.getCurrentProjectName();
@@ -55,26 +64,52 @@ export class AutoCommand {
     // Get all port mappings
     const mappings = this.storageService.getAllMappings();
 
-    // Find ports from OTHER projects
-    const otherProjectPorts = mappings.filter(
-      (m) => m.projectPath !== currentPath && m.autoKill
-    );
+    // Find ports from OTHER projects (once each, when several projects use them)
+    const otherProjectPorts = mappings
+      .filter((m) => m.projectPath !== currentPath && m.autoKill)
+      .map((m) => m.port)
+      .filter((port, i, all) => all.indexOf(port) === i);
 
     if (otherProjectPorts.length === 0) {
-      return; // No ports from other projects with auto-kill enabled
+      return ExitCode.SUCCESS; // No ports from other projects with auto-kill enabled
     }
 
     // Find which of these ports are actually in use
     const portsInUse = [];
-    for (const mapping of otherProjectPorts) {
-      const process = await this.processService.findByPort(mapping.port);
-      if (process) {
+    const protectedPorts = [];
+    const protections = this.storageService.getProtections();
+    for (const port of otherProjectPorts) {
+      const process = await this.processService.findByPort(port);
+      if (!process) {
+        continue;
+      }
+      // A shared port may be serving the current project; when the listener
+      // can't be placed, the most recently used project decides
+      const mapping = resolvePortMapping(mappings, port, process.workingDirectory);
+      if (!mapping || mapping.projectPath === currentPath || !mapping.autoKill) {
+        continue;
+      }
+      const protection = findProtection(process, [port], protections);
+      if (protection) {
+        protectedPorts.push({ mapping, process, protection });
+      } else {
         portsInUse.push({ mapping, process });
       }
     }
 
+    // Auto-kill never overrides protection; say so once the ports are found
+    for (const { mapping, process, protection } of protectedPorts) {
+      console.log(
+        chalk.yellow(
+          `🛡️  Not auto-killing port ${mapping.port} (${process.processName}, PID: ${process.pid}): protected by ${describeProtection(protection)}`
+        )
+      );
+    }
+
     if (portsInUse.length === 0) {
-      return; // Ports not actually in use
+      // Like zkill <port>, a check that only found protected ports exits
+      // with PROTECTED so scripts can tell nothing was freed
+      return protectedPorts.length > 0 ? ExitCode.PROTECTED : ExitCode.SUCCESS;
     }
 
     // Show what we found
@@ -107,24 +142,51 @@ export class AutoCommand {
 
     if (!confirmed) {
       console.log(chalk.gray('Skipped auto-kill.'));
-      return;
+      return ExitCode.CANCELLED;
     }
 
-    // Kill all processes
-    let killedCount = 0;
-    for (const { process } of portsInUse) {
-      const success = await this.processService.killProcess(process.pid, false);
+    // Kill all processes with the configured signal, timeout and escalation,
+    // like zkill <port>. The shell hook runs on every cd, so it does not
+    // hold the prompt watching for restarts.
+    const freedPorts: number[] = [];
+    const failedPorts: number[] = [];
+    for (const { mapping, process } of portsInUse) {
+      const { success } = await this.killCommand.killConfirmed(process, [mapping.port], {
+        respawnWindowMs: 0,
+        trigger: 'auto',
+      });
       if (success) {
-        killedCount++;
+        freedPorts.push(mapping.port);
+      } else {
+        failedPorts.push(mapping.port);
       }
     }
 
-    console.log(chalk.green(`\n✅ Killed ${killedCount} process(es)`));
-    console.log(
-      chalk.green(
-        `📝 Ports ${portsInUse.map((p) => p.mapping.port).join(', ')} now available`
-      )
-    );
+    if (freedPorts.length > 0) {
+      console.log(chalk.green(`\n✅ Killed ${freedPorts.length} process(es)`));
+      console.log(
+        chalk.green(`📝 Ports ${freedPorts.join(', ')} now available`)
+      );
+    }
+
+    if (failedPorts.length > 0) {
+      console.log(
+        chalk.red(
+          `\n❌ Failed to kill processes on ports ${failedPorts.join(', ')}`
+        )
+      );
+      console.log(
+        chalk.yellow(
+          'You may need elevated privileges (sudo on macOS/Linux, Administrator on Windows).'
+        )
+      );
+    }
+
+    return exitCodeForKillStatuses([
+      ...freedPorts.map((): KillStatus => 'killed'),
+      ...failedPorts.map((): KillStatus => 'failed'),
+      ...protectedPorts.map((): KillStatus => 'protected'),
+    ]);
   }
 
   /**
@@ -217,24 +279,53 @@ function cd {
     );
   }
 
+  /**
+   * A .zkillrc setting autoKillEnabled wins over the global switch in its project
+   */
+  private warnIfProjectOverrides(enabled: boolean): void {
+    const source = this.storageService.getSettingSource('autoKillEnabled');
+    if (
+      source !== this.storageService.getConfigPath() &&
+      this.storageService.isAutoKillEnabled() !== enabled
+    ) {
+      console.log(
+        chalk.yellow(
+          `\nNote: ${source} turns auto-kill ${enabled ? 'off' : 'on'} inside this project.`
+        )
+      );
+    }
+  }
+
   /**
    * Toggle auto-kill for a specific port
    */
-  async togglePort(port: number): Promise<void> {
-    const mapping = this.storageService.getPortMapping(port);
+  async togglePort(port: number): Promise<ExitCode> {
+    // The current project's mapping when several projects use the port
+    const mapping = this.storageService.getPortMapping(
+      port,
+      this.projectService.getCurrentProjectPath()
+    );
 
     if (!mapping) {
       console.log(
         chalk.yellow(
-          `\nNo mapping found for port ${port}. Use zkill ${port} first to create a mapping.`
+          `\nNo mapping found for port ${port}. Use zkill map add ${port} to create one.`
+        )
+      );
+      return ExitCode.NOT_FOUND;
+    }
+
+    if (mapping.configFile) {
+      console.log(
+        chalk.yellow(
+          `\nPort ${port} is declared in ${mapping.configFile}; set "autoKill" for it there.`
         )
       );
-      return;
+      return ExitCode.INVALID_INPUT;
     }
 
     // Toggle auto-kill
-    this.storageService.addPortMapping({
-      ...mapping,
+    this.storageService.updatePortMapping(port, mapping.projectPath, {
       autoKill: !mapping.autoKill,
     });
 
@@ -251,5 +342,6 @@ function cd {
         )
       );
     }
+    return ExitCode.SUCCESS;
   }
 }
@@ -0,0 +1,319 @@
+/**
+ * Config Command
+ * Reads and changes settings in ~/.zkill/config.json
+ */
+
+import fs from 'fs';
+import { spawnSync } from 'child_process';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { StorageService } from '../services/storage.service';
+import { ExitCode, InvalidInputError } from '../exit-codes';
+import {
+  CONFIG_KEYS,
+  CONFIG_KEY_DESCRIPTIONS,
+  ConfigJsonDocument,
+  ConfigKey,
+  ConfigSettingEntry,
+  DEFAULT_SETTINGS,
+  formatConfigValue,
+  parseConfigValue,
+} from '../config-settings';
+import {
+  ConfigRepairReport,
+  migrateAndRepairConfig,
+  needsRepair,
+} from '../config-schema';
+import { ReadOnlyError } from '../config-location';
+
+export interface ConfigOutputOptions {
+  json?: boolean; // machine-readable output (stable schema)
+}
+
+/**
+ * `zkill config doctor --json`
+ */
+export interface ConfigDoctorJsonDocument extends ConfigRepairReport {
+  schemaVersion: '1';
+  configPath: string;
+  saved: boolean; // false when there was nothing to fix or zkill is read-only
+}
+
+export interface ConfigResetOptions {
+  force?: boolean; // skip the confirmation
+}
+
+export class ConfigCommand {
+  constructor(private storageService: StorageService) {}
+
+  /**
+   * Print the effective value of a setting (bare, for scripts)
+   */
+  get(key: ConfigKey, options: ConfigOutputOptions = {}): void {
+    const entry = this.entry(key);
+    console.log(options.json ? JSON.stringify(entry) : String(entry.value));
+  }
+
+  /**
+   * Save a setting to config.json
+   */
+  set(key: ConfigKey, raw: string): void {
+    const parsed = parseConfigValue(key, raw);
+    if (!parsed.ok) {
+      throw new InvalidInputError(parsed.error);
+    }
+
+    this.storageService.setSetting(key, parsed.value);
+    console.log(
+      chalk.green(`✅ ${key} set to ${formatConfigValue(key, parsed.value)}`)
+    );
+    this.noteProjectOverride(key);
+  }
+
+  /**
+   * Put a setting back to its default
+   */
+  unset(key: ConfigKey): void {
+    this.storageService.unsetSetting(key);
+    console.log(
+      chalk.green(
+        `✅ ${key} reset to the default (${formatConfigValue(key, DEFAULT_SETTINGS[key])})`
+      )
+    );
+    this.noteProjectOverride(key);
+  }
+
+  /**
+   * List every setting with its effective value and where it comes from
+   */
+  list(options: ConfigOutputOptions = {}): void {
+    const entries = CONFIG_KEYS.map((key) => this.entry(key));
+    const configPath = this.storageService.getConfigPath();
+    const projectConfigPath = this.storageService.getProjectConfigPath();
+
+    if (options.json) {
+      const doc: ConfigJsonDocument = {
+        schemaVersion: '1',
+        configPath,
+        projectConfigPath,
+        settings: entries,
+      };
+      console.log(JSON.stringify(doc));
+      return;
+    }
+
+    console.log(chalk.bold('\n⚙️  Settings:\n'));
+    for (const entry of entries) {
+      const changed = entry.value !== entry.default ? chalk.yellow(' *') : '';
+      const source =
+        entry.source !== configPath ? chalk.gray(` ← ${entry.source}`) : '';
+      console.log(
+        chalk.cyan(entry.key.padEnd(17)) +
+          chalk.white(formatConfigValue(entry.key, entry.value).padEnd(10)) +
+          chalk.gray(CONFIG_KEY_DESCRIPTIONS[entry.key]) +
+          changed +
+          source
+      );
+    }
+
+    console.log(chalk.gray('\n* differs from the default'));
+    console.log(chalk.gray(`Config file: ${configPath}`));
+    if (projectConfigPath) {
+      console.log(chalk.gray(`Project rc:  ${projectConfigPath}`));
+    }
+  }
+
+  /**
+   * Reset config.json to defaults, after confirming unless forced
+   */
+  async reset(options: ConfigResetOptions = {}): Promise<ExitCode> {
+    if (!options.force) {
+      // Only what config.json holds; a .zkillrc is never touched
+      const configPath = this.storageService.getConfigPath();
+      const mappings = this.storageService
+        .getAllMappings()
+        .filter((m) => !m.configFile);
+      const protections = this.storageService
+        .getProtections()
+        .filter((r) => this.storageService.getProtectionSource(r) === configPath);
+      console.log(
+        chalk.yellow(
+          `\nThis resets every setting and deletes ${mappings.length} port mapping(s) and ${protections.length} protection(s).`
+        )
+      );
+
+      const { confirmed } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirmed',
+          message: 'Reset zkill config to defaults?',
+          default: false,
+        },
+      ]);
+      if (!confirmed) {
+        console.log(chalk.gray('\nOperation cancelled.'));
+        return ExitCode.CANCELLED;
+      }
+    }
+
+    this.storageService.clearConfig();
+    console.log(chalk.green('✅ Config reset to defaults'));
+    return ExitCode.SUCCESS;
+  }
+
+  /**
+   * Bring config.json up to the current schema, repair what zkill can't
+   * use, and say what was done; read-only, only says what would be
+   */
+  doctor(options: ConfigOutputOptions = {}): void {
+    const readOnly = this.storageService.isReadOnly();
+    const report = readOnly
+      ? this.storageService.getRepairReport()
+      : this.storageService.repairConfig();
+    const configPath = this.storageService.getConfigPath();
+
+    if (options.json) {
+      const doc: ConfigDoctorJsonDocument = {
+        schemaVersion: '1',
+        configPath,
+        ...report,
+        saved: !readOnly && needsRepair(report),
+      };
+      console.log(JSON.stringify(doc));
+      return;
+    }
+
+    console.log(chalk.bold('\n🩺 Config doctor:\n'));
+    console.log(
+      chalk.cyan('Schema version: ') +
+        chalk.white(
+          report.fromVersion === report.toVersion
+            ? String(report.toVersion)
+            : `${report.fromVersion} → ${report.toVersion}`
+        )
+    );
+
+    this.printRepairs(report);
+
+    if (!needsRepair(report)) {
+      console.log(chalk.green(`\n✅ ${configPath} is up to date; nothing to fix`));
+    } else if (readOnly) {
+      console.log(chalk.yellow(`\nRead-only: ${configPath} was not changed`));
+    } else {
+      console.log(chalk.green(`\n✅ Saved ${configPath}`));
+    }
+  }
+
+  /**
+   * Print the config file path (bare, for scripts)
+   */
+  path(): void {
+    console.log(this.storageService.getConfigPath());
+  }
+
+  /**
+   * Open config.json in $VISUAL / $EDITOR and check the result
+   */
+  edit(): ExitCode {
+    const configPath = this.storageService.getConfigPath();
+    if (this.storageService.isReadOnly()) {
+      throw new ReadOnlyError(configPath);
+    }
+    const editor =
+      process.env.VISUAL ||
+      process.env.EDITOR ||
+      (process.platform === 'win32' ? 'notepad' : 'vi');
+
+    const { command, args } = editorCommand(editor, configPath);
+    const result = spawnSync(command, args, { shell: false, stdio: 'inherit' });
+    if (result.error || result.status !== 0) {
+      console.error(
+        chalk.red(
+          `❌ Editor "${editor}" failed: ${result.error?.message ?? `exit code ${result.status}`}`
+        )
+      );
+      console.error(chalk.gray('Set $EDITOR to the editor you want to use.'));
+      return ExitCode.ERROR;
+    }
+
+    // Only a file that can't be parsed at all is refused; anything else is
+    // migrated and repaired like `zkill config doctor` would
+    try {
+      migrateAndRepairConfig(JSON.parse(fs.readFileSync(configPath, 'utf-8')));
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `❌ ${configPath} can't be read: ${error instanceof Error ? error.message : String(error)}`
+        )
+      );
+      console.error(
+        chalk.gray(
+          'zkill moves an unreadable config aside and starts over; run "zkill config edit" to fix it.'
+        )
+      );
+      return ExitCode.INVALID_INPUT;
+    }
+
+    this.printRepairs(this.storageService.repairConfig());
+    console.log(chalk.green(`\n✅ Saved ${configPath}`));
+    return ExitCode.SUCCESS;
+  }
+
+  /**
+   * Migrations and repairs, as `zkill config doctor` and `edit` list them
+   */
+  private printRepairs(report: ConfigRepairReport): void {
+    if (report.migrations.length > 0) {
+      console.log(chalk.cyan('\nMigrated:'));
+      for (const migration of report.migrations) {
+        console.log(chalk.white(`  ${migration.version}. ${migration.description}`));
+      }
+    }
+    if (report.fixes.length > 0) {
+      console.log(chalk.cyan('\nRepaired:'));
+      for (const fix of report.fixes) {
+        console.log(chalk.yellow(`  ${fix.problem}`) + chalk.gray(` → ${fix.repair}`));
+      }
+    }
+  }
+
+  private entry(key: ConfigKey): ConfigSettingEntry {
+    return {
+      key,
+      value: this.storageService.getSetting(key),
+      default: DEFAULT_SETTINGS[key],
+      source: this.storageService.getSettingSource(key),
+    };
+  }
+
+  /**
+   * A .zkillrc setting the same key still wins inside its project
+   */
+  private noteProjectOverride(key: ConfigKey): void {
+    const source = this.storageService.getSettingSource(key);
+    if (source !== this.storageService.getConfigPath()) {
+      console.log(
+        chalk.yellow(
+          `Note: ${source} sets ${key} to ${formatConfigValue(key, this.storageService.getSetting(key))} inside this project.`
+        )
+      );
+    }
+  }
+}
+
+/**
+ * How to run the editor on a file. On POSIX the editor goes through sh, as
+ * git does, so "code --wait" works; the file is passed as "$1" and never
+ * becomes part of the shell string. Windows has no sh, so the editor is
+ * split into words instead.
+ */
+function editorCommand(
+  editor: string,
+  filePath: string
+): { command: string; args: string[] } {
+  if (process.platform === 'win32') {
+    const [command, ...args] = editor.trim().split(/\s+/);
+    return { command, args: [...args, filePath] };
+  }
+  return { command: 'sh', args: ['-c', `${editor} "$1"`, 'sh', filePath] };
+}
@@ -0,0 +1,111 @@
+/**
+ * Diff Command
+ * Compares a saved scan with another snapshot or with the live system
+ */
+
+import chalk from 'chalk';
+import { SnapshotService } from '../services/snapshot.service';
+import { ScanCommand, ScanOptions } from './scan.command';
+import { ScanJsonFilters } from '../scan-json-schema';
+import { ScanChange } from '../scan-diff';
+import { ScanDiffDocument, buildScanDiffDocument } from '../scan-snapshot';
+import { formatPort } from '../protocol';
+
+export interface DiffOptions {
+  json?: boolean; // machine-readable output (stable schema)
+}
+
+export class DiffCommand {
+  constructor(
+    private snapshotService: SnapshotService,
+    private scanCommand: ScanCommand
+  ) {}
+
+  /**
+   * Diff snapshot `from` against snapshot `to`, or against a fresh scan
+   * using the filters `from` was saved with
+   */
+  async execute(
+    from: string,
+    to?: string,
+    options: DiffOptions = {}
+  ): Promise<ScanDiffDocument> {
+    const before = this.snapshotService.load(from);
+    const after = to ? this.snapshotService.load(to) : null;
+
+    const doc = buildScanDiffDocument(
+      { name: before.name, at: before.savedAt, scan: before.scan },
+      after
+        ? { name: after.name, at: after.savedAt, scan: after.scan }
+        : {
+            name: null,
+            at: new Date().toISOString(),
+            scan: await this.scanCommand.scanDocument(
+              this.scanOptions(before.scan.filters)
+            ),
+          }
+    );
+
+    if (options.json) {
+      console.log(JSON.stringify(doc));
+    } else {
+      this.display(doc);
+    }
+    return doc;
+  }
+
+  /**
+   * The scan options that reproduce a snapshot's filters
+   */
+  private scanOptions(filters: ScanJsonFilters): ScanOptions {
+    return {
+      range: filters.range ?? undefined,
+      process: filters.process ?? undefined,
+      project: filters.project ?? undefined,
+      system: filters.hideSystemProcesses ? false : undefined,
+      protocol: filters.protocol,
+      exposed: filters.exposed || undefined,
+    };
+  }
+
+  private display(doc: ScanDiffDocument): void {
+    const label = (side: ScanDiffDocument['from']) =>
+      side.name === null
+        ? 'the live system'
+        : `"${side.name}" (${new Date(side.at).toLocaleString()})`;
+
+    console.log(
+      chalk.bold(`\n🔍 Comparing ${label(doc.from)} with ${label(doc.to)}\n`)
+    );
+
+    if (doc.changes.length === 0) {
+      console.log(chalk.green('✓ No differences: same listeners on the same PIDs\n'));
+      return;
+    }
+
+    for (const change of doc.changes) {
+      console.log(this.formatChange(change));
+    }
+
+    const { appeared, disappeared, pidChanged } = doc.summary;
+    console.log(
+      chalk.gray(
+        `\n${appeared} new · ${disappeared} removed · ${pidChanged} changed\n`
+      )
+    );
+  }
+
+  private formatChange(change: ScanChange): string {
+    const port = formatPort(change.port, change.protocol).padEnd(11);
+    switch (change.type) {
+      case 'appeared':
+        return chalk.green(`+ ${port}PID ${String(change.pid).padEnd(15)}${change.processName}`);
+      case 'disappeared':
+        return chalk.red(`- ${port}PID ${String(change.pid).padEnd(15)}${change.processName}`);
+      case 'pid-changed':
+        return chalk.yellow(
+          `~ ${port}PID ${`${change.previousPid}→${change.pid}`.padEnd(15)}${change.processName}`
+        );
+    }
+  }
+}
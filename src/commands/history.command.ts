@@ -0,0 +1,110 @@
+/**
+ * History Command
+ * Lists past kills from the audit log
+ */
+
+import chalk from 'chalk';
+import { AuditService } from '../services/audit.service';
+import { AuditEntry } from '../types';
+import {
+  HistoryFilter,
+  buildHistoryJsonDocument,
+  filterAuditEntries,
+} from '../audit-log';
+import { formatPort } from '../protocol';
+
+export interface HistoryOptions extends HistoryFilter {
+  limit?: number; // most recent entries to show; human output defaults to DEFAULT_HISTORY_LIMIT
+  json?: boolean; // machine-readable output (stable schema)
+}
+
+/** Entries shown without --limit (JSON prints every match) */
+export const DEFAULT_HISTORY_LIMIT = 20;
+
+export class HistoryCommand {
+  constructor(private auditService: AuditService) {}
+
+  /**
+   * Print matching kills, newest first
+   */
+  execute(options: HistoryOptions = {}): void {
+    const entries = filterAuditEntries(this.auditService.read(), options);
+
+    if (options.json) {
+      console.log(
+        JSON.stringify(buildHistoryJsonDocument(entries, options, options.limit))
+      );
+      return;
+    }
+
+    if (entries.length === 0) {
+      console.log(chalk.yellow('\nNo kills recorded matching your filters.'));
+      console.log(chalk.gray(`\nHistory file: ${this.auditService.getLogPath()}`));
+      return;
+    }
+
+    const limit = options.limit ?? DEFAULT_HISTORY_LIMIT;
+    const shown = entries.slice(0, limit);
+    const count =
+      shown.length === entries.length
+        ? String(entries.length)
+        : `${shown.length} of ${entries.length}`;
+    console.log(
+      chalk.bold(
+        `\n📜 Kill History (${count} ${entries.length === 1 ? 'entry' : 'entries'}):\n`
+      )
+    );
+
+    for (const entry of shown) {
+      this.displayEntry(entry);
+    }
+
+    const hidden = entries.length - shown.length;
+    if (hidden > 0) {
+      console.log(
+        chalk.gray(
+          `${hidden} older ${hidden === 1 ? 'entry' : 'entries'} hidden; use --limit to show more.\n`
+        )
+      );
+    }
+  }
+
+  private displayEntry(entry: AuditEntry): void {
+    const project = entry.project ? chalk.gray(` (${entry.project})`) : '';
+    const outcome = entry.success
+      ? chalk.green(`✅ ${entry.method} (${entry.signal})`)
+      : chalk.red(`❌ failed: ${entry.error ?? 'unknown error'}`);
+    const by = entry.user ? ` · by ${entry.user}` : '';
+
+    console.log(
+      chalk.gray(`${this.formatTimestamp(entry.timestamp)}  `) +
+        chalk.cyan(`Port ${chalk.bold(formatPort(entry.port, entry.protocol))}`) +
+        chalk.gray(' - ') +
+        chalk.white(entry.processName) +
+        chalk.gray(` (PID ${entry.pid})`) +
+        project
+    );
+    console.log(`     ${outcome}` + chalk.gray(` · ${entry.trigger}${by}`));
+    console.log(chalk.gray(`     Command: ${this.truncate(entry.command, 60)}\n`));
+  }
+
+  /**
+   * Local "YYYY-MM-DD HH:MM"
+   */
+  private formatTimestamp(timestamp: string): string {
+    const date = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return (
+      `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+      `${pad(date.getHours())}:${pad(date.getMinutes())}`
+    );
+  }
+
+  /**
+   * Truncate string if too long
+   */
+  private truncate(str: string, maxLength: number): string {
+    if (str.length <= maxLength) return str;
+    return str.substring(0, maxLength - 3) + '...';
+  }
+}
@@ -9,106 +9,678 @@ import ora from 'ora';
 import { ProcessService } from '../services/process.service';
 import { StorageService } from '../services/storage.service';
 import { ProjectService } from '../services/project.service';
-import { ProcessInfo } from '../types';
+import { AuditService } from '../services/audit.service';
+import {
+  KillOutcome,
+  KillResult,
+  KillSettings,
+  KillSignal,
+  KillTrigger,
+  PortProtocol,
+  ProcessInfo,
+  ProtectionRule,
+  ProtocolFilter,
+  RespawnReport,
+} from '../types';
+import {
+  compileProcessNamePattern,
+  matchesProcessName,
+} from '../process-name-pattern';
+import { InvalidInputError } from '../exit-codes';
+import { formatPort, protocolsFor } from '../protocol';
+import { detectSupervisor } from '../supervisor';
+import { describeProtection, findProtection } from '../protection';
+import {
+  ProcessTreeNode,
+  ancestorsOf,
+  buildProcessTree,
+  findSupervisor,
+  formatProcessTree,
+  killOrder,
+} from '../process-tree';
+
+/** How often freed ports are re-checked during the respawn window */
+const RESPAWN_POLL_INTERVAL_MS = 250;
+
+/** A process --tree would take down that zkill must not kill */
+interface BlockedTreeNode {
+  node: ProcessTreeNode;
+  protection: ProtectionRule | null; // null: a system process
+}
+
+export interface KillOptions {
+  force?: boolean; // skip confirmation
+  includeSystem?: boolean; // --name: also match critical/system processes
+  json?: boolean; // no human output; caller prints the returned outcomes
+  signal?: KillSignal; // overrides the configured first signal
+  timeoutMs?: number; // overrides the configured wait before escalating
+  escalate?: boolean; // overrides whether to fall back to SIGKILL
+  respawnWindowMs?: number; // overrides how long to watch freed ports for restarts
+  tree?: boolean; // also kill every descendant, bottom-up
+  supervisor?: boolean; // with tree: start from the owning supervisor (nodemon, npm, ...)
+  protocol?: ProtocolFilter; // which listeners to match; defaults to tcp
+  trigger?: KillTrigger; // recorded in the history; defaults by entry point
+  ignoreProtection?: boolean; // also kill targets listed by zkill protect
+}
 
 export class KillCommand {
+  private quiet = false;
+  private trigger: KillTrigger = 'manual';
+
   constructor(
     private processService: ProcessService,
     private storageService: StorageService,
-    private projectService: ProjectService
+    private projectService: ProjectService,
+    private auditService: AuditService
   ) {}
 
   /**
    * Execute kill command
    */
-  async execute(port: number, forceFlag: boolean = false): Promise<void> {
-    const spinner = ora(`Checking port ${port}...`).start();
+  async execute(port: number, options: KillOptions = {}): Promise<KillOutcome[]> {
+    this.quiet = options.json === true;
+    this.trigger = options.trigger ?? 'manual';
+    const label =
+      options.protocol === 'udp' ? formatPort(port, 'udp') : String(port);
+    const spinner = this.quiet ? null : ora(`Checking port ${label}...`).start();
+
+    // Find the process using the port, per requested protocol
+    const found: ProcessInfo[] = [];
+    for (const protocol of protocolsFor(options.protocol)) {
+      const process = await this.processService.findByPort(port, protocol);
+      if (process) {
+        found.push(process);
+      }
+    }
+
+    if (found.length === 0) {
+      spinner?.fail(chalk.red(`Port ${label} is not in use`));
+      return [this.notFoundOutcome(port)];
+    }
+
+    spinner?.succeed(chalk.green(`Port ${label} is in use`));
+
+    // With --protocol all, TCP and UDP may be held by different processes
+    const outcomes: KillOutcome[] = [];
+    for (const [i, group] of this.groupByPid(found).entries()) {
+      if (i > 0) {
+        this.log(chalk.gray('\n' + '—'.repeat(48) + '\n'));
+      }
+      outcomes.push(...(await this.killProcessOnPorts(group[0], [port], options)));
+    }
+    return outcomes;
+  }
+
+  /**
+   * Kill whatever is listening on a set of ports (e.g. a range), scanning once
+   * and acting only on ports that are actually in use
+   */
+  async executeForPorts(
+    ports: number[],
+    options: KillOptions = {}
+  ): Promise<KillOutcome[]> {
+    this.quiet = options.json === true;
+    this.trigger = options.trigger ?? 'range';
+    const spinner = this.quiet
+      ? null
+      : ora(`Checking ${ports.length} port(s)...`).start();
 
-    // Find process using the port
-    const process = await this.processService.findByPort(port);
+    const requested = new Set(ports);
+    const all = await this.processService.getAllPorts(options.protocol);
+    const inUse = all.filter((p) => requested.has(p.port));
 
-    if (!process) {
-      spinner.fail(chalk.red(`Port ${port} is not in use`));
-      return;
+    if (inUse.length === 0) {
+      spinner?.fail(
+        chalk.red(`None of the ${ports.length} requested port(s) are in use`)
+      );
+      return ports.map((port) => this.notFoundOutcome(port));
     }
 
-    spinner.succeed(chalk.green(`Port ${port} is in use`));
+    const groups = this.groupByPid(inUse);
+    const portList = [...inUse]
+      .sort((a, b) => a.port - b.port)
+      .map((p) => formatPort(p.port, p.protocol))
+      .join(', ');
+    spinner?.succeed(
+      chalk.green(
+        `${inUse.length} of ${ports.length} requested port(s) in use: ${portList}`
+      )
+    );
+
+    const byPort = new Map<number, KillOutcome[]>();
+    for (let i = 0; i < groups.length; i++) {
+      if (i > 0) {
+        this.log(chalk.gray('\n' + '—'.repeat(48) + '\n'));
+      }
+      const outcomes = await this.killProcessOnPorts(
+        groups[i][0],
+        this.uniquePorts(groups[i]),
+        options
+      );
+      for (const outcome of outcomes) {
+        byPort.set(outcome.port, [...(byPort.get(outcome.port) ?? []), outcome]);
+      }
+    }
+
+    // Report every requested port, in request order
+    return ports.flatMap(
+      (port) => byPort.get(port) ?? [this.notFoundOutcome(port)]
+    );
+  }
+
+  /**
+   * Kill exactly the listeners picked in `zkill ui`, by PID rather than by
+   * port, so another process on the same port is left alone. Each PID must
+   * still hold its port when the signal is sent.
+   */
+  async executeForProcesses(
+    listeners: ProcessInfo[],
+    options: KillOptions = {}
+  ): Promise<KillOutcome[]> {
+    this.quiet = options.json === true;
+    this.trigger = options.trigger ?? 'ui';
+
+    const outcomes: KillOutcome[] = [];
+    for (const [i, group] of this.groupByPid([...listeners]).entries()) {
+      if (i > 0) {
+        this.log(chalk.gray('\n' + '—'.repeat(48) + '\n'));
+      }
+      outcomes.push(
+        ...(await this.killProcessOnPorts(
+          group[0],
+          this.uniquePorts(group),
+          options,
+          group
+        ))
+      );
+    }
+    return outcomes;
+  }
+
+  /**
+   * Kill one listener the caller has already shown and confirmed (auto
+   * check), with the configured signal, timeout and escalation, and record
+   * it in the history. Prints nothing.
+   */
+  async killConfirmed(
+    process: ProcessInfo,
+    ports: number[],
+    options: KillOptions = {}
+  ): Promise<KillResult> {
+    this.quiet = true;
+    this.trigger = options.trigger ?? 'auto';
+    return this.performKill(process, ports, this.resolveKillSettings(options));
+  }
+
+  /**
+   * Show details, confirm and kill one process listening on one or more ports.
+   * With `listeners`, the PID is only signalled if it still holds them.
+   */
+  private async killProcessOnPorts(
+    process: ProcessInfo,
+    ports: number[],
+    options: KillOptions,
+    listeners: ProcessInfo[] | null = null
+  ): Promise<KillOutcome[]> {
+    const isSystemProcess = this.processService.isCriticalProcess(process);
+
+    const protection = this.protectionFor(process, ports, options);
+    if (protection) {
+      this.displayProtected(process, ports, protection);
+      return this.protectedOutcomes(process, ports, isSystemProcess, protection);
+    }
 
     // Display process information
     this.displayProcessInfo(process);
 
+    const tree = await this.planTree(process, options);
+    if (tree) {
+      this.displayProcessTree(tree, process);
+      const blocked = await this.findBlockedTreeNode(tree, process, options);
+      if (blocked) {
+        this.displayBlockedTreeNode(blocked);
+        return this.blockedTreeOutcomes(process, ports, isSystemProcess, blocked);
+      }
+    }
+
     // Check if it's from a previous project
-    const mapping = this.storageService.getPortMapping(port);
-    if (mapping) {
-      console.log(
-        chalk.cyan(`\n📁 Last used by project: ${chalk.bold(mapping.projectName)}`)
+    for (const port of ports) {
+      const [mapping, ...others] = this.storageService.getPortMappings(
+        port,
+        process.workingDirectory
       );
-      console.log(chalk.gray(`   Path: ${mapping.projectPath}`));
+      if (mapping) {
+        const portLabel = ports.length > 1 ? ` (port ${port})` : '';
+        this.log(
+          chalk.cyan(
+            `\n📁 Last used by project${portLabel}: ${chalk.bold(mapping.projectName)}`
+          )
+        );
+        this.log(chalk.gray(`   Path: ${mapping.projectPath}`));
+        if (others.length > 0) {
+          this.log(
+            chalk.gray(`   Also used by: ${others.map((m) => m.projectName).join(', ')}`)
+          );
+        }
+      }
     }
 
     // Check if process is critical
-    if (this.processService.isCriticalProcess(process)) {
-      console.log(
+    if (isSystemProcess) {
+      this.log(
         chalk.yellow.bold('\n⚠️  Warning: This appears to be a system process!')
       );
-      console.log(
+      this.log(
         chalk.yellow('Killing it may cause system instability.')
       );
     }
 
     // Confirm kill (unless force flag or confirmKill is disabled)
-    const shouldConfirm = !forceFlag && this.storageService.isConfirmKillEnabled();
+    const shouldConfirm =
+      !options.force && this.storageService.isConfirmKillEnabled();
     if (shouldConfirm) {
-      const confirmed = await this.confirmKill(process);
+      if (this.quiet) {
+        // Prompts would corrupt machine-readable output
+        return this.cancelledOutcomes(
+          process,
+          ports,
+          isSystemProcess,
+          'Confirmation required; use --force with --json'
+        );
+      }
+      const confirmed = await this.confirmKill(
+        process,
+        tree ? killOrder(tree).length : 1
+      );
       if (!confirmed) {
-        console.log(chalk.gray('\nOperation cancelled.'));
-        return;
+        this.log(chalk.gray('\nOperation cancelled.'));
+        return this.cancelledOutcomes(process, ports, isSystemProcess, null);
       }
     }
 
+    // The listing may be minutes old; the PID could have exited or been reused
+    const gone = listeners ? await this.releasedListeners(listeners) : [];
+    if (gone.length > 0) {
+      const released = gone
+        .map((p) => formatPort(p.port, p.protocol))
+        .join(', ');
+      this.log(
+        chalk.yellow(
+          `\n⚠️  PID ${process.pid} no longer listens on ${released}; nothing was killed.`
+        )
+      );
+      return ports.map((port) => ({
+        ...this.notFoundOutcome(port),
+        error: `PID ${process.pid} no longer listens on ${released}`,
+      }));
+    }
+
     // Perform kill
-    await this.performKill(process);
+    const result = await this.performKill(
+      process,
+      ports,
+      this.resolveKillSettings(options),
+      tree
+    );
 
     // Update port mapping for current project
     const currentProject = this.projectService.getCurrentProjectName();
     const currentPath = this.projectService.getCurrentProjectPath();
 
-    if (this.projectService.isProjectDirectory()) {
-      this.storageService.addPortMapping({
-        port,
-        projectName: currentProject,
-        projectPath: currentPath,
-        autoKill: false,
-      });
+    if (this.projectService.isProjectDirectory() && !this.storageService.isReadOnly()) {
+      for (const port of ports) {
+        this.storageService.addPortMapping({
+          port,
+          projectName: currentProject,
+          projectPath: currentPath,
+          autoKill: false,
+        });
+      }
 
-      console.log(
-        chalk.gray(`\n📝 Port ${port} now associated with project: ${currentProject}`)
+      this.log(
+        chalk.gray(
+          `\n📝 Port${ports.length === 1 ? '' : 's'} ${ports.join(', ')} now associated with project: ${currentProject}`
+        )
+      );
+    }
+
+    return this.killedOutcomes(process, ports, isSystemProcess, result);
+  }
+
+  /**
+   * Kill whatever listens on the ports mapped to a project (case-insensitive
+   * substring, like `scan --project`)
+   */
+  async executeByProject(
+    projectName: string,
+    options: KillOptions = {}
+  ): Promise<KillOutcome[]> {
+    this.quiet = options.json === true;
+    const mappings = this.storageService.getMappingsByProjectName(projectName);
+
+    if (mappings.length === 0) {
+      this.log(
+        chalk.red(`❌ No ports are mapped to a project matching "${projectName}"`)
+      );
+      this.log(chalk.gray('Run "zkill list" to see port mappings.'));
+      return [];
+    }
+
+    const ports = [...new Set(mappings.map((m) => m.port))].sort((a, b) => a - b);
+    const names = [...new Set(mappings.map((m) => m.projectName))];
+    this.log(
+      chalk.cyan(
+        `📁 ${names.join(', ')}: mapped port${ports.length === 1 ? '' : 's'} ${ports.join(', ')}`
+      )
+    );
+
+    return this.executeForPorts(ports, {
+      ...options,
+      trigger: options.trigger ?? 'project',
+    });
+  }
+
+  /**
+   * Kill every listening process whose name or command matches a pattern
+   */
+  async executeByName(
+    pattern: string,
+    options: KillOptions = {}
+  ): Promise<KillOutcome[]> {
+    const compiled = compileProcessNamePattern(pattern);
+    if (!compiled.ok) {
+      throw new InvalidInputError(compiled.error);
+    }
+
+    this.quiet = options.json === true;
+    this.trigger = options.trigger ?? 'name';
+    const spinner = this.quiet
+      ? null
+      : ora(`Looking for processes matching "${pattern}"...`).start();
+    const all = await this.processService.getAllPorts(options.protocol);
+    const matched = all.filter((p) => matchesProcessName(compiled.regex, p));
+
+    // Critical processes are only eligible when explicitly requested
+    const critical = matched.filter((p) =>
+      this.processService.isCriticalProcess(p)
+    );
+    const targets = options.includeSystem
+      ? matched
+      : matched.filter((p) => !this.processService.isCriticalProcess(p));
+    const skippedPids = options.includeSystem
+      ? new Set<number>()
+      : new Set(critical.map((p) => p.pid));
+
+    if (targets.length === 0) {
+      spinner?.fail(chalk.red(`No listening processes match "${pattern}"`));
+      if (skippedPids.size > 0) {
+        this.log(
+          chalk.gray(
+            `\n${skippedPids.size} system process(es) matched and were skipped. Use --include-system to include them.`
+          )
+        );
+      }
+      return [];
+    }
+
+    const matchedGroups = this.groupByPid(targets);
+    spinner?.succeed(
+      chalk.green(
+        `Found ${matchedGroups.length} process(es) matching "${pattern}"`
+      )
+    );
+
+    // Protected processes are reported and left running
+    const skipped: KillOutcome[] = [];
+    const groups = matchedGroups.filter((group) => {
+      const ports = this.uniquePorts(group);
+      const protection = this.protectionFor(group[0], ports, options);
+      if (protection) {
+        this.displayProtected(group[0], ports, protection);
+        skipped.push(
+          ...this.protectedOutcomes(
+            group[0],
+            ports,
+            this.processService.isCriticalProcess(group[0]),
+            protection
+          )
+        );
+      }
+      return !protection;
+    });
+    if (groups.length === 0) {
+      return skipped;
+    }
+
+    this.log('\n' + chalk.bold('Matched Processes:'));
+    const trees = new Map<number, ProcessTreeNode>();
+    for (const group of groups) {
+      const first = group[0];
+      const ports = group.map((p) => formatPort(p.port, p.protocol)).join(', ');
+      const systemTag = this.processService.isCriticalProcess(first)
+        ? chalk.yellow(' [system]')
+        : '';
+      this.log(
+        chalk.cyan(`  PID ${first.pid}`) +
+          chalk.gray(' - ') +
+          chalk.white(first.processName) +
+          systemTag +
+          chalk.gray(` (port${group.length === 1 ? '' : 's'} ${ports})`)
       );
+      this.log(chalk.gray(`     Command: ${first.command}`));
+
+      const tree = await this.planTree(first, options);
+      if (tree) {
+        trees.set(first.pid, tree);
+        for (const line of formatProcessTree(tree, first.pid)) {
+          this.log(chalk.gray(`       ${line}`));
+        }
+      }
+    }
+
+    // A tree reaching a protected or system process is left alone entirely
+    for (const group of [...groups]) {
+      const tree = trees.get(group[0].pid);
+      const blocked = tree
+        ? await this.findBlockedTreeNode(tree, group[0], options)
+        : null;
+      if (blocked) {
+        this.displayBlockedTreeNode(blocked);
+        skipped.push(
+          ...this.blockedTreeOutcomes(
+            group[0],
+            this.uniquePorts(group),
+            this.processService.isCriticalProcess(group[0]),
+            blocked
+          )
+        );
+        trees.delete(group[0].pid);
+        groups.splice(groups.indexOf(group), 1);
+      }
+    }
+    if (groups.length === 0) {
+      return skipped;
+    }
+
+    if (skippedPids.size > 0) {
+      this.log(
+        chalk.yellow(
+          `\n⚠️  Skipped ${skippedPids.size} system process(es). Use --include-system to include them.`
+        )
+      );
+    }
+
+    const relatedCount = [...trees.values()].reduce(
+      (sum, tree) => sum + killOrder(tree).length - 1,
+      0
+    );
+    const shouldConfirm =
+      !options.force && this.storageService.isConfirmKillEnabled();
+    if (shouldConfirm) {
+      let cancelReason: string | null = null;
+      let confirmed = false;
+      if (this.quiet) {
+        cancelReason = 'Confirmation required; use --force with --json';
+      } else {
+        ({ confirmed } = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirmed',
+            message: `Are you sure you want to kill ${groups.length + relatedCount} process(es)?`,
+            default: false,
+          },
+        ]));
+      }
+      if (!confirmed) {
+        this.log(chalk.gray('\nOperation cancelled.'));
+        return [
+          ...skipped,
+          ...groups.flatMap((group) =>
+            this.cancelledOutcomes(
+              group[0],
+              this.uniquePorts(group),
+              this.processService.isCriticalProcess(group[0]),
+              cancelReason
+            )
+          ),
+        ];
+      }
+    }
+
+    const settings = this.resolveKillSettings(options);
+    const outcomes: KillOutcome[] = [...skipped];
+    for (const group of groups) {
+      const ports = this.uniquePorts(group);
+      const result = await this.performKill(
+        group[0],
+        ports,
+        settings,
+        trees.get(group[0].pid) ?? null
+      );
+      outcomes.push(
+        ...this.killedOutcomes(
+          group[0],
+          ports,
+          this.processService.isCriticalProcess(group[0]),
+          result
+        )
+      );
+    }
+    return outcomes;
+  }
+
+  /**
+   * Group listeners by PID, preserving first-seen order and sorting ports
+   */
+  private groupByPid(processes: ProcessInfo[]): ProcessInfo[][] {
+    const byPid = new Map<number, ProcessInfo[]>();
+    for (const p of processes) {
+      const group = byPid.get(p.pid);
+      if (group) {
+        group.push(p);
+      } else {
+        byPid.set(p.pid, [p]);
+      }
+    }
+    return [...byPid.values()].map((group) =>
+      group.sort((a, b) => a.port - b.port)
+    );
+  }
+
+  /**
+   * Port numbers of a group, once each (a PID may hold a port on TCP and UDP)
+   */
+  private uniquePorts(group: ProcessInfo[]): number[] {
+    return [...new Set(group.map((p) => p.port))];
+  }
+
+  /**
+   * Listeners whose PID no longer holds the port and protocol, per a fresh scan
+   */
+  private async releasedListeners(
+    listeners: ProcessInfo[]
+  ): Promise<ProcessInfo[]> {
+    const current = await this.processService.getAllPorts('all');
+    return listeners.filter(
+      (l) =>
+        !current.some(
+          (p) =>
+            p.pid === l.pid &&
+            p.port === l.port &&
+            (p.protocol ?? 'tcp') === (l.protocol ?? 'tcp')
+        )
+    );
+  }
+
+  /**
+   * The rule protecting a process, unless protection is being ignored
+   */
+  private protectionFor(
+    process: ProcessInfo,
+    ports: number[],
+    options: KillOptions
+  ): ProtectionRule | null {
+    if (options.ignoreProtection) {
+      return null;
     }
+    return findProtection(process, ports, this.storageService.getProtections());
+  }
+
+  /**
+   * Explain why a protected process was left running
+   */
+  private displayProtected(
+    process: ProcessInfo,
+    ports: number[],
+    rule: ProtectionRule
+  ): void {
+    this.log(
+      chalk.yellow(
+        `\n🛡️  Skipped ${process.processName} (PID ${process.pid}) on port${ports.length === 1 ? '' : 's'} ${ports.join(', ')}: protected by ${describeProtection(rule)}`
+      )
+    );
+    const projectConfig = this.storageService.getProjectConfigPath();
+    const remove =
+      projectConfig !== null &&
+      this.storageService.getProtectionSource(rule) === projectConfig
+        ? `remove it from ${projectConfig}`
+        : `zkill protect remove ${rule.kind} ${rule.value}`;
+    this.log(
+      chalk.gray(`   Use --ignore-protection to kill it anyway, or: ${remove}`)
+    );
   }
 
   /**
    * Display process information
    */
   private displayProcessInfo(process: ProcessInfo): void {
-    console.log('\n' + chalk.bold('Process Details:'));
-    console.log(chalk.cyan(`  Process:  ${process.processName}`));
-    console.log(chalk.cyan(`  PID:      ${process.pid}`));
-    console.log(chalk.cyan(`  Command:  ${process.command}`));
+    this.log('\n' + chalk.bold('Process Details:'));
+    this.log(chalk.cyan(`  Process:  ${process.processName}`));
+    this.log(chalk.cyan(`  PID:      ${process.pid}`));
+    this.log(chalk.cyan(`  Command:  ${process.command}`));
+    if (process.protocol === 'udp') {
+      this.log(chalk.cyan(`  Protocol: UDP`));
+    }
     if (process.user) {
-      console.log(chalk.cyan(`  User:     ${process.user}`));
+      this.log(chalk.cyan(`  User:     ${process.user}`));
     }
   }
 
   /**
    * Confirm kill with user
    */
-  private async confirmKill(process: ProcessInfo): Promise<boolean> {
+  private async confirmKill(
+    process: ProcessInfo,
+    treeSize: number = 1
+  ): Promise<boolean> {
     const { confirmed } = await inquirer.prompt([
       {
         type: 'confirm',
         name: 'confirmed',
-        message: `Are you sure you want to kill process ${process.pid}?`,
+        message:
+          treeSize > 1
+            ? `Are you sure you want to kill process ${process.pid} and ${treeSize - 1} related process(es)?`
+            : `Are you sure you want to kill process ${process.pid}?`,
         default: false,
       },
     ]);
@@ -117,42 +689,480 @@ export class KillCommand {
   }
 
   /**
-   * Perform the kill operation
+   * Merge per-invocation overrides over the configured kill defaults
+   */
+  private resolveKillSettings(options: KillOptions): KillSettings {
+    const defaults = this.storageService.getKillSettings();
+    return {
+      signal: options.signal ?? defaults.signal,
+      timeoutMs: options.timeoutMs ?? defaults.timeoutMs,
+      escalate: options.escalate ?? defaults.escalate,
+      respawnWindowMs: options.respawnWindowMs ?? defaults.respawnWindowMs,
+    };
+  }
+
+  /**
+   * Perform the kill operation: send the configured signal, wait up to the
+   * timeout for the process to exit, then escalate to SIGKILL if allowed.
+   * With a tree, every process in it is terminated, children first.
    */
-  private async performKill(process: ProcessInfo): Promise<void> {
-    const spinner = ora('Terminating process...').start();
+  private async performKill(
+    process: ProcessInfo,
+    ports: number[],
+    settings: KillSettings,
+    tree: ProcessTreeNode | null = null
+  ): Promise<KillResult> {
+    const { signal, timeoutMs, escalate } = settings;
+    const spinner = this.quiet
+      ? null
+      : ora(`Sending ${signal} to process ${process.pid}...`).start();
 
-    // Try graceful termination first
-    let success = await this.processService.killProcess(process.pid, false);
+    const order = tree ? killOrder(tree) : [];
+    let success: boolean;
+    let method: KillResult['method'];
+    let timedOut: boolean;
+    let survivors: ProcessTreeNode[] = [];
 
-    if (!success) {
-      spinner.text = 'Graceful termination failed, trying force kill...';
-      await this.sleep(500);
-      success = await this.processService.killProcess(process.pid, true);
+    if (order.length > 1) {
+      method = signal === 'SIGKILL' ? 'force' : 'graceful';
+      const timedOutPids = new Set<number>();
+      for (const node of order) {
+        if (spinner) {
+          spinner.text = `Sending ${signal} to ${node.name} (PID ${node.pid})...`;
+        }
+        const attempt = await this.terminate(node.pid, settings, spinner);
+        if (attempt.method === 'force') {
+          method = 'force';
+        }
+        if (attempt.timedOut) {
+          timedOutPids.add(node.pid);
+        }
+      }
+      // Parents often exit on their own once their children are gone, so
+      // judge the result by what is still running rather than by each attempt
+      const running = new Set(
+        (await this.processService.listProcesses()).map((p) => p.pid)
+      );
+      survivors = order.filter((node) => running.has(node.pid));
+      success = survivors.length === 0;
+      timedOut = survivors.some((node) => timedOutPids.has(node.pid));
+    } else {
+      ({ success, method, timedOut } = await this.terminate(
+        process.pid,
+        settings,
+        spinner
+      ));
+    }
+
+    // Only a timeout with escalation off is fixed by allowing SIGKILL
+    const escalationHint = timedOut && !escalate && signal !== 'SIGKILL';
+    let error: string | undefined;
+
+    let respawns: RespawnReport[] = [];
+    if (success && settings.respawnWindowMs > 0) {
+      if (spinner) {
+        spinner.text = `Watching port${ports.length === 1 ? '' : 's'} ${ports.join(', ')} for restarts...`;
+      }
+      const killedPids = new Set([process.pid, ...order.map((n) => n.pid)]);
+      respawns = await this.watchForRespawn(
+        ports,
+        process.protocol ?? 'tcp',
+        killedPids,
+        settings.respawnWindowMs
+      );
     }
 
     if (success) {
-      spinner.succeed(
-        chalk.green(`Process ${process.pid} terminated successfully`)
+      spinner?.succeed(
+        chalk.green(
+          order.length > 1
+            ? `Process tree of ${order.length} processes terminated successfully`
+            : `Process ${process.pid} terminated successfully`
+        )
       );
-      console.log(chalk.green(`\nPort ${process.port} is now available.`));
+      const retaken = new Set(respawns.map((r) => r.port));
+      const freed = ports.filter((port) => !retaken.has(port));
+      if (freed.length > 0) {
+        const portList = freed.join(', ');
+        this.log(
+          chalk.green(
+            freed.length === 1
+              ? `\nPort ${portList} is now available.`
+              : `\nPorts ${portList} are now available.`
+          )
+        );
+      }
+      for (const respawn of respawns) {
+        this.displayRespawn(respawn, settings.respawnWindowMs);
+      }
+    } else if (order.length > 1) {
+      const pids = survivors.map((node) => node.pid).join(', ');
+      error = `${survivors.length} of ${order.length} processes in the tree are still running (PID ${pids})`;
+      spinner?.fail(chalk.red(error));
+      this.log(
+        chalk.yellow(
+          escalationHint
+            ? '\nEscalation is disabled. Re-run without --no-escalate or with --signal SIGKILL.'
+            : '\nYou may need elevated privileges (sudo on macOS/Linux, Administrator on Windows).'
+        )
+      );
+    } else if (timedOut) {
+      const lastSignal = method === 'force' ? 'SIGKILL' : signal;
+      error = `Process did not exit within ${timeoutMs}ms after ${lastSignal}`;
+      spinner?.fail(
+        chalk.red(`Process ${process.pid} did not exit within ${timeoutMs}ms`)
+      );
+      if (escalationHint) {
+        this.log(
+          chalk.gray('\nEscalation is disabled. Re-run without --no-escalate or with --signal SIGKILL.')
+        );
+      }
     } else {
-      spinner.fail(chalk.red('Failed to terminate process'));
-      console.log(
+      error = 'Failed to terminate process (elevated privileges may be required)';
+      spinner?.fail(chalk.red('Failed to terminate process'));
+      this.log(
         chalk.yellow(
           '\nYou may need elevated privileges (sudo on macOS/Linux, Administrator on Windows).'
         )
       );
-      console.log(
+      this.log(
         chalk.gray(`\nTry: ${chalk.white(`sudo zkill ${process.port}`)}`)
       );
     }
+
+    const result: KillResult = {
+      success,
+      pid: process.pid,
+      port: process.port,
+      method,
+      error,
+      respawns,
+    };
+    this.recordKill(process, ports, signal, result);
+    return result;
   }
 
   /**
-   * Sleep utility
+   * Append one history entry per port, with the project the port belonged to
    */
+  private recordKill(
+    process: ProcessInfo,
+    ports: number[],
+    signal: KillSignal,
+    result: KillResult
+  ): void {
+    const inferred = this.projectService.inferProject(process)?.projectName ?? null;
+    for (const port of ports) {
+      this.auditService.record({
+        port,
+        protocol: process.protocol ?? 'tcp',
+        pid: process.pid,
+        processName: process.processName,
+        command: process.command,
+        project:
+          this.storageService.getPortMapping(port, process.workingDirectory)
+            ?.projectName ?? inferred,
+        processUser: process.user ?? null,
+        signal,
+        method: result.method,
+        success: result.success,
+        error: result.error ?? null,
+        trigger: this.trigger,
+      });
+    }
+  }
+
+  /**
+   * Poll freed ports until the window closes; report any taken by a new PID
+   */
+  private async watchForRespawn(
+    ports: number[],
+    protocol: PortProtocol,
+    killedPids: Set<number>,
+    windowMs: number
+  ): Promise<RespawnReport[]> {
+    const deadline = Date.now() + windowMs;
+    const pending = new Set(ports);
+    const respawns: RespawnReport[] = [];
+
+    while (pending.size > 0) {
+      await this.sleep(Math.min(RESPAWN_POLL_INTERVAL_MS, windowMs));
+
+      for (const port of [...pending]) {
+        const current = await this.processService.findByPort(port, protocol);
+        if (current && !killedPids.has(current.pid)) {
+          pending.delete(port);
+          const processes = await this.processService.listProcesses();
+          respawns.push({
+            port,
+            pid: current.pid,
+            processName: current.processName,
+            supervisor: detectSupervisor(
+              current,
+              ancestorsOf(current.pid, processes)
+            ),
+          });
+        }
+      }
+
+      if (Date.now() >= deadline) {
+        break;
+      }
+    }
+
+    return respawns;
+  }
+
+  /**
+   * Explain a respawn and how to stop its supervisor for good
+   */
+  private displayRespawn(respawn: RespawnReport, windowMs: number): void {
+    const { supervisor } = respawn;
+    this.log(
+      chalk.yellow.bold(
+        `\n⚠️  Port ${respawn.port} was taken again by ${respawn.processName} (PID ${respawn.pid}) within ${windowMs}ms.`
+      )
+    );
+    if (supervisor) {
+      const pid = supervisor.pid ? ` (PID ${supervisor.pid})` : '';
+      this.log(chalk.yellow(`   It was restarted by ${supervisor.kind}: ${supervisor.name}${pid}`));
+      this.log(
+        chalk.gray(`   Stop it for good: ${chalk.white(supervisor.stopCommand)}`)
+      );
+    } else {
+      this.log(
+        chalk.yellow('   Something restarted it, but zkill could not tell what.')
+      );
+      this.log(
+        chalk.gray(
+          `   Check its parent process, or try: ${chalk.white(`zkill ${respawn.port} --supervisor`)}`
+        )
+      );
+    }
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
+
+  /**
+   * Send the configured signal to one PID, escalating to SIGKILL if allowed.
+   * After a failed attempt the PID is probed: still signalable means it
+   * timed out, denied means a permission error (escalating won't help),
+   * gone means it exited anyway.
+   */
+  private async terminate(
+    pid: number,
+    settings: KillSettings,
+    spinner: ora.Ora | null
+  ): Promise<{ success: boolean; method: KillResult['method']; timedOut: boolean }> {
+    const { signal, timeoutMs, escalate } = settings;
+
+    let method: KillResult['method'] =
+      signal === 'SIGKILL' ? 'force' : 'graceful';
+    if (
+      await this.processService.killProcess(pid, signal === 'SIGKILL', {
+        signal,
+        timeoutMs,
+      })
+    ) {
+      return { success: true, method, timedOut: false };
+    }
+
+    let access = this.processService.signalAccess(pid);
+    if (access === 'allowed' && escalate && signal !== 'SIGKILL') {
+      if (spinner) {
+        spinner.text = `Process ${pid} did not exit within ${timeoutMs}ms, sending SIGKILL...`;
+      }
+      method = 'force';
+      if (await this.processService.killProcess(pid, true, { timeoutMs })) {
+        return { success: true, method, timedOut: false };
+      }
+      access = this.processService.signalAccess(pid);
+    }
+
+    return { success: access === 'gone', method, timedOut: access === 'allowed' };
+  }
+
+  /**
+   * For --tree: the process tree to kill, rooted at the owning supervisor
+   * when requested. Null when tree mode is off or the listing has no entry.
+   */
+  private async planTree(
+    process: ProcessInfo,
+    options: KillOptions
+  ): Promise<ProcessTreeNode | null> {
+    if (!options.tree) {
+      return null;
+    }
+    const processes = await this.processService.listProcesses();
+    const supervisor = options.supervisor
+      ? findSupervisor(process.pid, processes)
+      : null;
+    return buildProcessTree(supervisor?.pid ?? process.pid, processes);
+  }
+
+  /**
+   * Display the tree that --tree will kill
+   */
+  private displayProcessTree(tree: ProcessTreeNode, process: ProcessInfo): void {
+    this.log('\n' + chalk.bold('Process Tree (killed bottom-up):'));
+    for (const line of formatProcessTree(tree, process.pid)) {
+      this.log(chalk.cyan(`  ${line}`));
+    }
+    if (tree.pid !== process.pid) {
+      this.log(
+        chalk.yellow(
+          `\n⚠️  ${tree.name} (PID ${tree.pid}) supervises this process and will be stopped too.`
+        )
+      );
+    }
+  }
+
+  /**
+   * The first process in a --tree plan, besides the listener (checked on its
+   * own), that is protected or a system process. Listening nodes are matched
+   * with their ports and user; the rest by name and command.
+   */
+  private async findBlockedTreeNode(
+    tree: ProcessTreeNode,
+    listener: ProcessInfo,
+    options: KillOptions
+  ): Promise<BlockedTreeNode | null> {
+    const nodes = killOrder(tree).filter((node) => node.pid !== listener.pid);
+    if (nodes.length === 0) {
+      return null;
+    }
+
+    const listening = await this.processService.getAllPorts('all');
+    for (const node of nodes) {
+      const held = listening.filter((p) => p.pid === node.pid);
+      const info: ProcessInfo = held[0] ?? {
+        pid: node.pid,
+        port: 0, // not listening; only name and command can match
+        processName: node.name,
+        command: node.command,
+      };
+      const protection = this.protectionFor(info, this.uniquePorts(held), options);
+      if (protection) {
+        return { node, protection };
+      }
+      if (this.processService.isCriticalProcess(info)) {
+        return { node, protection: null };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Explain why a --tree kill was skipped
+   */
+  private displayBlockedTreeNode({ node, protection }: BlockedTreeNode): void {
+    const reason = protection
+      ? `protected by ${describeProtection(protection)}`
+      : 'a system process';
+    this.log(
+      chalk.yellow(
+        `\n🛡️  Skipped: the tree includes ${node.name} (PID ${node.pid}), which is ${reason}. Nothing was killed.`
+      )
+    );
+    this.log(
+      chalk.gray(
+        protection
+          ? '   Kill without --tree/--supervisor, or use --ignore-protection.'
+          : '   Kill without --tree/--supervisor.'
+      )
+    );
+  }
+
+  private notFoundOutcome(port: number): KillOutcome {
+    return {
+      port,
+      status: 'not-found',
+      process: null,
+      isSystemProcess: false,
+      result: null,
+      error: null,
+    };
+  }
+
+  private cancelledOutcomes(
+    process: ProcessInfo,
+    ports: number[],
+    isSystemProcess: boolean,
+    error: string | null
+  ): KillOutcome[] {
+    return ports.map((port) => ({
+      port,
+      status: 'cancelled',
+      process,
+      isSystemProcess,
+      result: null,
+      error,
+    }));
+  }
+
+  private protectedOutcomes(
+    process: ProcessInfo,
+    ports: number[],
+    isSystemProcess: boolean,
+    protection: ProtectionRule
+  ): KillOutcome[] {
+    return ports.map((port) => ({
+      port,
+      status: 'protected',
+      process,
+      isSystemProcess,
+      result: null,
+      error: `Protected by ${describeProtection(protection)}; use --ignore-protection to kill it`,
+      protection,
+    }));
+  }
+
+  private blockedTreeOutcomes(
+    process: ProcessInfo,
+    ports: number[],
+    isSystemProcess: boolean,
+    { node, protection }: BlockedTreeNode
+  ): KillOutcome[] {
+    if (protection) {
+      return this.protectedOutcomes(process, ports, isSystemProcess, protection).map(
+        (outcome) => ({
+          ...outcome,
+          error: `The tree includes ${node.name} (PID ${node.pid}), protected by ${describeProtection(protection)}; kill without --tree or use --ignore-protection`,
+        })
+      );
+    }
+    return this.cancelledOutcomes(
+      process,
+      ports,
+      isSystemProcess,
+      `The tree includes system process ${node.name} (PID ${node.pid}); kill without --tree`
+    );
+  }
+
+  private killedOutcomes(
+    process: ProcessInfo,
+    ports: number[],
+    isSystemProcess: boolean,
+    result: KillResult
+  ): KillOutcome[] {
+    return ports.map((port) => ({
+      port,
+      status: result.success ? 'killed' : 'failed',
+      process,
+      isSystemProcess,
+      result: { ...result, port },
+      error: result.error ?? null,
+    }));
+  }
+
+  /**
+   * Print unless running in machine-readable mode
+   */
+  private log(message: string): void {
+    if (!this.quiet) {
+      console.log(message);
+    }
+  }
 }
@@ -0,0 +1,251 @@
+/**
+ * Map Command
+ * Manages port-to-project mappings by hand
+ */
+
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import { StorageService } from '../services/storage.service';
+import { ProjectService } from '../services/project.service';
+import { PortMapping } from '../types';
+import { ExitCode, InvalidInputError } from '../exit-codes';
+
+export interface MapTargetOptions {
+  project?: string; // project name; defaults to the name detected at the path
+  path?: string; // project directory; defaults to the current project
+  autoKill?: boolean; // --auto-kill / --no-auto-kill
+}
+
+export interface MapAddOptions extends MapTargetOptions {
+  common?: boolean; // also map the common ports for the project's type
+}
+
+export interface MapRemoveOptions {
+  project?: string; // only this project's mappings; all of them without ports
+}
+
+export class MapCommand {
+  constructor(
+    private storageService: StorageService,
+    private projectService: ProjectService
+  ) {}
+
+  /**
+   * Map ports to the current or a given project
+   */
+  add(ports: number[], options: MapAddOptions = {}): ExitCode {
+    const target = this.resolveProject(options);
+    const wanted = [
+      ...ports,
+      ...(options.common
+        ? this.projectService.getCommonPortsForProjectType(target.projectPath)
+        : []),
+    ].filter((port, i, all) => all.indexOf(port) === i);
+
+    if (wanted.length === 0) {
+      throw new InvalidInputError('Give the ports to map, or --common');
+    }
+
+    const mapped: number[] = [];
+    const shared: string[] = [];
+    for (const port of wanted) {
+      const mappings = this.storageService.getPortMappings(port);
+      const existing = mappings.find((m) => m.projectPath === target.projectPath);
+      if (existing?.configFile) {
+        this.logDeclared(existing);
+        continue;
+      }
+
+      // Re-mapping to the same project keeps its auto-kill setting
+      this.storageService.addPortMapping({
+        port,
+        ...target,
+        autoKill: options.autoKill ?? existing?.autoKill ?? false,
+      });
+      mapped.push(port);
+
+      const others = mappings.filter((m) => m.projectPath !== target.projectPath);
+      if (others.length > 0) {
+        shared.push(
+          `Port ${port} is also used by: ${others.map((m) => m.projectName).join(', ')}`
+        );
+      }
+    }
+
+    if (mapped.length === 0) {
+      return ExitCode.INVALID_INPUT;
+    }
+    console.log(
+      chalk.green(
+        `✅ Mapped port${mapped.length === 1 ? '' : 's'} ${mapped.join(', ')} → ${target.projectName}`
+      )
+    );
+    console.log(chalk.gray(`   ${target.projectPath}`));
+    for (const line of shared) {
+      console.log(chalk.gray(`   ${line}`));
+    }
+    return ExitCode.SUCCESS;
+  }
+
+  /**
+   * Remove mappings by port (for every project, or only --project's), or
+   * every mapping of a project
+   */
+  remove(ports: number[], options: MapRemoveOptions = {}): ExitCode {
+    if (options.project !== undefined && ports.length === 0) {
+      const removed = this.storageService.removeMappingsForProject(options.project);
+      if (removed.length === 0) {
+        console.log(chalk.yellow(`No saved mappings for project "${options.project}"`));
+        return ExitCode.NOT_FOUND;
+      }
+      console.log(
+        chalk.green(
+          `✅ Removed ${removed.length} mapping(s) of ${removed[0].projectName}: ports ${removed
+            .map((m) => m.port)
+            .join(', ')}`
+        )
+      );
+      return ExitCode.SUCCESS;
+    }
+
+    if (ports.length === 0) {
+      throw new InvalidInputError('Give the ports to unmap, or --project <name>');
+    }
+
+    const projectName = options.project?.toLowerCase();
+    let removed = 0;
+    for (const port of ports) {
+      const mappings = this.storageService
+        .getPortMappings(port)
+        .filter(
+          (m) => projectName === undefined || m.projectName.toLowerCase() === projectName
+        );
+      if (mappings.length === 0) {
+        console.log(
+          chalk.yellow(
+            `Port ${port} is not mapped${options.project !== undefined ? ` to ${options.project}` : ''}`
+          )
+        );
+        continue;
+      }
+
+      const unmapped: string[] = [];
+      for (const mapping of mappings) {
+        if (mapping.configFile) {
+          this.logDeclared(mapping);
+        } else {
+          this.storageService.removePortMapping(port, mapping.projectPath);
+          unmapped.push(mapping.projectName);
+        }
+      }
+      if (unmapped.length > 0) {
+        console.log(chalk.green(`✅ Port ${port} no longer mapped to ${unmapped.join(', ')}`));
+        removed++;
+      }
+    }
+
+    if (removed === 0) {
+      return ExitCode.NOT_FOUND;
+    }
+    return removed === ports.length ? ExitCode.SUCCESS : ExitCode.PARTIAL;
+  }
+
+  /**
+   * Change the project or auto-kill of a mapped port (the current project's
+   * mapping when several projects use it)
+   */
+  edit(port: number, options: MapTargetOptions = {}): ExitCode {
+    const mapping = this.storageService.getPortMapping(
+      port,
+      this.projectService.getCurrentProjectPath()
+    );
+    if (!mapping) {
+      console.log(
+        chalk.yellow(`Port ${port} is not mapped. Map it with: zkill map add ${port}`)
+      );
+      return ExitCode.NOT_FOUND;
+    }
+    if (mapping.configFile) {
+      this.logDeclared(mapping);
+      return ExitCode.INVALID_INPUT;
+    }
+    if (
+      options.project === undefined &&
+      options.path === undefined &&
+      options.autoKill === undefined
+    ) {
+      throw new InvalidInputError(
+        'Nothing to change: give --project, --path, --auto-kill or --no-auto-kill'
+      );
+    }
+
+    const target =
+      options.path !== undefined
+        ? this.resolveProject(options)
+        : {
+            projectName: options.project ?? mapping.projectName,
+            projectPath: mapping.projectPath,
+          };
+    this.storageService.updatePortMapping(port, mapping.projectPath, {
+      ...target,
+      autoKill: options.autoKill ?? mapping.autoKill,
+    });
+
+    console.log(
+      chalk.green(`✅ Port ${port} → ${target.projectName}`) +
+        (options.autoKill ?? mapping.autoKill ? chalk.green(' [auto-kill]') : '')
+    );
+    console.log(chalk.gray(`   ${target.projectPath}`));
+    return ExitCode.SUCCESS;
+  }
+
+  /**
+   * Rename a project in its saved mappings
+   */
+  rename(from: string, to: string): ExitCode {
+    const name = to.trim();
+    if (name.length === 0) {
+      throw new InvalidInputError('The new project name must not be empty');
+    }
+
+    const renamed = this.storageService.renameProject(from, name);
+    if (renamed === 0) {
+      console.log(chalk.yellow(`No saved mappings for project "${from}"`));
+      return ExitCode.NOT_FOUND;
+    }
+    console.log(chalk.green(`✅ Renamed ${from} → ${name} (${renamed} mapping(s))`));
+    return ExitCode.SUCCESS;
+  }
+
+  /**
+   * Project a mapping should point at, from --path / --project or the current project
+   */
+  private resolveProject(
+    options: MapTargetOptions
+  ): Pick<PortMapping, 'projectName' | 'projectPath'> {
+    if (options.path === undefined) {
+      return {
+        projectName: options.project ?? this.projectService.getCurrentProjectName(),
+        projectPath: this.projectService.getCurrentProjectPath(),
+      };
+    }
+
+    const projectPath = path.resolve(options.path);
+    if (!fs.existsSync(projectPath) || !fs.statSync(projectPath).isDirectory()) {
+      throw new InvalidInputError(`Not a directory: ${options.path}`);
+    }
+    return {
+      projectName: options.project ?? this.projectService.getProjectNameAt(projectPath),
+      projectPath,
+    };
+  }
+
+  private logDeclared(mapping: PortMapping): void {
+    console.log(
+      chalk.yellow(
+        `Port ${mapping.port} is declared in ${mapping.configFile}; change it there.`
+      )
+    );
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Protect Command
+ * Manages the ports, processes, users and services zkill refuses to kill
+ */
+
+import chalk from 'chalk';
+import { StorageService } from '../services/storage.service';
+import { ProtectionKind, ProtectionRule } from '../types';
+import { ExitCode, InvalidInputError } from '../exit-codes';
+import {
+  PROTECTION_KINDS,
+  describeProtection,
+  normalizeProtectionRule,
+} from '../protection';
+
+export class ProtectCommand {
+  constructor(private storageService: StorageService) {}
+
+  /**
+   * Protect a target
+   */
+  add(kind: ProtectionKind, value: string): ExitCode {
+    const rule = this.normalize(kind, value);
+    if (!this.storageService.addProtection(rule)) {
+      console.log(chalk.yellow(`${describeProtection(rule)} is already protected`));
+      return ExitCode.SUCCESS;
+    }
+
+    console.log(chalk.green(`🛡️  Protected ${describeProtection(rule)}`));
+    console.log(
+      chalk.gray('zkill will skip it, even with --force, unless --ignore-protection is given.')
+    );
+    return ExitCode.SUCCESS;
+  }
+
+  /**
+   * Stop protecting a target
+   */
+  remove(kind: ProtectionKind, value: string): ExitCode {
+    const rule = this.normalize(kind, value);
+    if (!this.storageService.removeProtection(rule)) {
+      const source = this.storageService.getProtectionSource(rule);
+      if (source) {
+        console.log(
+          chalk.yellow(
+            `${describeProtection(rule)} is protected by ${source}; remove it there`
+          )
+        );
+        return ExitCode.NOT_FOUND;
+      }
+      console.log(chalk.yellow(`${describeProtection(rule)} is not protected`));
+      console.log(chalk.gray('Run "zkill protect list" to see protected targets.'));
+      return ExitCode.NOT_FOUND;
+    }
+
+    console.log(chalk.green(`✅ ${describeProtection(rule)} is no longer protected`));
+    return ExitCode.SUCCESS;
+  }
+
+  /**
+   * List protected targets by kind
+   */
+  list(): void {
+    const rules = this.storageService.getProtections();
+
+    if (rules.length === 0) {
+      console.log(chalk.yellow('\nNothing is protected yet.'));
+      console.log(chalk.gray('\nProtect a target with: zkill protect add port 5432'));
+      return;
+    }
+
+    console.log(chalk.bold(`\n🛡️  Protected (${rules.length}):\n`));
+    const projectConfig = this.storageService.getProjectConfigPath();
+    for (const kind of PROTECTION_KINDS) {
+      const values = rules
+        .filter((r) => r.kind === kind)
+        .map((r) =>
+          projectConfig !== null &&
+          this.storageService.getProtectionSource(r) === projectConfig
+            ? `${r.value} (.zkillrc)`
+            : r.value
+        );
+      if (values.length > 0) {
+        console.log(chalk.cyan(`${kind.padEnd(8)}`) + chalk.white(values.join(', ')));
+      }
+    }
+    console.log(
+      chalk.gray(`\nConfig file: ${this.storageService.getConfigPath()}`)
+    );
+    if (projectConfig) {
+      console.log(chalk.gray(`Project rc:  ${projectConfig}`));
+    }
+  }
+
+  private normalize(kind: ProtectionKind, value: string): ProtectionRule {
+    const normalized = normalizeProtectionRule(kind, value);
+    if (!normalized.ok) {
+      throw new InvalidInputError(normalized.error);
+    }
+    return normalized.rule;
+  }
+}
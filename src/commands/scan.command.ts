@@ -9,8 +9,43 @@ import ora from "ora";
 import packageJson from "../../package.json";
 import { ProcessService } from "../services/process.service";
 import { StorageService } from "../services/storage.service";
-import { ProcessInfo } from "../types";
-import { buildScanJsonDocument } from "../scan-json-schema";
+import { ProjectService } from "../services/project.service";
+import { SnapshotService } from "../services/snapshot.service";
+import { ProcessInfo, ProjectOwner, ProtocolFilter } from "../types";
+import { ScanJsonDocument, buildScanJsonDocument } from "../scan-json-schema";
+import { buildScanSnapshot } from "../scan-snapshot";
+import {
+  ScanChange,
+  buildScanWatchEvent,
+  diffScans,
+  listenerKey,
+} from "../scan-diff";
+import { InvalidInputError } from "../exit-codes";
+import { formatPort } from "../protocol";
+import { isWithinProject } from "../port-mappings";
+import { describeProcessContext } from "../process-context";
+import {
+  DEFAULT_SCAN_COLUMNS,
+  ScanColumn,
+  ScanFormat,
+  ScanRow,
+  ScanSortKey,
+  renderScanFormat,
+  renderScanTemplate,
+  sortScanRows,
+} from "../scan-format";
+import {
+  ScanGroup,
+  ScanGroupKey,
+  groupPidCount,
+  groupPorts,
+  groupScanRows,
+} from "../scan-group";
+import {
+  formatBindAddress,
+  isExposed,
+  isWildcardAddress,
+} from "../bind-address";
 
 export interface ScanOptions {
   range?: string;
@@ -19,12 +54,36 @@ export interface ScanOptions {
   system?: boolean; // true to show system, false to hide
   verbose?: boolean; // show detailed process context
   json?: boolean; // machine-readable output (stable schema)
+  protocol?: ProtocolFilter; // tcp (default), udp or all
+  exposed?: boolean; // only listeners reachable from other machines
+  format?: ScanFormat; // one row per listener instead of the block layout
+  columns?: ScanColumn[]; // columns for --format (default DEFAULT_SCAN_COLUMNS)
+  template?: string; // one line per listener, e.g. "{{port}}\t{{pid}}"
+  sort?: ScanSortKey; // default port
+  groupBy?: ScanGroupKey; // cluster listeners by project, process, user or service
+  save?: string; // also store the scan as a named snapshot for `zkill diff`
 }
 
+export interface ScanWatchOptions {
+  intervalMs: number;
+  iterations?: number; // stop after this many polls; default runs until interrupted
+}
+
+/** Default time between polls for `scan --watch` */
+export const DEFAULT_WATCH_INTERVAL_MS = 2000;
+
+/** Polling faster than this only burns CPU on lsof/netstat */
+export const MIN_WATCH_INTERVAL_MS = 250;
+
+/** Cursor home + clear screen: redraw the dashboard in place */
+const CLEAR_SCREEN = "\x1b[H\x1b[2J";
+
 export class ScanCommand {
   constructor(
     private processService: ProcessService,
-    private storageService: StorageService
+    private storageService: StorageService,
+    private projectService: ProjectService,
+    private snapshotService: SnapshotService
   ) {}
 
   /**
@@ -32,36 +91,54 @@ export class ScanCommand {
    */
   async execute(options: ScanOptions = {}): Promise<void> {
     const useJson = options.json === true;
-    const spinner = useJson
-      ? null
-      : ora("Scanning for active ports...").start();
-
-    let processes = await this.processService.getAllPorts();
+    const blockLayout =
+      !useJson && options.format === undefined && options.template === undefined;
+    const spinner = blockLayout
+      ? ora("Scanning for active ports...").start()
+      : null;
+
+    const sortedRows = sortScanRows(
+      this.toRows(await this.collect(options)),
+      options.sort
+    );
+    const groups = options.groupBy
+      ? groupScanRows(sortedRows, options.groupBy)
+      : null;
+    // Grouped output lists each cluster together, in group order
+    const rows = groups ? groups.flatMap((g) => g.rows) : sortedRows;
+    const sorted = rows.map((row) => row.process);
 
     spinner?.stop();
 
-    // Apply filters
-    processes = this.applyFilters(processes, options);
-
-    // Sort by port number (human output and JSON use the same ordering)
-    const sorted = processes.sort((a, b) => a.port - b.port);
+    if (options.save !== undefined) {
+      const snapshot = buildScanSnapshot(
+        options.save,
+        this.toDocument(sorted, options),
+        new Date()
+      );
+      const file = this.snapshotService.save(snapshot);
+      // Keep stdout clean for --json, --format and --template
+      (blockLayout ? console.log : console.error)(
+        chalk.green(
+          `💾 Saved snapshot "${snapshot.name}" (${sorted.length} listener${sorted.length === 1 ? "" : "s"})`
+        ) + chalk.gray(` → ${file}`)
+      );
+    }
 
     if (useJson) {
-      const doc = buildScanJsonDocument({
-        processes: sorted,
-        verbose: options.verbose === true,
-        zkillVersion: packageJson.version,
-        platform: os.platform(),
-        filters: {
-          range: options.range,
-          process: options.process,
-          project: options.project,
-          hideSystemProcesses: options.system === false,
-        },
-        isCriticalProcess: (p) => this.processService.isCriticalProcess(p),
-        getPortMapping: (port) => this.storageService.getPortMapping(port),
-      });
-      console.log(JSON.stringify(doc));
+      console.log(JSON.stringify(this.toDocument(sorted, options)));
+      return;
+    }
+
+    if (options.template !== undefined) {
+      for (const line of renderScanTemplate(rows, options.template)) {
+        console.log(line);
+      }
+      return;
+    }
+
+    if (options.format) {
+      this.displayFormatted(rows, options.format, options.columns);
       return;
     }
 
@@ -77,13 +154,267 @@ export class ScanCommand {
 
     console.log(chalk.bold(`\n📊 Active Ports (${sorted.length} found):\n`));
 
-    for (const process of sorted) {
-      this.displayProcess(process, options.verbose || false);
+    if (groups && options.groupBy) {
+      this.displayGroups(groups, options.groupBy, options.verbose || false);
+      return;
+    }
+
+    for (const row of rows) {
+      this.displayProcess(row, options.verbose || false);
     }
 
     console.log(""); // Empty line at the end
   }
 
+  /**
+   * The `scan --json` document for the current listeners, without printing it
+   */
+  async scanDocument(options: ScanOptions = {}): Promise<ScanJsonDocument> {
+    const rows = sortScanRows(this.toRows(await this.collect(options)), options.sort);
+    return this.toDocument(
+      rows.map((row) => row.process),
+      options
+    );
+  }
+
+  private toDocument(
+    processes: ProcessInfo[],
+    options: ScanOptions
+  ): ScanJsonDocument {
+    return buildScanJsonDocument({
+      processes,
+      verbose: options.verbose === true,
+      zkillVersion: packageJson.version,
+      platform: os.platform(),
+      filters: {
+        range: options.range,
+        process: options.process,
+        project: options.project,
+        hideSystemProcesses: options.system === false,
+        protocol: options.protocol ?? "tcp",
+        exposed: options.exposed === true,
+      },
+      groupBy: options.groupBy,
+      isCriticalProcess: (p) => this.processService.isCriticalProcess(p),
+      getPortMapping: (port, workingDirectory) =>
+        this.storageService.getPortMapping(port, workingDirectory),
+      getProjectOwner: (p) => this.ownerOf(p),
+    });
+  }
+
+  /**
+   * Block layout under one heading per group, with per-group and total counts
+   */
+  private displayGroups(
+    groups: ScanGroup[],
+    groupBy: ScanGroupKey,
+    verbose: boolean
+  ): void {
+    for (const group of groups) {
+      const ports = groupPorts(group).length;
+      const pids = groupPidCount(group);
+      console.log(
+        chalk.bold.magenta(`📦 ${group.name ?? `(no ${groupBy})`}`) +
+          chalk.gray(
+            ` — ${ports} port${ports === 1 ? "" : "s"}, ${pids} process${pids === 1 ? "" : "es"}\n`
+          )
+      );
+      for (const row of group.rows) {
+        this.displayProcess(row, verbose);
+      }
+    }
+
+    const total = new Set(groups.flatMap(groupPorts)).size;
+    console.log(
+      chalk.gray(
+        `${groups.length} group${groups.length === 1 ? "" : "s"} by ${groupBy} · ${total} port${total === 1 ? "" : "s"} total\n`
+      )
+    );
+  }
+
+  /**
+   * Re-scan on an interval. Humans get a compact table redrawn in place with
+   * ports that appeared, disappeared or changed PID highlighted; --json
+   * streams one change event per line instead (the first poll reports every
+   * listener as "appeared").
+   */
+  async watch(options: ScanOptions, watch: ScanWatchOptions): Promise<void> {
+    let previous: ProcessInfo[] | null = null;
+
+    for (
+      let tick = 0;
+      watch.iterations === undefined || tick < watch.iterations;
+      tick++
+    ) {
+      if (tick > 0) {
+        await this.sleep(watch.intervalMs);
+      }
+
+      const current = await this.collect(options);
+      const changes = diffScans(previous ?? [], current);
+      const now = new Date();
+
+      if (options.json) {
+        for (const change of changes) {
+          console.log(JSON.stringify(buildScanWatchEvent(change, now)));
+        }
+      } else {
+        // Nothing to highlight on the first poll
+        this.renderWatch(current, previous ? changes : [], options, watch, now);
+      }
+
+      previous = current;
+    }
+  }
+
+  /**
+   * Scan, filter and sort by port (human output, JSON and watch share this)
+   */
+  private async collect(options: ScanOptions): Promise<ProcessInfo[]> {
+    const processes = await this.processService.getAllPorts(options.protocol);
+    return this.applyFilters(processes, options).sort((a, b) => a.port - b.port);
+  }
+
+  /**
+   * Attach project names and system flags for sorting and --format
+   */
+  private toRows(processes: ProcessInfo[]): ScanRow[] {
+    return processes.map((p) => {
+      const owner = this.ownerOf(p);
+      return {
+        process: p,
+        projectName: owner?.projectName ?? null,
+        projectSource: owner?.source ?? null,
+        isSystemProcess: this.processService.isCriticalProcess(p),
+      };
+    });
+  }
+
+  /**
+   * The port mapping's project (the one the process runs in when several
+   * projects map the port), else the project the process runs in. A mapping
+   * does not claim a process running in another directory: that is another
+   * project's server on the same port.
+   */
+  private ownerOf(p: ProcessInfo): ProjectOwner | null {
+    const mapping = this.storageService.getPortMapping(p.port, p.workingDirectory);
+    if (
+      mapping &&
+      (!p.workingDirectory || isWithinProject(p.workingDirectory, mapping.projectPath))
+    ) {
+      return {
+        source: "mapped",
+        projectName: mapping.projectName,
+        projectPath: mapping.projectPath,
+      };
+    }
+    return this.projectService.inferProject(p) ?? null;
+  }
+
+  /**
+   * Print rows as a table, CSV, TSV or Markdown. Tables fit the terminal
+   * width; piped output is never truncated.
+   */
+  private displayFormatted(
+    rows: ScanRow[],
+    format: ScanFormat,
+    columns: readonly ScanColumn[] = DEFAULT_SCAN_COLUMNS
+  ): void {
+    if (format === "table" && rows.length === 0) {
+      console.log(
+        chalk.yellow("No ports currently in use matching your filters.")
+      );
+      return;
+    }
+
+    const width = process.stdout.isTTY
+      ? process.stdout.columns || 80
+      : Infinity;
+    renderScanFormat(format, rows, columns, width).forEach((line, i) => {
+      console.log(format === "table" && i === 0 ? chalk.bold(line) : line);
+    });
+  }
+
+  /**
+   * Draw one frame of the watch dashboard
+   */
+  private renderWatch(
+    processes: ProcessInfo[],
+    changes: ScanChange[],
+    options: ScanOptions,
+    watch: ScanWatchOptions,
+    at: Date
+  ): void {
+    const byKey = new Map(changes.map((c) => [`${c.port}/${c.protocol}`, c]));
+    const gone = changes.filter((c) => c.type === "disappeared");
+    const lines: string[] = [
+      chalk.bold("📊 zkill scan --watch") +
+        chalk.gray(
+          ` · every ${watch.intervalMs / 1000}s · ${at.toLocaleTimeString()} · Ctrl+C to exit`
+        ),
+    ];
+
+    const filters = this.describeFilters(options);
+    if (filters.length > 0) {
+      lines.push(chalk.gray("🔍 Filters: " + filters.join(", ")));
+    }
+
+    lines.push("");
+    lines.push(
+      chalk.gray(`  ${"PORT".padEnd(11)}${"PID".padEnd(15)}${"PROCESS".padEnd(20)}ADDRESS`)
+    );
+
+    for (const p of processes) {
+      const change = byKey.get(listenerKey(p));
+      const pid =
+        change?.type === "pid-changed"
+          ? `${change.previousPid}→${p.pid}`
+          : String(p.pid);
+      const address = (p.addresses ?? []).map(formatBindAddress).join(", ");
+      const row =
+        `${formatPort(p.port, p.protocol).padEnd(11)}${pid.padEnd(15)}` +
+        `${this.truncate(p.processName, 19).padEnd(20)}${address}` +
+        (isExposed(p) ? " [exposed]" : "");
+
+      if (change?.type === "appeared") {
+        lines.push(chalk.green(`+ ${row}`));
+      } else if (change?.type === "pid-changed") {
+        lines.push(chalk.yellow(`~ ${row}`));
+      } else {
+        lines.push(`  ${row}`);
+      }
+    }
+
+    for (const c of gone) {
+      lines.push(
+        chalk.red(
+          `- ${formatPort(c.port, c.protocol).padEnd(11)}${String(c.pid).padEnd(15)}${this.truncate(c.processName, 19)}`
+        )
+      );
+    }
+
+    if (processes.length === 0 && gone.length === 0) {
+      lines.push(chalk.yellow("  No ports currently in use matching your filters."));
+    }
+
+    const count = (type: ScanChange["type"]) =>
+      changes.filter((c) => c.type === type).length;
+    lines.push("");
+    lines.push(
+      chalk.gray(
+        `${processes.length} listening · ${count("appeared")} new · ${gone.length} gone · ${count("pid-changed")} restarted`
+      )
+    );
+
+    // Only redraw in place on a terminal; piped output just appends frames
+    const prefix = process.stdout.isTTY ? CLEAR_SCREEN : "\n";
+    console.log(prefix + lines.join("\n"));
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
   /**
    * Apply filters to process list
    */
@@ -114,13 +445,18 @@ export class ScanCommand {
       );
     }
 
-    // Filter by project name
+    // Only listeners bound beyond loopback
+    if (options.exposed) {
+      filtered = filtered.filter((p) => isExposed(p));
+    }
+
+    // Filter by project name: listeners on its mapped ports that run in it,
+    // or that run in it unmapped
     if (options.project) {
-      const mappings = this.storageService.getMappingsByProjectName(
-        options.project
+      const searchTerm = options.project.toLowerCase();
+      filtered = filtered.filter((p) =>
+        this.ownerOf(p)?.projectName.toLowerCase().includes(searchTerm)
       );
-      const projectPorts = new Set(mappings.map((m) => m.port));
-      filtered = filtered.filter((p) => projectPorts.has(p.port));
     }
 
     return filtered;
@@ -133,18 +469,18 @@ export class ScanCommand {
     const parts = range.split("-").map((s) => s.trim());
 
     if (parts.length !== 2) {
-      throw new Error("Invalid port range format. Use: --range 3000-9000");
+      throw new InvalidInputError("Invalid port range format. Use: --range 3000-9000");
     }
 
     const min = parseInt(parts[0]);
     const max = parseInt(parts[1]);
 
     if (isNaN(min) || isNaN(max)) {
-      throw new Error("Port range must contain valid numbers");
+      throw new InvalidInputError("Port range must contain valid numbers");
     }
 
     if (min < 1 || max > 65535 || min > max) {
-      throw new Error(
+      throw new InvalidInputError(
         "Invalid port range. Ports must be 1-65535 and min <= max"
       );
     }
@@ -156,6 +492,17 @@ export class ScanCommand {
    * Show active filters
    */
   private showActiveFilters(options: ScanOptions): void {
+    const filters = this.describeFilters(options);
+
+    if (filters.length > 0) {
+      console.log(chalk.gray("\n🔍 Filters: " + filters.join(", ")));
+    }
+  }
+
+  /**
+   * Active filters as display labels
+   */
+  private describeFilters(options: ScanOptions): string[] {
     const filters: string[] = [];
 
     if (options.range) {
@@ -174,9 +521,15 @@ export class ScanCommand {
       filters.push(chalk.cyan(`Project: ${options.project}`));
     }
 
-    if (filters.length > 0) {
-      console.log(chalk.gray("\n🔍 Filters: " + filters.join(", ")));
+    if (options.protocol && options.protocol !== "tcp") {
+      filters.push(chalk.cyan(`Protocol: ${options.protocol}`));
+    }
+
+    if (options.exposed) {
+      filters.push(chalk.cyan("Exposed to the network"));
     }
+
+    return filters;
   }
 
   /**
@@ -189,7 +542,7 @@ export class ScanCommand {
       console.log(chalk.yellow("\nNo port mappings configured yet."));
       console.log(
         chalk.gray(
-          "\nPort mappings are created automatically when you kill a process from within a project directory."
+          "\nPort mappings are created automatically when you kill a process from within a project directory, or with: zkill map add <port>"
         )
       );
       return;
@@ -202,15 +555,25 @@ export class ScanCommand {
     for (const mapping of mappings) {
       const lastUsed = this.formatDate(mapping.lastUsed);
       const autoKill = mapping.autoKill ? chalk.green(" [auto-kill]") : "";
+      const role = mapping.role ? chalk.gray(` (${mapping.role})`) : "";
 
       console.log(
         chalk.cyan(`Port ${chalk.bold(mapping.port)}`) +
           chalk.gray(" → ") +
           chalk.white(mapping.projectName) +
+          role +
           autoKill
       );
       console.log(chalk.gray(`     ${mapping.projectPath}`));
-      console.log(chalk.gray(`     Last used: ${lastUsed}\n`));
+      if (mapping.configFile) {
+        console.log(chalk.gray(`     Declared in: ${mapping.configFile}`));
+      }
+      console.log(chalk.gray(`     Last used: ${lastUsed}`));
+      console.log(
+        chalk.gray(
+          `     Used ${mapping.useCount} time${mapping.useCount === 1 ? "" : "s"}, first seen ${this.formatDate(mapping.firstSeen)}\n`
+        )
+      );
     }
 
     console.log(
@@ -221,17 +584,35 @@ export class ScanCommand {
   /**
    * Display process information
    */
-  private displayProcess(process: ProcessInfo, verbose: boolean = false): void {
-    const mapping = this.storageService.getPortMapping(process.port);
-    const projectInfo = mapping ? chalk.gray(` (${mapping.projectName})`) : "";
+  private displayProcess(row: ScanRow, verbose: boolean = false): void {
+    const process = row.process;
+    const projectInfo =
+      row.projectSource === "inferred"
+        ? chalk.gray(` (${row.projectName}, inferred)`)
+        : row.projectName
+          ? chalk.gray(` (${row.projectName})`)
+          : "";
+    const exposedTag = isExposed(process) ? chalk.yellow(" [exposed]") : "";
 
     console.log(
-      chalk.cyan(`Port ${chalk.bold(process.port)}`) +
+      chalk.cyan(`Port ${chalk.bold(formatPort(process.port, process.protocol))}`) +
         chalk.gray(" - ") +
         chalk.white(process.processName) +
-        projectInfo
+        projectInfo +
+        exposedTag
     );
     console.log(chalk.gray(`     PID: ${process.pid}`));
+    if (process.addresses && process.addresses.length > 0) {
+      const allInterfaces = process.addresses.some((a) =>
+        isWildcardAddress(a.address)
+      );
+      console.log(
+        chalk.gray(
+          `     Address: ${process.addresses.map(formatBindAddress).join(", ")}` +
+            (allInterfaces ? " (all interfaces)" : "")
+        )
+      );
+    }
     console.log(
       chalk.gray(`     Command: ${this.truncate(process.command, 60)}`)
     );
@@ -252,68 +633,8 @@ export class ScanCommand {
    * Display detailed process context information
    */
   private displayProcessContext(process: ProcessInfo): void {
-    // Uptime / Start time
-    if (process.uptime !== undefined || process.startTime) {
-      let uptimeStr = "";
-      if (process.uptime !== undefined && process.uptime > 0) {
-        uptimeStr = this.formatUptime(process.uptime);
-      }
-      if (process.startTime) {
-        const startTimeStr = process.startTime.toLocaleString();
-        if (uptimeStr) {
-          console.log(
-            chalk.gray(`     Running for: ${uptimeStr} (started: ${startTimeStr})`)
-          );
-        } else {
-          console.log(chalk.gray(`     Started: ${startTimeStr}`));
-        }
-      } else if (uptimeStr) {
-        console.log(chalk.gray(`     Running for: ${uptimeStr}`));
-      }
-    }
-
-    // Parent process
-    if (process.parentPid !== undefined) {
-      const parentInfo = process.parentProcessName
-        ? `${process.parentProcessName} (PID ${process.parentPid})`
-        : `PID ${process.parentPid}`;
-      console.log(chalk.gray(`     Started by: ${parentInfo}`));
-    }
-
-    // Working directory
-    if (process.workingDirectory) {
-      console.log(chalk.gray(`     Working dir: ${process.workingDirectory}`));
-    }
-
-    // Service manager
-    if (process.serviceManager) {
-      const serviceInfo = process.serviceName
-        ? `${process.serviceName} (${process.serviceManager})`
-        : process.serviceManager;
-      console.log(chalk.gray(`     Service: ${serviceInfo}`));
-    } else if (process.parentPid === 1) {
-      // Common indicator of system service
-      console.log(chalk.gray(`     Service: Not a service`));
-    }
-  }
-
-  /**
-   * Format uptime in milliseconds to human-readable string
-   */
-  private formatUptime(ms: number): string {
-    const seconds = Math.floor(ms / 1000);
-    const minutes = Math.floor(seconds / 60);
-    const hours = Math.floor(minutes / 60);
-    const days = Math.floor(hours / 24);
-
-    if (days > 0) {
-      return `${days}d ${hours % 24}h ${minutes % 60}m`;
-    } else if (hours > 0) {
-      return `${hours}h ${minutes % 60}m ${seconds % 60}s`;
-    } else if (minutes > 0) {
-      return `${minutes}m ${seconds % 60}s`;
-    } else {
-      return `${seconds}s`;
+    for (const line of describeProcessContext(process)) {
+      console.log(chalk.gray(`     ${line}`));
     }
   }
 
@@ -0,0 +1,401 @@
+/**
+ * UI Command
+ * Full-screen picker for listening ports: navigate, fuzzy-filter,
+ * multi-select and kill without retyping PIDs or ports
+ */
+
+import readline from 'readline';
+import chalk from 'chalk';
+import { ProcessService } from '../services/process.service';
+import { StorageService } from '../services/storage.service';
+import { KillCommand } from './kill.command';
+import { ProtocolFilter } from '../types';
+import { InvalidInputError } from '../exit-codes';
+import { formatPort } from '../protocol';
+import { formatBindAddress, isExposed } from '../bind-address';
+import { describeProcessContext } from '../process-context';
+import {
+  UiRow,
+  UiState,
+  actionTargets,
+  createUiState,
+  currentRow,
+  moveCursor,
+  replaceRows,
+  rowKey,
+  setFiltering,
+  setQuery,
+  toggleAll,
+  toggleSelection,
+  visibleRows,
+} from '../ui-state';
+
+export interface UiOptions {
+  protocol?: ProtocolFilter; // tcp (default), udp or all
+}
+
+/** Alternate screen buffer + hidden cursor, so quitting restores the shell */
+const ENTER_SCREEN = '\x1b[?1049h\x1b[?25l';
+const LEAVE_SCREEN = '\x1b[?25h\x1b[?1049l';
+const CLEAR_SCREEN = '\x1b[H\x1b[2J';
+
+/** Lines reserved below the list for the detail pane */
+const DETAIL_HEIGHT = 9;
+
+const HELP =
+  '↑/↓ move  space select  a all  / filter  x kill  X force kill  r refresh  q quit';
+
+interface Keypress {
+  name?: string;
+  ctrl?: boolean;
+  meta?: boolean;
+  sequence?: string;
+}
+
+export class UiCommand {
+  private state: UiState = createUiState([]);
+  private options: UiOptions = {};
+  private busy = false;
+  private finish: (() => void) | null = null;
+  private onKeypress = (str: string | undefined, key: Keypress = {}) => {
+    void this.handleKey(str, key);
+  };
+  private onResize = () => this.render();
+
+  constructor(
+    private processService: ProcessService,
+    private storageService: StorageService,
+    private killCommand: KillCommand,
+    private input: NodeJS.ReadStream = process.stdin,
+    private output: NodeJS.WriteStream = process.stdout
+  ) {}
+
+  /**
+   * Run the interface until the user quits
+   */
+  async execute(options: UiOptions = {}): Promise<void> {
+    if (!this.input.isTTY || !this.output.isTTY) {
+      throw new InvalidInputError(
+        'zkill ui needs an interactive terminal. Use "zkill scan" in scripts.'
+      );
+    }
+
+    this.options = options;
+    await this.refresh();
+    readline.emitKeypressEvents(this.input);
+
+    await new Promise<void>((resolve) => {
+      this.finish = resolve;
+      this.enterScreen();
+      this.render();
+    });
+  }
+
+  private async handleKey(str: string | undefined, key: Keypress): Promise<void> {
+    if (this.busy) {
+      return;
+    }
+
+    if (key.ctrl && key.name === 'c') {
+      this.quit();
+      return;
+    }
+
+    if (this.state.filtering) {
+      this.handleFilterKey(str, key);
+      this.render();
+      return;
+    }
+
+    switch (key.name ?? str) {
+      case 'q':
+      case 'escape':
+        if (key.name === 'escape' && this.state.query) {
+          this.state = setQuery(this.state, '');
+          break;
+        }
+        this.quit();
+        return;
+      case 'up':
+      case 'k':
+        this.state = moveCursor(this.state, -1);
+        break;
+      case 'down':
+      case 'j':
+        this.state = moveCursor(this.state, 1);
+        break;
+      case 'pageup':
+        this.state = moveCursor(this.state, -this.listHeight());
+        break;
+      case 'pagedown':
+        this.state = moveCursor(this.state, this.listHeight());
+        break;
+      case 'home':
+        this.state = moveCursor(this.state, -this.state.rows.length);
+        break;
+      case 'end':
+        this.state = moveCursor(this.state, this.state.rows.length);
+        break;
+      case 'space':
+        this.state = moveCursor(toggleSelection(this.state), 1);
+        break;
+      case 'a':
+        this.state = toggleAll(this.state);
+        break;
+      case '/':
+        this.state = setFiltering(this.state, true);
+        break;
+      case 'r':
+        // Keys pressed while the rescan runs are ignored, as during a kill
+        this.busy = true;
+        try {
+          await this.refresh();
+        } finally {
+          this.busy = false;
+        }
+        break;
+      case 'x':
+        // Shift+x arrives as name "x" with the upper-case sequence
+        await this.kill(str === 'X');
+        return;
+      default:
+        return;
+    }
+
+    this.render();
+  }
+
+  /**
+   * Typing into the filter: Enter keeps it, Esc clears it
+   */
+  private handleFilterKey(str: string | undefined, key: Keypress): void {
+    switch (key.name) {
+      case 'return':
+      case 'enter':
+        this.state = setFiltering(this.state, false);
+        return;
+      case 'escape':
+        this.state = setFiltering(setQuery(this.state, ''), false);
+        return;
+      case 'backspace':
+        this.state = setQuery(this.state, this.state.query.slice(0, -1));
+        return;
+      case 'up':
+        this.state = moveCursor(this.state, -1);
+        return;
+      case 'down':
+        this.state = moveCursor(this.state, 1);
+        return;
+    }
+
+    if (str && str.length === 1 && !key.ctrl && !key.meta && str >= ' ') {
+      this.state = setQuery(this.state, this.state.query + str);
+    }
+  }
+
+  /**
+   * Leave the full-screen view and hand the selected listeners to
+   * KillCommand, which shows details, warns about system processes and
+   * confirms as usual. Only their PIDs are killed, not whatever else
+   * shares the port.
+   */
+  private async kill(force: boolean): Promise<void> {
+    const targets = actionTargets(this.state);
+    if (targets.length === 0) {
+      return;
+    }
+
+    this.busy = true;
+    this.leaveScreen();
+
+    try {
+      await this.killCommand.executeForProcesses(
+        targets.map((row) => row.process),
+        { signal: force ? 'SIGKILL' : undefined, trigger: 'ui' }
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(chalk.red(`\n❌ Error: ${message}`));
+    }
+
+    await this.waitForKey(chalk.gray('\nPress any key to return to zkill ui...'));
+    await this.refresh();
+    this.busy = false;
+    this.enterScreen();
+    this.render();
+  }
+
+  /**
+   * Re-scan, keeping the cursor and selection on listeners that still exist
+   */
+  private async refresh(): Promise<void> {
+    const processes = await this.processService.getAllPorts(this.options.protocol);
+    const rows: UiRow[] = processes
+      .sort((a, b) => a.port - b.port)
+      .map((p) => ({
+        process: p,
+        projectName:
+          this.storageService.getPortMapping(p.port, p.workingDirectory)?.projectName ??
+          null,
+        isSystemProcess: this.processService.isCriticalProcess(p),
+      }));
+    this.state = replaceRows(this.state, rows);
+  }
+
+  private enterScreen(): void {
+    this.output.write(ENTER_SCREEN);
+    this.input.setRawMode(true);
+    this.input.resume();
+    this.input.on('keypress', this.onKeypress);
+    this.output.on('resize', this.onResize);
+  }
+
+  private leaveScreen(): void {
+    this.input.removeListener('keypress', this.onKeypress);
+    this.output.removeListener('resize', this.onResize);
+    this.input.setRawMode(false);
+    this.input.pause();
+    this.output.write(LEAVE_SCREEN);
+  }
+
+  private quit(): void {
+    this.leaveScreen();
+    this.finish?.();
+  }
+
+  private waitForKey(message: string): Promise<void> {
+    console.log(message);
+    return new Promise((resolve) => {
+      this.input.setRawMode(true);
+      this.input.resume();
+      this.input.once('keypress', () => {
+        this.input.setRawMode(false);
+        this.input.pause();
+        resolve();
+      });
+    });
+  }
+
+  private listHeight(): number {
+    return Math.max(3, (this.output.rows || 24) - DETAIL_HEIGHT - 5);
+  }
+
+  /**
+   * Draw the whole screen: header, filter, list window, detail pane, help
+   */
+  private render(): void {
+    const width = this.output.columns || 80;
+    const fit = (text: string) =>
+      text.length > width ? text.slice(0, Math.max(0, width - 1)) + '…' : text;
+    const rows = visibleRows(this.state);
+    const selectedCount = this.state.selected.size;
+    const lines: string[] = [];
+
+    lines.push(
+      chalk.bold('🧟 zkill ui') +
+        chalk.gray(
+          `  ${rows.length} of ${this.state.rows.length} listening` +
+            (selectedCount > 0 ? ` · ${selectedCount} selected` : '')
+        )
+    );
+    if (this.state.filtering) {
+      lines.push(chalk.cyan(`/${this.state.query}`) + chalk.inverse(' '));
+    } else if (this.state.query) {
+      lines.push(chalk.gray(`Filter: ${this.state.query}  (/ to edit, Esc to clear)`));
+    } else {
+      lines.push('');
+    }
+    lines.push(
+      chalk.gray(fit(`     ${'PORT'.padEnd(11)}${'PID'.padEnd(9)}${'PROCESS'.padEnd(20)}PROJECT`))
+    );
+
+    // Scroll the list window so the cursor stays visible
+    const height = this.listHeight();
+    const start = Math.min(
+      Math.max(0, this.state.cursor - Math.floor(height / 2)),
+      Math.max(0, rows.length - height)
+    );
+    for (let i = start; i < Math.min(rows.length, start + height); i++) {
+      lines.push(this.formatRow(rows[i], i === this.state.cursor, fit));
+    }
+    if (rows.length === 0) {
+      lines.push(
+        chalk.yellow(
+          this.state.rows.length === 0
+            ? '  No ports currently in use.'
+            : '  No listeners match the filter.'
+        )
+      );
+    }
+    for (let i = Math.max(rows.length, 1); i < height; i++) {
+      lines.push('');
+    }
+
+    lines.push(chalk.gray('─'.repeat(Math.min(width, 80))));
+    lines.push(...this.formatDetails(currentRow(this.state), fit));
+    lines.push(chalk.gray(fit(HELP)));
+
+    this.output.write(CLEAR_SCREEN + lines.join('\n'));
+  }
+
+  private formatRow(
+    row: UiRow,
+    isCursor: boolean,
+    fit: (text: string) => string
+  ): string {
+    const p = row.process;
+    const mark = this.state.selected.has(rowKey(row)) ? '[x]' : '[ ]';
+    const text = fit(
+      `${isCursor ? '›' : ' '} ${mark} ${formatPort(p.port, p.protocol).padEnd(11)}` +
+        `${String(p.pid).padEnd(9)}${p.processName.slice(0, 19).padEnd(20)}` +
+        `${row.projectName ?? ''}` +
+        (row.isSystemProcess ? ' [system]' : '')
+    );
+
+    if (isCursor) {
+      return chalk.inverse(text);
+    }
+    return row.isSystemProcess ? chalk.yellow(text) : text;
+  }
+
+  /**
+   * Detail pane for the cursor row: what `zkill scan --verbose` shows
+   */
+  private formatDetails(
+    row: UiRow | null,
+    fit: (text: string) => string
+  ): string[] {
+    const lines: string[] = [];
+
+    if (row) {
+      const p = row.process;
+      lines.push(chalk.bold(fit(`${p.processName} (PID ${p.pid}) on port ${formatPort(p.port, p.protocol)}`)));
+      lines.push(chalk.cyan(fit(`Command: ${p.command}`)));
+      if (p.user) {
+        lines.push(chalk.cyan(fit(`User: ${p.user}`)));
+      }
+      if (p.addresses && p.addresses.length > 0) {
+        const exposed = isExposed(p) ? ' [exposed]' : '';
+        lines.push(
+          chalk.cyan(fit(`Address: ${p.addresses.map(formatBindAddress).join(', ')}${exposed}`))
+        );
+      }
+      if (row.projectName) {
+        const mapping = this.storageService.getPortMapping(p.port, p.workingDirectory);
+        lines.push(chalk.cyan(fit(`Project: ${row.projectName} (${mapping?.projectPath ?? '?'})`)));
+      }
+      for (const line of describeProcessContext(p)) {
+        lines.push(chalk.gray(fit(line)));
+      }
+      if (row.isSystemProcess) {
+        lines.push(chalk.yellow('⚠️  System process: killing it may cause instability'));
+      }
+    }
+
+    // Keep the help line at the same height regardless of the details
+    while (lines.length < DETAIL_HEIGHT - 2) {
+      lines.push('');
+    }
+    return lines.slice(0, DETAIL_HEIGHT - 2);
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Where zkill keeps config.json, history and snapshots: --config,
+ * ZKILL_CONFIG, ZKILL_HOME, XDG base directories on Linux, else ~/.zkill.
+ * Resolved before the services start, since they open files right away.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { InvalidInputError } from "./exit-codes";
+
+export type ConfigLocationSource =
+  | "--config"
+  | "ZKILL_CONFIG"
+  | "ZKILL_HOME"
+  | "XDG"
+  | "default";
+
+export type ReadOnlySource = "--read-only" | "ZKILL_READ_ONLY";
+
+export interface ConfigLocation {
+  configPath: string;
+  source: ConfigLocationSource;
+  dataDir: string; // history.jsonl and snapshots/
+  readOnly: boolean;
+  readOnlySource: ReadOnlySource | null;
+}
+
+export interface ConfigLocationInputs {
+  configFlag?: string;
+  readOnlyFlag?: boolean;
+  env?: NodeJS.ProcessEnv;
+  platform?: NodeJS.Platform;
+  homeDir?: string;
+  exists?: (p: string) => boolean;
+}
+
+/**
+ * Thrown when something would be written while zkill runs read-only
+ */
+export class ReadOnlyError extends InvalidInputError {
+  constructor(readonly filePath: string) {
+    super(`Not writing ${filePath}: zkill is read-only (--read-only or ZKILL_READ_ONLY)`);
+    this.name = "ReadOnlyError";
+  }
+}
+
+const TRUE_WORDS = ["1", "true", "yes", "on"];
+
+/**
+ * Resolve the config file and data directory, most specific first. An
+ * existing ~/.zkill keeps being used on Linux so upgrades don't lose it.
+ */
+export function resolveConfigLocation(inputs: ConfigLocationInputs = {}): ConfigLocation {
+  const env = inputs.env ?? process.env;
+  const homeDir = inputs.homeDir ?? os.homedir();
+  const exists = inputs.exists ?? fs.existsSync;
+
+  let base: { dir: string; dataDir: string; source: ConfigLocationSource };
+  const legacyDir = path.join(homeDir, ".zkill");
+  if (env.ZKILL_HOME) {
+    const dir = path.resolve(env.ZKILL_HOME);
+    base = { dir, dataDir: dir, source: "ZKILL_HOME" };
+  } else if ((inputs.platform ?? process.platform) === "linux" && !exists(legacyDir)) {
+    const configHome = xdgDir(env.XDG_CONFIG_HOME, path.join(homeDir, ".config"));
+    const dataHome = xdgDir(env.XDG_DATA_HOME, path.join(homeDir, ".local", "share"));
+    base = {
+      dir: path.join(configHome, "zkill"),
+      dataDir: path.join(dataHome, "zkill"),
+      source: "XDG",
+    };
+  } else {
+    base = { dir: legacyDir, dataDir: legacyDir, source: "default" };
+  }
+
+  const file: { configPath: string; source: ConfigLocationSource } = inputs.configFlag
+    ? { configPath: path.resolve(inputs.configFlag), source: "--config" }
+    : env.ZKILL_CONFIG
+      ? { configPath: path.resolve(env.ZKILL_CONFIG), source: "ZKILL_CONFIG" }
+      : { configPath: path.join(base.dir, "config.json"), source: base.source };
+
+  const readOnlySource: ReadOnlySource | null = inputs.readOnlyFlag
+    ? "--read-only"
+    : TRUE_WORDS.includes((env.ZKILL_READ_ONLY ?? "").trim().toLowerCase())
+      ? "ZKILL_READ_ONLY"
+      : null;
+
+  return {
+    ...file,
+    dataDir: base.dataDir,
+    readOnly: readOnlySource !== null,
+    readOnlySource,
+  };
+}
+
+/**
+ * How a source reads in `zkill info`
+ */
+export function describeConfigSource(source: ConfigLocationSource): string {
+  switch (source) {
+    case "--config":
+      return "--config";
+    case "ZKILL_CONFIG":
+    case "ZKILL_HOME":
+      return `$${source}`;
+    case "XDG":
+      return "XDG base directory";
+    case "default":
+      return "default";
+  }
+}
+
+/**
+ * --config and --read-only from the raw command line; they are needed
+ * before commander parses it
+ */
+export function configArgumentsFrom(argv: readonly string[]): {
+  configFlag?: string;
+  readOnlyFlag: boolean;
+} {
+  let configFlag: string | undefined;
+  let readOnlyFlag = false;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      break;
+    }
+    if (arg === "--config") {
+      configFlag = argv[++i];
+    } else if (arg.startsWith("--config=")) {
+      configFlag = arg.slice("--config=".length);
+    } else if (arg === "--read-only") {
+      readOnlyFlag = true;
+    }
+  }
+  return { configFlag, readOnlyFlag };
+}
+
+/** XDG variables must hold absolute paths; anything else is ignored */
+function xdgDir(value: string | undefined, fallback: string): string {
+  return value && path.isAbsolute(value) ? value : fallback;
+}
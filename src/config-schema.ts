@@ -0,0 +1,423 @@
+/**
+ * Schema of ~/.zkill/config.json: the numbered migrations that bring an
+ * older file up to date, and the checks that repair fields zkill can't use.
+ */
+
+import path from "path";
+import type { Config, PortMapping, ProtectionRule } from "./types";
+import {
+  CONFIG_KEYS,
+  DEFAULT_SETTINGS,
+  ConfigKey,
+  ConfigSettings,
+  configValueError,
+  formatConfigValue,
+  parseConfigValue,
+} from "./config-settings";
+import { samePortMapping } from "./port-mappings";
+import {
+  normalizeProtectionRule,
+  parseProtectionKind,
+  sameProtectionRule,
+} from "./protection";
+
+type RawConfig = Record<string, unknown>;
+
+/**
+ * One step of the chain: turns a file of the previous schema version into
+ * `version`. Works on parsed JSON; validation runs after the last step.
+ */
+export interface ConfigMigration {
+  version: number;
+  description: string;
+  migrate(raw: RawConfig): RawConfig;
+}
+
+export const CONFIG_MIGRATIONS: readonly ConfigMigration[] = [
+  {
+    version: 1,
+    description: "Add kill confirmation (on by default)",
+    migrate: (raw) => ({
+      portMappings: raw.portMappings ?? [],
+      autoKillEnabled: raw.autoKillEnabled || false,
+      confirmKill: true,
+    }),
+  },
+  {
+    version: 2,
+    description: "Key port mappings on project and port, with first-seen time and use count",
+    migrate: (raw) => {
+      if (!Array.isArray(raw.portMappings)) {
+        return raw;
+      }
+      const portMappings: RawConfig[] = [];
+      for (const m of raw.portMappings as RawConfig[]) {
+        if (!isObject(m)) {
+          portMappings.push(m);
+          continue;
+        }
+        // A hand-edited v1 file may repeat a port; keep the newest per project
+        const duplicate = portMappings.findIndex(
+          (p) => isObject(p) && p.port === m.port && p.projectPath === m.projectPath
+        );
+        if (duplicate !== -1) {
+          if (timeOf(portMappings[duplicate].lastUsed) >= timeOf(m.lastUsed)) {
+            continue;
+          }
+          portMappings.splice(duplicate, 1);
+        }
+        portMappings.push({ ...m, firstSeen: m.lastUsed, useCount: 1 });
+      }
+      return { ...raw, portMappings };
+    },
+  },
+];
+
+/**
+ * Schema version this zkill writes
+ */
+export const CONFIG_SCHEMA_VERSION =
+  CONFIG_MIGRATIONS[CONFIG_MIGRATIONS.length - 1].version;
+
+/**
+ * A field that could not be used as found, and what was done about it
+ */
+export interface ConfigFix {
+  problem: string;
+  repair: string;
+}
+
+/**
+ * What loading a config.json took; empty migrations and fixes mean the
+ * file is current and valid
+ */
+export interface ConfigRepairReport {
+  fromVersion: number;
+  toVersion: number;
+  migrations: Pick<ConfigMigration, "version" | "description">[];
+  fixes: ConfigFix[];
+}
+
+/**
+ * Report for a config that needed nothing
+ */
+export function emptyRepairReport(
+  version: number = CONFIG_SCHEMA_VERSION
+): ConfigRepairReport {
+  return { fromVersion: version, toVersion: version, migrations: [], fixes: [] };
+}
+
+/**
+ * Whether saving the config would change the file
+ */
+export function needsRepair(report: ConfigRepairReport): boolean {
+  return report.migrations.length > 0 || report.fixes.length > 0;
+}
+
+/**
+ * Bring parsed config.json up to the current schema and repair what can't
+ * be used. Throws when the root is not an object (nothing to salvage).
+ */
+export function migrateAndRepairConfig(
+  value: unknown,
+  now: Date = new Date()
+): { config: Config; report: ConfigRepairReport } {
+  if (!isObject(value)) {
+    throw new Error("root must be a JSON object");
+  }
+
+  const fixes: ConfigFix[] = [];
+  const fromVersion = schemaVersionOf(value, fixes);
+  const migrations = CONFIG_MIGRATIONS.filter((m) => m.version > fromVersion);
+  const raw = migrations.reduce((current, m) => m.migrate(current), value);
+
+  const config = {
+    ...raw,
+    portMappings: repairPortMappings(raw.portMappings, fixes, now),
+    ...repairSettings(raw, fixes),
+    protections: repairProtections(raw.protections, fixes),
+    // A file from a newer zkill keeps its version; fields it added are kept too
+    version: Math.max(fromVersion, CONFIG_SCHEMA_VERSION),
+  } as Config;
+
+  return {
+    config,
+    report: {
+      fromVersion,
+      toVersion: config.version,
+      migrations: migrations.map(({ version, description }) => ({ version, description })),
+      fixes,
+    },
+  };
+}
+
+/**
+ * Schema version of a file: missing is 0, "1.0.0" (as written before
+ * versions were numbers) is 1
+ */
+function schemaVersionOf(raw: RawConfig, fixes: ConfigFix[]): number {
+  const version = raw.version;
+  if (version === undefined || version === null || version === "" || version === 0) {
+    return 0;
+  }
+  if (typeof version === "number" && Number.isInteger(version) && version > 0) {
+    return version;
+  }
+  const match = typeof version === "string" ? /^(\d+)(\.\d+)*$/.exec(version) : null;
+  if (match) {
+    return parseInt(match[1], 10);
+  }
+
+  fixes.push({
+    problem: `version ${JSON.stringify(version)} is not a schema version`,
+    repair: `treated as version ${CONFIG_SCHEMA_VERSION}`,
+  });
+  return CONFIG_SCHEMA_VERSION;
+}
+
+function repairSettings(raw: RawConfig, fixes: ConfigFix[]): ConfigSettings {
+  const settings = { ...DEFAULT_SETTINGS };
+  for (const key of CONFIG_KEYS) {
+    const value = raw[key];
+    if (value === undefined) {
+      continue; // added after the file was written
+    }
+    const error = configValueError(key, value);
+    if (!error) {
+      setSetting(settings, key, value as Config[ConfigKey]);
+      continue;
+    }
+
+    // "5000" or "true" typed by hand still means what it says
+    const parsed = typeof value === "string" ? parseConfigValue(key, value) : null;
+    if (parsed?.ok) {
+      setSetting(settings, key, parsed.value);
+    }
+    fixes.push({
+      problem: `${error} (got ${JSON.stringify(value)})`,
+      repair: parsed?.ok
+        ? `converted to ${formatConfigValue(key, parsed.value)}`
+        : `reset to ${formatConfigValue(key, DEFAULT_SETTINGS[key])}`,
+    });
+  }
+  return settings;
+}
+
+function setSetting<K extends ConfigKey>(
+  settings: ConfigSettings,
+  key: K,
+  value: Config[ConfigKey]
+): void {
+  settings[key] = value as ConfigSettings[K];
+}
+
+function repairPortMappings(
+  value: unknown,
+  fixes: ConfigFix[],
+  now: Date
+): PortMapping[] {
+  if (!Array.isArray(value)) {
+    if (value !== undefined) {
+      fixes.push({
+        problem: "portMappings must be an array",
+        repair: "replaced with an empty list",
+      });
+    }
+    return [];
+  }
+
+  const mappings: PortMapping[] = [];
+  value.forEach((entry: unknown, index) => {
+    const mapping = repairPortMapping(entry, `portMappings[${index}]`, fixes, now);
+    if (!mapping) {
+      return;
+    }
+
+    const duplicate = mappings.findIndex((m) => samePortMapping(m, mapping));
+    if (duplicate !== -1) {
+      fixes.push({
+        problem: `portMappings[${index}] repeats port ${mapping.port} for ${mapping.projectPath}`,
+        repair: "kept the most recently used",
+      });
+      if (mappings[duplicate].lastUsed >= mapping.lastUsed) {
+        return;
+      }
+      mappings.splice(duplicate, 1);
+    }
+    mappings.push(mapping);
+  });
+  return mappings;
+}
+
+function repairPortMapping(
+  entry: unknown,
+  label: string,
+  fixes: ConfigFix[],
+  now: Date
+): PortMapping | null {
+  if (!isObject(entry)) {
+    fixes.push({ problem: `${label} is not an object`, repair: "removed" });
+    return null;
+  }
+
+  const { configFile: _configFile, ...m } = entry;
+  const port = parsePort(m.port);
+  if (port === null) {
+    fixes.push({
+      problem: `${label}.port must be a number between 1 and 65535 (got ${JSON.stringify(m.port)})`,
+      repair: "removed the mapping",
+    });
+    return null;
+  }
+  if (port !== m.port) {
+    fixes.push({
+      problem: `${label}.port is the string ${JSON.stringify(m.port)}`,
+      repair: `converted to ${port}`,
+    });
+  }
+  if (typeof m.projectPath !== "string" || m.projectPath.trim() === "") {
+    fixes.push({
+      problem: `${label} (port ${port}) has no projectPath`,
+      repair: "removed the mapping",
+    });
+    return null;
+  }
+  const projectPath = m.projectPath;
+
+  let projectName = m.projectName;
+  if (typeof projectName !== "string" || projectName.trim() === "") {
+    projectName = path.basename(projectPath);
+    fixes.push({
+      problem: `${label}.projectName is missing`,
+      repair: `named it "${projectName}" after its directory`,
+    });
+  }
+
+  let autoKill = m.autoKill;
+  if (typeof autoKill !== "boolean") {
+    autoKill = false;
+    fixes.push({
+      problem:
+        m.autoKill === undefined
+          ? `${label}.autoKill is missing`
+          : `${label}.autoKill must be true or false (got ${JSON.stringify(m.autoKill)})`,
+      repair: "set to false",
+    });
+  }
+
+  let lastUsed = parseDate(m.lastUsed);
+  if (!lastUsed) {
+    lastUsed = now;
+    fixes.push({
+      problem: `${label}.lastUsed is not a date (got ${JSON.stringify(m.lastUsed)})`,
+      repair: "set to now",
+    });
+  }
+  let firstSeen = parseDate(m.firstSeen);
+  if (!firstSeen) {
+    firstSeen = lastUsed;
+    fixes.push({
+      problem: `${label}.firstSeen is not a date (got ${JSON.stringify(m.firstSeen)})`,
+      repair: "set to lastUsed",
+    });
+  }
+
+  let useCount = m.useCount;
+  if (typeof useCount !== "number" || !Number.isInteger(useCount) || useCount < 0) {
+    useCount = 1;
+    fixes.push({
+      problem: `${label}.useCount must be a whole number (got ${JSON.stringify(m.useCount)})`,
+      repair: "set to 1",
+    });
+  }
+
+  const { role, ...rest } = m;
+  if (role !== undefined && typeof role !== "string") {
+    fixes.push({ problem: `${label}.role must be a string`, repair: "removed the role" });
+  }
+
+  return {
+    ...rest,
+    port,
+    projectName: projectName as string,
+    projectPath,
+    firstSeen,
+    lastUsed,
+    useCount: useCount as number,
+    autoKill: autoKill as boolean,
+    ...(typeof role === "string" && { role }),
+  };
+}
+
+function repairProtections(value: unknown, fixes: ConfigFix[]): ProtectionRule[] {
+  if (!Array.isArray(value)) {
+    if (value !== undefined) {
+      fixes.push({
+        problem: "protections must be an array",
+        repair: "replaced with an empty list",
+      });
+    }
+    return [];
+  }
+
+  const rules: ProtectionRule[] = [];
+  value.forEach((entry: unknown, index) => {
+    const label = `protections[${index}]`;
+    const kind =
+      isObject(entry) && typeof entry.kind === "string"
+        ? parseProtectionKind(entry.kind)
+        : null;
+    if (!kind) {
+      fixes.push({
+        problem: `${label} must have a kind of port, process, user or service`,
+        repair: "removed",
+      });
+      return;
+    }
+
+    const raw = (entry as RawConfig).value;
+    const normalized = normalizeProtectionRule(
+      kind,
+      typeof raw === "string" || typeof raw === "number" ? String(raw) : ""
+    );
+    if (!normalized.ok) {
+      fixes.push({ problem: `${label}: ${normalized.error}`, repair: "removed" });
+      return;
+    }
+    if (rules.some((r) => sameProtectionRule(r, normalized.rule))) {
+      fixes.push({
+        problem: `${label} repeats ${kind} ${normalized.rule.value}`,
+        repair: "removed",
+      });
+      return;
+    }
+    rules.push(normalized.rule);
+  });
+  return rules;
+}
+
+function parsePort(value: unknown): number | null {
+  const port =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && /^\s*\d+\s*$/.test(value)
+        ? parseInt(value, 10)
+        : NaN;
+  return Number.isInteger(port) && port >= 1 && port <= 65535 ? port : null;
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function timeOf(value: unknown): number {
+  return parseDate(value)?.getTime() ?? 0;
+}
+
+function isObject(value: unknown): value is RawConfig {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
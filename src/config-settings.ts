@@ -0,0 +1,152 @@
+/**
+ * Scalar settings in config.json that `zkill config` and .zkillrc files can
+ * change; port mappings and protections have their own commands.
+ */
+
+import type { Config, KillSettings } from "./types";
+import { KILL_SIGNALS, isKillSignal, parseKillSignal } from "./platform/kill-signals";
+
+export const CONFIG_KEYS = [
+  "autoKillEnabled",
+  "confirmKill",
+  "killSignal",
+  "killTimeout",
+  "escalate",
+  "respawnWindow",
+] as const;
+
+export type ConfigKey = (typeof CONFIG_KEYS)[number];
+
+export type ConfigSettings = Pick<Config, ConfigKey>;
+
+/**
+ * Kill defaults used when the config does not override them
+ */
+export const DEFAULT_KILL_SETTINGS: KillSettings = {
+  signal: "SIGTERM",
+  timeoutMs: 3000,
+  escalate: true,
+  respawnWindowMs: 1000,
+};
+
+/**
+ * Values `zkill config unset` and `zkill config reset` go back to, and that
+ * a config.json without the setting uses
+ */
+export const DEFAULT_SETTINGS: ConfigSettings = {
+  autoKillEnabled: false,
+  confirmKill: true,
+  killSignal: DEFAULT_KILL_SETTINGS.signal,
+  killTimeout: DEFAULT_KILL_SETTINGS.timeoutMs,
+  escalate: DEFAULT_KILL_SETTINGS.escalate,
+  respawnWindow: DEFAULT_KILL_SETTINGS.respawnWindowMs,
+};
+
+export type ParseConfigValueResult<K extends ConfigKey = ConfigKey> =
+  | { ok: true; value: Config[K] }
+  | { ok: false; error: string };
+
+export const CONFIG_KEY_DESCRIPTIONS: Record<ConfigKey, string> = {
+  autoKillEnabled: "Kill other projects' ports on zkill auto check",
+  confirmKill: "Ask before killing",
+  killSignal: "First signal sent by zkill <port>",
+  killTimeout: "Milliseconds to wait for exit before escalating",
+  escalate: "Send SIGKILL when the first signal times out",
+  respawnWindow: "Milliseconds to watch a freed port for a restart (0 = off)",
+};
+
+const BOOLEAN_KEYS: readonly ConfigKey[] = ["autoKillEnabled", "confirmKill", "escalate"];
+const MILLISECOND_KEYS: readonly ConfigKey[] = ["killTimeout", "respawnWindow"];
+
+const TRUE_WORDS = ["true", "on", "yes", "1"];
+const FALSE_WORDS = ["false", "off", "no", "0"];
+
+/**
+ * Parse a setting name (case-insensitive); null when it is not one
+ */
+export function parseConfigKey(value: string): ConfigKey | null {
+  const normalized = value.trim().toLowerCase();
+  return CONFIG_KEYS.find((key) => key.toLowerCase() === normalized) ?? null;
+}
+
+/**
+ * Parse a value typed on the command line for a setting
+ */
+export function parseConfigValue<K extends ConfigKey>(
+  key: K,
+  raw: string
+): ParseConfigValueResult<K> {
+  const value = raw.trim();
+
+  if (BOOLEAN_KEYS.includes(key)) {
+    const word = value.toLowerCase();
+    if (TRUE_WORDS.includes(word)) {
+      return { ok: true, value: true as Config[K] };
+    }
+    if (FALSE_WORDS.includes(word)) {
+      return { ok: true, value: false as Config[K] };
+    }
+    return { ok: false, error: `${key} must be true or false (got "${raw}")` };
+  }
+
+  if (MILLISECOND_KEYS.includes(key)) {
+    return /^\d+$/.test(value)
+      ? { ok: true, value: parseInt(value, 10) as Config[K] }
+      : {
+          ok: false,
+          error: `${key} must be a whole number of milliseconds (got "${raw}")`,
+        };
+  }
+
+  const signal = parseKillSignal(value);
+  return signal
+    ? { ok: true, value: signal as Config[K] }
+    : {
+        ok: false,
+        error: `${key} must be one of: ${Object.keys(KILL_SIGNALS).join(", ")} (got "${raw}")`,
+      };
+}
+
+/**
+ * Why a stored (JSON) value is not valid for a setting; null when it is
+ */
+export function configValueError(key: ConfigKey, value: unknown): string | null {
+  if (BOOLEAN_KEYS.includes(key)) {
+    return typeof value === "boolean" ? null : `${key} must be true or false`;
+  }
+  if (MILLISECOND_KEYS.includes(key)) {
+    return typeof value === "number" && Number.isInteger(value) && value >= 0
+      ? null
+      : `${key} must be a whole number of milliseconds`;
+  }
+  return typeof value === "string" && isKillSignal(value)
+    ? null
+    : `${key} must be one of: ${Object.keys(KILL_SIGNALS).join(", ")}`;
+}
+
+/**
+ * How a setting reads in human output: "Enabled", "5000 ms", "SIGINT"
+ */
+export function formatConfigValue(key: ConfigKey, value: Config[ConfigKey]): string {
+  if (typeof value === "boolean") {
+    return value ? "Enabled" : "Disabled";
+  }
+  return MILLISECOND_KEYS.includes(key) ? `${value} ms` : String(value);
+}
+
+/**
+ * One setting in `zkill config get|list --json`
+ */
+export interface ConfigSettingEntry {
+  key: ConfigKey;
+  value: Config[ConfigKey];
+  default: Config[ConfigKey];
+  source: string; // config.json or the .zkillrc that sets it
+}
+
+export interface ConfigJsonDocument {
+  schemaVersion: "1";
+  configPath: string;
+  projectConfigPath: string | null;
+  settings: ConfigSettingEntry[];
+}
@@ -0,0 +1,67 @@
+/**
+ * Process exit codes for zkill.
+ *
+ * | Code | Name          | Meaning                                                   |
+ * | ---- | ------------- | --------------------------------------------------------- |
+ * | 0    | SUCCESS       | Everything requested was killed (or nothing to do)        |
+ * | 1    | ERROR         | Unexpected error                                          |
+ * | 2    | INVALID_INPUT | Bad arguments (port expression, pattern, action, ...)     |
+ * | 3    | NOT_FOUND     | Nothing was listening on any requested port / pattern     |
+ * | 4    | CANCELLED     | The user declined the confirmation prompt                 |
+ * | 5    | KILL_FAILED   | No process could be terminated (usually permission denied)|
+ * | 6    | PARTIAL       | Some processes were killed, others failed or were skipped |
+ * | 7    | PROTECTED     | Every target was skipped because zkill protect lists it   |
+ *
+ * Keep this table in sync with the README.
+ */
+
+import type { KillStatus } from "./types";
+
+export const ExitCode = {
+  SUCCESS: 0,
+  ERROR: 1,
+  INVALID_INPUT: 2,
+  NOT_FOUND: 3,
+  CANCELLED: 4,
+  KILL_FAILED: 5,
+  PARTIAL: 6,
+  PROTECTED: 7,
+} as const;
+
+export type ExitCode = (typeof ExitCode)[keyof typeof ExitCode];
+
+/**
+ * Thrown for user input errors; the CLI exits with INVALID_INPUT instead of ERROR.
+ */
+export class InvalidInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidInputError";
+  }
+}
+
+/**
+ * Collapse per-port kill statuses into one exit code.
+ * Ports that were already free do not count against a run that killed
+ * everything else: the requested ports are all available afterwards.
+ */
+export function exitCodeForKillStatuses(statuses: KillStatus[]): ExitCode {
+  const killed = statuses.filter((s) => s === "killed").length;
+  const failed = statuses.filter((s) => s === "failed").length;
+  const cancelled = statuses.filter((s) => s === "cancelled").length;
+  const protectedCount = statuses.filter((s) => s === "protected").length;
+
+  if (killed > 0) {
+    return failed + cancelled + protectedCount > 0 ? ExitCode.PARTIAL : ExitCode.SUCCESS;
+  }
+  if (failed > 0) {
+    return ExitCode.KILL_FAILED;
+  }
+  if (cancelled > 0) {
+    return ExitCode.CANCELLED;
+  }
+  if (protectedCount > 0) {
+    return ExitCode.PROTECTED;
+  }
+  return ExitCode.NOT_FOUND;
+}
@@ -0,0 +1,427 @@
+/**
+ * Versioned JSON output for `zkill <ports...> --json`.
+ * Bump schemaVersion only for breaking shape changes; additive fields are OK within the same version.
+ */
+
+import type {
+  KillOutcome,
+  KillStatus,
+  PortProtocol,
+  ProtectionRule,
+  SupervisorKind,
+} from "./types";
+import { PROTECTION_KINDS } from "./protection";
+
+export const KILL_JSON_SCHEMA_VERSION = "1" as const;
+
+export type KillJsonSchemaVersion = typeof KILL_JSON_SCHEMA_VERSION;
+
+export interface KillJsonRequest {
+  /** Ports as requested (after range/list expansion); null for --name */
+  ports: number[] | null;
+  name: string | null;
+  /** --project: ports above are the ones mapped to it */
+  project: string | null;
+  force: boolean;
+}
+
+export interface KillJsonProcess {
+  pid: number;
+  processName: string;
+  command: string;
+  user: string | null;
+  protocol: PortProtocol;
+}
+
+export interface KillJsonRespawn {
+  pid: number;
+  processName: string;
+  supervisor: {
+    kind: SupervisorKind;
+    name: string;
+    pid: number | null;
+    stopCommand: string;
+  } | null;
+}
+
+export interface KillJsonResult {
+  port: number;
+  status: KillStatus;
+  process: KillJsonProcess | null;
+  isSystemProcess: boolean;
+  /** Last termination method attempted; null when no kill was attempted */
+  method: "graceful" | "force" | null;
+  success: boolean;
+  error: string | null;
+  /** Set when another process bound the port again right after the kill */
+  respawn: KillJsonRespawn | null;
+  /** The matching rule when the port was skipped (status "protected") */
+  protection: ProtectionRule | null;
+}
+
+export interface KillJsonSummary {
+  killed: number;
+  failed: number;
+  notFound: number;
+  cancelled: number;
+  protected: number;
+}
+
+export interface KillJsonDocument {
+  schemaVersion: KillJsonSchemaVersion;
+  meta: {
+    zkillVersion: string;
+    platform: string;
+  };
+  request: KillJsonRequest;
+  summary: KillJsonSummary;
+  count: number;
+  results: KillJsonResult[];
+}
+
+export interface BuildKillJsonInput {
+  outcomes: KillOutcome[];
+  zkillVersion: string;
+  platform: string;
+  request: {
+    ports?: number[];
+    name?: string;
+    project?: string;
+    force: boolean;
+  };
+}
+
+const KILL_STATUSES: readonly KillStatus[] = [
+  "killed",
+  "failed",
+  "not-found",
+  "cancelled",
+  "protected",
+];
+
+const SUMMARY_KEYS: readonly (keyof KillJsonSummary)[] = [
+  "killed",
+  "failed",
+  "notFound",
+  "cancelled",
+  "protected",
+];
+
+function toJsonResult(o: KillOutcome): KillJsonResult {
+  const respawn = o.result?.respawns?.find((r) => r.port === o.port);
+  return {
+    port: o.port,
+    status: o.status,
+    process: o.process
+      ? {
+          pid: o.process.pid,
+          processName: o.process.processName,
+          command: o.process.command,
+          user: o.process.user ?? null,
+          protocol: o.process.protocol ?? "tcp",
+        }
+      : null,
+    isSystemProcess: o.isSystemProcess,
+    method: o.result?.method ?? null,
+    success: o.status === "killed",
+    error: o.error,
+    respawn: respawn
+      ? {
+          pid: respawn.pid,
+          processName: respawn.processName,
+          supervisor: respawn.supervisor ? { ...respawn.supervisor } : null,
+        }
+      : null,
+    protection: o.protection ? { ...o.protection } : null,
+  };
+}
+
+/**
+ * Builds the kill JSON document. Results keep the order of the outcomes passed in.
+ */
+export function buildKillJsonDocument(
+  input: BuildKillJsonInput
+): KillJsonDocument {
+  const { outcomes, zkillVersion, platform, request } = input;
+  const results = outcomes.map(toJsonResult);
+
+  const countStatus = (status: KillStatus) =>
+    results.filter((r) => r.status === status).length;
+
+  return {
+    schemaVersion: KILL_JSON_SCHEMA_VERSION,
+    meta: {
+      zkillVersion,
+      platform,
+    },
+    request: {
+      ports: request.ports ?? null,
+      name: request.name ?? null,
+      project: request.project ?? null,
+      force: request.force,
+    },
+    summary: {
+      killed: countStatus("killed"),
+      failed: countStatus("failed"),
+      notFound: countStatus("not-found"),
+      cancelled: countStatus("cancelled"),
+      protected: countStatus("protected"),
+    },
+    count: results.length,
+    results,
+  };
+}
+
+function isNullableString(v: unknown): v is string | null {
+  return v === null || typeof v === "string";
+}
+
+function isPort(v: unknown): boolean {
+  return typeof v === "number" && Number.isInteger(v) && v >= 1 && v <= 65535;
+}
+
+function validateProcess(p: unknown, path: string, errors: string[]): void {
+  if (p === null) {
+    return;
+  }
+  if (typeof p !== "object" || Array.isArray(p)) {
+    errors.push(`${path} must be null or an object`);
+    return;
+  }
+  const o = p as Record<string, unknown>;
+  if (typeof o.pid !== "number" || !Number.isFinite(o.pid) || o.pid < 1) {
+    errors.push(`${path}.pid must be a finite number ≥ 1`);
+  }
+  if (typeof o.processName !== "string") {
+    errors.push(`${path}.processName must be a string`);
+  }
+  if (typeof o.command !== "string") {
+    errors.push(`${path}.command must be a string`);
+  }
+  if (!isNullableString(o.user)) {
+    errors.push(`${path}.user must be null or string`);
+  }
+  // Added after v1 shipped: optional for older producers
+  if ("protocol" in o && o.protocol !== "tcp" && o.protocol !== "udp") {
+    errors.push(`${path}.protocol must be "tcp" or "udp"`);
+  }
+}
+
+function validateRespawn(r: unknown, path: string, errors: string[]): void {
+  if (r === null) {
+    return;
+  }
+  if (typeof r !== "object" || Array.isArray(r)) {
+    errors.push(`${path} must be null or an object`);
+    return;
+  }
+  const o = r as Record<string, unknown>;
+  if (typeof o.pid !== "number" || !Number.isFinite(o.pid) || o.pid < 1) {
+    errors.push(`${path}.pid must be a finite number ≥ 1`);
+  }
+  if (typeof o.processName !== "string") {
+    errors.push(`${path}.processName must be a string`);
+  }
+  if (o.supervisor === null) {
+    return;
+  }
+  if (
+    !o.supervisor ||
+    typeof o.supervisor !== "object" ||
+    Array.isArray(o.supervisor)
+  ) {
+    errors.push(`${path}.supervisor must be null or an object`);
+    return;
+  }
+  const sup = o.supervisor as Record<string, unknown>;
+  if (typeof sup.kind !== "string" || typeof sup.name !== "string") {
+    errors.push(`${path}.supervisor.kind and .name must be strings`);
+  }
+  if (sup.pid !== null && typeof sup.pid !== "number") {
+    errors.push(`${path}.supervisor.pid must be null or number`);
+  }
+  if (typeof sup.stopCommand !== "string") {
+    errors.push(`${path}.supervisor.stopCommand must be a string`);
+  }
+}
+
+function validateResultEntry(
+  r: unknown,
+  index: number,
+  errors: string[]
+): void {
+  const path = `results[${index}]`;
+  if (!r || typeof r !== "object" || Array.isArray(r)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  const o = r as Record<string, unknown>;
+  const requiredKeys: (keyof KillJsonResult)[] = [
+    "port",
+    "status",
+    "process",
+    "isSystemProcess",
+    "method",
+    "success",
+    "error",
+  ];
+  for (const k of requiredKeys) {
+    if (!(k in o)) {
+      errors.push(`${path} missing key "${k}"`);
+    }
+  }
+  if (!isPort(o.port)) {
+    errors.push(`${path}.port must be a number 1–65535`);
+  }
+  if (!KILL_STATUSES.includes(o.status as KillStatus)) {
+    errors.push(`${path}.status must be one of ${KILL_STATUSES.join(", ")}`);
+  }
+  validateProcess(o.process, `${path}.process`, errors);
+  if (typeof o.isSystemProcess !== "boolean") {
+    errors.push(`${path}.isSystemProcess must be boolean`);
+  }
+  if (o.method !== null && o.method !== "graceful" && o.method !== "force") {
+    errors.push(`${path}.method must be null, "graceful" or "force"`);
+  }
+  if (typeof o.success !== "boolean") {
+    errors.push(`${path}.success must be boolean`);
+  } else if (o.success !== (o.status === "killed")) {
+    errors.push(`${path}.success must be true exactly when status is "killed"`);
+  }
+  if (!isNullableString(o.error)) {
+    errors.push(`${path}.error must be null or string`);
+  }
+  // Added after v1 shipped: optional for older producers
+  if ("respawn" in o) {
+    validateRespawn(o.respawn, `${path}.respawn`, errors);
+  }
+  // Added after v1 shipped: optional for older producers
+  if ("protection" in o && o.protection !== null) {
+    const p = o.protection as Record<string, unknown> | undefined;
+    if (
+      !p ||
+      typeof p !== "object" ||
+      !PROTECTION_KINDS.includes(p.kind as ProtectionRule["kind"]) ||
+      typeof p.value !== "string"
+    ) {
+      errors.push(`${path}.protection must be null or { kind, value }`);
+    } else if (o.status !== "protected" && o.status !== "cancelled") {
+      // Older producers reported protected ports as "cancelled"
+      errors.push(`${path}.protection is only set when status is "protected"`);
+    }
+  } else if (o.status === "protected") {
+    errors.push(`${path}.protection must name the rule when status is "protected"`);
+  }
+  if (o.status === "not-found" && o.process !== null) {
+    errors.push(`${path}.process must be null when status is "not-found"`);
+  }
+}
+
+/**
+ * Returns human-readable validation errors for a parsed JSON value against
+ * kill JSON schema v1. Empty array means the payload matches the contract
+ * consumers should rely on for `zkill <ports...> --json`.
+ */
+export function killJsonV1ValidationErrors(value: unknown): string[] {
+  const errors: string[] = [];
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    errors.push("root must be a JSON object");
+    return errors;
+  }
+  const root = value as Record<string, unknown>;
+
+  if (root.schemaVersion !== KILL_JSON_SCHEMA_VERSION) {
+    errors.push(`schemaVersion must be "${KILL_JSON_SCHEMA_VERSION}"`);
+  }
+
+  if (!root.meta || typeof root.meta !== "object" || Array.isArray(root.meta)) {
+    errors.push("meta must be an object");
+  } else {
+    const m = root.meta as Record<string, unknown>;
+    if (typeof m.zkillVersion !== "string" || m.zkillVersion.length === 0) {
+      errors.push("meta.zkillVersion must be a non-empty string");
+    }
+    if (typeof m.platform !== "string" || m.platform.length === 0) {
+      errors.push("meta.platform must be a non-empty string");
+    }
+  }
+
+  if (
+    !root.request ||
+    typeof root.request !== "object" ||
+    Array.isArray(root.request)
+  ) {
+    errors.push("request must be an object");
+  } else {
+    const req = root.request as Record<string, unknown>;
+    if (
+      req.ports !== null &&
+      (!Array.isArray(req.ports) || !req.ports.every(isPort))
+    ) {
+      errors.push("request.ports must be null or an array of ports");
+    }
+    if (!isNullableString(req.name)) {
+      errors.push("request.name must be null or string");
+    }
+    // Added after v1 shipped: optional for older producers
+    if ("project" in req && !isNullableString(req.project)) {
+      errors.push("request.project must be null or string");
+    }
+    if (typeof req.force !== "boolean") {
+      errors.push("request.force must be boolean");
+    }
+  }
+
+  let summary: Record<string, unknown> | null = null;
+  if (
+    !root.summary ||
+    typeof root.summary !== "object" ||
+    Array.isArray(root.summary)
+  ) {
+    errors.push("summary must be an object");
+  } else {
+    summary = root.summary as Record<string, unknown>;
+    // "protected" was added after v1 shipped: optional for older producers
+    for (const k of SUMMARY_KEYS) {
+      if (k === "protected" && !(k in summary)) {
+        continue;
+      }
+      const v = summary[k];
+      if (typeof v !== "number" || !Number.isInteger(v) || v < 0) {
+        errors.push(`summary.${k} must be a non-negative integer`);
+      }
+    }
+  }
+
+  if (typeof root.count !== "number" || !Number.isInteger(root.count) || root.count < 0) {
+    errors.push("count must be a non-negative integer");
+  }
+
+  if (!Array.isArray(root.results)) {
+    errors.push("results must be an array");
+    return errors;
+  }
+
+  if (root.count !== root.results.length) {
+    errors.push("count must equal results.length");
+  }
+
+  root.results.forEach((r, i) => validateResultEntry(r, i, errors));
+
+  if (summary) {
+    const counts = summary;
+    const total = SUMMARY_KEYS.reduce(
+      (sum, k) => sum + (typeof counts[k] === "number" ? (counts[k] as number) : 0),
+      0
+    );
+    if (total !== root.results.length) {
+      errors.push("summary counts must add up to results.length");
+    }
+  }
+
+  return errors;
+}
+
+export function isValidKillJsonV1(value: unknown): value is KillJsonDocument {
+  return killJsonV1ValidationErrors(value).length === 0;
+}
@@ -1,29 +1,110 @@
 /**
  * Parse and normalize port arguments for the kill command.
- * Validates every token before returning; deduplicates while preserving order.
+ *
+ * Grammar (each CLI argument may hold several comma-separated entries):
+ *   entry   := ["!"] port | ["!"] port "-" port
+ *   port    := integer 1–65535
+ * Entries prefixed with "!" are removed from the final set, wherever they appear.
+ * Validates every entry before returning; deduplicates while preserving order.
  */
 
+export interface KillPortTokenError {
+  token: string;
+  reason: string;
+}
+
 export type ParseKillPortsResult =
-  | { ok: true; ports: number[] }
-  | { ok: false; invalidToken: string };
+  | { ok: true; ports: number[]; hasRange: boolean }
+  | { ok: false; errors: KillPortTokenError[] };
+
+interface ParsedEntry {
+  exclude: boolean;
+  min: number;
+  max: number;
+}
+
+const ENTRY_PATTERN = /^(!?)(\d+)(?:-(\d+))?$/;
+
+function parsePortNumber(text: string): number | null {
+  const n = parseInt(text, 10);
+  return n >= 1 && n <= 65535 ? n : null;
+}
+
+function parseEntry(entry: string): ParsedEntry | KillPortTokenError {
+  if (entry.length === 0) {
+    return { token: entry, reason: "Empty entry (check for stray commas)" };
+  }
+
+  const match = entry.match(ENTRY_PATTERN);
+  if (!match) {
+    return {
+      token: entry,
+      reason: "Expected a port (3000), range (3000-3010) or exclusion (!3005)",
+    };
+  }
+
+  const min = parsePortNumber(match[2]);
+  const max = match[3] === undefined ? min : parsePortNumber(match[3]);
+  if (min === null || max === null) {
+    return { token: entry, reason: "Port must be between 1 and 65535" };
+  }
+  if (min > max) {
+    return { token: entry, reason: "Range start must not exceed range end" };
+  }
+
+  return { exclude: match[1] === "!", min, max };
+}
 
 export function parseKillPortTokens(raw: string[]): ParseKillPortsResult {
-  const parsed: number[] = [];
+  const entries: ParsedEntry[] = [];
+  const errors: KillPortTokenError[] = [];
+
   for (const token of raw) {
-    const portNum = parseInt(token, 10);
-    if (isNaN(portNum) || portNum < 1 || portNum > 65535) {
-      return { ok: false, invalidToken: token };
+    for (const part of token.split(",")) {
+      const result = parseEntry(part.trim());
+      if ("reason" in result) {
+        errors.push(result);
+      } else {
+        entries.push(result);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const excluded = new Set<number>();
+  for (const e of entries.filter((e) => e.exclude)) {
+    for (let port = e.min; port <= e.max; port++) {
+      excluded.add(port);
     }
-    parsed.push(portNum);
   }
 
+  const included = entries.filter((e) => !e.exclude);
   const seen = new Set<number>();
   const unique: number[] = [];
-  for (const n of parsed) {
-    if (!seen.has(n)) {
-      seen.add(n);
-      unique.push(n);
+  for (const e of included) {
+    for (let port = e.min; port <= e.max; port++) {
+      if (!seen.has(port) && !excluded.has(port)) {
+        seen.add(port);
+        unique.push(port);
+      }
     }
   }
-  return { ok: true, ports: unique };
+
+  if (entries.length > 0 && unique.length === 0) {
+    return {
+      ok: false,
+      errors: [
+        { token: raw.join(" "), reason: "Exclusions leave no ports to kill" },
+      ],
+    };
+  }
+
+  return {
+    ok: true,
+    ports: unique,
+    hasRange: included.some((e) => e.min !== e.max),
+  };
 }
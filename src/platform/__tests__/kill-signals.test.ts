@@ -0,0 +1,35 @@
+import { KILL_SIGNALS, parseKillSignal } from '../kill-signals';
+
+describe('kill-signals', () => {
+  describe('KILL_SIGNALS', () => {
+    it('should map names to POSIX signal numbers', () => {
+      expect(KILL_SIGNALS.SIGTERM).toBe(15);
+      expect(KILL_SIGNALS.SIGKILL).toBe(9);
+      expect(KILL_SIGNALS.SIGINT).toBe(2);
+    });
+  });
+
+  describe('parseKillSignal', () => {
+    it('should accept full signal names', () => {
+      expect(parseKillSignal('SIGINT')).toBe('SIGINT');
+      expect(parseKillSignal('SIGTERM')).toBe('SIGTERM');
+    });
+
+    it('should accept short and lowercase names', () => {
+      expect(parseKillSignal('int')).toBe('SIGINT');
+      expect(parseKillSignal('Hup')).toBe('SIGHUP');
+      expect(parseKillSignal(' sigkill ')).toBe('SIGKILL');
+    });
+
+    it('should accept signal numbers', () => {
+      expect(parseKillSignal('15')).toBe('SIGTERM');
+      expect(parseKillSignal('3')).toBe('SIGQUIT');
+    });
+
+    it('should reject unknown signals', () => {
+      expect(parseKillSignal('SIGUSR1')).toBeNull();
+      expect(parseKillSignal('42')).toBeNull();
+      expect(parseKillSignal('')).toBeNull();
+    });
+  });
+});
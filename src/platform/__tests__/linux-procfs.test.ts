@@ -0,0 +1,284 @@
+/**
+ * Linux /proc Reader Tests
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ProcfsReader,
+  decodeProcAddress,
+  parseProcNetTable,
+  parseProcStat,
+} from '../linux-procfs';
+import { LinuxAdapter } from '../linux.adapter';
+
+const TCP_HEADER =
+  '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode';
+
+const IPV6_ANY = '0'.repeat(32);
+
+function tcpLine(
+  sl: number,
+  port: number,
+  state: string,
+  inode: number,
+  addressHex = '00000000'
+): string {
+  const hexPort = port.toString(16).toUpperCase().padStart(4, '0');
+  return `   ${sl}: ${addressHex}:${hexPort} 00000000:0000 ${state} 00000000:00000000 00:00000000 00000000  1000        0 ${inode} 1 0000000000000000 100 0 0 10 0`;
+}
+
+function statLine(pid: number, comm: string, state: string, ppid: number, startTicks: number): string {
+  // Fields 3..22: state ppid pgrp session tty tpgid flags minflt cminflt majflt
+  // cmajflt utime stime cutime cstime priority nice threads itreal starttime
+  return `${pid} (${comm}) ${state} ${ppid} ${pid} ${pid} 0 -1 4194304 0 0 0 0 0 0 0 0 20 0 1 0 ${startTicks} 1000 100`;
+}
+
+describe('parseProcNetTable', () => {
+  it('should return listening sockets with port and inode', () => {
+    const content = [
+      TCP_HEADER,
+      tcpLine(0, 3000, '0A', 111),
+      tcpLine(1, 5432, '01', 222), // ESTABLISHED
+      tcpLine(2, 8080, '0A', 0), // no inode
+    ].join('\n');
+
+    expect(parseProcNetTable(content, 'tcp')).toEqual([
+      { address: '0.0.0.0', family: 'ipv4', port: 3000, protocol: 'tcp', inode: 111 },
+    ]);
+  });
+
+  it('should treat unconnected UDP sockets as listening', () => {
+    const content = [
+      TCP_HEADER,
+      tcpLine(0, 5353, '07', 444),
+      tcpLine(1, 41234, '01', 555), // connected
+    ].join('\n');
+
+    expect(parseProcNetTable(content, 'udp')).toEqual([
+      { address: '0.0.0.0', family: 'ipv4', port: 5353, protocol: 'udp', inode: 444 },
+    ]);
+  });
+});
+
+describe('decodeProcAddress', () => {
+  it('should decode little-endian IPv4 addresses', () => {
+    expect(decodeProcAddress('0100007F')).toEqual({ address: '127.0.0.1', family: 'ipv4' });
+    expect(decodeProcAddress('0501A8C0')).toEqual({ address: '192.168.1.5', family: 'ipv4' });
+  });
+
+  it('should decode and compress IPv6 addresses', () => {
+    expect(decodeProcAddress(IPV6_ANY)).toEqual({ address: '::', family: 'ipv6' });
+    expect(decodeProcAddress('00000000000000000000000001000000')).toEqual({
+      address: '::1',
+      family: 'ipv6',
+    });
+    expect(decodeProcAddress('000080FE00000000FF0050020B8D12FE')).toEqual({
+      address: 'fe80::250:ff:fe12:8d0b',
+      family: 'ipv6',
+    });
+    expect(decodeProcAddress('0000000000000000FFFF00000100007F')).toEqual({
+      address: '::ffff:127.0.0.1',
+      family: 'ipv6',
+    });
+  });
+
+  it('should reject malformed input', () => {
+    expect(decodeProcAddress('XYZ')).toBeNull();
+    expect(decodeProcAddress('0100')).toBeNull();
+  });
+});
+
+describe('parseProcStat', () => {
+  it('should handle comm values with spaces and parentheses', () => {
+    expect(parseProcStat(statLine(42, 'tmux: server (1)', 'S', 7, 12345))).toEqual({
+      pid: 42,
+      comm: 'tmux: server (1)',
+      state: 'S',
+      ppid: 7,
+      startTicks: 12345,
+    });
+  });
+
+  it('should return null for malformed content', () => {
+    expect(parseProcStat('garbage')).toBeNull();
+  });
+});
+
+describe('ProcfsReader', () => {
+  let root: string;
+  let passwd: string;
+  let reader: ProcfsReader;
+
+  function writeProc(relative: string, content: string): void {
+    const file = path.join(root, relative);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  function addProcess(
+    pid: number,
+    options: {
+      comm: string;
+      cmdline: string[];
+      ppid: number;
+      uid?: number;
+      state?: string;
+      sockets?: number[];
+      cwd?: string;
+      cgroup?: string;
+    }
+  ): void {
+    writeProc(`${pid}/stat`, statLine(pid, options.comm, options.state ?? 'S', options.ppid, 500));
+    writeProc(`${pid}/comm`, `${options.comm}\n`);
+    writeProc(`${pid}/cmdline`, options.cmdline.join('\0') + '\0');
+    writeProc(`${pid}/status`, `Name:\t${options.comm}\nUid:\t${options.uid ?? 1000}\t1000\t1000\t1000\n`);
+    writeProc(`${pid}/cgroup`, options.cgroup ?? '0::/user.slice\n');
+    fs.mkdirSync(path.join(root, `${pid}/fd`), { recursive: true });
+    (options.sockets ?? []).forEach((inode, fd) => {
+      fs.symlinkSync(`socket:[${inode}]`, path.join(root, `${pid}/fd/${fd + 3}`));
+    });
+    if (options.cwd) {
+      fs.symlinkSync(options.cwd, path.join(root, `${pid}/cwd`));
+    }
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'zkill-proc-'));
+    passwd = path.join(root, 'passwd');
+    fs.writeFileSync(passwd, 'root:x:0:0::/root:/bin/sh\ndev:x:1000:1000::/home/dev:/bin/bash\n');
+
+    writeProc('stat', 'cpu  1 2 3\nbtime 1700000000\nprocesses 10\n');
+    writeProc('net/tcp', [TCP_HEADER, tcpLine(0, 3000, '0A', 111, '0100007F')].join('\n'));
+    writeProc(
+      'net/tcp6',
+      [
+        TCP_HEADER,
+        tcpLine(0, 3000, '0A', 112, IPV6_ANY),
+        tcpLine(1, 80, '0A', 333, IPV6_ANY),
+      ].join('\n')
+    );
+    writeProc('net/udp', [TCP_HEADER, tcpLine(0, 5353, '07', 444)].join('\n'));
+
+    addProcess(700, { comm: 'npm', cmdline: ['npm', 'run', 'dev'], ppid: 1 });
+    addProcess(730, {
+      comm: 'node',
+      cmdline: ['/usr/bin/node', 'server.js'],
+      ppid: 700,
+      sockets: [111, 112, 444],
+      cwd: '/home/dev/app',
+    });
+    addProcess(80, {
+      comm: 'nginx',
+      cmdline: ['nginx: master process /usr/sbin/nginx'],
+      ppid: 1,
+      uid: 0,
+      sockets: [333],
+      cgroup: '0::/system.slice/nginx.service\n',
+    });
+    addProcess(2, { comm: 'kthreadd', cmdline: [], ppid: 0 });
+    fs.writeFileSync(path.join(root, '2/cmdline'), '');
+
+    reader = new ProcfsReader(root, passwd);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should detect whether /proc is usable', () => {
+    expect(reader.isAvailable()).toBe(true);
+    expect(new ProcfsReader(path.join(root, 'missing')).isAvailable()).toBe(false);
+  });
+
+  it('should find the process listening on a port', () => {
+    const info = reader.findByPort(3000);
+
+    expect(info).toMatchObject({
+      pid: 730,
+      port: 3000,
+      processName: 'node',
+      command: '/usr/bin/node server.js',
+      user: 'dev',
+      parentPid: 700,
+      parentProcessName: 'npm',
+      workingDirectory: '/home/dev/app',
+      addresses: [
+        { address: '127.0.0.1', family: 'ipv4' },
+        { address: '::', family: 'ipv6' },
+      ],
+    });
+    expect(info?.startTime).toEqual(new Date((1700000000 + 5) * 1000));
+    expect(info?.serviceManager).toBeUndefined();
+  });
+
+  it('should return null for a free port', () => {
+    expect(reader.findByPort(9999)).toBeNull();
+  });
+
+  it('should find UDP sockets only when asked for UDP', () => {
+    expect(reader.findByPort(5353)).toBeNull();
+    expect(reader.findByPort(5353, 'udp')).toMatchObject({
+      pid: 730,
+      port: 5353,
+      protocol: 'udp',
+    });
+  });
+
+  it('should list every listener once per pid and port', () => {
+    const all = reader.getAllListening();
+
+    expect(all.map((p) => [p.pid, p.port]).sort()).toEqual([
+      [730, 3000],
+      [80, 80],
+    ]);
+    const nginx = all.find((p) => p.pid === 80);
+    expect(all.find((p) => p.pid === 730)?.addresses).toHaveLength(2);
+    expect(nginx).toMatchObject({
+      addresses: [{ address: '::', family: 'ipv6' }],
+      user: 'root',
+      serviceManager: 'systemd',
+      serviceName: 'nginx.service',
+    });
+  });
+
+  it('should include UDP listeners when requested', () => {
+    const all = reader.getAllListening(['tcp', 'udp']);
+
+    expect(all.map((p) => `${p.pid}:${p.port}/${p.protocol}`).sort()).toEqual([
+      '730:3000/tcp',
+      '730:5353/udp',
+      '80:80/tcp',
+    ]);
+  });
+
+  it('should list processes with parents and commands', () => {
+    const processes = reader.listProcesses().sort((a, b) => a.pid - b.pid);
+
+    expect(processes).toEqual([
+      { pid: 2, parentPid: 0, name: '[kthreadd]', command: '[kthreadd]' },
+      { pid: 80, parentPid: 1, name: 'nginx:', command: 'nginx: master process /usr/sbin/nginx' },
+      { pid: 700, parentPid: 1, name: 'npm', command: 'npm run dev' },
+      { pid: 730, parentPid: 700, name: 'node', command: '/usr/bin/node server.js' },
+    ]);
+  });
+
+  it('should treat zombies and missing PIDs as not running', () => {
+    addProcess(999, { comm: 'defunct', cmdline: [], ppid: 700, state: 'Z' });
+
+    expect(reader.isRunning(730)).toBe(true);
+    expect(reader.isRunning(999)).toBe(false);
+    expect(reader.isRunning(4242)).toBe(false);
+  });
+
+  it('should back LinuxAdapter when available', async () => {
+    const adapter = new LinuxAdapter(root);
+
+    const info = await adapter.findProcessByPort(3000);
+    const processes = await adapter.listProcesses();
+
+    expect(info?.pid).toBe(730);
+    expect(processes).toHaveLength(4);
+  });
+});
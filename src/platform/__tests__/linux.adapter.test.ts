@@ -12,7 +12,8 @@ describe('LinuxAdapter', () => {
   const mockExecSync = execSync as jest.MockedFunction<typeof execSync>;
 
   beforeEach(() => {
-    adapter = new LinuxAdapter();
+    // No /proc at this root: exercise the ss/netstat/ps fallback
+    adapter = new LinuxAdapter('/nonexistent-proc');
     jest.clearAllMocks();
   });
 
@@ -60,6 +61,24 @@ describe('LinuxAdapter', () => {
       expect(result).not.toBeNull();
     });
 
+    it('should query UDP sockets when asked for udp', async () => {
+      mockExecSync
+        .mockImplementationOnce(() => {
+          throw new Error('ss not found');
+        })
+        .mockReturnValueOnce('udp  0  0 0.0.0.0:5353  0.0.0.0:*  777/dnsmasq')
+        .mockReturnValueOnce('dnsmasq\ndnsmasq --port=5353\nnobody');
+
+      const result = await adapter.findProcessByPort(5353, 'udp');
+
+      expect(mockExecSync).toHaveBeenCalledWith(
+        'netstat -lunp 2>/dev/null | grep :5353',
+        { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'ignore'] }
+      );
+      expect(result?.pid).toBe(777);
+      expect(result?.protocol).toBe('udp');
+    });
+
     it('should return null when port is not in use', async () => {
       mockExecSync
         .mockReturnValueOnce('ss found')
@@ -140,6 +159,75 @@ describe('LinuxAdapter', () => {
       const result = await adapter.killProcess(12345, false);
       expect(result).toBe(false);
     });
+
+    it('should send the requested signal', async () => {
+      mockExecSync
+        .mockReturnValueOnce(undefined as any)
+        .mockImplementationOnce(() => {
+          throw new Error('No such process');
+        });
+
+      const result = await adapter.killProcess(12345, false, {
+        signal: 'SIGINT',
+      });
+
+      expect(mockExecSync).toHaveBeenCalledWith('kill -2 12345', {
+        stdio: 'ignore',
+      });
+      expect(result).toBe(true);
+    });
+
+    it('should keep polling until the process exits within the timeout', async () => {
+      mockExecSync
+        .mockReturnValueOnce(undefined as any)
+        .mockReturnValueOnce('12345')
+        .mockImplementationOnce(() => {
+          throw new Error('No such process');
+        });
+
+      const result = await adapter.killProcess(12345, false, {
+        timeoutMs: 1000,
+      });
+
+      expect(mockExecSync).toHaveBeenCalledTimes(3);
+      expect(result).toBe(true);
+    });
+  });
+
+  describe('listProcesses', () => {
+    it('should parse pid, parent pid and command from ps', async () => {
+      mockExecSync.mockReturnValueOnce(
+        '    1     0 /sbin/init splash\n' +
+          '  700   600 npm run dev\n' +
+          '  730   700 /usr/bin/node server.js\n'
+      );
+
+      const result = await adapter.listProcesses();
+
+      expect(mockExecSync).toHaveBeenCalledWith(
+        'ps -A -o pid=,ppid=,args=',
+        expect.anything()
+      );
+      expect(result).toEqual([
+        { pid: 1, parentPid: 0, name: 'init', command: '/sbin/init splash' },
+        { pid: 700, parentPid: 600, name: 'npm', command: 'npm run dev' },
+        {
+          pid: 730,
+          parentPid: 700,
+          name: 'node',
+          command: '/usr/bin/node server.js',
+        },
+      ]);
+    });
+
+    it('should return an empty list when ps fails', async () => {
+      mockExecSync.mockImplementation(() => {
+        throw new Error('ps not found');
+      });
+
+      const result = await adapter.listProcesses();
+      expect(result).toEqual([]);
+    });
   });
 
   describe('getAllListeningPorts', () => {
@@ -171,6 +259,25 @@ LISTEN 0       128     *:8000              *:*    users:(("python",pid=12346,fd=
       expect(result[1].port).toBe(8000);
     });
 
+    it('should merge IPv4 and IPv6 sockets into one entry with both addresses', async () => {
+      const ssOutput = `State   Recv-Q  Send-Q  Local Address:Port  Peer Address:Port
+LISTEN 0       128     127.0.0.1:3000      0.0.0.0:*    users:(("node",pid=12345,fd=20))
+LISTEN 0       128     [::1]:3000          [::]:*       users:(("node",pid=12345,fd=21))`;
+
+      mockExecSync
+        .mockReturnValueOnce('ss found')
+        .mockReturnValueOnce(ssOutput)
+        .mockReturnValueOnce('node\nnode server.js\nuser');
+
+      const result = await adapter.getAllListeningPorts();
+
+      expect(result).toHaveLength(1);
+      expect(result[0].addresses).toEqual([
+        { address: '127.0.0.1', family: 'ipv4' },
+        { address: '::1', family: 'ipv6' },
+      ]);
+    });
+
     it('should use netstat when ss is not available', async () => {
       const netstatOutput = `Active Internet connections (only servers)
 Proto Recv-Q Send-Q Local Address           Foreign Address         State       PID/Program name
@@ -56,7 +56,7 @@ describe('MacOSAdapter', () => {
     it('should find process by port successfully', async () => {
       // Use sequential mocks in the exact order they're called
       mockExecSync
-        .mockReturnValueOnce('12345') // lsof -ti :3000
+        .mockReturnValueOnce('12345') // lsof -ti TCP:3000 -sTCP:LISTEN
         .mockReturnValueOnce('node node server.js user') // ps -p 12345 -o comm=,command=,user=
         .mockReturnValueOnce('00:05:30 Dec 13 10:30:45 2025') // ps -p 12345 -o etime=,lstart=
         .mockReturnValueOnce('1 launchd') // ps -p 12345 -o ppid=,ppidcmd=
@@ -77,6 +77,32 @@ describe('MacOSAdapter', () => {
       }
     });
 
+    it('should look up only TCP listeners by default', async () => {
+      mockExecSync.mockReturnValueOnce('');
+
+      await adapter.findProcessByPort(3000);
+
+      expect(mockExecSync).toHaveBeenCalledWith(
+        'lsof -ti TCP:3000 -sTCP:LISTEN',
+        expect.anything()
+      );
+    });
+
+    it('should look up UDP sockets when asked for udp', async () => {
+      mockExecSync
+        .mockReturnValueOnce('777') // lsof -ti UDP:5353
+        .mockReturnValueOnce('mDNSResponder /usr/sbin/mDNSResponder _mdnsresponder');
+
+      const result = await adapter.findProcessByPort(5353, 'udp');
+
+      expect(mockExecSync).toHaveBeenCalledWith(
+        'lsof -ti UDP:5353',
+        expect.anything()
+      );
+      expect(result?.pid).toBe(777);
+      expect(result?.protocol).toBe('udp');
+    });
+
     it('should handle permission denied errors', async () => {
       mockExecSync.mockImplementation(() => {
         const error = new Error('Permission denied');
@@ -140,6 +166,58 @@ describe('MacOSAdapter', () => {
       const result = await adapter.killProcess(12345, false);
       expect(result).toBe(false);
     });
+
+    it('should send the requested signal', async () => {
+      mockExecSync
+        .mockReturnValueOnce(undefined as any)
+        .mockImplementationOnce(() => {
+          throw new Error('No such process');
+        });
+
+      const result = await adapter.killProcess(12345, false, {
+        signal: 'SIGINT',
+      });
+
+      expect(mockExecSync).toHaveBeenCalledWith('kill -2 12345', {
+        stdio: 'ignore',
+      });
+      expect(result).toBe(true);
+    });
+
+    it('should keep polling until the process exits within the timeout', async () => {
+      mockExecSync
+        .mockReturnValueOnce(undefined as any)
+        .mockReturnValueOnce('12345')
+        .mockImplementationOnce(() => {
+          throw new Error('No such process');
+        });
+
+      const result = await adapter.killProcess(12345, false, {
+        timeoutMs: 1000,
+      });
+
+      expect(mockExecSync).toHaveBeenCalledTimes(3);
+      expect(result).toBe(true);
+    });
+  });
+
+  describe('listProcesses', () => {
+    it('should parse pid, parent pid and command from ps', async () => {
+      mockExecSync.mockReturnValueOnce(
+        '  700   600 npm run dev\n  730   700 /usr/local/bin/node server.js\n'
+      );
+
+      const result = await adapter.listProcesses();
+
+      expect(mockExecSync).toHaveBeenCalledWith(
+        'ps -A -o pid=,ppid=,command=',
+        expect.anything()
+      );
+      expect(result.map((p) => [p.pid, p.parentPid, p.name])).toEqual([
+        [700, 600, 'npm'],
+        [730, 700, 'node'],
+      ]);
+    });
   });
 
   describe('getAllListeningPorts', () => {
@@ -312,7 +390,7 @@ node    12345 user   20u  IPv4 0x1234      0t0  TCP *:3000 (LISTEN)`;
   describe('getProcessContext', () => {
     it('should parse elapsed time in DD-HH:MM:SS format', async () => {
       mockExecSync.mockImplementation((command: string) => {
-        if (command.includes('lsof -ti :3000')) {
+        if (command.includes('lsof -ti TCP:3000 -sTCP:LISTEN')) {
           return '12345';
         }
         if (command.includes('ps -p 12345 -o comm=,command=,user=')) {
@@ -340,7 +418,7 @@ node    12345 user   20u  IPv4 0x1234      0t0  TCP *:3000 (LISTEN)`;
 
     it('should parse elapsed time in HH:MM:SS format', async () => {
       mockExecSync.mockImplementation((command: string) => {
-        if (command.includes('lsof -ti :3000')) {
+        if (command.includes('lsof -ti TCP:3000 -sTCP:LISTEN')) {
           return '12345';
         }
         if (command.includes('ps -p 12345 -o comm=,command=,user=')) {
@@ -368,7 +446,7 @@ node    12345 user   20u  IPv4 0x1234      0t0  TCP *:3000 (LISTEN)`;
 
     it('should parse elapsed time in MM:SS format', async () => {
       mockExecSync.mockImplementation((command: string) => {
-        if (command.includes('lsof -ti :3000')) {
+        if (command.includes('lsof -ti TCP:3000 -sTCP:LISTEN')) {
           return '12345';
         }
         if (command.includes('ps -p 12345 -o comm=,command=,user=')) {
@@ -396,7 +474,7 @@ node    12345 user   20u  IPv4 0x1234      0t0  TCP *:3000 (LISTEN)`;
 
     it('should handle missing parent process info gracefully', async () => {
       mockExecSync.mockImplementation((command: string) => {
-        if (command.includes('lsof -ti :3000')) {
+        if (command.includes('lsof -ti TCP:3000 -sTCP:LISTEN')) {
           return '12345';
         }
         if (command.includes('ps -p 12345 -o comm=,command=,user=')) {
@@ -428,7 +506,7 @@ node    12345 user   20u  IPv4 0x1234      0t0  TCP *:3000 (LISTEN)`;
     it('should detect launchd service when present', async () => {
       // launchctl list | grep "^12345\\s" - must match PID at start of line
       mockExecSync.mockImplementation((command: string) => {
-        if (command.includes('lsof -ti :3000')) {
+        if (command.includes('lsof -ti TCP:3000 -sTCP:LISTEN')) {
           return '12345';
         }
         if (command.includes('ps -p 12345 -o comm=,command=,user=')) {
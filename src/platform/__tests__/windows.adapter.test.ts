@@ -34,6 +34,19 @@ describe('WindowsAdapter', () => {
       expect(result?.processName).toBe('node.exe');
     });
 
+    it('should match UDP sockets, which have no LISTENING state', async () => {
+      mockExecSync
+        .mockReturnValueOnce(
+          'UDP    0.0.0.0:53530    *:*    999\r\nUDP    0.0.0.0:5353    *:*    777'
+        )
+        .mockReturnValueOnce('"dns.exe","777","Console","1","1,000 K"');
+
+      const result = await adapter.findProcessByPort(5353, 'udp');
+
+      expect(result?.pid).toBe(777);
+      expect(result?.protocol).toBe('udp');
+    });
+
     it('should return null when port is not in use', async () => {
       mockExecSync.mockImplementation(() => {
         throw new Error('No process found');
@@ -96,6 +109,22 @@ describe('WindowsAdapter', () => {
       expect(result).toBe(true);
     });
 
+    it('should use the force flag when SIGKILL is requested', async () => {
+      mockExecSync
+        .mockReturnValueOnce(undefined as any)
+        .mockReturnValueOnce(undefined as any)
+        .mockReturnValueOnce('INFO: No tasks');
+
+      const result = await adapter.killProcess(12345, false, {
+        signal: 'SIGKILL',
+      });
+
+      expect(mockExecSync).toHaveBeenCalledWith('taskkill /PID 12345 /F', {
+        stdio: 'ignore',
+      });
+      expect(result).toBe(true);
+    });
+
     it('should return false when process is still alive', async () => {
       mockExecSync
         .mockReturnValueOnce(undefined as any)
@@ -127,6 +156,32 @@ describe('WindowsAdapter', () => {
     });
   });
 
+  describe('listProcesses', () => {
+    it('should parse wmic CSV output', async () => {
+      mockExecSync.mockReturnValueOnce(
+        '\r\nNode,Name,ParentProcessId,ProcessId\r\n' +
+          'DESKTOP,npm.cmd,600,700\r\n' +
+          'DESKTOP,node.exe,700,730\r\n'
+      );
+
+      const result = await adapter.listProcesses();
+
+      expect(result).toEqual([
+        { pid: 700, parentPid: 600, name: 'npm.cmd', command: 'npm.cmd' },
+        { pid: 730, parentPid: 700, name: 'node.exe', command: 'node.exe' },
+      ]);
+    });
+
+    it('should return an empty list when wmic fails', async () => {
+      mockExecSync.mockImplementation(() => {
+        throw new Error('wmic not found');
+      });
+
+      const result = await adapter.listProcesses();
+      expect(result).toEqual([]);
+    });
+  });
+
   describe('getAllListeningPorts', () => {
     it('should parse netstat output correctly', async () => {
       const netstatOutput = `TCP    0.0.0.0:3000    0.0.0.0:0    LISTENING    12345
@@ -152,6 +207,20 @@ TCP    0.0.0.0:8000    0.0.0.0:0    LISTENING    12346`;
       expect(result[1].port).toBe(8000);
     });
 
+    it('should list UDP sockets when asked for udp', async () => {
+      mockExecSync
+        .mockReturnValueOnce('UDP    0.0.0.0:5353    *:*    777')
+        .mockReturnValueOnce('"dns.exe","777","Console","1","1,000 K"');
+
+      const result = await adapter.getAllListeningPorts(['udp']);
+
+      expect(mockExecSync).toHaveBeenCalledWith(
+        'netstat -ano | findstr UDP',
+        expect.anything()
+      );
+      expect(result.map((p) => [p.port, p.protocol])).toEqual([[5353, 'udp']]);
+    });
+
     it('should return empty array when no ports are listening', async () => {
       mockExecSync.mockImplementation(() => {
         throw new Error('No processes');
@@ -0,0 +1,53 @@
+/**
+ * Kill Signals
+ * Signal names accepted by --signal and the timing shared by all adapters
+ */
+
+import { KillSignal } from '../types';
+
+/**
+ * Signals zkill can send, with their POSIX numbers
+ */
+export const KILL_SIGNALS: Record<KillSignal, number> = {
+  SIGHUP: 1,
+  SIGINT: 2,
+  SIGQUIT: 3,
+  SIGKILL: 9,
+  SIGTERM: 15,
+};
+
+/**
+ * How long an adapter waits for a process to exit when the caller gives no timeout
+ */
+export const DEFAULT_EXIT_WAIT_MS = 100;
+
+/**
+ * Interval between liveness checks while waiting for a process to exit
+ */
+export const EXIT_POLL_INTERVAL_MS = 100;
+
+/**
+ * Whether a name is one of KILL_SIGNALS' own keys, not an Object.prototype
+ * name like "toString"
+ */
+export function isKillSignal(name: string): name is KillSignal {
+  return Object.prototype.hasOwnProperty.call(KILL_SIGNALS, name);
+}
+
+/**
+ * Parse a user-supplied signal name ("SIGINT", "int", "2") into a KillSignal
+ */
+export function parseKillSignal(value: string): KillSignal | null {
+  const normalized = value.trim().toUpperCase();
+
+  if (/^\d+$/.test(normalized)) {
+    const number = parseInt(normalized, 10);
+    const match = (Object.keys(KILL_SIGNALS) as KillSignal[]).find(
+      (name) => KILL_SIGNALS[name] === number
+    );
+    return match ?? null;
+  }
+
+  const name = normalized.startsWith('SIG') ? normalized : `SIG${normalized}`;
+  return isKillSignal(name) ? name : null;
+}
@@ -0,0 +1,455 @@
+/**
+ * Linux /proc Reader
+ * Builds ProcessInfo straight from /proc (net/tcp, net/udp, fd, stat,
+ * cmdline, cwd, status, cgroup) without spawning ss, netstat or ps
+ */
+
+import fs from 'fs';
+import { IpFamily, PortProtocol, ProcessInfo, ProcessListEntry } from '../types';
+import { addBindAddress } from '../bind-address';
+
+export const PROC_ROOT = '/proc';
+
+/**
+ * USER_HZ: the unit of start times in /proc/<pid>/stat. The kernel exports
+ * 100 on every mainstream architecture regardless of CONFIG_HZ.
+ */
+const CLOCK_TICKS_PER_SECOND = 100;
+
+/**
+ * st column value of a listening socket: TCP_LISTEN for TCP, TCP_CLOSE
+ * (unconnected, i.e. bound and waiting for datagrams) for UDP
+ */
+const LISTEN_STATE: Record<PortProtocol, string> = {
+  tcp: '0A',
+  udp: '07',
+};
+
+/**
+ * A listening socket from /proc/net/{tcp,udp}{,6}
+ */
+export interface ProcNetSocket {
+  address: string;
+  family: IpFamily;
+  port: number;
+  protocol: PortProtocol;
+  inode: number;
+}
+
+/**
+ * The fields zkill needs from /proc/<pid>/stat
+ */
+export interface ProcStat {
+  pid: number;
+  comm: string;
+  state: string;
+  ppid: number;
+  startTicks: number;
+}
+
+/**
+ * Decode a local address from /proc/net: 8 hex digits for IPv4, 32 for IPv6,
+ * each 32-bit word in host (little-endian) byte order
+ */
+export function decodeProcAddress(
+  hex: string
+): { address: string; family: IpFamily } | null {
+  if (!/^[0-9A-Fa-f]+$/.test(hex) || (hex.length !== 8 && hex.length !== 32)) {
+    return null;
+  }
+
+  const bytes: number[] = [];
+  for (let word = 0; word < hex.length; word += 8) {
+    for (let i = 6; i >= 0; i -= 2) {
+      bytes.push(parseInt(hex.slice(word + i, word + i + 2), 16));
+    }
+  }
+
+  if (bytes.length === 4) {
+    return { address: bytes.join('.'), family: 'ipv4' };
+  }
+
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((bytes[i] << 8) | bytes[i + 1]);
+  }
+
+  // IPv4-mapped (::ffff:a.b.c.d), as dual-stack sockets report IPv4 peers
+  if (groups.slice(0, 5).every((g) => g === 0) && groups[5] === 0xffff) {
+    return { address: `::ffff:${bytes.slice(12).join('.')}`, family: 'ipv6' };
+  }
+
+  return { address: compressIpv6(groups), family: 'ipv6' };
+}
+
+/**
+ * RFC 5952 text form: hex groups without leading zeros, the longest run of
+ * two or more zero groups replaced by "::"
+ */
+function compressIpv6(groups: number[]): string {
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let start = 0; start < groups.length; start++) {
+    let length = 0;
+    while (start + length < groups.length && groups[start + length] === 0) {
+      length++;
+    }
+    if (length > bestLength) {
+      bestStart = start;
+      bestLength = length;
+    }
+  }
+
+  const hex = groups.map((g) => g.toString(16));
+  if (bestStart < 0) {
+    return hex.join(':');
+  }
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+/**
+ * Parse a /proc/net/{tcp,udp}{,6} table into listening sockets
+ */
+export function parseProcNetTable(
+  content: string,
+  protocol: PortProtocol
+): ProcNetSocket[] {
+  const sockets: ProcNetSocket[] = [];
+
+  for (const line of content.split('\n').slice(1)) {
+    // sl local_address rem_address st tx:rx tr:when retrnsmt uid timeout inode
+    const fields = line.trim().split(/\s+/);
+    if (fields.length < 10 || fields[3] !== LISTEN_STATE[protocol]) continue;
+
+    const [addressHex, portHex] = fields[1].split(':');
+    const local = decodeProcAddress(addressHex);
+    const port = parseInt(portHex, 16);
+    const inode = parseInt(fields[9]);
+    if (!local || isNaN(port) || isNaN(inode) || inode === 0) continue;
+
+    sockets.push({ ...local, port, protocol, inode });
+  }
+
+  return sockets;
+}
+
+/**
+ * Parse /proc/<pid>/stat. comm is wrapped in parentheses and may itself
+ * contain spaces and ")", so split on the last ")".
+ */
+export function parseProcStat(content: string): ProcStat | null {
+  const open = content.indexOf('(');
+  const close = content.lastIndexOf(')');
+  if (open < 0 || close < open) {
+    return null;
+  }
+
+  const pid = parseInt(content.slice(0, open));
+  const rest = content.slice(close + 2).split(' ');
+  // rest[0] is field 3 (state); starttime is field 22
+  const ppid = parseInt(rest[1]);
+  const startTicks = parseInt(rest[19]);
+  if (isNaN(pid) || isNaN(ppid)) {
+    return null;
+  }
+
+  return {
+    pid,
+    comm: content.slice(open + 1, close),
+    state: rest[0],
+    ppid,
+    startTicks: isNaN(startTicks) ? 0 : startTicks,
+  };
+}
+
+export class ProcfsReader {
+  private userNames: Map<number, string> | null = null;
+
+  constructor(
+    private root: string = PROC_ROOT,
+    private passwdPath: string = '/etc/passwd'
+  ) {}
+
+  /**
+   * True when /proc exposes the socket tables this reader depends on
+   */
+  isAvailable(): boolean {
+    return fs.existsSync(`${this.root}/net/tcp`);
+  }
+
+  /**
+   * Find the process listening on a port
+   */
+  findByPort(port: number, protocol: PortProtocol = 'tcp'): ProcessInfo | null {
+    const sockets = this.listeningSockets([protocol]).filter(
+      (s) => s.port === port
+    );
+    if (sockets.length === 0) {
+      return null;
+    }
+
+    const owners = this.socketOwners(new Set(sockets.map((s) => s.inode)));
+    let info: ProcessInfo | null = null;
+
+    for (const socket of sockets) {
+      const pids = owners.get(socket.inode) ?? [];
+      if (!info && pids.length > 0) {
+        info = this.readProcessInfo(pids[0], port, protocol);
+      }
+      // The same process often holds both the IPv4 and the IPv6 socket
+      if (info && pids.includes(info.pid)) {
+        addBindAddress(info, socket);
+      }
+    }
+
+    return info;
+  }
+
+  /**
+   * Get every listening port with the process that owns it
+   */
+  getAllListening(protocols: PortProtocol[] = ['tcp']): ProcessInfo[] {
+    const sockets = this.listeningSockets(protocols);
+    const owners = this.socketOwners(new Set(sockets.map((s) => s.inode)));
+    const processes: ProcessInfo[] = [];
+    const byKey = new Map<string, ProcessInfo | null>();
+
+    for (const socket of sockets) {
+      for (const pid of owners.get(socket.inode) ?? []) {
+        // One entry per PID and port; each IPv4/IPv6 socket adds an address
+        const key = `${pid}:${socket.port}/${socket.protocol}`;
+        let info = byKey.get(key);
+        if (info === undefined) {
+          info = this.readProcessInfo(pid, socket.port, socket.protocol);
+          byKey.set(key, info);
+          if (info) {
+            processes.push(info);
+          }
+        }
+        if (info) {
+          addBindAddress(info, socket);
+        }
+      }
+    }
+
+    return processes;
+  }
+
+  /**
+   * List every running process with its parent PID
+   */
+  listProcesses(): ProcessListEntry[] {
+    const processes: ProcessListEntry[] = [];
+
+    for (const pid of this.pids()) {
+      const stat = this.readStat(pid);
+      if (!stat) continue;
+
+      const command = this.readCommand(pid, stat.comm);
+      const executable = command.split(/\s+/)[0] ?? '';
+      processes.push({
+        pid,
+        parentPid: stat.ppid,
+        name: executable.split('/').pop() || stat.comm,
+        command,
+      });
+    }
+
+    return processes;
+  }
+
+  /**
+   * True while the process exists and has not exited (zombies count as exited)
+   */
+  isRunning(pid: number): boolean {
+    const stat = this.readStat(pid);
+    return stat !== null && stat.state !== 'Z' && stat.state !== 'X';
+  }
+
+  /**
+   * Listening sockets from the IPv4 and IPv6 tables of each protocol
+   */
+  private listeningSockets(protocols: PortProtocol[]): ProcNetSocket[] {
+    return protocols.flatMap((protocol) =>
+      [protocol, `${protocol}6`].flatMap((table) => {
+        const content = this.read(`net/${table}`);
+        return content ? parseProcNetTable(content, protocol) : [];
+      })
+    );
+  }
+
+  /**
+   * Map socket inodes to the PIDs holding them open. Processes whose fd
+   * directory we may not read (other users, without root) are skipped,
+   * just as ss omits them.
+   */
+  private socketOwners(inodes: Set<number>): Map<number, number[]> {
+    const owners = new Map<number, number[]>();
+
+    for (const pid of this.pids()) {
+      let fds: string[];
+      try {
+        fds = fs.readdirSync(`${this.root}/${pid}/fd`);
+      } catch {
+        continue;
+      }
+
+      for (const fd of fds) {
+        let target: string;
+        try {
+          target = fs.readlinkSync(`${this.root}/${pid}/fd/${fd}`);
+        } catch {
+          continue;
+        }
+
+        const match = target.match(/^socket:\[(\d+)\]$/);
+        if (!match) continue;
+
+        const inode = parseInt(match[1]);
+        if (!inodes.has(inode)) continue;
+
+        const pids = owners.get(inode) ?? [];
+        if (!pids.includes(pid)) {
+          pids.push(pid);
+        }
+        owners.set(inode, pids);
+      }
+    }
+
+    return owners;
+  }
+
+  /**
+   * Build ProcessInfo (including context fields) for one PID
+   */
+  private readProcessInfo(
+    pid: number,
+    port: number,
+    protocol: PortProtocol
+  ): ProcessInfo | null {
+    const stat = this.readStat(pid);
+    if (!stat) {
+      return null;
+    }
+
+    const info: ProcessInfo = {
+      pid,
+      port,
+      protocol,
+      processName: this.read(`${pid}/comm`)?.trim() || stat.comm,
+      command: this.readCommand(pid, stat.comm),
+    };
+
+    const user = this.readUser(pid);
+    if (user) {
+      info.user = user;
+    }
+
+    const bootTime = this.readBootTime();
+    if (bootTime !== null) {
+      const startMs =
+        (bootTime + stat.startTicks / CLOCK_TICKS_PER_SECOND) * 1000;
+      info.startTime = new Date(startMs);
+      info.uptime = Math.max(0, Date.now() - startMs);
+    }
+
+    if (stat.ppid > 0) {
+      info.parentPid = stat.ppid;
+      const parent = this.readStat(stat.ppid);
+      if (parent) {
+        info.parentProcessName = this.read(`${stat.ppid}/comm`)?.trim() || parent.comm;
+      }
+    }
+
+    try {
+      info.workingDirectory = fs.readlinkSync(`${this.root}/${pid}/cwd`);
+    } catch {
+      // Ignore - working directory is optional (unreadable for other users)
+    }
+
+    // cgroup v1 and v2 both name the unit: .../system.slice/nginx.service
+    const cgroup = this.read(`${pid}/cgroup`);
+    const unit = cgroup?.match(/\/system\.slice\/(?:[^\n]*\/)?([^/\n]+\.service)/);
+    if (unit) {
+      info.serviceManager = 'systemd';
+      info.serviceName = unit[1];
+    }
+
+    return info;
+  }
+
+  /**
+   * Command line with NUL separators turned into spaces; kernel threads
+   * have none, so fall back to "[comm]" as ps does
+   */
+  private readCommand(pid: number, comm: string): string {
+    const cmdline = this.read(`${pid}/cmdline`);
+    const command = cmdline?.split('\0').filter(Boolean).join(' ');
+    return command || `[${comm}]`;
+  }
+
+  private readStat(pid: number): ProcStat | null {
+    const content = this.read(`${pid}/stat`);
+    return content ? parseProcStat(content) : null;
+  }
+
+  /**
+   * Owner of the process: real UID from status, resolved via /etc/passwd
+   */
+  private readUser(pid: number): string | undefined {
+    const status = this.read(`${pid}/status`);
+    const uidMatch = status?.match(/^Uid:\s+(\d+)/m);
+    if (!uidMatch) {
+      return undefined;
+    }
+
+    const uid = parseInt(uidMatch[1]);
+    return this.lookupUserNames().get(uid) ?? String(uid);
+  }
+
+  private lookupUserNames(): Map<number, string> {
+    if (!this.userNames) {
+      this.userNames = new Map();
+      try {
+        for (const line of fs.readFileSync(this.passwdPath, 'utf-8').split('\n')) {
+          const [name, , uid] = line.split(':');
+          if (name && uid !== undefined && /^\d+$/.test(uid)) {
+            this.userNames.set(parseInt(uid), name);
+          }
+        }
+      } catch {
+        // Ignore - fall back to numeric UIDs
+      }
+    }
+    return this.userNames;
+  }
+
+  /**
+   * System boot time in seconds since the epoch (btime in /proc/stat)
+   */
+  private readBootTime(): number | null {
+    const match = this.read('stat')?.match(/^btime\s+(\d+)/m);
+    return match ? parseInt(match[1]) : null;
+  }
+
+  private pids(): number[] {
+    try {
+      return fs
+        .readdirSync(this.root)
+        .filter((entry) => /^\d+$/.test(entry))
+        .map((entry) => parseInt(entry));
+    } catch {
+      return [];
+    }
+  }
+
+  private read(relativePath: string): string | null {
+    try {
+      return fs.readFileSync(`${this.root}/${relativePath}`, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+}
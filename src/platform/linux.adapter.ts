@@ -1,21 +1,52 @@
 /**
  * Linux Platform Adapter
- * Uses ss/netstat and ps commands to detect and manage processes
+ * Reads /proc directly; falls back to ss/netstat and ps when /proc is unavailable
  */
 
 import { execSync } from 'child_process';
-import { ProcessInfo, PlatformAdapter } from '../types';
+import {
+  BindAddress,
+  KillProcessOptions,
+  PortProtocol,
+  ProcessInfo,
+  ProcessListEntry,
+  PlatformAdapter,
+} from '../types';
+import {
+  DEFAULT_EXIT_WAIT_MS,
+  EXIT_POLL_INTERVAL_MS,
+  KILL_SIGNALS,
+} from './kill-signals';
+import { PROC_ROOT, ProcfsReader } from './linux-procfs';
+import {
+  ListenAddress,
+  addBindAddress,
+  parseListenAddress,
+} from '../bind-address';
 
 export class LinuxAdapter implements PlatformAdapter {
+  private procfs: ProcfsReader;
+
+  constructor(procRoot: string = PROC_ROOT) {
+    this.procfs = new ProcfsReader(procRoot);
+  }
+
   /**
    * Find process using a specific port
    */
-  async findProcessByPort(port: number): Promise<ProcessInfo | null> {
+  async findProcessByPort(
+    port: number,
+    protocol: PortProtocol = 'tcp'
+  ): Promise<ProcessInfo | null> {
     try {
+      if (this.procfs.isAvailable()) {
+        return this.procfs.findByPort(port, protocol);
+      }
+
       // Try ss first (modern Linux), fallback to netstat
       const result = this.hasSSCommand()
-        ? this.findWithSS(port)
-        : this.findWithNetstat(port);
+        ? this.findWithSS(port, protocol)
+        : this.findWithNetstat(port, protocol);
 
       return result;
     } catch (error) {
@@ -26,39 +57,109 @@ export class LinuxAdapter implements PlatformAdapter {
   /**
    * Kill a process by PID
    */
-  async killProcess(pid: number, force: boolean = false): Promise<boolean> {
+  async killProcess(
+    pid: number,
+    force: boolean = false,
+    options: KillProcessOptions = {}
+  ): Promise<boolean> {
     try {
-      const signal = force ? '-9' : '-15'; // SIGKILL or SIGTERM
-      execSync(`kill ${signal} ${pid}`, {
-        stdio: 'ignore',
-      });
+      const signal = force ? 'SIGKILL' : options.signal ?? 'SIGTERM';
+      if (this.procfs.isAvailable()) {
+        process.kill(pid, signal);
+      } else {
+        execSync(`kill -${KILL_SIGNALS[signal]} ${pid}`, {
+          stdio: 'ignore',
+        });
+      }
 
-      // Wait a moment and verify process is dead
-      await this.sleep(100);
+      return await this.waitForExit(
+        pid,
+        options.timeoutMs ?? DEFAULT_EXIT_WAIT_MS
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Poll until the process exits or the timeout elapses
+   */
+  private async waitForExit(pid: number, timeoutMs: number): Promise<boolean> {
+    // Count polls instead of reading the clock: timers can fire a little early
+    const polls = Math.max(1, Math.ceil(timeoutMs / EXIT_POLL_INTERVAL_MS));
+    for (let i = 0; i < polls; i++) {
+      await this.sleep(EXIT_POLL_INTERVAL_MS);
+
+      if (this.procfs.isAvailable()) {
+        if (!this.procfs.isRunning(pid)) {
+          return true;
+        }
+        continue;
+      }
 
       try {
         execSync(`ps -p ${pid}`, { stdio: 'ignore' });
         // If we get here, process is still alive
-        return false;
       } catch {
         // Process is dead (ps command failed)
         return true;
       }
-    } catch (error) {
-      return false;
     }
+
+    return false;
   }
 
   /**
    * Get all listening ports
    */
-  async getAllListeningPorts(): Promise<ProcessInfo[]> {
+  async getAllListeningPorts(
+    protocols: PortProtocol[] = ['tcp']
+  ): Promise<ProcessInfo[]> {
     try {
-      const result = this.hasSSCommand()
-        ? this.getAllWithSS()
-        : this.getAllWithNetstat();
+      if (this.procfs.isAvailable()) {
+        return this.procfs.getAllListening(protocols);
+      }
 
-      return result;
+      const useSS = this.hasSSCommand();
+      return protocols.flatMap((protocol) =>
+        useSS ? this.getAllWithSS(protocol) : this.getAllWithNetstat(protocol)
+      );
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * List every running process with its parent PID
+   */
+  async listProcesses(): Promise<ProcessListEntry[]> {
+    try {
+      if (this.procfs.isAvailable()) {
+        return this.procfs.listProcesses();
+      }
+
+      const result = execSync('ps -A -o pid=,ppid=,args=', {
+        encoding: 'utf-8',
+        stdio: ['pipe', 'pipe', 'ignore'],
+        maxBuffer: 16 * 1024 * 1024,
+      });
+
+      const processes: ProcessListEntry[] = [];
+      for (const line of result.split('\n')) {
+        const match = line.trim().match(/^(\d+)\s+(\d+)\s+(.*)$/);
+        if (!match) continue;
+
+        const command = match[3].trim();
+        const executable = command.split(/\s+/)[0] ?? '';
+        processes.push({
+          pid: parseInt(match[1]),
+          parentPid: parseInt(match[2]),
+          name: executable.split('/').pop() || executable,
+          command,
+        });
+      }
+
+      return processes;
     } catch (error) {
       return [];
     }
@@ -67,10 +168,10 @@ export class LinuxAdapter implements PlatformAdapter {
   /**
    * Find process using ss command
    */
-  private findWithSS(port: number): ProcessInfo | null {
+  private findWithSS(port: number, protocol: PortProtocol): ProcessInfo | null {
     try {
       const result = execSync(
-        `ss -lptn 'sport = :${port}'`,
+        `ss -lp${protocol === 'udp' ? 'u' : 't'}n 'sport = :${port}'`,
         { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'ignore'] }
       );
 
@@ -86,7 +187,15 @@ export class LinuxAdapter implements PlatformAdapter {
         return null;
       }
 
-      return this.getProcessDetails(pid, port);
+      const info = this.getProcessDetails(pid, port, protocol);
+      // One line per socket: IPv4 and IPv6 listeners each add an address
+      for (const line of result.split('\n')) {
+        const bound = parseListenAddress(line.trim().split(/\s+/)[3] ?? '');
+        if (info && bound && line.includes(`pid=${pid},`)) {
+          addBindAddress(info, bound);
+        }
+      }
+      return info;
     } catch (error) {
       return null;
     }
@@ -95,28 +204,41 @@ export class LinuxAdapter implements PlatformAdapter {
   /**
    * Find process using netstat command
    */
-  private findWithNetstat(port: number): ProcessInfo | null {
+  private findWithNetstat(
+    port: number,
+    protocol: PortProtocol
+  ): ProcessInfo | null {
     try {
       const result = execSync(
-        `netstat -ltnp 2>/dev/null | grep :${port}`,
+        `netstat -l${protocol === 'udp' ? 'u' : 't'}np 2>/dev/null | grep :${port}`,
         { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'ignore'] }
       );
 
       // Parse netstat output
       // Format: tcp  0  0 0.0.0.0:3000  0.0.0.0:*  LISTEN  12345/node
+      // UDP has no State column: udp  0  0 0.0.0.0:5353  0.0.0.0:*  12345/node
+      const pidColumn = protocol === 'udp' ? 5 : 6;
       const lines = result.trim().split('\n');
       for (const line of lines) {
         const parts = line.trim().split(/\s+/);
-        if (parts.length < 7) continue;
+        if (parts.length < pidColumn + 1) continue;
 
-        const lastPart = parts[6];
+        const lastPart = parts[pidColumn];
         const pidMatch = lastPart.match(/^(\d+)/);
         if (!pidMatch) continue;
 
         const pid = parseInt(pidMatch[1]);
         if (isNaN(pid) || pid <= 0) continue;
 
-        return this.getProcessDetails(pid, port);
+        const info = this.getProcessDetails(pid, port, protocol);
+        for (const other of lines) {
+          const fields = other.trim().split(/\s+/);
+          const bound = this.parseNetstatAddress(fields);
+          if (info && bound?.port === port && fields[pidColumn] === lastPart) {
+            addBindAddress(info, bound);
+          }
+        }
+        return info;
       }
 
       return null;
@@ -128,36 +250,28 @@ export class LinuxAdapter implements PlatformAdapter {
   /**
    * Get all listening ports using ss
    */
-  private getAllWithSS(): ProcessInfo[] {
+  private getAllWithSS(protocol: PortProtocol): ProcessInfo[] {
     try {
       const result = execSync(
-        'ss -lptn',
+        `ss -lp${protocol === 'udp' ? 'u' : 't'}n`,
         { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'ignore'] }
       );
 
       const lines = result.trim().split('\n').slice(1); // Skip header
       const processes: ProcessInfo[] = [];
-      const seen = new Set<string>();
+      const byKey = new Map<string, ProcessInfo | null>();
 
       for (const line of lines) {
         const pidMatch = line.match(/pid=(\d+)/);
-        const portMatch = line.match(/:(\d+)\s/);
+        // Format: LISTEN 0 128 127.0.0.1:3000 0.0.0.0:* users:(...)
+        const bound = parseListenAddress(line.trim().split(/\s+/)[3] ?? '');
 
-        if (!pidMatch || !portMatch) continue;
+        if (!pidMatch || !bound) continue;
 
         const pid = parseInt(pidMatch[1]);
-        const port = parseInt(portMatch[1]);
-
-        if (isNaN(pid) || isNaN(port)) continue;
+        if (isNaN(pid)) continue;
 
-        const key = `${pid}:${port}`;
-        if (seen.has(key)) continue;
-        seen.add(key);
-
-        const processInfo = this.getProcessDetails(pid, port);
-        if (processInfo) {
-          processes.push(processInfo);
-        }
+        this.collectListener(byKey, processes, pid, bound.port, protocol, bound);
       }
 
       return processes;
@@ -169,41 +283,32 @@ export class LinuxAdapter implements PlatformAdapter {
   /**
    * Get all listening ports using netstat
    */
-  private getAllWithNetstat(): ProcessInfo[] {
+  private getAllWithNetstat(protocol: PortProtocol): ProcessInfo[] {
     try {
       const result = execSync(
-        'netstat -ltnp 2>/dev/null',
+        `netstat -l${protocol === 'udp' ? 'u' : 't'}np 2>/dev/null`,
         { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'ignore'] }
       );
 
+      const pidColumn = protocol === 'udp' ? 5 : 6; // UDP has no State column
       const lines = result.trim().split('\n').slice(2); // Skip headers
       const processes: ProcessInfo[] = [];
-      const seen = new Set<string>();
+      const byKey = new Map<string, ProcessInfo | null>();
 
       for (const line of lines) {
         const parts = line.trim().split(/\s+/);
-        if (parts.length < 7) continue;
+        if (parts.length < pidColumn + 1) continue;
 
-        const addressPart = parts[3];
-        const portMatch = addressPart.match(/:(\d+)$/);
-        if (!portMatch) continue;
+        const bound = this.parseNetstatAddress(parts);
+        if (!bound) continue;
 
-        const port = parseInt(portMatch[1]);
-
-        const lastPart = parts[6];
+        const lastPart = parts[pidColumn];
         const pidMatch = lastPart.match(/^(\d+)/);
         if (!pidMatch) continue;
 
         const pid = parseInt(pidMatch[1]);
 
-        const key = `${pid}:${port}`;
-        if (seen.has(key)) continue;
-        seen.add(key);
-
-        const processInfo = this.getProcessDetails(pid, port);
-        if (processInfo) {
-          processes.push(processInfo);
-        }
+        this.collectListener(byKey, processes, pid, bound.port, protocol, bound);
       }
 
       return processes;
@@ -212,10 +317,50 @@ export class LinuxAdapter implements PlatformAdapter {
     }
   }
 
+  /**
+   * Add one socket to the scan result: the first socket of a PID and port
+   * creates the entry, later ones (IPv4 next to IPv6) only add an address
+   */
+  private collectListener(
+    byKey: Map<string, ProcessInfo | null>,
+    processes: ProcessInfo[],
+    pid: number,
+    port: number,
+    protocol: PortProtocol,
+    bound: BindAddress
+  ): void {
+    const key = `${pid}:${port}`;
+    let processInfo = byKey.get(key);
+    if (processInfo === undefined) {
+      processInfo = this.getProcessDetails(pid, port, protocol);
+      byKey.set(key, processInfo);
+      if (processInfo) {
+        processes.push(processInfo);
+      }
+    }
+    if (processInfo) {
+      addBindAddress(processInfo, bound);
+    }
+  }
+
+  /**
+   * Local address of a netstat row; the tcp6/udp6 column marks IPv6
+   */
+  private parseNetstatAddress(parts: string[]): ListenAddress | null {
+    return parseListenAddress(
+      parts[3] ?? '',
+      parts[0]?.endsWith('6') ? 'ipv6' : 'ipv4'
+    );
+  }
+
   /**
    * Get detailed information about a process
    */
-  private getProcessDetails(pid: number, port: number): ProcessInfo | null {
+  private getProcessDetails(
+    pid: number,
+    port: number,
+    protocol: PortProtocol = 'tcp'
+  ): ProcessInfo | null {
     try {
       const psResult = execSync(
         `ps -p ${pid} -o comm=,cmd=,user=`,
@@ -241,6 +386,7 @@ export class LinuxAdapter implements PlatformAdapter {
       return {
         pid,
         port,
+        protocol,
         processName,
         command,
         user,
@@ -4,16 +4,34 @@
  */
 
 import { execSync } from 'child_process';
-import { ProcessInfo, PlatformAdapter } from '../types';
+import {
+  KillProcessOptions,
+  PortProtocol,
+  ProcessInfo,
+  ProcessListEntry,
+  PlatformAdapter,
+} from '../types';
+import { addBindAddress, parseListenAddress } from '../bind-address';
+import {
+  DEFAULT_EXIT_WAIT_MS,
+  EXIT_POLL_INTERVAL_MS,
+  KILL_SIGNALS,
+} from './kill-signals';
 
 export class MacOSAdapter implements PlatformAdapter {
   /**
    * Find process using a specific port
    */
-  async findProcessByPort(port: number): Promise<ProcessInfo | null> {
+  async findProcessByPort(
+    port: number,
+    protocol: PortProtocol = 'tcp'
+  ): Promise<ProcessInfo | null> {
     try {
-      // Use lsof to find process ID using the port
-      const pidResult = execSync(`lsof -ti :${port}`, {
+      // Use lsof to find process ID using the port; for TCP only a
+      // listener, never a client connection from that port
+      const selector =
+        protocol === 'udp' ? `UDP:${port}` : `TCP:${port} -sTCP:LISTEN`;
+      const pidResult = execSync(`lsof -ti ${selector}`, {
         encoding: 'utf-8',
         stdio: ['pipe', 'pipe', 'ignore'], // Suppress stderr
       }).trim();
@@ -28,7 +46,7 @@ export class MacOSAdapter implements PlatformAdapter {
       }
 
       // Get detailed process information
-      return await this.getProcessDetails(pid, port);
+      return await this.getProcessDetails(pid, port, protocol);
     } catch (error) {
       // Port not in use or permission denied
       return null;
@@ -38,43 +56,77 @@ export class MacOSAdapter implements PlatformAdapter {
   /**
    * Kill a process by PID
    */
-  async killProcess(pid: number, force: boolean = false): Promise<boolean> {
+  async killProcess(
+    pid: number,
+    force: boolean = false,
+    options: KillProcessOptions = {}
+  ): Promise<boolean> {
     try {
-      const signal = force ? '-9' : '-15'; // SIGKILL or SIGTERM
-      execSync(`kill ${signal} ${pid}`, {
+      const signal = force ? 'SIGKILL' : options.signal ?? 'SIGTERM';
+      execSync(`kill -${KILL_SIGNALS[signal]} ${pid}`, {
         stdio: 'ignore',
       });
 
-      // Wait a moment and verify process is dead
-      await this.sleep(100);
+      return await this.waitForExit(
+        pid,
+        options.timeoutMs ?? DEFAULT_EXIT_WAIT_MS
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Poll until the process exits or the timeout elapses
+   */
+  private async waitForExit(pid: number, timeoutMs: number): Promise<boolean> {
+    // Count polls instead of reading the clock: timers can fire a little early
+    const polls = Math.max(1, Math.ceil(timeoutMs / EXIT_POLL_INTERVAL_MS));
+    for (let i = 0; i < polls; i++) {
+      await this.sleep(EXIT_POLL_INTERVAL_MS);
 
       try {
         execSync(`ps -p ${pid}`, { stdio: 'ignore' });
         // If we get here, process is still alive
-        return false;
       } catch {
         // Process is dead (ps command failed)
         return true;
       }
-    } catch (error) {
-      return false;
     }
+
+    return false;
   }
 
   /**
    * Get all listening ports
    */
-  async getAllListeningPorts(): Promise<ProcessInfo[]> {
+  async getAllListeningPorts(
+    protocols: PortProtocol[] = ['tcp']
+  ): Promise<ProcessInfo[]> {
+    const processes: ProcessInfo[] = [];
+    for (const protocol of protocols) {
+      processes.push(...(await this.getAllForProtocol(protocol)));
+    }
+    return processes;
+  }
+
+  /**
+   * Listening TCP sockets, or bound (unconnected) UDP sockets, via lsof
+   */
+  private async getAllForProtocol(
+    protocol: PortProtocol
+  ): Promise<ProcessInfo[]> {
     try {
-      // Use lsof to get all listening TCP ports
       const result = execSync(
-        'lsof -iTCP -sTCP:LISTEN -n -P',
+        protocol === 'udp'
+          ? 'lsof -iUDP -n -P'
+          : 'lsof -iTCP -sTCP:LISTEN -n -P',
         { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'ignore'] }
       );
 
       const lines = result.trim().split('\n').slice(1); // Skip header
       const processes: ProcessInfo[] = [];
-      const seen = new Set<string>();
+      const byKey = new Map<string, ProcessInfo | null>();
 
       for (const line of lines) {
         const parts = line.trim().split(/\s+/);
@@ -83,20 +135,30 @@ export class MacOSAdapter implements PlatformAdapter {
         const pid = parseInt(parts[1]);
         const addressPart = parts[8];
 
-        // Extract port from address (format: *:3000 or 127.0.0.1:3000)
-        const portMatch = addressPart.match(/:(\d+)$/);
-        if (!portMatch) continue;
+        // Connected UDP sockets (client side) look like 10.0.0.2:5353->10.0.0.1:53
+        if (addressPart.includes('->')) continue;
 
-        const port = parseInt(portMatch[1]);
-        const key = `${pid}:${port}`;
+        // Address formats: *:3000, 127.0.0.1:3000, [::1]:3000; TYPE is IPv4/IPv6
+        const bound = parseListenAddress(
+          addressPart,
+          parts[4] === 'IPv6' ? 'ipv6' : 'ipv4'
+        );
+        if (!bound) continue;
 
-        // Skip duplicates
-        if (seen.has(key)) continue;
-        seen.add(key);
+        const port = bound.port;
+        const key = `${pid}:${port}`;
 
-        const processInfo = await this.getProcessDetails(pid, port);
+        // One entry per PID and port; further sockets only add an address
+        let processInfo = byKey.get(key);
+        if (processInfo === undefined) {
+          processInfo = await this.getProcessDetails(pid, port, protocol);
+          byKey.set(key, processInfo);
+          if (processInfo) {
+            processes.push(processInfo);
+          }
+        }
         if (processInfo) {
-          processes.push(processInfo);
+          addBindAddress(processInfo, bound);
         }
       }
 
@@ -106,12 +168,45 @@ export class MacOSAdapter implements PlatformAdapter {
     }
   }
 
+  /**
+   * List every running process with its parent PID
+   */
+  async listProcesses(): Promise<ProcessListEntry[]> {
+    try {
+      const result = execSync('ps -A -o pid=,ppid=,command=', {
+        encoding: 'utf-8',
+        stdio: ['pipe', 'pipe', 'ignore'],
+        maxBuffer: 16 * 1024 * 1024,
+      });
+
+      const processes: ProcessListEntry[] = [];
+      for (const line of result.split('\n')) {
+        const match = line.trim().match(/^(\d+)\s+(\d+)\s+(.*)$/);
+        if (!match) continue;
+
+        const command = match[3].trim();
+        const executable = command.split(/\s+/)[0] ?? '';
+        processes.push({
+          pid: parseInt(match[1]),
+          parentPid: parseInt(match[2]),
+          name: executable.split('/').pop() || executable,
+          command,
+        });
+      }
+
+      return processes;
+    } catch (error) {
+      return [];
+    }
+  }
+
   /**
    * Get detailed information about a process
    */
   private async getProcessDetails(
     pid: number,
-    port: number
+    port: number,
+    protocol: PortProtocol = 'tcp'
   ): Promise<ProcessInfo | null> {
     try {
       // Get process name, command, user using ps
@@ -146,6 +241,7 @@ export class MacOSAdapter implements PlatformAdapter {
       return {
         pid,
         port,
+        protocol,
         processName,
         command,
         user,
@@ -4,13 +4,24 @@
  */
 
 import { execSync } from 'child_process';
-import { ProcessInfo, PlatformAdapter } from '../types';
+import {
+  KillProcessOptions,
+  PortProtocol,
+  ProcessInfo,
+  ProcessListEntry,
+  PlatformAdapter,
+} from '../types';
+import { addBindAddress, parseListenAddress } from '../bind-address';
+import { DEFAULT_EXIT_WAIT_MS, EXIT_POLL_INTERVAL_MS } from './kill-signals';
 
 export class WindowsAdapter implements PlatformAdapter {
   /**
    * Find process using a specific port
    */
-  async findProcessByPort(port: number): Promise<ProcessInfo | null> {
+  async findProcessByPort(
+    port: number,
+    protocol: PortProtocol = 'tcp'
+  ): Promise<ProcessInfo | null> {
     try {
       // Use netstat to find process
       const result = execSync(
@@ -20,19 +31,41 @@ export class WindowsAdapter implements PlatformAdapter {
 
       // Parse netstat output
       // Format: TCP    0.0.0.0:3000    0.0.0.0:0    LISTENING    12345
+      //         UDP    0.0.0.0:5353    *:*                       12345
       const lines = result.trim().split('\n');
 
       for (const line of lines) {
-        // Look for LISTENING state
-        if (!line.includes('LISTENING')) continue;
-
         const parts = line.trim().split(/\s+/);
-        if (parts.length < 5) continue;
+
+        if (protocol === 'udp') {
+          // UDP has no state column; match the local address exactly
+          if (parts.length < 4 || parts[0] !== 'UDP') continue;
+          if (!parts[1].endsWith(`:${port}`)) continue;
+        } else {
+          // Look for LISTENING state
+          if (!line.includes('LISTENING')) continue;
+          if (parts.length < 5) continue;
+        }
 
         const pid = parseInt(parts[parts.length - 1]);
         if (isNaN(pid) || pid <= 0) continue;
 
-        return await this.getProcessDetails(pid, port);
+        const info = await this.getProcessDetails(pid, port, protocol);
+        // Collect the addresses of every socket this PID holds on the port
+        for (const other of lines) {
+          const fields = other.trim().split(/\s+/);
+          const bound = parseListenAddress(fields[1] ?? '');
+          if (
+            info &&
+            bound?.port === port &&
+            fields[0] === parts[0] &&
+            fields[fields.length - 1] === String(pid) &&
+            (protocol === 'udp' || other.includes('LISTENING'))
+          ) {
+            addBindAddress(info, bound);
+          }
+        }
+        return info;
       }
 
       return null;
@@ -43,16 +76,37 @@ export class WindowsAdapter implements PlatformAdapter {
 
   /**
    * Kill a process by PID
+   * Windows has no POSIX signals: anything but SIGKILL is a plain taskkill
+   * (close request), SIGKILL maps to taskkill /F.
    */
-  async killProcess(pid: number, force: boolean = false): Promise<boolean> {
+  async killProcess(
+    pid: number,
+    force: boolean = false,
+    options: KillProcessOptions = {}
+  ): Promise<boolean> {
     try {
-      const flag = force ? '/F' : '';
+      const flag = force || options.signal === 'SIGKILL' ? '/F' : '';
       execSync(`taskkill /PID ${pid} ${flag}`, {
         stdio: 'ignore',
       });
 
-      // Wait a moment and verify process is dead
-      await this.sleep(100);
+      return await this.waitForExit(
+        pid,
+        options.timeoutMs ?? DEFAULT_EXIT_WAIT_MS
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Poll until the process exits or the timeout elapses
+   */
+  private async waitForExit(pid: number, timeoutMs: number): Promise<boolean> {
+    // Count polls instead of reading the clock: timers can fire a little early
+    const polls = Math.max(1, Math.ceil(timeoutMs / EXIT_POLL_INTERVAL_MS));
+    for (let i = 0; i < polls; i++) {
+      await this.sleep(EXIT_POLL_INTERVAL_MS);
 
       try {
         execSync(`tasklist /FI "PID eq ${pid}"`, { stdio: 'ignore' });
@@ -65,51 +119,107 @@ export class WindowsAdapter implements PlatformAdapter {
         if (result.includes('INFO: No tasks')) {
           return true;
         }
-        return false;
       } catch {
         // Command failed, assume process is dead
         return true;
       }
-    } catch (error) {
-      return false;
     }
+
+    return false;
   }
 
   /**
    * Get all listening ports
    */
-  async getAllListeningPorts(): Promise<ProcessInfo[]> {
+  async getAllListeningPorts(
+    protocols: PortProtocol[] = ['tcp']
+  ): Promise<ProcessInfo[]> {
+    const processes: ProcessInfo[] = [];
+    for (const protocol of protocols) {
+      processes.push(...(await this.getAllForProtocol(protocol)));
+    }
+    return processes;
+  }
+
+  /**
+   * Listening TCP sockets, or bound UDP sockets, via netstat
+   */
+  private async getAllForProtocol(
+    protocol: PortProtocol
+  ): Promise<ProcessInfo[]> {
     try {
       const result = execSync(
-        'netstat -ano | findstr LISTENING',
+        protocol === 'udp'
+          ? 'netstat -ano | findstr UDP'
+          : 'netstat -ano | findstr LISTENING',
         { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'ignore'] }
       );
 
       const lines = result.trim().split('\n');
       const processes: ProcessInfo[] = [];
-      const seen = new Set<string>();
+      const byKey = new Map<string, ProcessInfo | null>();
 
       for (const line of lines) {
         const parts = line.trim().split(/\s+/);
-        if (parts.length < 5) continue;
+        if (parts.length < (protocol === 'udp' ? 4 : 5)) continue;
+        if (protocol === 'udp' && parts[0] !== 'UDP') continue;
 
-        const addressPart = parts[1];
-        const portMatch = addressPart.match(/:(\d+)$/);
-        if (!portMatch) continue;
+        // Local address: 0.0.0.0:3000, 127.0.0.1:3000 or [::]:3000
+        const bound = parseListenAddress(parts[1]);
+        if (!bound) continue;
 
-        const port = parseInt(portMatch[1]);
+        const port = bound.port;
         const pid = parseInt(parts[parts.length - 1]);
 
-        if (isNaN(pid) || isNaN(port)) continue;
+        if (isNaN(pid)) continue;
 
+        // One entry per PID and port; further sockets only add an address
         const key = `${pid}:${port}`;
-        if (seen.has(key)) continue;
-        seen.add(key);
-
-        const processInfo = await this.getProcessDetails(pid, port);
+        let processInfo = byKey.get(key);
+        if (processInfo === undefined) {
+          processInfo = await this.getProcessDetails(pid, port, protocol);
+          byKey.set(key, processInfo);
+          if (processInfo) {
+            processes.push(processInfo);
+          }
+        }
         if (processInfo) {
-          processes.push(processInfo);
+          addBindAddress(processInfo, bound);
+        }
+      }
+
+      return processes;
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * List every running process with its parent PID
+   */
+  async listProcesses(): Promise<ProcessListEntry[]> {
+    try {
+      // CSV columns are alphabetical: Node,Name,ParentProcessId,ProcessId
+      const result = execSync(
+        'wmic process get Name,ParentProcessId,ProcessId /format:csv',
+        {
+          encoding: 'utf-8',
+          stdio: ['pipe', 'pipe', 'ignore'],
+          maxBuffer: 16 * 1024 * 1024,
         }
+      );
+
+      const processes: ProcessListEntry[] = [];
+      for (const line of result.split(/\r?\n/)) {
+        const parts = line.trim().split(',');
+        if (parts.length < 4) continue;
+
+        const pid = parseInt(parts[parts.length - 1]);
+        const parentPid = parseInt(parts[parts.length - 2]);
+        if (isNaN(pid) || isNaN(parentPid)) continue;
+
+        const name = parts.slice(1, parts.length - 2).join(',');
+        processes.push({ pid, parentPid, name, command: name });
       }
 
       return processes;
@@ -123,7 +233,8 @@ export class WindowsAdapter implements PlatformAdapter {
    */
   private async getProcessDetails(
     pid: number,
-    port: number
+    port: number,
+    protocol: PortProtocol = 'tcp'
   ): Promise<ProcessInfo | null> {
     try {
       // Get process details using tasklist
@@ -170,6 +281,7 @@ export class WindowsAdapter implements PlatformAdapter {
       return {
         pid,
         port,
+        protocol,
         processName,
         command,
         ...context,
@@ -0,0 +1,68 @@
+/**
+ * Port mappings keyed on (project, port): several projects can use the same
+ * port, and the one a listener belongs to is picked from its working directory.
+ */
+
+import path from "path";
+import type { PortMapping } from "./types";
+
+/**
+ * Same saved mapping: one port in one project directory
+ */
+export function samePortMapping(
+  a: Pick<PortMapping, "port" | "projectPath">,
+  b: Pick<PortMapping, "port" | "projectPath">
+): boolean {
+  return a.port === b.port && a.projectPath === b.projectPath;
+}
+
+/**
+ * True when `dir` is `root` or inside it
+ */
+export function isWithinProject(dir: string, root: string): boolean {
+  const relative = path.relative(root, dir);
+  return (
+    relative === "" ||
+    (relative !== ".." &&
+      !relative.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relative))
+  );
+}
+
+/**
+ * Mappings of a port, most relevant first: the project containing the
+ * working directory (deepest first), then the most recently and most often
+ * used, then the most recently recorded
+ */
+export function rankPortMappings(
+  mappings: readonly PortMapping[],
+  port: number,
+  workingDirectory?: string
+): PortMapping[] {
+  const depth = (m: PortMapping) =>
+    workingDirectory && isWithinProject(workingDirectory, m.projectPath)
+      ? m.projectPath.length
+      : -1;
+
+  return mappings
+    .filter((m) => m.port === port)
+    .reverse()
+    .sort(
+      (a, b) =>
+        depth(b) - depth(a) ||
+        b.lastUsed.getTime() - a.lastUsed.getTime() ||
+        b.useCount - a.useCount
+    );
+}
+
+/**
+ * The project a listener on `port` most likely belongs to; null when the
+ * port is not mapped
+ */
+export function resolvePortMapping(
+  mappings: readonly PortMapping[],
+  port: number,
+  workingDirectory?: string
+): PortMapping | null {
+  return rankPortMappings(mappings, port, workingDirectory)[0] ?? null;
+}
@@ -0,0 +1,78 @@
+/**
+ * Human-readable process context (uptime, parent, working directory,
+ * service) shared by `zkill scan --verbose` and the `zkill ui` detail pane.
+ */
+
+import type { ProcessInfo } from "./types";
+
+/**
+ * Format uptime in milliseconds to human-readable string
+ */
+export function formatUptime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+
+  if (days > 0) {
+    return `${days}d ${hours % 24}h ${minutes % 60}m`;
+  } else if (hours > 0) {
+    return `${hours}h ${minutes % 60}m ${seconds % 60}s`;
+  } else if (minutes > 0) {
+    return `${minutes}m ${seconds % 60}s`;
+  } else {
+    return `${seconds}s`;
+  }
+}
+
+/**
+ * Context lines ("Running for: ...", "Started by: ...") for whatever the
+ * adapter reported; empty when it reported nothing
+ */
+export function describeProcessContext(process: ProcessInfo): string[] {
+  const lines: string[] = [];
+
+  // Uptime / Start time
+  if (process.uptime !== undefined || process.startTime) {
+    let uptimeStr = "";
+    if (process.uptime !== undefined && process.uptime > 0) {
+      uptimeStr = formatUptime(process.uptime);
+    }
+    if (process.startTime) {
+      const startTimeStr = process.startTime.toLocaleString();
+      if (uptimeStr) {
+        lines.push(`Running for: ${uptimeStr} (started: ${startTimeStr})`);
+      } else {
+        lines.push(`Started: ${startTimeStr}`);
+      }
+    } else if (uptimeStr) {
+      lines.push(`Running for: ${uptimeStr}`);
+    }
+  }
+
+  // Parent process
+  if (process.parentPid !== undefined) {
+    const parentInfo = process.parentProcessName
+      ? `${process.parentProcessName} (PID ${process.parentPid})`
+      : `PID ${process.parentPid}`;
+    lines.push(`Started by: ${parentInfo}`);
+  }
+
+  // Working directory
+  if (process.workingDirectory) {
+    lines.push(`Working dir: ${process.workingDirectory}`);
+  }
+
+  // Service manager
+  if (process.serviceManager) {
+    const serviceInfo = process.serviceName
+      ? `${process.serviceName} (${process.serviceManager})`
+      : process.serviceManager;
+    lines.push(`Service: ${serviceInfo}`);
+  } else if (process.parentPid === 1) {
+    // Common indicator of system service
+    lines.push("Service: Not a service");
+  }
+
+  return lines;
+}
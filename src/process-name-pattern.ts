@@ -0,0 +1,61 @@
+/**
+ * Compile the pattern given to `zkill --name` into a matcher.
+ * `/source/flags` is a regular expression (unanchored); anything else is a
+ * case-insensitive glob (`*`, `?`) that must match the whole value.
+ */
+
+import type { ProcessInfo } from "./types";
+
+export type CompileNamePatternResult =
+  | { ok: true; regex: RegExp }
+  | { ok: false; error: string };
+
+const REGEX_LITERAL = /^\/(.+)\/([a-z]*)$/;
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (const ch of glob) {
+    if (ch === "*") {
+      source += ".*";
+    } else if (ch === "?") {
+      source += ".";
+    } else {
+      source += ch.replace(/[\\^$.|+()[\]{}]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+export function compileProcessNamePattern(
+  pattern: string
+): CompileNamePatternResult {
+  const trimmed = pattern.trim();
+  if (trimmed.length === 0) {
+    return { ok: false, error: "Pattern must not be empty" };
+  }
+
+  const literal = trimmed.match(REGEX_LITERAL);
+  if (literal) {
+    try {
+      return { ok: true, regex: new RegExp(literal[1], literal[2]) };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { ok: false, error: `Invalid regular expression: ${reason}` };
+    }
+  }
+
+  return { ok: true, regex: globToRegExp(trimmed) };
+}
+
+/**
+ * True when the process name or full command line matches.
+ */
+export function matchesProcessName(regex: RegExp, p: ProcessInfo): boolean {
+  // Reset lastIndex in case the caller passed a global/sticky regex
+  regex.lastIndex = 0;
+  if (regex.test(p.processName)) {
+    return true;
+  }
+  regex.lastIndex = 0;
+  return regex.test(p.command);
+}
@@ -0,0 +1,188 @@
+/**
+ * Process trees for `zkill <port> --tree`.
+ * Pure helpers over a process table snapshot: build the tree below a PID,
+ * find the dev-tool supervisor that owns it, and order it for a bottom-up kill.
+ */
+
+import type { ProcessListEntry } from "./types";
+
+export interface ProcessTreeNode {
+  pid: number;
+  parentPid: number;
+  name: string;
+  command: string;
+  children: ProcessTreeNode[];
+}
+
+/**
+ * Dev tools that restart or wrap the server they launch. Killing only the
+ * listening child leaves these free to start it again on the same port.
+ */
+export const SUPERVISOR_NAMES: readonly string[] = [
+  "npm",
+  "npx",
+  "yarn",
+  "pnpm",
+  "bun",
+  "nodemon",
+  "concurrently",
+  "ts-node-dev",
+  "node-dev",
+  "tsx",
+  "turbo",
+  "nx",
+];
+
+/** Shells sit between a supervisor and its child (`npm run` spawns `sh -c`) */
+const SHELL_NAMES: readonly string[] = [
+  "sh",
+  "bash",
+  "zsh",
+  "dash",
+  "fish",
+  "cmd",
+  "powershell",
+  "pwsh",
+];
+
+/** Never climb past this many ancestors looking for a supervisor */
+const MAX_ANCESTOR_DEPTH = 16;
+
+function baseName(value: string): string {
+  const last = value.split(/[\\/]/).pop() ?? value;
+  return last.replace(/\.(exe|cmd|js|cjs|mjs)$/i, "").toLowerCase();
+}
+
+/**
+ * Name of the supervisor an entry runs, or null. Checks the executable and
+ * the script it runs, so `node /usr/bin/nodemon app.js` counts as nodemon.
+ */
+export function supervisorName(entry: ProcessListEntry): string | null {
+  const candidates = [
+    entry.name,
+    ...entry.command.split(/\s+/).filter(Boolean).slice(0, 2),
+  ].map(baseName);
+  return candidates.find((c) => SUPERVISOR_NAMES.includes(c)) ?? null;
+}
+
+function isShell(entry: ProcessListEntry): boolean {
+  return SHELL_NAMES.includes(baseName(entry.name));
+}
+
+/**
+ * Ancestors of a PID, nearest first, stopping below PID 1
+ */
+export function ancestorsOf(
+  pid: number,
+  processes: ProcessListEntry[]
+): ProcessListEntry[] {
+  const byPid = new Map(processes.map((p) => [p.pid, p]));
+  const ancestors: ProcessListEntry[] = [];
+  const seen = new Set<number>([pid]);
+  let parent = byPid.get(byPid.get(pid)?.parentPid ?? 0);
+
+  while (parent && parent.pid > 1 && !seen.has(parent.pid)) {
+    ancestors.push(parent);
+    seen.add(parent.pid);
+    parent = byPid.get(parent.parentPid);
+  }
+
+  return ancestors;
+}
+
+/**
+ * Walk up from a PID and return the outermost supervisor in the chain of
+ * supervisors and shells directly above it, or null if there is none.
+ */
+export function findSupervisor(
+  pid: number,
+  processes: ProcessListEntry[]
+): ProcessListEntry | null {
+  let supervisor: ProcessListEntry | null = null;
+
+  for (const parent of ancestorsOf(pid, processes).slice(0, MAX_ANCESTOR_DEPTH)) {
+    if (supervisorName(parent)) {
+      supervisor = parent;
+    } else if (!isShell(parent)) {
+      break;
+    }
+  }
+
+  return supervisor;
+}
+
+/**
+ * Build the tree rooted at a PID; null when the PID is not in the table
+ */
+export function buildProcessTree(
+  rootPid: number,
+  processes: ProcessListEntry[]
+): ProcessTreeNode | null {
+  const root = processes.find((p) => p.pid === rootPid);
+  if (!root) {
+    return null;
+  }
+
+  const childrenOf = new Map<number, ProcessListEntry[]>();
+  for (const p of processes) {
+    if (p.pid === p.parentPid) {
+      continue;
+    }
+    const siblings = childrenOf.get(p.parentPid);
+    if (siblings) {
+      siblings.push(p);
+    } else {
+      childrenOf.set(p.parentPid, [p]);
+    }
+  }
+
+  // Guards against PID reuse producing a cycle in a racy snapshot
+  const visited = new Set<number>();
+  const build = (entry: ProcessListEntry): ProcessTreeNode => {
+    visited.add(entry.pid);
+    const children = (childrenOf.get(entry.pid) ?? [])
+      .filter((child) => !visited.has(child.pid))
+      .sort((a, b) => a.pid - b.pid)
+      .map(build);
+    return { ...entry, children };
+  };
+
+  return build(root);
+}
+
+/**
+ * Nodes in kill order: every child before its parent, root last
+ */
+export function killOrder(root: ProcessTreeNode): ProcessTreeNode[] {
+  const order: ProcessTreeNode[] = [];
+  const visit = (node: ProcessTreeNode): void => {
+    node.children.forEach(visit);
+    order.push(node);
+  };
+  visit(root);
+  return order;
+}
+
+/**
+ * Render the tree as indented lines (`├─`, `└─`), marking one PID if given
+ */
+export function formatProcessTree(
+  root: ProcessTreeNode,
+  markPid?: number
+): string[] {
+  const lines: string[] = [];
+  const label = (node: ProcessTreeNode): string =>
+    `${node.name} (PID ${node.pid})${node.pid === markPid ? " ← listening" : ""}`;
+
+  const visit = (node: ProcessTreeNode, prefix: string): void => {
+    node.children.forEach((child, index) => {
+      const last = index === node.children.length - 1;
+      lines.push(`${prefix}${last ? "└─ " : "├─ "}${label(child)}`);
+      visit(child, prefix + (last ? "   " : "│  "));
+    });
+  };
+
+  lines.push(label(root));
+  visit(root, "");
+  return lines;
+}
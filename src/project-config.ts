@@ -0,0 +1,231 @@
+/**
+ * Per-project .zkillrc files: the project's ports and their roles, auto-kill,
+ * protections and kill defaults, merged over ~/.zkill/config.json while
+ * zkill runs inside the project. Whether to confirm kills stays the user's
+ * choice: a cloned .zkillrc must not be able to turn the prompt off.
+ */
+
+import type { PortMapping, ProjectConfigLocation, ProtectionRule } from "./types";
+import { CONFIG_KEYS, ConfigKey, ConfigSettings, configValueError } from "./config-settings";
+import {
+  parseProtectionKind,
+  normalizeProtectionRule,
+  sameProtectionRule,
+} from "./protection";
+import { samePortMapping } from "./port-mappings";
+
+export const PROJECT_CONFIG_FILE = ".zkillrc";
+
+/**
+ * Settings only ~/.zkill/config.json may change
+ */
+export const USER_ONLY_CONFIG_KEYS: readonly ConfigKey[] = ["confirmKill"];
+
+/**
+ * Settings a .zkillrc may override
+ */
+export const PROJECT_CONFIG_KEYS = CONFIG_KEYS.filter(
+  (key): key is Exclude<ConfigKey, "confirmKill"> => !USER_ONLY_CONFIG_KEYS.includes(key)
+);
+
+export type ProjectConfigKey = (typeof PROJECT_CONFIG_KEYS)[number];
+
+export interface ProjectPortConfig {
+  port: number;
+  role?: string; // web, api, db, ...
+  autoKill?: boolean; // may zkill auto check kill it from other projects
+  protected?: boolean; // shorthand for a "port" protection rule
+}
+
+/**
+ * A .zkillrc: its own ports and protections, plus the config.json settings
+ * a project may override
+ */
+export interface ProjectConfig extends Partial<Pick<ConfigSettings, ProjectConfigKey>> {
+  ports?: ProjectPortConfig[];
+  protections?: ProtectionRule[];
+}
+
+export type ParseProjectConfigResult =
+  | { ok: true; config: ProjectConfig }
+  | { ok: false; errors: string[] };
+
+const PORT_KEYS = ["port", "role", "autoKill", "protected"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function parsePorts(value: unknown, errors: string[]): ProjectPortConfig[] {
+  if (!Array.isArray(value)) {
+    errors.push("ports must be an array");
+    return [];
+  }
+
+  const ports: ProjectPortConfig[] = [];
+  value.forEach((entry, i) => {
+    const at = `ports[${i}]`;
+    if (!isObject(entry)) {
+      errors.push(`${at} must be an object like { "port": 3000, "role": "web" }`);
+      return;
+    }
+    for (const key of Object.keys(entry)) {
+      if (!PORT_KEYS.includes(key)) {
+        errors.push(`${at} has unknown key "${key}"`);
+      }
+    }
+
+    const port = entry.port;
+    if (typeof port !== "number" || !Number.isInteger(port) || port < 1 || port > 65535) {
+      errors.push(`${at}.port must be a number between 1 and 65535`);
+      return;
+    }
+    if (ports.some((p) => p.port === port)) {
+      errors.push(`${at}.port ${port} is listed twice`);
+      return;
+    }
+    if (entry.role !== undefined && (typeof entry.role !== "string" || !entry.role.trim())) {
+      errors.push(`${at}.role must be a non-empty string`);
+    }
+    for (const flag of ["autoKill", "protected"] as const) {
+      if (entry[flag] !== undefined && typeof entry[flag] !== "boolean") {
+        errors.push(`${at}.${flag} must be true or false`);
+      }
+    }
+
+    ports.push({
+      port,
+      ...(typeof entry.role === "string" && { role: entry.role.trim() }),
+      ...(typeof entry.autoKill === "boolean" && { autoKill: entry.autoKill }),
+      ...(typeof entry.protected === "boolean" && { protected: entry.protected }),
+    });
+  });
+  return ports;
+}
+
+function parseProtections(value: unknown, errors: string[]): ProtectionRule[] {
+  if (!Array.isArray(value)) {
+    errors.push("protections must be an array");
+    return [];
+  }
+
+  const rules: ProtectionRule[] = [];
+  value.forEach((entry, i) => {
+    const at = `protections[${i}]`;
+    const kind =
+      isObject(entry) && typeof entry.kind === "string"
+        ? parseProtectionKind(entry.kind)
+        : null;
+    const rawValue = isObject(entry) ? entry.value : undefined;
+    if (!kind || (typeof rawValue !== "string" && typeof rawValue !== "number")) {
+      errors.push(
+        `${at} must be an object like { "kind": "port", "value": "5432" }`
+      );
+      return;
+    }
+
+    const normalized = normalizeProtectionRule(kind, String(rawValue));
+    if (!normalized.ok) {
+      errors.push(`${at}: ${normalized.error}`);
+    } else if (!rules.some((r) => sameProtectionRule(r, normalized.rule))) {
+      rules.push(normalized.rule);
+    }
+  });
+  return rules;
+}
+
+/**
+ * Validate a parsed .zkillrc; unknown keys are errors so typos don't go unnoticed
+ */
+export function parseProjectConfig(value: unknown): ParseProjectConfigResult {
+  if (!isObject(value)) {
+    return { ok: false, errors: ["root must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+  const config: ProjectConfig = {};
+  const known: readonly string[] = [...CONFIG_KEYS, "ports", "protections"];
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      errors.push(`unknown setting "${key}"`);
+    } else if ((USER_ONLY_CONFIG_KEYS as readonly string[]).includes(key)) {
+      errors.push(`${key} can only be set in your own config (zkill config set ${key})`);
+    }
+  }
+
+  for (const key of PROJECT_CONFIG_KEYS) {
+    if (value[key] === undefined) continue;
+    const error = configValueError(key, value[key]);
+    if (error) {
+      errors.push(error);
+    } else {
+      Object.assign(config, { [key]: value[key] });
+    }
+  }
+
+  if (value.ports !== undefined) {
+    config.ports = parsePorts(value.ports, errors);
+  }
+  if (value.protections !== undefined) {
+    config.protections = parseProtections(value.protections, errors);
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, config };
+}
+
+/**
+ * Mappings for the ports a .zkillrc declares. Usage and auto-kill carry
+ * over from the project's saved mapping of the same port; `declaredAt`
+ * stands in for "first seen" and "last used" when there is none.
+ */
+export function projectPortMappings(
+  config: ProjectConfig,
+  location: ProjectConfigLocation,
+  saved: readonly PortMapping[],
+  declaredAt: Date
+): PortMapping[] {
+  return (config.ports ?? []).map((entry) => {
+    const previous = saved.find((m) =>
+      samePortMapping(m, { port: entry.port, projectPath: location.projectPath })
+    );
+    return {
+      port: entry.port,
+      projectName: location.projectName,
+      projectPath: location.projectPath,
+      firstSeen: previous?.firstSeen ?? declaredAt,
+      lastUsed: previous?.lastUsed ?? declaredAt,
+      useCount: previous?.useCount ?? 0,
+      autoKill: entry.autoKill ?? previous?.autoKill ?? false,
+      ...(entry.role && { role: entry.role }),
+      configFile: location.path,
+    };
+  });
+}
+
+/**
+ * Saved mappings with the project's saved copies of its declared ports
+ * replaced; other projects keep their mappings of the same ports
+ */
+export function mergePortMappings(
+  saved: readonly PortMapping[],
+  declared: readonly PortMapping[]
+): PortMapping[] {
+  return [
+    ...saved.filter((m) => !declared.some((d) => samePortMapping(d, m))),
+    ...declared,
+  ];
+}
+
+/**
+ * A .zkillrc's protection rules, including ports marked "protected"
+ */
+export function projectProtections(config: ProjectConfig): ProtectionRule[] {
+  const rules = [...(config.protections ?? [])];
+  for (const entry of config.ports ?? []) {
+    const rule: ProtectionRule = { kind: "port", value: String(entry.port) };
+    if (entry.protected && !rules.some((r) => sameProtectionRule(r, rule))) {
+      rules.push(rule);
+    }
+  }
+  return rules;
+}
@@ -0,0 +1,42 @@
+/**
+ * Where to look for the project a listener belongs to when no port mapping
+ * names it: its working directory, then absolute paths in its arguments.
+ */
+
+import type { ProcessInfo } from "./types";
+
+/** Unix "/..." or Windows "C:\..." / "C:/..." */
+const ABSOLUTE_PATH = /^(\/|[A-Za-z]:[\\/])/;
+
+/** Everything from the first node_modules segment on */
+const NODE_MODULES = /[\\/]node_modules([\\/].*)?$/;
+
+/**
+ * Paths to resolve a project root from, most telling first. Paths inside
+ * node_modules are cut back to the package that installed them, so
+ * `/app/node_modules/.bin/next` points at `/app`, not at Next.js itself.
+ */
+export function candidatePaths(process: ProcessInfo): string[] {
+  const paths: string[] = [];
+  const add = (value: string) => {
+    const trimmed = value.replace(NODE_MODULES, "");
+    if (trimmed && !paths.includes(trimmed)) {
+      paths.push(trimmed);
+    }
+  };
+
+  if (process.workingDirectory) {
+    add(process.workingDirectory);
+  }
+
+  // Arguments only: the executable lives wherever it was installed
+  // (~/.nvm, /opt/homebrew), which is not the listener's project
+  for (const token of process.command.split(/\s+/).filter(Boolean).slice(1)) {
+    const value = token.replace(/^-[^=]*=/, "").replace(/^["']|["']$/g, "");
+    if (ABSOLUTE_PATH.test(value)) {
+      add(value);
+    }
+  }
+
+  return paths;
+}
@@ -0,0 +1,125 @@
+/**
+ * Protected targets for `zkill protect`: ports, process name patterns,
+ * users and services that kills skip unless --ignore-protection is given.
+ */
+
+import type { ProcessInfo, ProtectionKind, ProtectionRule } from "./types";
+import {
+  compileProcessNamePattern,
+  matchesProcessName,
+} from "./process-name-pattern";
+
+export const PROTECTION_KINDS: readonly ProtectionKind[] = [
+  "port",
+  "process",
+  "user",
+  "service",
+];
+
+export type NormalizeProtectionResult =
+  | { ok: true; rule: ProtectionRule }
+  | { ok: false; error: string };
+
+/**
+ * Parse a protection kind (case-insensitive); null when invalid
+ */
+export function parseProtectionKind(value: string): ProtectionKind | null {
+  const normalized = value.trim().toLowerCase();
+  return PROTECTION_KINDS.includes(normalized as ProtectionKind)
+    ? (normalized as ProtectionKind)
+    : null;
+}
+
+/**
+ * Validate a rule value and put it in the form it is stored and compared in
+ */
+export function normalizeProtectionRule(
+  kind: ProtectionKind,
+  value: string
+): NormalizeProtectionResult {
+  const trimmed = value.trim();
+  if (trimmed.length === 0) {
+    return { ok: false, error: `A ${kind} to protect must not be empty` };
+  }
+
+  switch (kind) {
+    case "port": {
+      const port = /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : NaN;
+      if (!(port >= 1 && port <= 65535)) {
+        return {
+          ok: false,
+          error: `Port must be a number between 1 and 65535 (got "${value}")`,
+        };
+      }
+      return { ok: true, rule: { kind, value: String(port) } };
+    }
+    case "process": {
+      const compiled = compileProcessNamePattern(trimmed);
+      return compiled.ok
+        ? { ok: true, rule: { kind, value: trimmed } }
+        : { ok: false, error: compiled.error };
+    }
+    case "user":
+    case "service":
+      return { ok: true, rule: { kind, value: trimmed } };
+  }
+}
+
+/**
+ * Whether two rules are the same; only process patterns are case-sensitive
+ * (a /regex/ may say so), other values compare case-insensitively
+ */
+export function sameProtectionRule(a: ProtectionRule, b: ProtectionRule): boolean {
+  if (a.kind !== b.kind) {
+    return false;
+  }
+  return a.kind === "process"
+    ? a.value === b.value
+    : a.value.toLowerCase() === b.value.toLowerCase();
+}
+
+/** systemd units may be given with or without ".service" */
+function serviceKey(name: string): string {
+  return name.toLowerCase().replace(/\.service$/, "");
+}
+
+function matchesRule(
+  rule: ProtectionRule,
+  process: ProcessInfo,
+  ports: readonly number[]
+): boolean {
+  switch (rule.kind) {
+    case "port":
+      return [process.port, ...ports].includes(parseInt(rule.value, 10));
+    case "process": {
+      const compiled = compileProcessNamePattern(rule.value);
+      return compiled.ok && matchesProcessName(compiled.regex, process);
+    }
+    case "user":
+      return process.user?.toLowerCase() === rule.value.toLowerCase();
+    case "service":
+      return (
+        process.serviceName !== undefined &&
+        serviceKey(process.serviceName) === serviceKey(rule.value)
+      );
+  }
+}
+
+/**
+ * The first rule protecting a process (or any of the ports it is being
+ * killed for); null when it may be killed
+ */
+export function findProtection(
+  process: ProcessInfo,
+  ports: readonly number[],
+  rules: readonly ProtectionRule[]
+): ProtectionRule | null {
+  return rules.find((rule) => matchesRule(rule, process, ports)) ?? null;
+}
+
+/**
+ * "port 5432", "process postgres*", ...
+ */
+export function describeProtection(rule: ProtectionRule): string {
+  return `${rule.kind} ${rule.value}`;
+}
@@ -0,0 +1,31 @@
+/**
+ * Helpers for the tcp/udp dimension of `--protocol` and `--udp`.
+ */
+
+import type { PortProtocol, ProtocolFilter } from "./types";
+
+export const PROTOCOL_FILTERS: readonly ProtocolFilter[] = ["tcp", "udp", "all"];
+
+/**
+ * Parse a --protocol value (case-insensitive); null when invalid
+ */
+export function parseProtocolFilter(value: string): ProtocolFilter | null {
+  const normalized = value.trim().toLowerCase();
+  return PROTOCOL_FILTERS.includes(normalized as ProtocolFilter)
+    ? (normalized as ProtocolFilter)
+    : null;
+}
+
+/**
+ * Expand a filter into the protocols to query
+ */
+export function protocolsFor(filter: ProtocolFilter = "tcp"): PortProtocol[] {
+  return filter === "all" ? ["tcp", "udp"] : [filter];
+}
+
+/**
+ * "3000" for TCP (the default everyone assumes), "5353/udp" for UDP
+ */
+export function formatPort(port: number, protocol: PortProtocol = "tcp"): string {
+  return protocol === "udp" ? `${port}/udp` : `${port}`;
+}
@@ -0,0 +1,209 @@
+/**
+ * Crash- and concurrency-safe file updates for ~/.zkill/config.json: atomic
+ * replace via a temp file, an advisory lock file around read-modify-write,
+ * and backups of files that can't be parsed.
+ */
+
+import fs from "fs";
+import path from "path";
+
+export interface FileLockOptions {
+  timeoutMs?: number; // give up waiting for another holder after this long
+  staleMs?: number; // a lock older than this is left over from a crash
+}
+
+const DEFAULT_LOCK_STALE_MS = 10000;
+// Longer than the stale threshold, so a waiter outlasts a lock whose holder
+// hung and takes it over instead of giving up first
+const DEFAULT_LOCK_TIMEOUT_MS = 15000;
+const LOCK_RETRY_MS = 25;
+
+/**
+ * Identity of one lock file, so a new lock at the same path (which may
+ * even reuse the inode) is told apart
+ */
+interface LockStamp {
+  ino: number;
+  mtimeMs: number;
+  holder: string; // PID written by the process that created it
+}
+
+let takeoverCount = 0;
+
+/**
+ * Thrown when another process holds the lock for longer than the timeout
+ */
+export class FileLockError extends Error {
+  constructor(readonly lockPath: string) {
+    super(
+      `Timed out waiting for ${lockPath}; another zkill may be running. Delete the file if none is.`
+    );
+    this.name = "FileLockError";
+  }
+}
+
+/**
+ * Replace a file in one step: readers see the old or the new content, never
+ * a partial write
+ */
+export function writeFileAtomic(filePath: string, data: string): void {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${Date.now()}.tmp`
+  );
+  try {
+    fs.writeFileSync(tempPath, data, "utf-8");
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Run `fn` while holding an exclusive lock file. Locks left behind by a
+ * process that died, or older than `staleMs`, are taken over.
+ */
+export function withFileLock<T>(
+  lockPath: string,
+  fn: () => T,
+  options: FileLockOptions = {}
+): T {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_LOCK_STALE_MS;
+  const deadline = Date.now() + timeoutMs;
+
+  let held: LockStamp;
+  for (;;) {
+    const acquired = tryCreateLock(lockPath);
+    if (acquired) {
+      held = acquired;
+      break;
+    }
+
+    const stale = staleLockStamp(lockPath, staleMs);
+    if (stale && takeOverStaleLock(lockPath, stale)) {
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new FileLockError(lockPath);
+    }
+    sleepSync(LOCK_RETRY_MS);
+  }
+
+  try {
+    return fn();
+  } finally {
+    // Only our own lock: if it was taken over as stale, it belongs to another
+    if (sameLock(stampOf(lockPath), held)) {
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+}
+
+/**
+ * Move an unreadable file aside so it can be recovered by hand; returns the
+ * backup path
+ */
+export function backupCorruptFile(filePath: string, now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[:.]/g, "-");
+  const backupPath = `${filePath}.corrupt-${stamp}`;
+  fs.renameSync(filePath, backupPath);
+  return backupPath;
+}
+
+/** Create the lock file if there is none; null when another holds it */
+function tryCreateLock(lockPath: string): LockStamp | null {
+  let fd: number;
+  try {
+    fd = fs.openSync(lockPath, "wx");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return null;
+    }
+    throw error;
+  }
+  try {
+    const holder = String(process.pid);
+    fs.writeSync(fd, holder);
+    const { ino, mtimeMs } = fs.fstatSync(fd);
+    return { ino, mtimeMs, holder };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Remove a lock judged stale without racing other waiters that judged it
+ * stale too: rename it to a name of our own (only one rename of it can
+ * succeed), then check we moved that lock and not a fresh one another
+ * waiter created since. A fresh one is linked back, which never overwrites.
+ */
+function takeOverStaleLock(lockPath: string, stale: LockStamp): boolean {
+  const movedPath = `${lockPath}.${process.pid}.${++takeoverCount}.stale`;
+  try {
+    fs.renameSync(lockPath, movedPath);
+  } catch {
+    return false; // gone already: released, or taken over by another waiter
+  }
+
+  const moved = stampOf(movedPath);
+  if (!sameLock(moved, stale)) {
+    try {
+      fs.linkSync(movedPath, lockPath);
+    } catch {
+      // A lock appeared meanwhile; the holder we moved finds it isn't its own
+    }
+  }
+  fs.rmSync(movedPath, { force: true });
+  return sameLock(moved, stale);
+}
+
+/**
+ * The lock's stamp if it is stale: older than `staleMs`, or its holder
+ * has exited. Null while it is live or once it is gone.
+ */
+function staleLockStamp(lockPath: string, staleMs: number): LockStamp | null {
+  const stamp = stampOf(lockPath);
+  if (!stamp) {
+    return null; // released meanwhile; the next attempt will tell
+  }
+  if (Date.now() - stamp.mtimeMs > staleMs) {
+    return stamp;
+  }
+  const holder = Number(stamp.holder);
+  if (!Number.isInteger(holder) || holder <= 0 || holder === process.pid) {
+    return null;
+  }
+
+  try {
+    process.kill(holder, 0);
+    return null;
+  } catch (error) {
+    // EPERM: alive, but owned by another user
+    return (error as NodeJS.ErrnoException).code === "ESRCH" ? stamp : null;
+  }
+}
+
+function stampOf(filePath: string): LockStamp | null {
+  try {
+    const { ino, mtimeMs } = fs.statSync(filePath);
+    return { ino, mtimeMs, holder: fs.readFileSync(filePath, "utf-8") };
+  } catch {
+    return null;
+  }
+}
+
+function sameLock(a: LockStamp | null, b: LockStamp | null): boolean {
+  return (
+    a !== null &&
+    b !== null &&
+    a.ino === b.ino &&
+    a.mtimeMs === b.mtimeMs &&
+    a.holder === b.holder
+  );
+}
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
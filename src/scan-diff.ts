@@ -0,0 +1,117 @@
+/**
+ * Differences between two scans, for `zkill scan --watch`.
+ * Listeners are keyed by port and protocol, so a server restarted under a
+ * new PID shows up as a PID change rather than a disappearance.
+ */
+
+import type { PortProtocol, ProcessInfo } from "./types";
+
+export type ScanChangeType = "appeared" | "disappeared" | "pid-changed";
+
+export interface ScanChange {
+  type: ScanChangeType;
+  port: number;
+  protocol: PortProtocol;
+  /** Current PID; for "disappeared", the PID that was listening */
+  pid: number;
+  /** Set for "pid-changed": the PID seen on the previous scan */
+  previousPid: number | null;
+  processName: string;
+  command: string;
+}
+
+/** One line of `zkill scan --watch --json` (newline-delimited JSON) */
+export interface ScanWatchEvent {
+  schemaVersion: "1";
+  event: ScanChangeType;
+  timestamp: string;
+  port: number;
+  protocol: PortProtocol;
+  pid: number;
+  previousPid: number | null;
+  processName: string;
+  command: string;
+}
+
+export function listenerKey(p: ProcessInfo): string {
+  return `${p.port}/${p.protocol ?? "tcp"}`;
+}
+
+/**
+ * One listener per port and protocol; the lowest PID wins when several
+ * processes share a port (SO_REUSEPORT, forked workers)
+ */
+function byListener(processes: ProcessInfo[]): Map<string, ProcessInfo> {
+  const map = new Map<string, ProcessInfo>();
+  for (const p of processes) {
+    const existing = map.get(listenerKey(p));
+    if (!existing || p.pid < existing.pid) {
+      map.set(listenerKey(p), p);
+    }
+  }
+  return map;
+}
+
+function toChange(
+  type: ScanChangeType,
+  p: ProcessInfo,
+  previousPid: number | null = null
+): ScanChange {
+  return {
+    type,
+    port: p.port,
+    protocol: p.protocol ?? "tcp",
+    pid: p.pid,
+    previousPid,
+    processName: p.processName,
+    command: p.command,
+  };
+}
+
+/**
+ * Changes from one scan to the next, ordered by port. Pass an empty
+ * previous scan to report everything currently listening as "appeared".
+ */
+export function diffScans(
+  previous: ProcessInfo[],
+  current: ProcessInfo[]
+): ScanChange[] {
+  const before = byListener(previous);
+  const after = byListener(current);
+  const changes: ScanChange[] = [];
+
+  for (const [key, p] of after) {
+    const old = before.get(key);
+    if (!old) {
+      changes.push(toChange("appeared", p));
+    } else if (old.pid !== p.pid) {
+      changes.push(toChange("pid-changed", p, old.pid));
+    }
+  }
+  for (const [key, p] of before) {
+    if (!after.has(key)) {
+      changes.push(toChange("disappeared", p));
+    }
+  }
+
+  return changes.sort(
+    (a, b) => a.port - b.port || a.protocol.localeCompare(b.protocol)
+  );
+}
+
+export function buildScanWatchEvent(
+  change: ScanChange,
+  at: Date
+): ScanWatchEvent {
+  return {
+    schemaVersion: "1",
+    event: change.type,
+    timestamp: at.toISOString(),
+    port: change.port,
+    protocol: change.protocol,
+    pid: change.pid,
+    previousPid: change.previousPid,
+    processName: change.processName,
+    command: change.command,
+  };
+}
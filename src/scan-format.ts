@@ -0,0 +1,327 @@
+/**
+ * Tabular and templated renderings of `zkill scan`: --format, --columns,
+ * --template and --sort. Pure: the command resolves projects and system
+ * flags into rows, this module only orders and prints them.
+ */
+
+import type { ProcessInfo, ProjectSource } from "./types";
+import { formatBindAddress, isExposed } from "./bind-address";
+import { formatUptime } from "./process-context";
+
+export type ScanFormat = "table" | "csv" | "tsv" | "markdown";
+
+export const SCAN_FORMATS: readonly ScanFormat[] = ["table", "csv", "tsv", "markdown"];
+
+export type ScanSortKey = "port" | "pid" | "name" | "uptime" | "project";
+
+export const SCAN_SORT_KEYS: readonly ScanSortKey[] = [
+  "port",
+  "pid",
+  "name",
+  "uptime",
+  "project",
+];
+
+export type ScanColumn =
+  | "port"
+  | "protocol"
+  | "pid"
+  | "name"
+  | "project"
+  | "source"
+  | "user"
+  | "address"
+  | "exposed"
+  | "system"
+  | "uptime"
+  | "cwd"
+  | "command";
+
+export const SCAN_COLUMNS: readonly ScanColumn[] = [
+  "port",
+  "protocol",
+  "pid",
+  "name",
+  "project",
+  "source",
+  "user",
+  "address",
+  "exposed",
+  "system",
+  "uptime",
+  "cwd",
+  "command",
+];
+
+export const DEFAULT_SCAN_COLUMNS: readonly ScanColumn[] = [
+  "port",
+  "pid",
+  "name",
+  "project",
+  "address",
+  "command",
+];
+
+/** A listener plus what the command looked up about it */
+export interface ScanRow {
+  process: ProcessInfo;
+  projectName: string | null;
+  /** Whether projectName comes from a port mapping or was inferred */
+  projectSource: ProjectSource | null;
+  isSystemProcess: boolean;
+}
+
+/** Columns given up first, and never below MIN_COLUMN_WIDTH, when a table is too wide */
+const SHRINK_ORDER: readonly ScanColumn[] = [
+  "command",
+  "cwd",
+  "address",
+  "project",
+  "name",
+  "user",
+];
+
+const MIN_COLUMN_WIDTH = 8;
+
+const COLUMN_GAP = "  ";
+
+function parseChoice<T extends string>(
+  choices: readonly T[],
+  value: string
+): T | null {
+  const normalized = value.trim().toLowerCase();
+  return choices.includes(normalized as T) ? (normalized as T) : null;
+}
+
+/**
+ * Parse a --format value (case-insensitive); null when invalid
+ */
+export function parseScanFormat(value: string): ScanFormat | null {
+  return parseChoice(SCAN_FORMATS, value);
+}
+
+/**
+ * Parse a --sort value (case-insensitive); null when invalid
+ */
+export function parseScanSortKey(value: string): ScanSortKey | null {
+  return parseChoice(SCAN_SORT_KEYS, value);
+}
+
+/**
+ * Parse a comma-separated --columns list, collecting unknown names
+ */
+export function parseScanColumns(value: string): {
+  columns: ScanColumn[];
+  invalid: string[];
+} {
+  const columns: ScanColumn[] = [];
+  const invalid: string[] = [];
+  for (const name of value.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const column = parseChoice(SCAN_COLUMNS, name);
+    if (column) {
+      columns.push(column);
+    } else {
+      invalid.push(name);
+    }
+  }
+  return { columns, invalid };
+}
+
+/**
+ * Plain-text value of one cell ("" when unknown)
+ */
+export function columnValue(row: ScanRow, column: ScanColumn): string {
+  const p = row.process;
+  switch (column) {
+    case "port":
+      return String(p.port);
+    case "protocol":
+      return p.protocol ?? "tcp";
+    case "pid":
+      return String(p.pid);
+    case "name":
+      return p.processName;
+    case "project":
+      return row.projectName ?? "";
+    case "source":
+      return row.projectSource ?? "";
+    case "user":
+      return p.user ?? "";
+    case "address":
+      return (p.addresses ?? []).map(formatBindAddress).join(", ");
+    case "exposed":
+      return isExposed(p) ? "yes" : "no";
+    case "system":
+      return row.isSystemProcess ? "yes" : "no";
+    case "uptime":
+      return p.uptime !== undefined && p.uptime > 0 ? formatUptime(p.uptime) : "";
+    case "cwd":
+      return p.workingDirectory ?? "";
+    case "command":
+      return p.command;
+  }
+}
+
+/**
+ * Order rows by key. Ties (and unknown uptimes or projects, which sort
+ * last) fall back to port order; uptime puts the longest-running first.
+ */
+export function sortScanRows(rows: ScanRow[], key: ScanSortKey = "port"): ScanRow[] {
+  const byPort = (a: ScanRow, b: ScanRow) =>
+    a.process.port - b.process.port ||
+    (a.process.protocol ?? "tcp").localeCompare(b.process.protocol ?? "tcp") ||
+    a.process.pid - b.process.pid;
+  const missingLast = <T>(a: T | undefined, b: T | undefined, compare: (x: T, y: T) => number) =>
+    a === undefined ? (b === undefined ? 0 : 1) : b === undefined ? -1 : compare(a, b);
+
+  const compare = (a: ScanRow, b: ScanRow): number => {
+    switch (key) {
+      case "port":
+        return 0;
+      case "pid":
+        return a.process.pid - b.process.pid;
+      case "name":
+        return a.process.processName.localeCompare(b.process.processName);
+      case "uptime":
+        return missingLast(a.process.uptime, b.process.uptime, (x, y) => y - x);
+      case "project":
+        return missingLast(a.projectName ?? undefined, b.projectName ?? undefined, (x, y) =>
+          x.localeCompare(y)
+        );
+    }
+  };
+
+  return [...rows].sort((a, b) => compare(a, b) || byPort(a, b));
+}
+
+function truncate(value: string, width: number): string {
+  return value.length <= width ? value : value.slice(0, Math.max(0, width - 1)) + "…";
+}
+
+/**
+ * Aligned columns fitted to maxWidth (Infinity when not on a terminal):
+ * the widest free-text columns are shortened first, then truncated with "…"
+ */
+export function renderScanTable(
+  rows: ScanRow[],
+  columns: readonly ScanColumn[],
+  maxWidth: number = Infinity
+): string[] {
+  const cells = rows.map((row) => columns.map((c) => columnValue(row, c)));
+  const widths = columns.map((c, i) =>
+    Math.max(c.length, ...cells.map((r) => r[i].length))
+  );
+
+  let overflow =
+    widths.reduce((sum, w) => sum + w, 0) + COLUMN_GAP.length * (columns.length - 1) - maxWidth;
+  for (const column of SHRINK_ORDER) {
+    const i = columns.indexOf(column);
+    if (overflow <= 0) {
+      break;
+    }
+    if (i < 0) {
+      continue;
+    }
+    const shrink = Math.min(overflow, Math.max(0, widths[i] - MIN_COLUMN_WIDTH));
+    widths[i] -= shrink;
+    overflow -= shrink;
+  }
+
+  const line = (values: string[]) =>
+    values
+      .map((v, i) => truncate(v, widths[i]).padEnd(widths[i]))
+      .join(COLUMN_GAP)
+      .trimEnd();
+
+  return [line(columns.map((c) => c.toUpperCase())), ...cells.map(line)];
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * RFC 4180 CSV with a header row
+ */
+export function renderScanCsv(rows: ScanRow[], columns: readonly ScanColumn[]): string[] {
+  return [
+    columns.join(","),
+    ...rows.map((row) => columns.map((c) => csvField(columnValue(row, c))).join(",")),
+  ];
+}
+
+/**
+ * Tab-separated with a header row; tabs and newlines in values become spaces
+ */
+export function renderScanTsv(rows: ScanRow[], columns: readonly ScanColumn[]): string[] {
+  const field = (value: string) => value.replace(/[\t\r\n]+/g, " ");
+  return [
+    columns.join("\t"),
+    ...rows.map((row) => columns.map((c) => field(columnValue(row, c))).join("\t")),
+  ];
+}
+
+/**
+ * GitHub-flavored Markdown table
+ */
+export function renderScanMarkdown(
+  rows: ScanRow[],
+  columns: readonly ScanColumn[]
+): string[] {
+  const field = (value: string) => value.replace(/\|/g, "\\|").replace(/[\r\n]+/g, " ");
+  const line = (values: string[]) => `| ${values.join(" | ")} |`;
+  return [
+    line([...columns]),
+    line(columns.map(() => "---")),
+    ...rows.map((row) => line(columns.map((c) => field(columnValue(row, c))))),
+  ];
+}
+
+/**
+ * Render rows in one of the --format formats
+ */
+export function renderScanFormat(
+  format: ScanFormat,
+  rows: ScanRow[],
+  columns: readonly ScanColumn[],
+  maxWidth: number = Infinity
+): string[] {
+  switch (format) {
+    case "table":
+      return renderScanTable(rows, columns, maxWidth);
+    case "csv":
+      return renderScanCsv(rows, columns);
+    case "tsv":
+      return renderScanTsv(rows, columns);
+    case "markdown":
+      return renderScanMarkdown(rows, columns);
+  }
+}
+
+const TEMPLATE_FIELD = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Placeholders in a --template that are not column names
+ */
+export function unknownTemplateFields(template: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(TEMPLATE_FIELD)) {
+    if (!parseChoice(SCAN_COLUMNS, match[1])) {
+      unknown.add(match[1]);
+    }
+  }
+  return [...unknown];
+}
+
+/**
+ * One line per row with {{column}} placeholders filled in. "\t" and "\n"
+ * are unescaped, since shells pass them through literally.
+ */
+export function renderScanTemplate(rows: ScanRow[], template: string): string[] {
+  const unescaped = template.replace(/\\t/g, "\t").replace(/\\n/g, "\n");
+  return rows.map((row) =>
+    unescaped.replace(TEMPLATE_FIELD, (_, name: string) =>
+      columnValue(row, name.toLowerCase() as ScanColumn)
+    )
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * `zkill scan --group-by`: cluster listeners by project, process name, user
+ * or service so a stack of microservices reads as a few blocks.
+ */
+
+import type { ScanRow } from "./scan-format";
+
+export type ScanGroupKey = "project" | "process" | "user" | "service";
+
+export const SCAN_GROUP_KEYS: readonly ScanGroupKey[] = [
+  "project",
+  "process",
+  "user",
+  "service",
+];
+
+export interface ScanGroup {
+  /** Shared value; null for listeners without one (no project, unknown user, ...) */
+  name: string | null;
+  rows: ScanRow[];
+}
+
+/**
+ * Parse a --group-by value (case-insensitive); null when invalid
+ */
+export function parseScanGroupKey(value: string): ScanGroupKey | null {
+  const normalized = value.trim().toLowerCase();
+  return SCAN_GROUP_KEYS.includes(normalized as ScanGroupKey)
+    ? (normalized as ScanGroupKey)
+    : null;
+}
+
+/**
+ * The value a row is grouped under
+ */
+export function groupName(row: ScanRow, key: ScanGroupKey): string | null {
+  const p = row.process;
+  switch (key) {
+    case "project":
+      return row.projectName;
+    case "process":
+      return p.processName;
+    case "user":
+      return p.user ?? null;
+    case "service":
+      return p.serviceName ?? p.serviceManager ?? null;
+  }
+}
+
+/**
+ * Groups ordered by name, with the unnamed group last. Rows keep their
+ * order within a group, so --sort still applies inside each one.
+ */
+export function groupScanRows(rows: ScanRow[], key: ScanGroupKey): ScanGroup[] {
+  const groups = new Map<string | null, ScanRow[]>();
+  for (const row of rows) {
+    const name = groupName(row, key);
+    groups.set(name, [...(groups.get(name) ?? []), row]);
+  }
+
+  return [...groups.entries()]
+    .map(([name, grouped]) => ({ name, rows: grouped }))
+    .sort((a, b) =>
+      a.name === null ? 1 : b.name === null ? -1 : a.name.localeCompare(b.name)
+    );
+}
+
+/**
+ * Distinct ports in a group, ascending
+ */
+export function groupPorts(group: ScanGroup): number[] {
+  return [...new Set(group.rows.map((row) => row.process.port))].sort(
+    (a, b) => a - b
+  );
+}
+
+/**
+ * Distinct PIDs in a group
+ */
+export function groupPidCount(group: ScanGroup): number {
+  return new Set(group.rows.map((row) => row.process.pid)).size;
+}
@@ -3,7 +3,23 @@
  * Bump schemaVersion only for breaking shape changes; additive fields are OK within the same version.
  */
 
-import type { ProcessInfo, ServiceManager } from "./types";
+import type {
+  BindAddress,
+  PortProtocol,
+  ProcessInfo,
+  ProjectOwner,
+  ProjectSource,
+  ProtocolFilter,
+  ServiceManager,
+} from "./types";
+import { PROTOCOL_FILTERS } from "./protocol";
+import { isExposed } from "./bind-address";
+import {
+  SCAN_GROUP_KEYS,
+  ScanGroupKey,
+  groupPorts,
+  groupScanRows,
+} from "./scan-group";
 
 export const SCAN_JSON_SCHEMA_VERSION = "1" as const;
 
@@ -14,6 +30,8 @@ export interface ScanJsonFilters {
   process: string | null;
   project: string | null;
   hideSystemProcesses: boolean;
+  protocol: ProtocolFilter;
+  exposed: boolean;
 }
 
 /** Included when scan runs with --verbose; null otherwise (keys stay stable). */
@@ -29,6 +47,11 @@ export interface ScanJsonProcessContext {
 
 export interface ScanJsonProcess {
   port: number;
+  protocol: PortProtocol;
+  /** Local addresses the port is bound on; null when the platform did not report them */
+  addresses: BindAddress[] | null;
+  /** Reachable from other machines (not loopback-only); null when addresses are unknown */
+  exposed: boolean | null;
   pid: number;
   processName: string;
   command: string;
@@ -36,9 +59,20 @@ export interface ScanJsonProcess {
   isSystemProcess: boolean;
   projectName: string | null;
   projectPath: string | null;
+  /** "mapped" from a saved port mapping, "inferred" from the working directory; null without a project */
+  projectSource: ProjectSource | null;
   context: ScanJsonProcessContext | null;
 }
 
+/** One cluster of `scan --group-by`; processes reference it by port */
+export interface ScanJsonGroup {
+  /** Shared project, process, user or service; null for listeners without one */
+  name: string | null;
+  count: number;
+  ports: number[];
+  pids: number[];
+}
+
 export interface ScanJsonDocument {
   schemaVersion: ScanJsonSchemaVersion;
   meta: {
@@ -46,6 +80,9 @@ export interface ScanJsonDocument {
     platform: string;
   };
   filters: ScanJsonFilters;
+  /** --group-by key; null (and groups null) when not grouping */
+  groupBy: ScanGroupKey | null;
+  groups: ScanJsonGroup[] | null;
   count: number;
   processes: ScanJsonProcess[];
 }
@@ -60,11 +97,27 @@ export interface BuildScanJsonInput {
     process?: string;
     project?: string;
     hideSystemProcesses: boolean;
+    protocol?: ProtocolFilter;
+    exposed?: boolean;
   };
+  groupBy?: ScanGroupKey;
   isCriticalProcess: (p: ProcessInfo) => boolean;
   getPortMapping: (
-    port: number
+    port: number,
+    workingDirectory?: string
   ) => { projectName: string; projectPath: string } | null | undefined;
+  /** Mapped or inferred owner; defaults to the port mapping alone */
+  getProjectOwner?: (p: ProcessInfo) => ProjectOwner | null;
+}
+
+function ownerOf(input: BuildScanJsonInput, p: ProcessInfo): ProjectOwner | null {
+  if (input.getProjectOwner) {
+    return input.getProjectOwner(p);
+  }
+  const mapping = input.getPortMapping(p.port, p.workingDirectory);
+  return mapping
+    ? { source: "mapped", projectName: mapping.projectName, projectPath: mapping.projectPath }
+    : null;
 }
 
 function toIsoStartTime(d: Date | undefined): string | null {
@@ -104,21 +157,25 @@ export function buildScanJsonDocument(
     zkillVersion,
     platform,
     filters,
+    groupBy,
     isCriticalProcess,
-    getPortMapping,
   } = input;
 
   const mapped: ScanJsonProcess[] = processes.map((p) => {
-    const mapping = getPortMapping(p.port);
+    const owner = ownerOf(input, p);
     return {
       port: p.port,
+      protocol: p.protocol ?? "tcp",
+      addresses: p.addresses ? p.addresses.map((a) => ({ ...a })) : null,
+      exposed: p.addresses ? isExposed(p) : null,
       pid: p.pid,
       processName: p.processName,
       command: p.command,
       user: p.user ?? null,
       isSystemProcess: isCriticalProcess(p),
-      projectName: mapping?.projectName ?? null,
-      projectPath: mapping?.projectPath ?? null,
+      projectName: owner?.projectName ?? null,
+      projectPath: owner?.projectPath ?? null,
+      projectSource: owner?.source ?? null,
       context: buildProcessContext(p, verbose),
     };
   });
@@ -134,12 +191,37 @@ export function buildScanJsonDocument(
       process: filters.process ?? null,
       project: filters.project ?? null,
       hideSystemProcesses: filters.hideSystemProcesses,
+      protocol: filters.protocol ?? "tcp",
+      exposed: filters.exposed ?? false,
     },
+    groupBy: groupBy ?? null,
+    groups: groupBy ? buildGroups(input, groupBy) : null,
     count: mapped.length,
     processes: mapped,
   };
 }
 
+function buildGroups(
+  input: BuildScanJsonInput,
+  groupBy: ScanGroupKey
+): ScanJsonGroup[] {
+  const rows = input.processes.map((p) => {
+    const owner = ownerOf(input, p);
+    return {
+      process: p,
+      projectName: owner?.projectName ?? null,
+      projectSource: owner?.source ?? null,
+      isSystemProcess: input.isCriticalProcess(p),
+    };
+  });
+  return groupScanRows(rows, groupBy).map((group) => ({
+    name: group.name,
+    count: group.rows.length,
+    ports: groupPorts(group),
+    pids: [...new Set(group.rows.map((row) => row.process.pid))],
+  }));
+}
+
 const ALLOWED_SERVICE_MANAGERS = new Set<
   NonNullable<ScanJsonProcessContext["serviceManager"]>
 >(["systemd", "launchd", "windows-service"]);
@@ -201,6 +283,60 @@ function validateProcessContext(
   }
 }
 
+function validateAddresses(
+  value: unknown,
+  path: string,
+  errors: string[]
+): void {
+  if (value === null) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be null or an array`);
+    return;
+  }
+  value.forEach((a, i) => {
+    const entry = a as Record<string, unknown> | null;
+    if (
+      !entry ||
+      typeof entry.address !== "string" ||
+      (entry.family !== "ipv4" && entry.family !== "ipv6")
+    ) {
+      errors.push(`${path}[${i}] must have a string address and family "ipv4" or "ipv6"`);
+    }
+  });
+}
+
+function validateGroups(value: unknown, errors: string[]): void {
+  if (value === null) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    errors.push("groups must be null or an array");
+    return;
+  }
+  value.forEach((g, i) => {
+    const path = `groups[${i}]`;
+    const group = g as Record<string, unknown> | null;
+    if (!group || typeof group !== "object" || Array.isArray(group)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (!isNullableString(group.name)) {
+      errors.push(`${path}.name must be null or string`);
+    }
+    if (typeof group.count !== "number" || !Number.isInteger(group.count) || group.count < 1) {
+      errors.push(`${path}.count must be a positive integer`);
+    }
+    if (!Array.isArray(group.ports) || !group.ports.every((p) => typeof p === "number")) {
+      errors.push(`${path}.ports must be an array of numbers`);
+    }
+    if (!Array.isArray(group.pids) || !group.pids.every((p) => typeof p === "number")) {
+      errors.push(`${path}.pids must be an array of numbers`);
+    }
+  });
+}
+
 function validateProcessEntry(
   p: unknown,
   index: number,
@@ -231,6 +367,16 @@ function validateProcessEntry(
   if (typeof o.port !== "number" || o.port < 1 || o.port > 65535) {
     errors.push(`${path}.port must be a number 1–65535`);
   }
+  // Added after v1 shipped: optional for older producers
+  if ("protocol" in o && o.protocol !== "tcp" && o.protocol !== "udp") {
+    errors.push(`${path}.protocol must be "tcp" or "udp"`);
+  }
+  if ("addresses" in o) {
+    validateAddresses(o.addresses, `${path}.addresses`, errors);
+  }
+  if ("exposed" in o && o.exposed !== null && typeof o.exposed !== "boolean") {
+    errors.push(`${path}.exposed must be null or boolean`);
+  }
   if (typeof o.pid !== "number" || !Number.isFinite(o.pid) || o.pid < 1) {
     errors.push(`${path}.pid must be a finite number ≥ 1`);
   }
@@ -252,6 +398,14 @@ function validateProcessEntry(
   if (!isNullableString(o.projectPath)) {
     errors.push(`${path}.projectPath must be null or string`);
   }
+  if (
+    "projectSource" in o &&
+    o.projectSource !== null &&
+    o.projectSource !== "mapped" &&
+    o.projectSource !== "inferred"
+  ) {
+    errors.push(`${path}.projectSource must be null, "mapped" or "inferred"`);
+  }
   if (o.context === null) {
     return;
   }
@@ -311,6 +465,27 @@ export function scanJsonV1ValidationErrors(value: unknown): string[] {
     if (typeof f.hideSystemProcesses !== "boolean") {
       errors.push("filters.hideSystemProcesses must be boolean");
     }
+    if (
+      "protocol" in f &&
+      !PROTOCOL_FILTERS.includes(f.protocol as ProtocolFilter)
+    ) {
+      errors.push(`filters.protocol must be one of ${PROTOCOL_FILTERS.join(", ")}`);
+    }
+    if ("exposed" in f && typeof f.exposed !== "boolean") {
+      errors.push("filters.exposed must be boolean");
+    }
+  }
+
+  // Added after v1 shipped: optional for older producers
+  if (
+    "groupBy" in root &&
+    root.groupBy !== null &&
+    !SCAN_GROUP_KEYS.includes(root.groupBy as ScanGroupKey)
+  ) {
+    errors.push(`groupBy must be null or one of ${SCAN_GROUP_KEYS.join(", ")}`);
+  }
+  if ("groups" in root) {
+    validateGroups(root.groups, errors);
   }
 
   if (typeof root.count !== "number" || !Number.isInteger(root.count) || root.count < 0) {
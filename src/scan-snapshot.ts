@@ -0,0 +1,124 @@
+/**
+ * Saved scans for `zkill scan --save` and `zkill diff`.
+ * A snapshot wraps the scan JSON document unchanged, so anything that reads
+ * `zkill scan --json` can read `scan` out of a snapshot file.
+ */
+
+import type { ProcessInfo } from "./types";
+import {
+  ScanJsonDocument,
+  scanJsonV1ValidationErrors,
+} from "./scan-json-schema";
+import { ScanChange, diffScans } from "./scan-diff";
+
+export const SCAN_SNAPSHOT_SCHEMA_VERSION = "1" as const;
+
+export interface ScanSnapshot {
+  schemaVersion: typeof SCAN_SNAPSHOT_SCHEMA_VERSION;
+  name: string;
+  savedAt: string;
+  scan: ScanJsonDocument;
+}
+
+/** One side of a diff; name is null for the live system */
+export interface ScanDiffSide {
+  name: string | null;
+  at: string;
+}
+
+/** `zkill diff --json` */
+export interface ScanDiffDocument {
+  schemaVersion: "1";
+  from: ScanDiffSide;
+  to: ScanDiffSide;
+  summary: {
+    appeared: number;
+    disappeared: number;
+    pidChanged: number;
+  };
+  changes: ScanChange[];
+}
+
+/** Letters, digits, ".", "_" and "-"; used as the file name */
+const SNAPSHOT_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+export function isValidSnapshotName(name: string): boolean {
+  return SNAPSHOT_NAME.test(name);
+}
+
+export function buildScanSnapshot(
+  name: string,
+  scan: ScanJsonDocument,
+  at: Date
+): ScanSnapshot {
+  return {
+    schemaVersion: SCAN_SNAPSHOT_SCHEMA_VERSION,
+    name,
+    savedAt: at.toISOString(),
+    scan,
+  };
+}
+
+/**
+ * Validation errors for a parsed snapshot file; empty when it is usable
+ */
+export function scanSnapshotValidationErrors(value: unknown): string[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["root must be a JSON object"];
+  }
+  const root = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (root.schemaVersion !== SCAN_SNAPSHOT_SCHEMA_VERSION) {
+    errors.push(`schemaVersion must be "${SCAN_SNAPSHOT_SCHEMA_VERSION}"`);
+  }
+  if (typeof root.name !== "string" || !isValidSnapshotName(root.name)) {
+    errors.push("name must be a valid snapshot name");
+  }
+  if (typeof root.savedAt !== "string" || isNaN(Date.parse(root.savedAt))) {
+    errors.push("savedAt must be an ISO date string");
+  }
+  errors.push(
+    ...scanJsonV1ValidationErrors(root.scan).map((error) => `scan.${error}`)
+  );
+
+  return errors;
+}
+
+/**
+ * The listeners of a saved scan, in the shape diffScans() compares
+ */
+export function snapshotListeners(scan: ScanJsonDocument): ProcessInfo[] {
+  return scan.processes.map((p) => ({
+    pid: p.pid,
+    port: p.port,
+    protocol: p.protocol ?? "tcp",
+    processName: p.processName,
+    command: p.command,
+    user: p.user ?? undefined,
+  }));
+}
+
+export function buildScanDiffDocument(
+  from: ScanDiffSide & { scan: ScanJsonDocument },
+  to: ScanDiffSide & { scan: ScanJsonDocument }
+): ScanDiffDocument {
+  const changes = diffScans(
+    snapshotListeners(from.scan),
+    snapshotListeners(to.scan)
+  );
+  const count = (type: ScanChange["type"]) =>
+    changes.filter((c) => c.type === type).length;
+
+  return {
+    schemaVersion: "1",
+    from: { name: from.name, at: from.at },
+    to: { name: to.name, at: to.at },
+    summary: {
+      appeared: count("appeared"),
+      disappeared: count("disappeared"),
+      pidChanged: count("pid-changed"),
+    },
+    changes,
+  };
+}
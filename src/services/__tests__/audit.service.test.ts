@@ -0,0 +1,90 @@
+/**
+ * Audit Service Tests
+ */
+
+import { AuditRecord, AuditService } from "../audit.service";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+describe("AuditService", () => {
+  let testDir: string;
+  let logPath: string;
+
+  const record = (port: number): AuditRecord => ({
+    port,
+    protocol: "tcp",
+    pid: 1234,
+    processName: "node",
+    command: "node server.js",
+    project: "web",
+    processUser: "dev",
+    signal: "SIGTERM",
+    method: "graceful",
+    success: true,
+    error: null,
+    trigger: "manual",
+  });
+
+  beforeEach(() => {
+    testDir = path.join(os.tmpdir(), `zkill-audit-${Date.now()}`);
+    logPath = path.join(testDir, "history.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("should append entries stamped with time and user", () => {
+    const service = new AuditService(logPath);
+
+    service.record(record(3000), new Date("2026-03-14T10:00:00Z"));
+    service.record(record(3001), new Date("2026-03-14T11:00:00Z"));
+
+    const entries = service.read();
+    expect(entries.map((e) => e.port)).toEqual([3000, 3001]);
+    expect(entries[0].timestamp).toBe("2026-03-14T10:00:00.000Z");
+    expect(entries[0].user).toBe(os.userInfo().username);
+    expect(fs.readFileSync(logPath, "utf-8").trim().split("\n")).toHaveLength(2);
+  });
+
+  it("should read nothing before the first kill", () => {
+    expect(new AuditService(logPath).read()).toEqual([]);
+  });
+
+  it("should skip lines it cannot parse", () => {
+    const service = new AuditService(logPath);
+    service.record(record(3000));
+    fs.appendFileSync(logPath, "garbage\n{\"port\":");
+
+    expect(service.read()).toHaveLength(1);
+  });
+
+  it("should rotate full logs and drop the oldest", () => {
+    // Every entry fills the log, so each append rotates
+    const service = new AuditService(logPath, 1, 2);
+
+    for (const port of [3000, 3001, 3002, 3003]) {
+      service.record(record(port));
+    }
+
+    expect(fs.existsSync(path.join(testDir, "history.1.jsonl"))).toBe(true);
+    expect(fs.existsSync(path.join(testDir, "history.2.jsonl"))).toBe(true);
+    expect(fs.existsSync(path.join(testDir, "history.3.jsonl"))).toBe(false);
+    expect(service.read().map((e) => e.port)).toEqual([3001, 3002, 3003]);
+  });
+
+  it("should never throw when the log cannot be written", () => {
+    fs.mkdirSync(testDir, { recursive: true });
+    // A directory where the log file should be
+    fs.mkdirSync(logPath);
+
+    expect(() => new AuditService(logPath).record(record(3000))).not.toThrow();
+  });
+
+  it("should write nothing when read-only", () => {
+    new AuditService(logPath, 1024, 4, true).record(record(3000));
+
+    expect(fs.existsSync(testDir)).toBe(false);
+  });
+});
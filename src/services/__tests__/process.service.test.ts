@@ -79,6 +79,26 @@ describe("ProcessService", () => {
     });
   });
 
+  describe("signalAccess", () => {
+    it("should allow signalling our own process", () => {
+      expect(processService.signalAccess(process.pid)).toBe("allowed");
+    });
+
+    it("should tell permission errors from exited processes", () => {
+      const fail = (code: string) => () => {
+        throw Object.assign(new Error(code), { code });
+      };
+      const kill = jest.spyOn(process, "kill");
+
+      kill.mockImplementationOnce(fail("EPERM"));
+      expect(processService.signalAccess(1)).toBe("denied");
+      kill.mockImplementationOnce(fail("ESRCH"));
+      expect(processService.signalAccess(999999)).toBe("gone");
+
+      kill.mockRestore();
+    });
+  });
+
   describe("getAllPorts", () => {
     it("should return an array", async () => {
       const result = await processService.getAllPorts();
@@ -102,6 +122,16 @@ describe("ProcessService", () => {
     });
   });
 
+  describe("listProcesses", () => {
+    it("should include the current process with its parent", async () => {
+      const result = await processService.listProcesses();
+      const self = result.find((p) => p.pid === process.pid);
+
+      expect(self).toBeDefined();
+      expect(self?.parentPid).toBe(process.ppid);
+    });
+  });
+
   describe("isCriticalProcess", () => {
     it("should detect critical system processes", () => {
       const criticalProcess: ProcessInfo = {
@@ -160,6 +160,137 @@ describe("ProjectService", () => {
     });
   });
 
+  describe("findProjectRoot", () => {
+    it("should walk up from a nested directory or file", () => {
+      const nested = path.join(testDir, "src", "routes");
+      fs.mkdirSync(nested, { recursive: true });
+      fs.writeFileSync(path.join(testDir, "package.json"), "{}");
+      fs.writeFileSync(path.join(nested, "index.js"), "");
+
+      expect(projectService.findProjectRoot(nested)).toBe(testDir);
+      expect(projectService.findProjectRoot(path.join(nested, "index.js"))).toBe(testDir);
+    });
+
+    it("should return null outside any project", () => {
+      expect(projectService.findProjectRoot(testDir)).toBeNull();
+    });
+
+    it("should never treat the home directory as a project", () => {
+      jest.spyOn(os, "homedir").mockReturnValue(testDir);
+      fs.writeFileSync(path.join(testDir, "Makefile"), "");
+      const nested = path.join(testDir, "notes");
+      fs.mkdirSync(nested);
+
+      expect(projectService.findProjectRoot(nested)).toBeNull();
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("findProjectConfig", () => {
+    it("should find the nearest .zkillrc above a directory", () => {
+      const nested = path.join(testDir, "src", "routes");
+      fs.mkdirSync(nested, { recursive: true });
+      fs.writeFileSync(path.join(testDir, ".zkillrc"), "{}");
+      fs.writeFileSync(
+        path.join(testDir, "package.json"),
+        JSON.stringify({ name: "billing-api" })
+      );
+
+      expect(projectService.findProjectConfig(nested)).toEqual({
+        path: path.join(testDir, ".zkillrc"),
+        projectName: "billing-api",
+        projectPath: testDir,
+      });
+    });
+
+    it("should return null without one", () => {
+      expect(projectService.findProjectConfig(testDir)).toBeNull();
+    });
+
+    it("should never use a .zkillrc in the home directory", () => {
+      jest.spyOn(os, "homedir").mockReturnValue(testDir);
+      fs.writeFileSync(path.join(testDir, ".zkillrc"), "{}");
+      const nested = path.join(testDir, "notes");
+      fs.mkdirSync(nested);
+
+      expect(projectService.findProjectConfig(nested)).toBeNull();
+      jest.restoreAllMocks();
+    });
+
+    it("should make its directory the current project", () => {
+      const nested = path.join(testDir, "src");
+      fs.mkdirSync(nested);
+      fs.writeFileSync(path.join(testDir, ".zkillrc"), "{}");
+
+      const originalCwd = process.cwd();
+      process.chdir(nested);
+      try {
+        expect(projectService.getCurrentProjectPath()).toBe(fs.realpathSync(testDir));
+        expect(projectService.isProjectDirectory()).toBe(true);
+      } finally {
+        process.chdir(originalCwd);
+      }
+    });
+  });
+
+  describe("inferProject", () => {
+    it("should name the project a listener runs in", () => {
+      fs.writeFileSync(
+        path.join(testDir, "package.json"),
+        JSON.stringify({ name: "billing-api" })
+      );
+
+      expect(
+        projectService.inferProject({
+          pid: 1,
+          port: 3000,
+          processName: "node",
+          command: `node ${path.join(testDir, "server.js")}`,
+        })
+      ).toEqual({
+        source: "inferred",
+        projectName: "billing-api",
+        projectPath: testDir,
+      });
+    });
+
+    it("should not take the project from the interpreter's install", () => {
+      // ~/.nvm and /opt/homebrew are checkouts with project files of their own
+      const nvm = path.join(testDir, ".nvm");
+      const homebrew = path.join(testDir, "homebrew");
+      fs.mkdirSync(path.join(nvm, "versions/node/v20.11.0/bin"), { recursive: true });
+      fs.writeFileSync(path.join(nvm, "package.json"), JSON.stringify({ name: "nvm" }));
+      fs.mkdirSync(path.join(homebrew, ".git"), { recursive: true });
+      fs.mkdirSync(path.join(homebrew, "bin"));
+
+      for (const binary of [
+        path.join(nvm, "versions/node/v20.11.0/bin/node"),
+        path.join(homebrew, "bin/node"),
+      ]) {
+        expect(
+          projectService.inferProject({
+            pid: 1,
+            port: 3000,
+            processName: "node",
+            command: `${binary} server.js`,
+          })
+        ).toBeNull();
+      }
+    });
+
+    it("should return null when nothing points into a project", () => {
+      expect(
+        projectService.inferProject({
+          pid: 1,
+          port: 3000,
+          processName: "node",
+          command: "node server.js",
+          workingDirectory: testDir,
+        })
+      ).toBeNull();
+    });
+  });
+
   describe("getProjectType", () => {
     it("should return null for non-project directory", () => {
       const originalCwd = process.cwd();
@@ -353,6 +484,15 @@ describe("ProjectService", () => {
   });
 
   describe("getCommonPortsForProjectType", () => {
+    it("should detect the project type of a given directory", () => {
+      fs.writeFileSync(
+        path.join(testDir, "package.json"),
+        JSON.stringify({ name: "test", dependencies: { next: "^14.0.0" } })
+      );
+
+      expect(projectService.getCommonPortsForProjectType(testDir)).toEqual([3000, 3001]);
+    });
+
     it("should return default ports for unknown project type", () => {
       const originalCwd = process.cwd();
       process.chdir(testDir);
@@ -0,0 +1,116 @@
+/**
+ * Snapshot Service Tests
+ */
+
+import { SnapshotService } from "../snapshot.service";
+import { InvalidInputError } from "../../exit-codes";
+import { ReadOnlyError } from "../../config-location";
+import { ScanSnapshot, buildScanSnapshot } from "../../scan-snapshot";
+import { buildScanJsonDocument } from "../../scan-json-schema";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+describe("SnapshotService", () => {
+  let snapshotService: SnapshotService;
+  let snapshotDir: string;
+
+  const snapshot = (name: string, savedAt: string, ports: number[]): ScanSnapshot =>
+    buildScanSnapshot(
+      name,
+      buildScanJsonDocument({
+        processes: ports.map((port) => ({
+          pid: port + 1,
+          port,
+          processName: "node",
+          command: "node server.js",
+        })),
+        verbose: false,
+        zkillVersion: "9.9.9",
+        platform: "linux",
+        filters: { hideSystemProcesses: false },
+        isCriticalProcess: () => false,
+        getPortMapping: () => null,
+      }),
+      new Date(savedAt)
+    );
+
+  beforeEach(() => {
+    snapshotDir = path.join(os.tmpdir(), `zkill-snapshots-${Date.now()}`, "snapshots");
+    snapshotService = new SnapshotService(snapshotDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(snapshotDir), { recursive: true, force: true });
+  });
+
+  describe("save and load", () => {
+    it("should round-trip a snapshot, creating the directory", () => {
+      const saved = snapshot("before", "2026-01-01T00:00:00Z", [3000, 5432]);
+
+      const file = snapshotService.save(saved);
+
+      expect(file).toBe(path.join(snapshotDir, "before.json"));
+      expect(snapshotService.load("before")).toEqual(saved);
+    });
+
+    it("should refuse to save when read-only", () => {
+      const readOnly = new SnapshotService(snapshotDir, true);
+
+      expect(() =>
+        readOnly.save(snapshot("before", "2026-01-01T00:00:00Z", [3000]))
+      ).toThrow(ReadOnlyError);
+      expect(fs.existsSync(snapshotDir)).toBe(false);
+    });
+
+    it("should overwrite a snapshot with the same name", () => {
+      snapshotService.save(snapshot("before", "2026-01-01T00:00:00Z", [3000]));
+      snapshotService.save(snapshot("before", "2026-01-02T00:00:00Z", [4000]));
+
+      expect(snapshotService.load("before").scan.processes[0].port).toBe(4000);
+    });
+
+    it("should reject names that are not plain file names", () => {
+      expect(() => snapshotService.load("../config")).toThrow(InvalidInputError);
+      expect(() =>
+        snapshotService.save(snapshot("a/b", "2026-01-01T00:00:00Z", []))
+      ).toThrow('Invalid snapshot name "a/b"');
+      expect(fs.existsSync(snapshotDir)).toBe(false);
+    });
+
+    it("should list saved names when a snapshot is missing", () => {
+      snapshotService.save(snapshot("before", "2026-01-01T00:00:00Z", []));
+
+      expect(() => snapshotService.load("after")).toThrow(
+        'No snapshot named "after". Saved snapshots: before'
+      );
+    });
+
+    it("should refuse files that are not valid snapshots", () => {
+      fs.mkdirSync(snapshotDir, { recursive: true });
+      fs.writeFileSync(path.join(snapshotDir, "broken.json"), "{");
+      fs.writeFileSync(path.join(snapshotDir, "other.json"), '{"schemaVersion":"1"}');
+
+      expect(() => snapshotService.load("broken")).toThrow(/not valid JSON/);
+      expect(() => snapshotService.load("other")).toThrow(/is invalid/);
+    });
+  });
+
+  describe("list", () => {
+    it("should be empty before anything is saved", () => {
+      expect(snapshotService.list()).toEqual([]);
+    });
+
+    it("should list valid snapshots oldest first", () => {
+      snapshotService.save(snapshot("later", "2026-02-01T00:00:00Z", [3000, 3001]));
+      snapshotService.save(snapshot("earlier", "2026-01-01T00:00:00Z", [3000]));
+      fs.writeFileSync(path.join(snapshotDir, "junk.json"), "not json");
+      fs.writeFileSync(path.join(snapshotDir, "notes.txt"), "hello");
+
+      expect(snapshotService.list()).toEqual([
+        { name: "earlier", savedAt: "2026-01-01T00:00:00.000Z", count: 1 },
+        { name: "later", savedAt: "2026-02-01T00:00:00.000Z", count: 2 },
+      ]);
+    });
+  });
+});
@@ -3,6 +3,7 @@
  */
 
 import { StorageService } from "../storage.service";
+import { ReadOnlyError } from "../../config-location";
 import { PortMapping } from "../../types";
 import fs from "fs";
 import path from "path";
@@ -74,30 +75,52 @@ describe("StorageService", () => {
       expect(mapping?.lastUsed).toBeInstanceOf(Date);
     });
 
-    it("should update existing port mapping", () => {
+    it("should update the project's mapping and count each use", () => {
       storageService.addPortMapping({
         port: 3000,
         projectName: "project-1",
         projectPath: "/path/1",
         autoKill: false,
       });
+      const firstSeen = storageService.getPortMapping(3000)?.firstSeen;
 
       storageService.addPortMapping({
         port: 3000,
-        projectName: "project-2",
-        projectPath: "/path/2",
+        projectName: "renamed",
+        projectPath: "/path/1",
         autoKill: true,
       });
 
       const mapping = storageService.getPortMapping(3000);
-      expect(mapping?.projectName).toBe("project-2");
-      expect(mapping?.projectPath).toBe("/path/2");
+      expect(mapping?.projectName).toBe("renamed");
       expect(mapping?.autoKill).toBe(true);
+      expect(mapping?.useCount).toBe(2);
+      expect(mapping?.firstSeen).toEqual(firstSeen);
+      expect(storageService.getAllMappings()).toHaveLength(1);
+    });
 
-      // Should only have one mapping for port 3000
-      const allMappings = storageService.getAllMappings();
-      const port3000Mappings = allMappings.filter((m) => m.port === 3000);
-      expect(port3000Mappings.length).toBe(1);
+    it("should keep other projects' mappings of the same port", () => {
+      storageService.addPortMapping({
+        port: 3000,
+        projectName: "project-1",
+        projectPath: "/path/1",
+        autoKill: false,
+      });
+      storageService.addPortMapping({
+        port: 3000,
+        projectName: "project-2",
+        projectPath: "/path/2",
+        autoKill: true,
+      });
+
+      // The latest use wins unless the listener runs inside a project
+      expect(storageService.getPortMapping(3000)?.projectName).toBe("project-2");
+      expect(storageService.getPortMapping(3000, "/path/1/src")?.projectName).toBe(
+        "project-1"
+      );
+      expect(
+        new StorageService().getPortMappings(3000).map((m) => m.projectName)
+      ).toEqual(["project-2", "project-1"]);
     });
 
     it("should persist mappings to disk", () => {
@@ -171,6 +194,23 @@ describe("StorageService", () => {
       expect(mappings[1].port).toBe(5000);
       expect(mappings[2].port).toBe(8000);
     });
+
+    it("should return a sorted copy and leave the saved order alone", () => {
+      for (const port of [8000, 3000]) {
+        storageService.addPortMapping({
+          port,
+          projectName: "project",
+          projectPath: "/path",
+          autoKill: false,
+        });
+      }
+
+      storageService.getAllMappings().pop();
+
+      expect(storageService.getMappingsForProject("/path").map((m) => m.port)).toEqual([
+        8000, 3000,
+      ]);
+    });
   });
 
   describe("getMappingsForProject", () => {
@@ -232,6 +272,43 @@ describe("StorageService", () => {
     });
   });
 
+  describe("removeMappingsForProject", () => {
+    it("should remove only exact project name matches", () => {
+      for (const [port, projectName] of [
+        [3000, "shop"],
+        [3001, "Shop"],
+        [4000, "shop-admin"],
+      ] as const) {
+        storageService.addPortMapping({
+          port,
+          projectName,
+          projectPath: `/work/${projectName}`,
+          autoKill: false,
+        });
+      }
+
+      const removed = storageService.removeMappingsForProject("shop");
+
+      expect(removed.map((m) => m.port)).toEqual([3000, 3001]);
+      expect(new StorageService().getAllMappings().map((m) => m.port)).toEqual([4000]);
+    });
+  });
+
+  describe("renameProject", () => {
+    it("should rename every mapping of a project and persist it", () => {
+      storageService.addPortMapping({
+        port: 3000,
+        projectName: "shop",
+        projectPath: "/work/shop",
+        autoKill: false,
+      });
+
+      expect(storageService.renameProject("SHOP", "storefront")).toBe(1);
+      expect(storageService.renameProject("missing", "x")).toBe(0);
+      expect(new StorageService().getPortMapping(3000)?.projectName).toBe("storefront");
+    });
+  });
+
   describe("isAutoKillEnabled", () => {
     it("should return false by default", () => {
       expect(storageService.isAutoKillEnabled()).toBe(false);
@@ -282,6 +359,185 @@ describe("StorageService", () => {
     });
   });
 
+  describe("getKillSettings", () => {
+    it("should return the defaults", () => {
+      expect(storageService.getKillSettings()).toEqual({
+        signal: "SIGTERM",
+        timeoutMs: 3000,
+        escalate: true,
+        respawnWindowMs: 1000,
+      });
+    });
+  });
+
+  describe("setKillSettings", () => {
+    it("should update only the given fields", () => {
+      storageService.setKillSettings({ signal: "SIGINT", timeoutMs: 10000 });
+
+      expect(storageService.getKillSettings()).toEqual({
+        signal: "SIGINT",
+        timeoutMs: 10000,
+        escalate: true,
+        respawnWindowMs: 1000,
+      });
+    });
+
+    it("should persist settings to disk", () => {
+      storageService.setKillSettings({ escalate: false });
+
+      const newService = new StorageService();
+      expect(newService.getKillSettings().escalate).toBe(false);
+    });
+  });
+
+  describe("settings", () => {
+    it("should set, read and unset a single setting", () => {
+      storageService.setSetting("killTimeout", 5000);
+      expect(new StorageService().getSetting("killTimeout")).toBe(5000);
+
+      storageService.unsetSetting("killTimeout");
+      expect(new StorageService().getSetting("killTimeout")).toBe(3000);
+    });
+  });
+
+  describe("protections", () => {
+    it("should start empty", () => {
+      expect(storageService.getProtections()).toEqual([]);
+    });
+
+    it("should add a rule once and persist it", () => {
+      expect(storageService.addProtection({ kind: "port", value: "5432" })).toBe(true);
+      expect(storageService.addProtection({ kind: "port", value: "5432" })).toBe(false);
+
+      const newService = new StorageService();
+      expect(newService.getProtections()).toEqual([{ kind: "port", value: "5432" }]);
+    });
+
+    it("should remove a rule regardless of case", () => {
+      storageService.addProtection({ kind: "user", value: "Postgres" });
+
+      expect(storageService.removeProtection({ kind: "user", value: "postgres" })).toBe(true);
+      expect(storageService.removeProtection({ kind: "user", value: "postgres" })).toBe(false);
+      expect(storageService.getProtections()).toEqual([]);
+    });
+  });
+
+  describe("project config", () => {
+    let projectDir: string;
+    let rcPath: string;
+
+    const withProjectConfig = (rc: object) => {
+      fs.writeFileSync(rcPath, JSON.stringify(rc));
+      return new StorageService({
+        path: rcPath,
+        projectName: "billing-api",
+        projectPath: projectDir,
+      });
+    };
+
+    beforeEach(() => {
+      projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "zkill-rc-"));
+      rcPath = path.join(projectDir, ".zkillrc");
+    });
+
+    afterEach(() => {
+      fs.rmSync(projectDir, { recursive: true, force: true });
+    });
+
+    it("should override global settings and report where each comes from", () => {
+      storageService.setKillSettings({ timeoutMs: 10000 });
+      const service = withProjectConfig({ killSignal: "SIGINT", autoKillEnabled: true });
+
+      expect(service.getKillSettings()).toMatchObject({
+        signal: "SIGINT",
+        timeoutMs: 10000,
+      });
+      expect(service.isAutoKillEnabled()).toBe(true);
+      expect(service.getSettingSource("killSignal")).toBe(rcPath);
+      expect(service.getSettingSource("killTimeout")).toBe(service.getConfigPath());
+      expect(service.getProjectConfigPath()).toBe(rcPath);
+    });
+
+    it("should merge declared ports over the project's saved mappings", () => {
+      storageService.addPortMapping({
+        port: 3000,
+        projectName: "old",
+        projectPath: projectDir,
+        autoKill: true,
+      });
+      storageService.addPortMapping({
+        port: 3000,
+        projectName: "blog",
+        projectPath: "/work/blog",
+        autoKill: false,
+      });
+      const service = withProjectConfig({ ports: [{ port: 3000, role: "web" }] });
+
+      expect(service.getPortMapping(3000, projectDir)).toMatchObject({
+        projectName: "billing-api",
+        projectPath: projectDir,
+        role: "web",
+        autoKill: true,
+        useCount: 1,
+        configFile: rcPath,
+      });
+      expect(service.getPortMappings(3000)).toHaveLength(2);
+      expect(service.getMappingsByProjectName("billing")).toHaveLength(1);
+    });
+
+    it("should add its protections to the global ones", () => {
+      storageService.addProtection({ kind: "user", value: "postgres" });
+      const service = withProjectConfig({
+        ports: [{ port: 5432, protected: true }],
+      });
+
+      expect(service.getProtections()).toEqual([
+        { kind: "user", value: "postgres" },
+        { kind: "port", value: "5432" },
+      ]);
+      expect(service.getProtectionSource({ kind: "port", value: "5432" })).toBe(rcPath);
+      expect(service.removeProtection({ kind: "port", value: "5432" })).toBe(false);
+    });
+
+    it("should save declared roles and auto-kill but never the file itself", () => {
+      const service = withProjectConfig({
+        ports: [{ port: 3000, role: "web", autoKill: true }],
+      });
+
+      service.addPortMapping({
+        port: 3000,
+        projectName: "billing-api",
+        projectPath: projectDir,
+        autoKill: false,
+      });
+
+      const saved = JSON.parse(fs.readFileSync(service.getConfigPath(), "utf-8"));
+      expect(saved.portMappings[0]).toMatchObject({ role: "web", autoKill: true });
+      expect(saved.portMappings[0].configFile).toBeUndefined();
+      expect(saved.killSignal).toBe("SIGTERM");
+    });
+
+    it("should never let the file turn off kill confirmation", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation();
+      const service = withProjectConfig({ confirmKill: false });
+
+      expect(service.isConfirmKillEnabled()).toBe(true);
+      expect(service.getSettingSource("confirmKill")).toBe(service.getConfigPath());
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("confirmKill can only be set in your own config")
+      );
+    });
+
+    it("should ignore an invalid file with a warning", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation();
+      const service = withProjectConfig({ killSignal: "SIGSTOP" });
+
+      expect(service.getProjectConfigPath()).toBeNull();
+      expect(service.getKillSettings().signal).toBe("SIGTERM");
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining(`Ignoring ${rcPath}`));
+    });
+  });
+
   describe("getConfigPath", () => {
     it("should return config file path", () => {
       const configPath = storageService.getConfigPath();
@@ -326,6 +582,43 @@ describe("StorageService", () => {
       expect(newService.isConfirmKillEnabled()).toBe(true);
     });
 
+    it("should fill in kill settings missing from older configs", () => {
+      const configPath = storageService.getConfigPath();
+      fs.writeFileSync(
+        configPath,
+        JSON.stringify({
+          version: "1.0.0",
+          portMappings: [],
+          autoKillEnabled: false,
+          confirmKill: true,
+        })
+      );
+
+      const newService = new StorageService();
+      expect(newService.getKillSettings()).toEqual({
+        signal: "SIGTERM",
+        timeoutMs: 3000,
+        escalate: true,
+        respawnWindowMs: 1000,
+      });
+    });
+
+    it("should default protections for older configs", () => {
+      const configPath = storageService.getConfigPath();
+      fs.writeFileSync(
+        configPath,
+        JSON.stringify({
+          version: "1.0.0",
+          portMappings: [],
+          autoKillEnabled: false,
+          confirmKill: true,
+        })
+      );
+
+      const newService = new StorageService();
+      expect(newService.getProtections()).toEqual([]);
+    });
+
     it("should deserialize date strings in port mappings", () => {
       const configPath = storageService.getConfigPath();
       const isoDate = new Date().toISOString();
@@ -352,6 +645,85 @@ describe("StorageService", () => {
 
       expect(mapping?.lastUsed).toBeInstanceOf(Date);
     });
+
+    it("should migrate v1 mappings to one per project and port", () => {
+      const configPath = storageService.getConfigPath();
+      const older = "2026-01-01T00:00:00.000Z";
+      const newer = "2026-02-01T00:00:00.000Z";
+      const mapping = (lastUsed: string) => ({
+        port: 3000,
+        projectName: "shop",
+        projectPath: "/work/shop",
+        autoKill: false,
+        lastUsed,
+      });
+      fs.writeFileSync(
+        configPath,
+        JSON.stringify({
+          portMappings: [mapping(newer), mapping(older)],
+          autoKillEnabled: false,
+          confirmKill: true,
+          version: "1.0.0",
+        })
+      );
+
+      const mappings = new StorageService().getAllMappings();
+
+      expect(mappings).toHaveLength(1);
+      expect(mappings[0]).toMatchObject({ useCount: 1, lastUsed: new Date(newer) });
+      expect(mappings[0].firstSeen).toEqual(new Date(newer));
+
+      // Migrated in memory; written by the next change or by repairConfig
+      expect(JSON.parse(fs.readFileSync(configPath, "utf-8")).version).toBe("1.0.0");
+      const report = new StorageService().repairConfig();
+      expect(report).toMatchObject({ fromVersion: 1, toVersion: 2 });
+      expect(report.migrations.map((m) => m.version)).toEqual([2]);
+
+      const saved = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+      expect(saved.version).toBe(2);
+      expect(saved.portMappings[0]).toMatchObject({ firstSeen: newer, useCount: 1 });
+    });
+  });
+
+  describe("config repair", () => {
+    const writeConfig = (portMappings: unknown[]) =>
+      fs.writeFileSync(
+        storageService.getConfigPath(),
+        JSON.stringify({ version: 2, portMappings, autoKillEnabled: false })
+      );
+
+    it("should use a damaged config and point to the doctor", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation();
+      writeConfig([
+        { port: "3000", projectName: "shop", projectPath: "/work/shop" },
+        { port: "web", projectName: "blog", projectPath: "/work/blog" },
+      ]);
+
+      const newService = new StorageService();
+
+      expect(newService.getAllMappings()).toMatchObject([
+        { port: 3000, projectName: "shop", autoKill: false },
+      ]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("zkill config doctor"));
+    });
+
+    it("should write the repaired config back", () => {
+      jest.spyOn(console, "warn").mockImplementation();
+      writeConfig([{ port: "3000", projectName: "shop", projectPath: "/work/shop" }]);
+
+      const report = new StorageService().repairConfig();
+
+      expect(report.fixes.map((f) => f.problem)).toEqual([
+        'portMappings[0].port is the string "3000"',
+        "portMappings[0].autoKill is missing",
+        "portMappings[0].lastUsed is not a date (got undefined)",
+        "portMappings[0].firstSeen is not a date (got undefined)",
+        "portMappings[0].useCount must be a whole number (got undefined)",
+      ]);
+      const saved = JSON.parse(fs.readFileSync(storageService.getConfigPath(), "utf-8"));
+      expect(saved.portMappings[0]).toMatchObject({ port: 3000, autoKill: false, useCount: 1 });
+      expect(new StorageService().repairConfig().fixes).toEqual([]);
+    });
   });
 
   describe("error handling", () => {
@@ -362,5 +734,84 @@ describe("StorageService", () => {
       // Should create new default config instead of crashing
       expect(() => new StorageService()).not.toThrow();
     });
+
+    it("should keep a backup of a corrupted config file", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation();
+      const configPath = storageService.getConfigPath();
+      fs.writeFileSync(configPath, "invalid json{{{");
+
+      new StorageService();
+
+      const backups = fs
+        .readdirSync(testConfigPath)
+        .filter((f) => f.startsWith("config.json.corrupt-"));
+      expect(backups).toHaveLength(1);
+      expect(fs.readFileSync(path.join(testConfigPath, backups[0]), "utf-8")).toBe(
+        "invalid json{{{"
+      );
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining(backups[0]));
+      expect(JSON.parse(fs.readFileSync(configPath, "utf-8")).portMappings).toEqual([]);
+    });
+  });
+
+  describe("config location", () => {
+    it("should use the given config path", () => {
+      const configPath = path.join(testConfigPath, "ci", "zkill.json");
+      const custom = new StorageService(null, { configPath });
+
+      custom.setConfirmKill(false);
+
+      expect(custom.getConfigPath()).toBe(configPath);
+      expect(JSON.parse(fs.readFileSync(configPath, "utf-8")).confirmKill).toBe(false);
+    });
+
+    it("should never write when read-only", () => {
+      const configPath = path.join(testConfigPath, "readonly", "config.json");
+      const readOnly = new StorageService(null, { configPath, readOnly: true });
+
+      expect(readOnly.isReadOnly()).toBe(true);
+      expect(readOnly.isConfirmKillEnabled()).toBe(true);
+      expect(() => readOnly.setConfirmKill(false)).toThrow(ReadOnlyError);
+      expect(fs.existsSync(path.dirname(configPath))).toBe(false);
+    });
+
+    it("should leave a corrupt file alone when read-only", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation();
+      const configPath = storageService.getConfigPath();
+      fs.writeFileSync(configPath, "invalid json{{{");
+
+      const readOnly = new StorageService(null, { configPath, readOnly: true });
+
+      expect(readOnly.getAllMappings()).toEqual([]);
+      expect(fs.readFileSync(configPath, "utf-8")).toBe("invalid json{{{");
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining("read-only"));
+    });
+  });
+
+  describe("concurrent writes", () => {
+    it("should keep changes saved by another process since loading", () => {
+      const other = new StorageService();
+      other.addPortMapping({
+        port: 3000,
+        projectName: "shop",
+        projectPath: "/work/shop",
+        autoKill: false,
+      });
+
+      // storageService loaded before the mapping was saved
+      storageService.addProtection({ kind: "port", value: "5432" });
+      storageService.setAutoKill(true);
+
+      const reloaded = new StorageService();
+      expect(reloaded.getPortMapping(3000)?.projectName).toBe("shop");
+      expect(reloaded.getProtections()).toEqual([{ kind: "port", value: "5432" }]);
+      expect(reloaded.isAutoKillEnabled()).toBe(true);
+    });
+
+    it("should leave only config.json behind", () => {
+      storageService.setConfirmKill(false);
+
+      expect(fs.readdirSync(testConfigPath)).toEqual(["config.json"]);
+    });
   });
 });
@@ -0,0 +1,120 @@
+/**
+ * Audit Service
+ * Appends every kill to ~/.zkill/history.jsonl and reads it back,
+ * rotating the log so it never grows without bound
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { AuditEntry } from '../types';
+import { parseAuditLine } from '../audit-log';
+
+/** Rotate once the current log reaches this size */
+export const AUDIT_LOG_MAX_BYTES = 1024 * 1024;
+
+/** Rotated logs kept besides the current one (history.1.jsonl is the newest) */
+export const AUDIT_LOG_ROTATIONS = 4;
+
+export type AuditRecord = Omit<AuditEntry, 'timestamp' | 'user'>;
+
+export class AuditService {
+  private logPath: string;
+
+  constructor(
+    logPath: string = path.join(os.homedir(), '.zkill', 'history.jsonl'),
+    private maxBytes: number = AUDIT_LOG_MAX_BYTES,
+    private rotations: number = AUDIT_LOG_ROTATIONS,
+    private readOnly: boolean = false
+  ) {
+    this.logPath = logPath;
+  }
+
+  /**
+   * Append one kill, stamped with the time and the user running zkill.
+   * A log that cannot be written never fails the kill itself; nothing is
+   * written in read-only mode.
+   */
+  record(record: AuditRecord, at: Date = new Date()): void {
+    if (this.readOnly) {
+      return;
+    }
+    const entry: AuditEntry = {
+      timestamp: at.toISOString(),
+      ...record,
+      user: this.currentUser(),
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
+      this.rotateIfFull();
+      fs.appendFileSync(this.logPath, JSON.stringify(entry) + '\n');
+    } catch {
+      // History is best-effort
+    }
+  }
+
+  /**
+   * Every readable entry, oldest first, across rotated logs
+   */
+  read(): AuditEntry[] {
+    const files = [
+      ...Array.from({ length: this.rotations }, (_, i) =>
+        this.rotatedPath(this.rotations - i)
+      ),
+      this.logPath,
+    ];
+
+    const entries: AuditEntry[] = [];
+    for (const file of files) {
+      if (!fs.existsSync(file)) {
+        continue;
+      }
+      for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+        const entry = parseAuditLine(line);
+        if (entry) {
+          entries.push(entry);
+        }
+      }
+    }
+    return entries;
+  }
+
+  getLogPath(): string {
+    return this.logPath;
+  }
+
+  /**
+   * Shift history.jsonl → history.1.jsonl → history.2.jsonl ..., dropping the oldest
+   */
+  private rotateIfFull(): void {
+    if (!fs.existsSync(this.logPath) || fs.statSync(this.logPath).size < this.maxBytes) {
+      return;
+    }
+
+    if (this.rotations === 0) {
+      fs.rmSync(this.logPath);
+      return;
+    }
+    fs.rmSync(this.rotatedPath(this.rotations), { force: true });
+    for (let n = this.rotations - 1; n >= 1; n--) {
+      if (fs.existsSync(this.rotatedPath(n))) {
+        fs.renameSync(this.rotatedPath(n), this.rotatedPath(n + 1));
+      }
+    }
+    fs.renameSync(this.logPath, this.rotatedPath(1));
+  }
+
+  private rotatedPath(n: number): string {
+    const ext = path.extname(this.logPath);
+    return `${this.logPath.slice(0, this.logPath.length - ext.length)}.${n}${ext}`;
+  }
+
+  private currentUser(): string | null {
+    try {
+      return os.userInfo().username;
+    } catch {
+      return process.env.USER ?? process.env.USERNAME ?? null;
+    }
+  }
+}
@@ -4,10 +4,19 @@
  */
 
 import os from 'os';
-import { ProcessInfo, PlatformAdapter } from '../types';
+import {
+  KillProcessOptions,
+  PortProtocol,
+  ProcessInfo,
+  ProcessListEntry,
+  PlatformAdapter,
+  ProtocolFilter,
+  SignalAccess,
+} from '../types';
 import { MacOSAdapter } from '../platform/macos.adapter';
 import { LinuxAdapter } from '../platform/linux.adapter';
 import { WindowsAdapter } from '../platform/windows.adapter';
+import { protocolsFor } from '../protocol';
 
 export class ProcessService {
   private adapter: PlatformAdapter;
@@ -37,29 +46,57 @@ export class ProcessService {
   /**
    * Find process using a specific port
    */
-  async findByPort(port: number): Promise<ProcessInfo | null> {
+  async findByPort(
+    port: number,
+    protocol: PortProtocol = 'tcp'
+  ): Promise<ProcessInfo | null> {
     this.validatePort(port);
-    return await this.adapter.findProcessByPort(port);
+    return await this.adapter.findProcessByPort(port, protocol);
   }
 
   /**
    * Kill a process by PID
    * @param pid Process ID
    * @param force Use force kill (SIGKILL) instead of graceful termination (SIGTERM)
+   * @param options Signal to send and how long to wait for the process to exit
    */
-  async killProcess(pid: number, force: boolean = false): Promise<boolean> {
+  async killProcess(
+    pid: number,
+    force: boolean = false,
+    options?: KillProcessOptions
+  ): Promise<boolean> {
     if (!pid || pid <= 0) {
       throw new Error('Invalid PID');
     }
 
-    return await this.adapter.killProcess(pid, force);
+    return await this.adapter.killProcess(pid, force, options);
   }
 
   /**
-   * Get all listening ports
+   * Probe a PID with signal 0, which checks permission without sending
+   * anything; tells a denied kill apart from one that timed out
    */
-  async getAllPorts(): Promise<ProcessInfo[]> {
-    return await this.adapter.getAllListeningPorts();
+  signalAccess(pid: number): SignalAccess {
+    try {
+      process.kill(pid, 0);
+      return 'allowed';
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'EPERM' ? 'denied' : 'gone';
+    }
+  }
+
+  /**
+   * Get all listening ports (TCP only unless another protocol is requested)
+   */
+  async getAllPorts(protocol: ProtocolFilter = 'tcp'): Promise<ProcessInfo[]> {
+    return await this.adapter.getAllListeningPorts(protocolsFor(protocol));
+  }
+
+  /**
+   * List every running process with its parent PID
+   */
+  async listProcesses(): Promise<ProcessListEntry[]> {
+    return await this.adapter.listProcesses();
   }
 
   /**
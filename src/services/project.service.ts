@@ -4,16 +4,30 @@
  */
 
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import { execSync } from 'child_process';
+import { ProcessInfo, ProjectConfigLocation, ProjectOwner } from '../types';
+import { candidatePaths } from '../project-inference';
+import { PROJECT_CONFIG_FILE } from '../project-config';
 
 export class ProjectService {
+  // Listener inference repeats the same lookups on every scan
+  private rootCache = new Map<string, string | null>();
+  private nameCache = new Map<string, string>();
+
   /**
    * Get current project name from various sources
    */
   getCurrentProjectName(): string {
-    const cwd = process.cwd();
+    return this.getProjectNameAt(this.getCurrentProjectPath());
+  }
 
+  /**
+   * Name of the project rooted at a directory (package.json, composer.json,
+   * Cargo.toml, go.mod, git remote, then the directory name)
+   */
+  getProjectNameAt(cwd: string): string {
     // Try package.json first (most reliable for Node projects)
     const packageName = this.getNameFromPackageJson(cwd);
     if (packageName) return packageName;
@@ -39,17 +53,101 @@ export class ProjectService {
   }
 
   /**
-   * Get current project path
+   * Nearest project directory at or above a path (a file path starts from
+   * its directory). The home directory and filesystem root are never
+   * projects, even with a .git or Makefile in them.
+   */
+  findProjectRoot(startPath: string): string | null {
+    const home = os.homedir();
+    let dir = path.resolve(startPath);
+    if (!this.isDirectory(dir)) {
+      dir = path.dirname(dir);
+    }
+
+    for (;;) {
+      const parent = path.dirname(dir);
+      if (dir === parent || dir === home) {
+        return null;
+      }
+      if (this.isProjectDirectory(dir)) {
+        return dir;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * Nearest .zkillrc at or above a directory (the working directory by
+   * default); like project roots, never one in the home directory
+   */
+  findProjectConfig(startPath: string = process.cwd()): ProjectConfigLocation | null {
+    const configPath = this.findProjectConfigPath(startPath);
+    if (!configPath) {
+      return null;
+    }
+    const projectPath = path.dirname(configPath);
+    return {
+      path: configPath,
+      projectName: this.getProjectNameAt(projectPath),
+      projectPath,
+    };
+  }
+
+  private findProjectConfigPath(startPath: string): string | null {
+    const home = os.homedir();
+    let dir = path.resolve(startPath);
+
+    for (;;) {
+      const parent = path.dirname(dir);
+      if (dir === parent || dir === home) {
+        return null;
+      }
+      const configPath = path.join(dir, PROJECT_CONFIG_FILE);
+      if (fs.existsSync(configPath)) {
+        return configPath;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * Project a listener most likely belongs to, from its working directory
+   * or absolute paths on its command line; null when none is in a project
+   */
+  inferProject(info: ProcessInfo): ProjectOwner | null {
+    for (const candidate of candidatePaths(info)) {
+      if (!this.rootCache.has(candidate)) {
+        this.rootCache.set(candidate, this.findProjectRoot(candidate));
+      }
+      const root = this.rootCache.get(candidate);
+      if (root) {
+        if (!this.nameCache.has(root)) {
+          this.nameCache.set(root, this.getProjectNameAt(root));
+        }
+        return {
+          source: 'inferred',
+          projectName: this.nameCache.get(root) as string,
+          projectPath: root,
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get current project path: the directory of the nearest .zkillrc, else
+   * the working directory
    */
   getCurrentProjectPath(): string {
-    return process.cwd();
+    const configPath = this.findProjectConfigPath(process.cwd());
+    return configPath ? path.dirname(configPath) : process.cwd();
   }
 
   /**
-   * Check if current directory is a project
+   * Check if the current project path (or a given directory) is a project
    */
   isProjectDirectory(dirPath?: string): boolean {
-    const targetPath = dirPath || process.cwd();
+    const targetPath = dirPath || this.getCurrentProjectPath();
 
     // Check for common project indicators
     const indicators = [
@@ -62,6 +160,7 @@ export class ProjectService {
       'pom.xml',
       '.git',
       'Makefile',
+      PROJECT_CONFIG_FILE,
     ];
 
     return indicators.some((indicator) =>
@@ -69,11 +168,19 @@ export class ProjectService {
     );
   }
 
+  private isDirectory(target: string): boolean {
+    try {
+      return fs.statSync(target).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
   /**
-   * Get project type (language/framework)
+   * Get project type (language/framework) of the current project or a directory
    */
-  getProjectType(): string | null {
-    const cwd = process.cwd();
+  getProjectType(dirPath?: string): string | null {
+    const cwd = dirPath || this.getCurrentProjectPath();
 
     if (fs.existsSync(path.join(cwd, 'package.json'))) {
       return this.getNodeProjectType(cwd);
@@ -230,10 +337,10 @@ export class ProjectService {
   }
 
   /**
-   * Get common ports for project type
+   * Get common ports for the project type of the current project or a directory
    */
-  getCommonPortsForProjectType(): number[] {
-    const projectType = this.getProjectType();
+  getCommonPortsForProjectType(dirPath?: string): number[] {
+    const projectType = this.getProjectType(dirPath);
 
     const commonPorts: { [key: string]: number[] } = {
       'Next.js': [3000, 3001],
@@ -0,0 +1,120 @@
+/**
+ * Snapshot Service
+ * Saves and loads named scans under ~/.zkill/snapshots
+ */
+
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { InvalidInputError } from '../exit-codes';
+import { ReadOnlyError } from '../config-location';
+import {
+  ScanSnapshot,
+  isValidSnapshotName,
+  scanSnapshotValidationErrors,
+} from '../scan-snapshot';
+
+export interface SnapshotSummary {
+  name: string;
+  savedAt: string;
+  count: number;
+}
+
+export class SnapshotService {
+  private snapshotDir: string;
+
+  constructor(
+    snapshotDir: string = path.join(os.homedir(), '.zkill', 'snapshots'),
+    private readOnly: boolean = false
+  ) {
+    this.snapshotDir = snapshotDir;
+  }
+
+  /**
+   * Write a snapshot, replacing any saved under the same name
+   */
+  save(snapshot: ScanSnapshot): string {
+    const file = this.pathFor(snapshot.name);
+    if (this.readOnly) {
+      throw new ReadOnlyError(file);
+    }
+    fs.mkdirSync(this.snapshotDir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(snapshot, null, 2) + '\n');
+    return file;
+  }
+
+  /**
+   * Read a snapshot by name
+   */
+  load(name: string): ScanSnapshot {
+    const file = this.pathFor(name);
+    if (!fs.existsSync(file)) {
+      const available = this.list().map((s) => s.name);
+      throw new InvalidInputError(
+        `No snapshot named "${name}". ` +
+          (available.length > 0
+            ? `Saved snapshots: ${available.join(', ')}`
+            : 'Save one with: zkill scan --save <name>')
+      );
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch {
+      throw new Error(`Snapshot "${name}" is not valid JSON: ${file}`);
+    }
+
+    const errors = scanSnapshotValidationErrors(parsed);
+    if (errors.length > 0) {
+      throw new Error(`Snapshot "${name}" is invalid (${errors[0]}): ${file}`);
+    }
+    return parsed as ScanSnapshot;
+  }
+
+  /**
+   * Saved snapshots, oldest first; unreadable files are skipped
+   */
+  list(): SnapshotSummary[] {
+    if (!fs.existsSync(this.snapshotDir)) {
+      return [];
+    }
+
+    const summaries: SnapshotSummary[] = [];
+    for (const entry of fs.readdirSync(this.snapshotDir)) {
+      const name = entry.replace(/\.json$/, '');
+      if (name === entry || !isValidSnapshotName(name)) {
+        continue;
+      }
+      try {
+        const snapshot = JSON.parse(
+          fs.readFileSync(path.join(this.snapshotDir, entry), 'utf-8')
+        );
+        if (scanSnapshotValidationErrors(snapshot).length === 0) {
+          summaries.push({
+            name,
+            savedAt: snapshot.savedAt,
+            count: snapshot.scan.processes.length,
+          });
+        }
+      } catch {
+        // Not a snapshot we wrote
+      }
+    }
+
+    return summaries.sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+  }
+
+  getSnapshotDir(): string {
+    return this.snapshotDir;
+  }
+
+  private pathFor(name: string): string {
+    if (!isValidSnapshotName(name)) {
+      throw new InvalidInputError(
+        `Invalid snapshot name "${name}". Use letters, digits, ".", "_" and "-" (max 64 characters)`
+      );
+    }
+    return path.join(this.snapshotDir, `${name}.json`);
+  }
+}
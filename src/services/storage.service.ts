@@ -6,16 +6,72 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
-import { Config, PortMapping } from '../types';
+import {
+  Config,
+  KillSettings,
+  PortMapping,
+  ProjectConfigLocation,
+  ProtectionRule,
+} from '../types';
+import { sameProtectionRule } from '../protection';
+import { ConfigKey, DEFAULT_SETTINGS } from '../config-settings';
+import {
+  CONFIG_SCHEMA_VERSION,
+  ConfigRepairReport,
+  emptyRepairReport,
+  migrateAndRepairConfig,
+} from '../config-schema';
+import {
+  ProjectConfig,
+  mergePortMappings,
+  parseProjectConfig,
+  projectPortMappings,
+  projectProtections,
+} from '../project-config';
+import { rankPortMappings, resolvePortMapping, samePortMapping } from '../port-mappings';
+import { backupCorruptFile, withFileLock, writeFileAtomic } from '../safe-write';
+import { ReadOnlyError } from '../config-location';
+
+/**
+ * config.json as found on disk, migrated and repaired in memory
+ */
+type ConfigFileRead =
+  | { ok: true; config: Config; report: ConfigRepairReport }
+  | { ok: false; error: string };
+
+/**
+ * A loaded .zkillrc; its settings win over config.json but are never written back
+ */
+interface LoadedProjectConfig {
+  location: ProjectConfigLocation;
+  config: ProjectConfig;
+  modifiedAt: Date;
+}
+
+export interface StorageOptions {
+  configPath?: string; // defaults to ~/.zkill/config.json
+  readOnly?: boolean; // never write; changes throw ReadOnlyError
+}
 
 export class StorageService {
   private configPath: string;
+  private readOnly: boolean;
   private config: Config;
+  private report: ConfigRepairReport = emptyRepairReport(); // of the last read
+  private project: LoadedProjectConfig | null;
 
-  constructor() {
-    this.configPath = path.join(os.homedir(), '.zkill', 'config.json');
-    this.ensureConfigDir();
+  constructor(
+    projectConfig: ProjectConfigLocation | null = null,
+    options: StorageOptions = {}
+  ) {
+    this.configPath =
+      options.configPath ?? path.join(os.homedir(), '.zkill', 'config.json');
+    this.readOnly = options.readOnly ?? false;
+    if (!this.readOnly) {
+      this.ensureConfigDir();
+    }
     this.config = this.loadConfig();
+    this.project = projectConfig ? this.loadProjectConfig(projectConfig) : null;
   }
 
   /**
@@ -32,18 +88,122 @@ export class StorageService {
    * Load configuration from disk
    */
   private loadConfig(): Config {
-    if (!fs.existsSync(this.configPath)) {
+    const read = this.readConfigFile();
+    if (!read?.ok && this.readOnly) {
+      if (read) {
+        console.warn(
+          `Config file corrupted (${read.error}); using the defaults and leaving it as is (read-only).`
+        );
+      }
       return this.createDefaultConfig();
     }
+    if (!read?.ok) {
+      // Missing or corrupt: settle it once, under the lock
+      this.update(() => undefined);
+      return this.config;
+    }
+
+    // Older or damaged files are fixed in memory and written on the next change
+    this.report = read.report;
+    if (read.report.fixes.length > 0) {
+      console.warn(
+        `${this.configPath} has ${read.report.fixes.length} problem(s) zkill worked around; run "zkill config doctor" to fix them.`
+      );
+    }
+    return read.config;
+  }
+
+  /**
+   * Read, migrate and repair config.json; null when it does not exist
+   */
+  private readConfigFile(): ConfigFileRead | null {
+    if (!fs.existsSync(this.configPath)) {
+      return null;
+    }
 
     try {
-      const data = fs.readFileSync(this.configPath, 'utf-8');
-      const config = JSON.parse(data);
-      return this.validateAndMigrateConfig(config);
+      return {
+        ok: true,
+        ...migrateAndRepairConfig(JSON.parse(fs.readFileSync(this.configPath, 'utf-8'))),
+      };
     } catch (error) {
-      console.warn('Config file corrupted, creating new one...');
-      return this.createDefaultConfig();
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * The config as another zkill process may have left it; a corrupt file is
+   * backed up and replaced by defaults instead of being lost
+   */
+  private latestConfig(): { config: Config; report: ConfigRepairReport } {
+    const read = this.readConfigFile();
+    if (read === null) {
+      return { config: this.createDefaultConfig(), report: emptyRepairReport() };
     }
+    if (!read.ok) {
+      const backupPath = backupCorruptFile(this.configPath);
+      console.warn(
+        `Config file corrupted (${read.error}); moved it to ${backupPath} and started a new one.`
+      );
+      return {
+        config: this.createDefaultConfig(),
+        report: {
+          ...emptyRepairReport(),
+          fixes: [
+            {
+              problem: `could not be read (${read.error})`,
+              repair: `moved to ${backupPath}; started from the defaults`,
+            },
+          ],
+        },
+      };
+    }
+    return read;
+  }
+
+  /**
+   * Apply a change to the latest config on disk while holding the lock, so
+   * changes other zkill processes made since this one loaded are kept
+   */
+  private update<T>(change: (config: Config) => T): T {
+    if (this.readOnly) {
+      throw new ReadOnlyError(this.configPath);
+    }
+    return withFileLock(`${this.configPath}.lock`, () => {
+      const { config, report } = this.latestConfig();
+      const result = change(config);
+      this.saveConfig(config);
+      this.config = config;
+      this.report = report;
+      return result;
+    });
+  }
+
+  /**
+   * Load a project's .zkillrc; an unreadable or invalid file is ignored with a warning
+   */
+  private loadProjectConfig(
+    location: ProjectConfigLocation
+  ): LoadedProjectConfig | null {
+    let errors: string[];
+    try {
+      const parsed = parseProjectConfig(
+        JSON.parse(fs.readFileSync(location.path, 'utf-8'))
+      );
+      if (parsed.ok) {
+        return {
+          location,
+          config: parsed.config,
+          modifiedAt: fs.statSync(location.path).mtime,
+        };
+      }
+      errors = parsed.errors;
+    } catch (error) {
+      errors = [error instanceof Error ? error.message : String(error)];
+    }
+
+    console.warn(`Ignoring ${location.path}: ${errors.join('; ')}`);
+    return null;
   }
 
   /**
@@ -52,70 +212,115 @@ export class StorageService {
   private createDefaultConfig(): Config {
     const config: Config = {
       portMappings: [],
-      autoKillEnabled: false,
-      confirmKill: true,
-      version: '1.0.0',
+      ...DEFAULT_SETTINGS,
+      protections: [],
+      version: CONFIG_SCHEMA_VERSION,
     };
-    this.saveConfig(config);
     return config;
   }
 
   /**
-   * Save configuration to disk
+   * Save configuration to disk; callers hold the lock (see update)
    */
   private saveConfig(config: Config): void {
     try {
-      fs.writeFileSync(
-        this.configPath,
-        JSON.stringify(config, null, 2),
-        'utf-8'
-      );
+      writeFileAtomic(this.configPath, JSON.stringify(config, null, 2));
     } catch (error) {
       console.error('Failed to save config:', error);
     }
   }
 
   /**
-   * Add or update port mapping
+   * Record a use of a port by a project: adds the mapping, or updates the
+   * project's existing one and counts the use. Other projects' mappings of
+   * the port are kept.
    */
-  addPortMapping(mapping: Omit<PortMapping, 'lastUsed'>): void {
-    // Remove existing mapping for this port
-    this.config.portMappings = this.config.portMappings.filter(
-      (m) => m.port !== mapping.port
-    );
+  addPortMapping(
+    mapping: Omit<PortMapping, 'firstSeen' | 'lastUsed' | 'useCount'>
+  ): void {
+    // Keep the .zkillrc's role and auto-kill with the saved mapping, so they
+    // still apply when zkill runs from another project
+    const { configFile: _configFile, ...saved } = mapping;
+    const declared =
+      this.project?.location.projectPath === mapping.projectPath
+        ? this.project.config.ports?.find((p) => p.port === mapping.port)
+        : undefined;
 
-    // Add new mapping
-    this.config.portMappings.push({
-      ...mapping,
-      lastUsed: new Date(),
+    this.update((config) => {
+      const existing = config.portMappings.find((m) => samePortMapping(m, mapping));
+      const now = new Date();
+      config.portMappings = [
+        ...config.portMappings.filter((m) => m !== existing),
+        {
+          ...saved,
+          ...(declared?.role && { role: declared.role }),
+          autoKill: declared?.autoKill ?? mapping.autoKill,
+          firstSeen: existing?.firstSeen ?? now,
+          lastUsed: now,
+          useCount: (existing?.useCount ?? 0) + 1,
+        },
+      ];
     });
+  }
 
-    this.saveConfig(this.config);
+  /**
+   * Change a project's saved mapping of a port without counting a use.
+   * Moving it to another directory replaces that project's mapping of the
+   * port. Returns false when there is no such saved mapping.
+   */
+  updatePortMapping(
+    port: number,
+    projectPath: string,
+    changes: Partial<Pick<PortMapping, 'projectName' | 'projectPath' | 'autoKill'>>
+  ): boolean {
+    return this.update((config) => {
+      const existing = config.portMappings.find((m) =>
+        samePortMapping(m, { port, projectPath })
+      );
+      if (!existing) {
+        return false;
+      }
+
+      const updated = { ...existing, ...changes };
+      config.portMappings = [
+        ...config.portMappings.filter(
+          (m) => m !== existing && !samePortMapping(m, updated)
+        ),
+        updated,
+      ];
+      return true;
+    });
   }
 
   /**
-   * Get port mapping for a specific port
+   * Get the most relevant mapping of a port: the project containing the
+   * listener's working directory, else the most recently used
    */
-  getPortMapping(port: number): PortMapping | null {
-    return (
-      this.config.portMappings.find((m) => m.port === port) || null
-    );
+  getPortMapping(port: number, workingDirectory?: string): PortMapping | null {
+    return resolvePortMapping(this.mappings(), port, workingDirectory);
   }
 
   /**
-   * Get all port mappings
+   * Get every project's mapping of a port, most relevant first
+   */
+  getPortMappings(port: number, workingDirectory?: string): PortMapping[] {
+    return rankPortMappings(this.mappings(), port, workingDirectory);
+  }
+
+  /**
+   * Get all port mappings, by port and then most recently used
    */
   getAllMappings(): PortMapping[] {
-    return this.config.portMappings.sort((a, b) => a.port - b.port);
+    return [...this.mappings()].sort(
+      (a, b) => a.port - b.port || b.lastUsed.getTime() - a.lastUsed.getTime()
+    );
   }
 
   /**
    * Get mappings for a specific project
    */
   getMappingsForProject(projectPath: string): PortMapping[] {
-    return this.config.portMappings.filter(
-      (m) => m.projectPath === projectPath
-    );
+    return this.mappings().filter((m) => m.projectPath === projectPath);
   }
 
   /**
@@ -123,81 +328,264 @@ export class StorageService {
    */
   getMappingsByProjectName(projectName: string): PortMapping[] {
     const normalizedName = projectName.toLowerCase();
-    return this.config.portMappings.filter(
+    return this.mappings().filter(
       (m) => m.projectName.toLowerCase().includes(normalizedName)
     );
   }
 
   /**
-   * Remove port mapping
+   * Remove the saved mappings of a port, for every project or only the one
+   * at `projectPath`; returns the removed mappings
    */
-  removePortMapping(port: number): void {
-    this.config.portMappings = this.config.portMappings.filter(
-      (m) => m.port !== port
-    );
-    this.saveConfig(this.config);
+  removePortMapping(port: number, projectPath?: string): PortMapping[] {
+    return this.update((config) => {
+      const removed = config.portMappings.filter(
+        (m) =>
+          m.port === port && (projectPath === undefined || m.projectPath === projectPath)
+      );
+      config.portMappings = config.portMappings.filter((m) => !removed.includes(m));
+      return removed;
+    });
+  }
+
+  /**
+   * Remove every saved mapping of a project (exact name, case-insensitive);
+   * returns the removed mappings
+   */
+  removeMappingsForProject(projectName: string): PortMapping[] {
+    const normalizedName = projectName.toLowerCase();
+    return this.update((config) => {
+      const removed = config.portMappings.filter(
+        (m) => m.projectName.toLowerCase() === normalizedName
+      );
+      config.portMappings = config.portMappings.filter((m) => !removed.includes(m));
+      return removed;
+    });
+  }
+
+  /**
+   * Rename a project in its saved mappings (exact name, case-insensitive);
+   * returns how many mappings changed
+   */
+  renameProject(from: string, to: string): number {
+    const normalizedName = from.toLowerCase();
+    return this.update((config) => {
+      let renamed = 0;
+      for (const mapping of config.portMappings) {
+        if (mapping.projectName.toLowerCase() === normalizedName) {
+          mapping.projectName = to;
+          renamed++;
+        }
+      }
+      return renamed;
+    });
   }
 
   /**
    * Check if auto-kill is enabled
    */
   isAutoKillEnabled(): boolean {
-    return this.config.autoKillEnabled;
+    return this.getSetting('autoKillEnabled');
   }
 
   /**
    * Enable or disable auto-kill
    */
   setAutoKill(enabled: boolean): void {
-    this.config.autoKillEnabled = enabled;
-    this.saveConfig(this.config);
+    this.update((config) => {
+      config.autoKillEnabled = enabled;
+    });
   }
 
   /**
    * Check if kill confirmation is enabled
    */
   isConfirmKillEnabled(): boolean {
-    return this.config.confirmKill;
+    return this.getSetting('confirmKill');
   }
 
   /**
    * Enable or disable kill confirmation
    */
   setConfirmKill(enabled: boolean): void {
-    this.config.confirmKill = enabled;
-    this.saveConfig(this.config);
+    this.update((config) => {
+      config.confirmKill = enabled;
+    });
   }
 
   /**
-   * Validate and migrate config if needed
+   * Get default signal, timeout and escalation for kills
    */
-  private validateAndMigrateConfig(config: any): Config {
-    // Ensure all required fields exist
-    if (!config.version) {
-      config = this.migrateFromV0toV1(config);
-    }
+  getKillSettings(): KillSettings {
+    return {
+      signal: this.getSetting('killSignal'),
+      timeoutMs: this.getSetting('killTimeout'),
+      escalate: this.getSetting('escalate'),
+      respawnWindowMs: this.getSetting('respawnWindow'),
+    };
+  }
+
+  /**
+   * Update default signal, timeout, escalation and/or respawn window for kills
+   */
+  setKillSettings(settings: Partial<KillSettings>): void {
+    this.update((config) => {
+      if (settings.signal !== undefined) {
+        config.killSignal = settings.signal;
+      }
+      if (settings.timeoutMs !== undefined) {
+        config.killTimeout = settings.timeoutMs;
+      }
+      if (settings.escalate !== undefined) {
+        config.escalate = settings.escalate;
+      }
+      if (settings.respawnWindowMs !== undefined) {
+        config.respawnWindow = settings.respawnWindowMs;
+      }
+    });
+  }
+
+  /**
+   * Protected ports, process patterns, users and services
+   */
+  getProtections(): ProtectionRule[] {
+    const declared = this.project ? projectProtections(this.project.config) : [];
+    return [
+      ...this.config.protections,
+      ...declared.filter(
+        (rule) => !this.config.protections.some((r) => sameProtectionRule(r, rule))
+      ),
+    ];
+  }
 
-    // Convert date strings back to Date objects
-    if (config.portMappings) {
-      config.portMappings = config.portMappings.map((m: any) => ({
-        ...m,
-        lastUsed: new Date(m.lastUsed),
-      }));
+  /**
+   * File a protection rule comes from: the .zkillrc or config.json; null when
+   * nothing protects it
+   */
+  getProtectionSource(rule: ProtectionRule): string | null {
+    if (this.config.protections.some((r) => sameProtectionRule(r, rule))) {
+      return this.configPath;
     }
+    return this.project &&
+      projectProtections(this.project.config).some((r) => sameProtectionRule(r, rule))
+      ? this.project.location.path
+      : null;
+  }
 
-    return config as Config;
+  /**
+   * Protect a target; false when an identical rule already exists
+   */
+  addProtection(rule: ProtectionRule): boolean {
+    return this.update((config) => {
+      if (config.protections.some((r) => sameProtectionRule(r, rule))) {
+        return false;
+      }
+      config.protections.push(rule);
+      return true;
+    });
   }
 
   /**
-   * Migrate from version 0 (no version) to version 1
+   * Remove a protection rule; false when there was no such rule
    */
-  private migrateFromV0toV1(oldConfig: any): Config {
-    return {
-      portMappings: oldConfig.portMappings || [],
-      autoKillEnabled: oldConfig.autoKillEnabled || false,
-      confirmKill: true, // New field in v1
-      version: '1.0.0',
-    };
+  removeProtection(rule: ProtectionRule): boolean {
+    return this.update((config) => {
+      const remaining = config.protections.filter((r) => !sameProtectionRule(r, rule));
+      if (remaining.length === config.protections.length) {
+        return false;
+      }
+      config.protections = remaining;
+      return true;
+    });
+  }
+
+  /**
+   * What the last read of config.json migrated and repaired in memory
+   */
+  getRepairReport(): ConfigRepairReport {
+    return this.report;
+  }
+
+  /**
+   * Write config.json back in the current schema with its problems fixed;
+   * returns what was migrated and repaired
+   */
+  repairConfig(): ConfigRepairReport {
+    this.update(() => undefined);
+    return this.report;
+  }
+
+  /**
+   * File an effective setting comes from: the .zkillrc when it sets it,
+   * else config.json
+   */
+  getSettingSource(key: ConfigKey): string {
+    return this.project && this.projectSetting(key) !== undefined
+      ? this.project.location.path
+      : this.configPath;
+  }
+
+  /**
+   * The .zkillrc merged over config.json, if one was found and is valid
+   */
+  getProjectConfigPath(): string | null {
+    return this.project?.location.path ?? null;
+  }
+
+  /**
+   * Effective value of a setting: the .zkillrc's, else config.json's
+   */
+  getSetting<K extends ConfigKey>(key: K): Config[K] {
+    return (this.projectSetting(key) ?? this.config[key]) as Config[K];
+  }
+
+  /**
+   * The .zkillrc's value of a setting; user-only settings never come from it
+   */
+  private projectSetting(key: ConfigKey): Config[ConfigKey] | undefined {
+    const config: Partial<Config> = this.project?.config ?? {};
+    return config[key];
+  }
+
+  /**
+   * Save a setting to config.json
+   */
+  setSetting<K extends ConfigKey>(key: K, value: Config[K]): void {
+    this.update((config) => {
+      config[key] = value;
+    });
+  }
+
+  /**
+   * Put a setting in config.json back to its default
+   */
+  unsetSetting(key: ConfigKey): void {
+    this.setSetting(key, DEFAULT_SETTINGS[key]);
+  }
+
+  /**
+   * Saved mappings with the .zkillrc's declared ports merged over them
+   */
+  private mappings(): PortMapping[] {
+    if (!this.project) {
+      return this.config.portMappings;
+    }
+    return mergePortMappings(
+      this.config.portMappings,
+      projectPortMappings(
+        this.project.config,
+        this.project.location,
+        this.config.portMappings,
+        this.project.modifiedAt
+      )
+    );
+  }
+
+  /**
+   * Whether changes are refused instead of written (--read-only)
+   */
+  isReadOnly(): boolean {
+    return this.readOnly;
   }
 
   /**
@@ -211,7 +599,8 @@ export class StorageService {
    * Clear all configuration (dangerous!)
    */
   clearConfig(): void {
-    this.config = this.createDefaultConfig();
-    this.saveConfig(this.config);
+    this.update((config) => {
+      Object.assign(config, this.createDefaultConfig());
+    });
   }
 }
@@ -0,0 +1,103 @@
+/**
+ * Recognise what restarted a process after zkill killed it (pm2, nodemon,
+ * forever, systemd, launchd, Windows services, docker) and how to stop it.
+ * Pure: callers pass the respawned ProcessInfo and its ancestors.
+ */
+
+import { supervisorName } from "./process-tree";
+import type { ProcessInfo, ProcessListEntry, SupervisorInfo } from "./types";
+
+function matches(entry: ProcessListEntry, pattern: RegExp): boolean {
+  return pattern.test(entry.name) || pattern.test(entry.command);
+}
+
+/** The script a node/python process runs, for `forever stop <script>` */
+function scriptOf(command: string): string {
+  const args = command.split(/\s+/).filter(Boolean);
+  return args.find((arg, i) => i > 0 && !arg.startsWith("-")) ?? "<script>";
+}
+
+/**
+ * Identify the supervisor of a respawned process from its ancestors
+ * (nearest first) and the service fields the adapter filled in.
+ * Ancestors win over service fields: pm2 started by systemd is stopped via pm2.
+ */
+export function detectSupervisor(
+  process: ProcessInfo,
+  ancestors: ProcessListEntry[]
+): SupervisorInfo | null {
+  const port = process.port;
+
+  if (
+    /^docker-proxy$/i.test(process.processName) ||
+    ancestors.some((a) => matches(a, /containerd-shim|dockerd/i))
+  ) {
+    return {
+      kind: "docker",
+      name: "docker",
+      pid: null,
+      stopCommand: `docker stop $(docker ps -q --filter publish=${port})`,
+    };
+  }
+
+  const pm2 = ancestors.find((a) => matches(a, /\bpm2\b/i));
+  if (pm2) {
+    return {
+      kind: "pm2",
+      name: "pm2",
+      pid: pm2.pid,
+      stopCommand: "pm2 stop <app>   (find <app> with: pm2 ls)",
+    };
+  }
+
+  const forever = ancestors.find((a) => matches(a, /\bforever\b/i));
+  if (forever) {
+    return {
+      kind: "forever",
+      name: "forever",
+      pid: forever.pid,
+      stopCommand: `forever stop ${scriptOf(process.command)}`,
+    };
+  }
+
+  // Outermost dev-tool wrapper (npm run dev → nodemon → node)
+  const devTool = [...ancestors].reverse().find((a) => supervisorName(a));
+  if (devTool) {
+    return {
+      kind: "dev-tool",
+      name: supervisorName(devTool) ?? devTool.name,
+      pid: devTool.pid,
+      stopCommand: `zkill ${port} --supervisor`,
+    };
+  }
+
+  if (process.serviceManager === "systemd" && process.serviceName) {
+    return {
+      kind: "systemd",
+      name: process.serviceName,
+      pid: null,
+      stopCommand: `sudo systemctl stop ${process.serviceName}`,
+    };
+  }
+
+  if (process.serviceManager === "launchd" && process.serviceName) {
+    return {
+      kind: "launchd",
+      name: process.serviceName,
+      pid: null,
+      stopCommand: `launchctl bootout gui/$(id -u)/${process.serviceName}`,
+    };
+  }
+
+  if (process.serviceManager === "windows-service") {
+    const name = process.serviceName ?? process.processName;
+    return {
+      kind: "windows-service",
+      name,
+      pid: null,
+      stopCommand: `sc stop "${name}"`,
+    };
+  }
+
+  return null;
+}
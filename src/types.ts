@@ -7,12 +7,38 @@
  */
 export type ServiceManager = 'systemd' | 'launchd' | 'windows-service' | null;
 
+/**
+ * Transport protocol of a listening socket
+ */
+export type PortProtocol = 'tcp' | 'udp';
+
+/**
+ * Which protocols a scan or kill looks at
+ */
+export type ProtocolFilter = PortProtocol | 'all';
+
+/**
+ * Address family of a bound socket
+ */
+export type IpFamily = 'ipv4' | 'ipv6';
+
+/**
+ * Local address a listening socket is bound to ("0.0.0.0", "::1", "*", ...)
+ */
+export interface BindAddress {
+  address: string;
+  family: IpFamily;
+}
+
 /**
  * Information about a process using a port
  */
 export interface ProcessInfo {
   pid: number;
   port: number;
+  protocol?: PortProtocol; // absent means tcp
+  addresses?: BindAddress[]; // every local address bound on this port, when known
+
   processName: string;
   command: string;
   user?: string;
@@ -27,14 +53,69 @@ export interface ProcessInfo {
 }
 
 /**
- * Mapping between a port and a project
+ * One row of the system process table (used to walk process trees)
+ */
+export interface ProcessListEntry {
+  pid: number;
+  parentPid: number;
+  name: string;
+  command: string;
+}
+
+/**
+ * Mapping between a port and a project; saved mappings are keyed on
+ * (projectPath, port), so several projects can map the same port
  */
 export interface PortMapping {
   port: number;
   projectName: string;
   projectPath: string;
+  firstSeen: Date;
   lastUsed: Date;
+  useCount: number; // kills and manual mappings recorded for this project and port
   autoKill: boolean;
+  role?: string; // web, api, db, ... as declared in a .zkillrc
+  configFile?: string; // .zkillrc that declares the port (never saved to config.json)
+}
+
+/**
+ * How a listener was attributed to a project: a saved port mapping, or the
+ * nearest project root above its working directory or command-line paths
+ */
+export type ProjectSource = 'mapped' | 'inferred';
+
+export interface ProjectOwner {
+  source: ProjectSource;
+  projectName: string;
+  projectPath: string;
+}
+
+/**
+ * A .zkillrc found at or above the working directory, and the project it belongs to
+ */
+export interface ProjectConfigLocation {
+  path: string;
+  projectName: string;
+  projectPath: string;
+}
+
+/**
+ * Signals that can be sent to a process
+ */
+export type KillSignal = 'SIGINT' | 'SIGTERM' | 'SIGHUP' | 'SIGQUIT' | 'SIGKILL';
+
+/**
+ * What a protection rule matches: a port, a process name pattern (glob or
+ * /regex/, as for --name), the user owning the process, or its service
+ */
+export type ProtectionKind = 'port' | 'process' | 'user' | 'service';
+
+/**
+ * A target zkill refuses to kill unless told to ignore protection
+ */
+export interface ProtectionRule {
+  kind: ProtectionKind;
+  value: string;
 }
 
 /**
@@ -44,7 +125,68 @@ export interface Config {
   portMappings: PortMapping[];
   autoKillEnabled: boolean;
   confirmKill: boolean;
-  version: string;
+  killSignal: KillSignal; // first signal sent by zkill <port>
+  killTimeout: number; // ms to wait for exit before escalating
+  escalate: boolean; // send SIGKILL when the first signal times out
+  respawnWindow: number; // ms to watch a freed port for a restarted process (0 = off)
+  protections: ProtectionRule[]; // managed with zkill protect
+  version: number; // schema version; see CONFIG_MIGRATIONS
+}
+
+/**
+ * Effective signal/timeout/escalation settings for a kill
+ */
+export interface KillSettings {
+  signal: KillSignal;
+  timeoutMs: number;
+  escalate: boolean;
+  respawnWindowMs: number;
+}
+
+/**
+ * Whether zkill may signal a PID: it may, it lacks permission, or the
+ * process has already exited
+ */
+export type SignalAccess = 'allowed' | 'denied' | 'gone';
+
+/**
+ * Options for a single adapter kill attempt
+ */
+export interface KillProcessOptions {
+  signal?: KillSignal; // ignored when force is true (always SIGKILL)
+  timeoutMs?: number; // how long to poll for the process to exit
+}
+
+/**
+ * Kinds of supervisor that restart a process after it is killed
+ */
+export type SupervisorKind =
+  | 'systemd'
+  | 'launchd'
+  | 'windows-service'
+  | 'docker'
+  | 'pm2'
+  | 'forever'
+  | 'dev-tool';
+
+/**
+ * Who restarted a process, and how to stop it for good
+ */
+export interface SupervisorInfo {
+  kind: SupervisorKind;
+  name: string; // service/unit/label, or the supervisor's process name
+  pid: number | null;
+  stopCommand: string;
+}
+
+/**
+ * A port that was taken again shortly after its process was killed
+ */
+export interface RespawnReport {
+  port: number;
+  pid: number;
+  processName: string;
+  supervisor: SupervisorInfo | null; // null when no supervisor was recognised
 }
 
 /**
@@ -56,6 +198,50 @@ export interface KillResult {
   port: number;
   method: 'graceful' | 'force';
   error?: string;
+  respawns?: RespawnReport[]; // ports re-bound within the respawn window
+}
+
+/**
+ * What happened to one port handled by the kill command
+ */
+export type KillStatus = 'killed' | 'failed' | 'not-found' | 'cancelled' | 'protected';
+
+/**
+ * Per-port outcome of the kill command (drives JSON output)
+ */
+export interface KillOutcome {
+  port: number;
+  status: KillStatus;
+  process: ProcessInfo | null;
+  isSystemProcess: boolean;
+  result: KillResult | null; // null when no kill was attempted
+  error: string | null;
+  protection?: ProtectionRule; // set when skipped because the target is protected
+}
+
+/**
+ * What started a kill, as recorded in the history
+ */
+export type KillTrigger = 'manual' | 'range' | 'name' | 'project' | 'ui' | 'auto';
+
+/**
+ * One kill attempt in the audit log (~/.zkill/history.jsonl)
+ */
+export interface AuditEntry {
+  timestamp: string; // ISO 8601
+  port: number;
+  protocol: PortProtocol;
+  pid: number;
+  processName: string;
+  command: string;
+  project: string | null; // project the port belonged to, mapped or inferred
+  user: string | null; // who ran zkill
+  processUser: string | null; // owner of the killed process
+  signal: KillSignal; // first signal sent
+  method: 'graceful' | 'force';
+  success: boolean;
+  error: string | null;
+  trigger: KillTrigger;
 }
 
 /**
@@ -70,15 +256,27 @@ export interface PlatformAdapter {
   /**
    * Find process using a specific port
    */
-  findProcessByPort(port: number): Promise<ProcessInfo | null>;
+  findProcessByPort(
+    port: number,
+    protocol?: PortProtocol
+  ): Promise<ProcessInfo | null>;
+
+  /**
+   * Kill a process by PID and wait (up to options.timeoutMs) for it to exit
+   */
+  killProcess(
+    pid: number,
+    force: boolean,
+    options?: KillProcessOptions
+  ): Promise<boolean>;
 
   /**
-   * Kill a process by PID
+   * Get all listening ports (TCP listeners and bound UDP sockets)
    */
-  killProcess(pid: number, force: boolean): Promise<boolean>;
+  getAllListeningPorts(protocols?: PortProtocol[]): Promise<ProcessInfo[]>;
 
   /**
-   * Get all listening ports
+   * List every running process with its parent PID
    */
-  getAllListeningPorts(): Promise<ProcessInfo[]>;
+  listProcesses(): Promise<ProcessListEntry[]>;
 }
@@ -0,0 +1,143 @@
+/**
+ * State of the `zkill ui` listener picker: rows, fuzzy filter, cursor and
+ * multi-selection. Pure: every update returns a new state, so the command
+ * only has to map keys to updates and render.
+ */
+
+import type { ProcessInfo } from "./types";
+
+export interface UiRow {
+  process: ProcessInfo;
+  projectName: string | null;
+  isSystemProcess: boolean;
+}
+
+export interface UiState {
+  rows: UiRow[];
+  query: string;
+  /** True while the user is typing into the filter */
+  filtering: boolean;
+  /** Index into visibleRows() */
+  cursor: number;
+  /** rowKey() of every selected row */
+  selected: Set<string>;
+}
+
+export function rowKey(row: UiRow): string {
+  const { pid, port, protocol } = row.process;
+  return `${pid}:${port}/${protocol ?? "tcp"}`;
+}
+
+/**
+ * Case-insensitive subsequence match: "nxd" matches "next dev"
+ */
+export function fuzzyMatch(query: string, text: string): boolean {
+  const needle = query.toLowerCase().replace(/\s+/g, "");
+  const haystack = text.toLowerCase();
+  let index = 0;
+  for (const char of needle) {
+    index = haystack.indexOf(char, index);
+    if (index < 0) {
+      return false;
+    }
+    index++;
+  }
+  return true;
+}
+
+function searchText(row: UiRow): string {
+  const p = row.process;
+  return [p.port, p.processName, row.projectName ?? "", p.pid, p.command].join(" ");
+}
+
+export function createUiState(rows: UiRow[]): UiState {
+  return { rows, query: "", filtering: false, cursor: 0, selected: new Set() };
+}
+
+/**
+ * Rows matching the filter query, in scan order
+ */
+export function visibleRows(state: UiState): UiRow[] {
+  if (!state.query) {
+    return state.rows;
+  }
+  return state.rows.filter((row) => fuzzyMatch(state.query, searchText(row)));
+}
+
+/**
+ * Row under the cursor, or null when nothing is visible
+ */
+export function currentRow(state: UiState): UiRow | null {
+  return visibleRows(state)[state.cursor] ?? null;
+}
+
+function clampCursor(state: UiState): UiState {
+  const last = visibleRows(state).length - 1;
+  return { ...state, cursor: Math.max(0, Math.min(state.cursor, last)) };
+}
+
+export function moveCursor(state: UiState, delta: number): UiState {
+  return clampCursor({ ...state, cursor: state.cursor + delta });
+}
+
+export function setQuery(state: UiState, query: string): UiState {
+  return clampCursor({ ...state, query, cursor: 0 });
+}
+
+export function setFiltering(state: UiState, filtering: boolean): UiState {
+  return { ...state, filtering };
+}
+
+export function toggleSelection(state: UiState): UiState {
+  const row = currentRow(state);
+  if (!row) {
+    return state;
+  }
+  const selected = new Set(state.selected);
+  const key = rowKey(row);
+  if (selected.has(key)) {
+    selected.delete(key);
+  } else {
+    selected.add(key);
+  }
+  return { ...state, selected };
+}
+
+/**
+ * Select every visible row, or clear the selection if all are selected
+ */
+export function toggleAll(state: UiState): UiState {
+  const keys = visibleRows(state).map(rowKey);
+  const allSelected = keys.length > 0 && keys.every((k) => state.selected.has(k));
+  return { ...state, selected: allSelected ? new Set() : new Set(keys) };
+}
+
+/**
+ * Rows an action applies to: the visible selection, else the cursor row
+ */
+export function actionTargets(state: UiState): UiRow[] {
+  const selected = visibleRows(state).filter((row) =>
+    state.selected.has(rowKey(row))
+  );
+  if (selected.length > 0) {
+    return selected;
+  }
+  const row = currentRow(state);
+  return row ? [row] : [];
+}
+
+/**
+ * Swap in a fresh scan, keeping the selection of rows that still exist and
+ * the cursor on the same listener when possible
+ */
+export function replaceRows(state: UiState, rows: UiRow[]): UiState {
+  const current = currentRow(state);
+  const keys = new Set(rows.map(rowKey));
+  const selected = new Set([...state.selected].filter((k) => keys.has(k)));
+  const next: UiState = { ...state, rows, selected };
+
+  const index = current
+    ? visibleRows(next).findIndex((row) => rowKey(row) === rowKey(current))
+    : -1;
+  return clampCursor({ ...next, cursor: index >= 0 ? index : state.cursor });
+}